@@ -0,0 +1,155 @@
+const { bundle } = require("@remotion/bundler");
+const crypto = require("node:crypto");
+const fs = require("node:fs");
+const fsp = require("node:fs/promises");
+const path = require("node:path");
+const os = require("node:os");
+
+// Remotion bundles reused across renders. A bundle lives in
+// <cache dir>/<key>, where the key hashes everything that ends up in it: the
+// sources under src/, the fonts it loads with staticFile(), the dependency
+// lockfiles and configs, and the bundle options. A deploy that changes any of
+// them produces a new key, so stale bundles are never served.
+
+const CACHE_DIR =
+	process.env.RENDER_BUNDLE_CACHE_DIR ||
+	path.join(os.tmpdir(), "remotion-bundle-cache");
+// Older bundles are pruned; keep a few so renders that started before a
+// deploy can still finish on theirs
+const KEEP_BUNDLES = Math.max(
+	1,
+	Number(process.env.RENDER_BUNDLE_CACHE_KEEP) || 3,
+);
+// Leftovers from builds that crashed before they were moved into place
+const STALE_BUILD_MS = 60 * 60 * 1000;
+
+// Not all of public/: uploads land there at runtime, but compositions only
+// read fonts from it
+const HASHED_DIRS = ["src", path.join("public", "fonts")];
+const HASHED_FILES = [
+	"package.json",
+	"package-lock.json",
+	"pnpm-lock.yaml",
+	"tsconfig.json",
+	"remotion.config.ts",
+];
+
+async function hashDir(hash, root, dir) {
+	let entries;
+	try {
+		entries = await fsp.readdir(dir, { withFileTypes: true });
+	} catch {
+		return;
+	}
+	entries.sort((a, b) => a.name.localeCompare(b.name));
+
+	for (const entry of entries) {
+		const fullPath = path.join(dir, entry.name);
+		if (entry.isDirectory()) {
+			await hashDir(hash, root, fullPath);
+		} else if (entry.isFile()) {
+			hash.update(path.relative(root, fullPath));
+			hash.update("\0");
+			hash.update(await fsp.readFile(fullPath));
+			hash.update("\0");
+		}
+	}
+}
+
+async function getBundleKey(projectRoot, options) {
+	const hash = crypto.createHash("sha256");
+	hash.update(require("@remotion/bundler/package.json").version);
+	hash.update(
+		JSON.stringify(options, (key, value) =>
+			typeof value === "function" ? value.toString() : value,
+		),
+	);
+
+	for (const dir of HASHED_DIRS) {
+		await hashDir(hash, projectRoot, path.join(projectRoot, dir));
+	}
+	for (const file of HASHED_FILES) {
+		try {
+			hash.update(file);
+			hash.update(await fsp.readFile(path.join(projectRoot, file)));
+		} catch {
+			// Not every checkout has every lockfile
+		}
+	}
+
+	return hash.digest("hex").slice(0, 24);
+}
+
+async function pruneBundles(currentKey, log) {
+	const entries = await fsp.readdir(CACHE_DIR, { withFileTypes: true });
+	const bundles = [];
+	for (const entry of entries) {
+		if (!entry.isDirectory() || entry.name === currentKey) continue;
+		const fullPath = path.join(CACHE_DIR, entry.name);
+		const { mtimeMs } = await fsp.stat(fullPath);
+		if (entry.name.includes(".build-")) {
+			if (Date.now() - mtimeMs > STALE_BUILD_MS) {
+				await fsp.rm(fullPath, { recursive: true, force: true });
+			}
+			continue;
+		}
+		bundles.push({ fullPath, mtimeMs });
+	}
+
+	bundles.sort((a, b) => b.mtimeMs - a.mtimeMs);
+	for (const { fullPath } of bundles.slice(KEEP_BUNDLES - 1)) {
+		log(`Pruning old bundle ${fullPath}`);
+		await fsp.rm(fullPath, { recursive: true, force: true });
+	}
+}
+
+/**
+ * Returns { serveUrl, cacheHit }. `options` are passed to bundle() as is,
+ * minus entryPoint and outDir.
+ *
+ * @param {{
+ *   projectRoot: string;
+ *   options?: Record<string, unknown>;
+ *   log?: (message: string) => void;
+ * }} params
+ */
+async function getCachedBundle({ projectRoot, options = {}, log = () => {} }) {
+	const entryPoint = path.join(projectRoot, "src", "remotion", "index.tsx");
+	const hashStart = Date.now();
+	const key = await getBundleKey(projectRoot, options);
+	const bundleDir = path.join(CACHE_DIR, key);
+	log(`Bundle key ${key} (hashed in ${Date.now() - hashStart}ms)`);
+
+	if (fs.existsSync(path.join(bundleDir, "index.html"))) {
+		// Mark as recently used so pruning keeps it
+		const now = new Date();
+		await fsp.utimes(bundleDir, now, now).catch(() => {});
+		log(`Using cached bundle ${bundleDir}`);
+		return { serveUrl: bundleDir, cacheHit: true };
+	}
+
+	// Build next to the final location and rename into place, so a
+	// concurrent render never sees a half-written bundle
+	await fsp.mkdir(CACHE_DIR, { recursive: true });
+	const buildDir = `${bundleDir}.build-${process.pid}-${Date.now()}`;
+	log(`No cached bundle, building into ${buildDir}`);
+	try {
+		await bundle({ ...options, entryPoint, outDir: buildDir });
+		await fsp.rename(buildDir, bundleDir);
+	} catch (error) {
+		await fsp.rm(buildDir, { recursive: true, force: true });
+		// Another render finished the same bundle first
+		if (!fs.existsSync(path.join(bundleDir, "index.html"))) {
+			throw error;
+		}
+	}
+
+	try {
+		await pruneBundles(key, log);
+	} catch (error) {
+		log(`Bundle cache pruning failed (non-critical): ${error}`);
+	}
+	return { serveUrl: bundleDir, cacheHit: false };
+}
+
+module.exports = { getCachedBundle };
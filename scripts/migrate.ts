@@ -0,0 +1,36 @@
+import { getDb, getMigrator } from "../src/lib/db";
+
+// Usage: tsx scripts/migrate.ts up|down
+async function main() {
+	const direction = process.argv[2];
+	if (direction !== "up" && direction !== "down") {
+		console.error("Usage: tsx scripts/migrate.ts up|down");
+		process.exit(1);
+	}
+
+	const db = getDb();
+	const migrator = getMigrator(db);
+	const { error, results } =
+		direction === "up"
+			? await migrator.migrateToLatest()
+			: await migrator.migrateDown();
+
+	for (const result of results ?? []) {
+		const marker = result.status === "Success" ? "✅" : "❌";
+		console.log(
+			`${marker} ${result.direction} ${result.migrationName}: ${result.status}`,
+		);
+	}
+	if (results?.length === 0) {
+		console.log("Nothing to migrate");
+	}
+
+	await db.destroy();
+
+	if (error) {
+		console.error("❌ Migration failed:", error);
+		process.exit(1);
+	}
+}
+
+main();
@@ -0,0 +1,56 @@
+// Export preset -> renderMedia() settings, shared by render-local.cjs and
+// render-local.ts.
+
+/**
+ * Remotion `scale` that brings a composition's shorter edge to an export
+ * preset's short side.
+ *
+ * @param {number | null | undefined} shortSide target shorter edge in pixels
+ * @param {number} width composition width
+ * @param {number} height composition height
+ * @returns {number}
+ */
+function getPresetScale(shortSide, width, height) {
+	if (!shortSide) return 1;
+	// Round to an even pixel count - H.264 and VP9 reject odd dimensions
+	const evenShortSide = Math.round(shortSide / 2) * 2;
+	return evenShortSide / Math.min(width, height);
+}
+
+// Translate an export preset into renderMedia() options. Without a preset the
+// historical defaults apply: design-sized H.264 at CRF 23 with audio.
+function getEncoderOptions(preset, composition) {
+	if (!preset) {
+		return {
+			codec: "h264",
+			enforceAudioTrack: true,
+			pixelFormat: "yuv420p",
+			crf: 23,
+		};
+	}
+
+	const options = {
+		codec: preset.codec,
+		enforceAudioTrack: preset.audio,
+		muted: !preset.audio,
+	};
+
+	if (preset.shortSide) {
+		options.scale = getPresetScale(
+			preset.shortSide,
+			composition.width,
+			composition.height,
+		);
+	}
+	if (preset.crf !== undefined) options.crf = preset.crf;
+	if (preset.videoBitrate) options.videoBitrate = preset.videoBitrate;
+	if (preset.audio && preset.audioBitrate) {
+		options.audioBitrate = preset.audioBitrate;
+	}
+	if (preset.pixelFormat) options.pixelFormat = preset.pixelFormat;
+	if (preset.proResProfile) options.proResProfile = preset.proResProfile;
+
+	return options;
+}
+
+module.exports = { getEncoderOptions, getPresetScale };
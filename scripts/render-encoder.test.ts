@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { getExportPreset } from "../src/features/editor/constants/export-presets";
+import { getEncoderOptions, getPresetScale } from "./render-encoder.cjs";
+
+const LANDSCAPE = { width: 1920, height: 1080 };
+
+describe("getEncoderOptions", () => {
+	it("passes the ProRes profile under the name renderMedia() reads", () => {
+		assert.deepEqual(
+			getEncoderOptions(getExportPreset("archive-prores-422"), LANDSCAPE),
+			{
+				codec: "prores",
+				enforceAudioTrack: true,
+				muted: false,
+				pixelFormat: "yuv422p10le",
+				proResProfile: "standard",
+			},
+		);
+	});
+
+	it("scales to the preset's short side with its CRF", () => {
+		assert.deepEqual(
+			getEncoderOptions(getExportPreset("draft-540p"), LANDSCAPE),
+			{
+				codec: "h264",
+				enforceAudioTrack: true,
+				muted: false,
+				scale: 0.5,
+				crf: 30,
+				pixelFormat: "yuv420p",
+			},
+		);
+	});
+
+	it("keeps the historical defaults without a preset", () => {
+		assert.deepEqual(getEncoderOptions(undefined, LANDSCAPE), {
+			codec: "h264",
+			enforceAudioTrack: true,
+			pixelFormat: "yuv420p",
+			crf: 23,
+		});
+	});
+});
+
+describe("getPresetScale", () => {
+	it("rounds the short side to an even pixel count", () => {
+		assert.equal(getPresetScale(541, 1000, 1000), 0.542);
+		assert.equal(getPresetScale(null, 1000, 1000), 1);
+	});
+});
@@ -1,9 +1,18 @@
-const { bundle } = require("@remotion/bundler");
-const { renderMedia, selectComposition } = require("@remotion/renderer");
+const {
+	combineChunks,
+	renderMedia,
+	renderStill,
+	selectComposition,
+} = require("@remotion/renderer");
+const { spawn } = require("node:child_process");
 const fs = require("fs");
 const fsp = require("fs/promises");
 const path = require("path");
 const os = require("os");
+const { getCachedBundle } = require("./bundle-cache.cjs");
+const { generatePreviews } = require("./render-previews.cjs");
+const { normalizeLoudness } = require("./render-loudness.cjs");
+const { getEncoderOptions } = require("./render-encoder.cjs");
 
 // System diagnostics helper
 function logSystemInfo() {
@@ -39,6 +48,349 @@ function logTimestamp(label) {
 	process.stderr.write(`[render-timing] ${timestamp} - ${label}\n`);
 }
 
+// The progress file is what the render queue streams to the client. `stage`
+// is one of bundling, selecting-composition, rendering or encoding; the
+// queue adds queued/done/error itself. Once the bundle is resolved every
+// update also carries `bundleCache` ("hit" or "miss").
+function writeProgress(data) {
+	if (!global.progressFilePath) return;
+	try {
+		fs.writeFileSync(
+			global.progressFilePath,
+			JSON.stringify({ ...data, bundleCache: global.bundleCache }),
+		);
+	} catch (e) {
+		process.stderr.write(`[render-local] Failed to write progress: ${e}\n`);
+	}
+}
+
+// Convert the target's millisecond times into frames of the composition,
+// using the same duration fallback as calculateMetadata in src/remotion.
+function getTargetFrames(design, target) {
+	const fps = design.fps || 30;
+	const totalFrames = Math.max(
+		1,
+		Math.ceil(((design.duration || 10000) / 1000) * fps),
+	);
+	const toFrame = (ms) =>
+		Math.min(totalFrames - 1, Math.max(0, Math.round((ms / 1000) * fps)));
+
+	// The out point is exclusive, so an out point at the very end keeps the
+	// last frame
+	const range = target.range
+		? [
+				toFrame(target.range.start),
+				Math.min(totalFrames, Math.round((target.range.end / 1000) * fps)) - 1,
+			]
+		: null;
+	// A range shorter than one frame still renders that frame
+	const frameRange = range ? [range[0], Math.max(range[0], range[1])] : null;
+
+	let sheetFrames = [];
+	if (target.kind === "contact-sheet") {
+		const [first, last] = frameRange || [0, totalFrames - 1];
+		const span = last - first + 1;
+		// Sample the middle of N equal slices so the first and last cells
+		// aren't black fade-in/fade-out frames
+		sheetFrames = Array.from({ length: target.frames }, (_, i) =>
+			Math.min(last, first + Math.floor(((i + 0.5) * span) / target.frames)),
+		);
+	}
+
+	return {
+		frameRange:
+			target.kind === "video" || target.kind === "audio" ? frameRange : null,
+		stillFrame: target.kind === "still" ? toFrame(target.time) : 0,
+		sheetFrames,
+	};
+}
+
+// Audio-only renders go through the same composition, so every item's
+// volume, muted flag, trim and playbackRate apply exactly as in video exports.
+// imageFormat "none" skips taking screenshots entirely.
+function getAudioEncoderOptions(audio) {
+	const options = {
+		codec: audio.codec,
+		imageFormat: "none",
+		// Silent timelines still produce a (silent) file
+		enforceAudioTrack: true,
+	};
+	if (audio.audioBitrate) options.audioBitrate = audio.audioBitrate;
+	return options;
+}
+
+function getOutputExtension(target, preset, audio) {
+	switch (target.kind) {
+		case "audio":
+			return audio?.extension || "mp3";
+		case "still":
+		case "contact-sheet":
+			return target.imageFormat === "jpeg" ? "jpg" : "png";
+		default:
+			return preset?.extension || "mp4";
+	}
+}
+
+// Long video renders are split into frame-range chunks that are rendered on
+// their own and stream-copied together at the end. Finished chunks are
+// recorded in a manifest inside the chunk directory, which the render queue
+// keeps between attempts, so a retry only renders what is missing.
+const CHUNK_FRAMES = Math.max(
+	30,
+	Number(process.env.RENDER_CHUNK_FRAMES || 900),
+);
+const MAX_PARALLEL_CHUNKS = Math.max(
+	1,
+	Number(process.env.RENDER_MAX_PARALLEL_CHUNKS || 2),
+);
+// Rough peak of one renderMedia() call: Chrome, frame buffers and ffmpeg
+const CHUNK_MEMORY_MB = Math.max(
+	256,
+	Number(process.env.RENDER_CHUNK_MEMORY_MB || 1536),
+);
+
+// Audio codec per chunkable video codec. Chunk audio is rendered to separate
+// files so AAC can be joined without gaps; the others are concatenated.
+const CHUNK_AUDIO = {
+	h264: { audioCodec: "aac", extension: "aac" },
+	prores: { audioCodec: "pcm-16", extension: "wav" },
+	vp9: { audioCodec: "opus", extension: "opus" },
+};
+
+function getChunkRanges(frameRange, framesPerChunk) {
+	const [first, last] = frameRange;
+	const ranges = [];
+	for (let start = first; start <= last; start += framesPerChunk) {
+		ranges.push([start, Math.min(last, start + framesPerChunk - 1)]);
+	}
+	return ranges;
+}
+
+// Parallel chunks each start their own Chrome, so only run as many as the
+// free memory allows right now
+function getParallelChunkCount(chunkCount) {
+	const freeMemMB = Math.round(os.freemem() / 1024 / 1024);
+	const byMemory = Math.floor(freeMemMB / CHUNK_MEMORY_MB);
+	return Math.max(1, Math.min(MAX_PARALLEL_CHUNKS, byMemory, chunkCount));
+}
+
+async function readChunkManifest(manifestPath, settings) {
+	try {
+		const manifest = JSON.parse(await fsp.readFile(manifestPath, "utf-8"));
+		// Chunks from different encoder settings can't be joined
+		if (JSON.stringify(manifest.settings) === JSON.stringify(settings)) {
+			return new Set(manifest.completed);
+		}
+		process.stderr.write(
+			"[render-local] Chunk settings changed, discarding old chunks\n",
+		);
+	} catch {
+		// No checkpoint yet
+	}
+	return new Set();
+}
+
+async function renderInChunks({
+	renderOptions,
+	encoderOptions,
+	frameRange,
+	compositionDurationInFrames,
+	fps,
+	chunkDir,
+	outputLocation,
+	extension,
+}) {
+	await fsp.mkdir(chunkDir, { recursive: true });
+
+	const codec = encoderOptions.codec;
+	const chunkAudio = encoderOptions.muted ? null : CHUNK_AUDIO[codec];
+	const ranges = getChunkRanges(frameRange, CHUNK_FRAMES);
+	const totalFrames = frameRange[1] - frameRange[0] + 1;
+	const settings = { encoderOptions, frameRange, framesPerChunk: CHUNK_FRAMES };
+	const manifestPath = path.join(chunkDir, "manifest.json");
+	const completed = await readChunkManifest(manifestPath, settings);
+
+	const chunkFiles = ranges.map((_, index) => {
+		const name = `chunk-${String(index).padStart(4, "0")}`;
+		return {
+			video: path.join(chunkDir, `${name}.${extension}`),
+			audio: chunkAudio
+				? path.join(chunkDir, `${name}.${chunkAudio.extension}`)
+				: null,
+		};
+	});
+
+	// A chunk only counts as done if the manifest says so and its files exist
+	for (const index of [...completed]) {
+		const files = chunkFiles[index];
+		if (
+			!files ||
+			!fs.existsSync(files.video) ||
+			(files.audio && !fs.existsSync(files.audio))
+		) {
+			completed.delete(index);
+		}
+	}
+
+	const pending = ranges
+		.map((_, index) => index)
+		.filter((index) => !completed.has(index));
+	const parallel = getParallelChunkCount(pending.length);
+	process.stderr.write(
+		`[render-local] Chunked render: ${ranges.length} chunks of ${CHUNK_FRAMES} frames, ${completed.size} already done, ${parallel} in parallel\n`,
+	);
+
+	const chunkFrames = (index) => ranges[index][1] - ranges[index][0] + 1;
+	const renderedByChunk = new Map();
+	const reportProgress = () => {
+		let renderedFrames = 0;
+		for (const index of completed) renderedFrames += chunkFrames(index);
+		for (const frames of renderedByChunk.values()) renderedFrames += frames;
+		writeProgress({
+			stage: "rendering",
+			// The last 5% is the final stitch
+			progress: Math.round((renderedFrames / totalFrames) * 95),
+			timestamp: Date.now(),
+			renderedFrames,
+			totalFrames,
+			chunks: { completed: completed.size, total: ranges.length },
+		});
+	};
+	reportProgress();
+
+	const saveManifest = () =>
+		fsp.writeFile(
+			manifestPath,
+			JSON.stringify({ settings, completed: [...completed] }, null, 2),
+		);
+
+	const renderChunk = async (index) => {
+		const [start, end] = ranges[index];
+		const files = chunkFiles[index];
+		const chunkStartTime = Date.now();
+		process.stderr.write(
+			`[render-local] Chunk ${index + 1}/${ranges.length}: frames ${start}-${end}\n`,
+		);
+
+		await renderMedia({
+			...renderOptions,
+			...encoderOptions,
+			outputLocation: files.video,
+			frameRange: [start, end],
+			// Needed to line chunk audio up with the rest of the range
+			compositionStart: frameRange[0],
+			...(chunkAudio
+				? {
+						audioCodec: chunkAudio.audioCodec,
+						separateAudioTo: files.audio,
+						forSeamlessAacConcatenation: chunkAudio.audioCodec === "aac",
+					}
+				: {}),
+			onProgress: (progress) => {
+				renderedByChunk.set(index, progress.renderedFrames || 0);
+				reportProgress();
+			},
+		});
+
+		renderedByChunk.delete(index);
+		completed.add(index);
+		await saveManifest();
+		reportProgress();
+		process.stderr.write(
+			`[render-local] Chunk ${index + 1}/${ranges.length} done in ${Date.now() - chunkStartTime}ms\n`,
+		);
+	};
+
+	const queue = [...pending];
+	await Promise.all(
+		Array.from({ length: parallel }, async () => {
+			for (;;) {
+				const index = queue.shift();
+				if (index === undefined) break;
+				await renderChunk(index);
+			}
+		}),
+	);
+
+	logTimestamp("All chunks rendered, stitching");
+	await combineChunks({
+		outputLocation,
+		videoFiles: chunkFiles.map((files) => files.video),
+		audioFiles: chunkAudio ? chunkFiles.map((files) => files.audio) : [],
+		codec,
+		fps,
+		framesPerChunk: CHUNK_FRAMES,
+		// Video is stream-copied; audio keeps the chunks' codec
+		preferLossless: false,
+		audioCodec: chunkAudio ? chunkAudio.audioCodec : null,
+		audioBitrate: encoderOptions.audioBitrate || null,
+		compositionDurationInFrames,
+		frameRange,
+		logLevel: "error",
+		onProgress: ({ totalProgress }) => {
+			writeProgress({
+				stage: "encoding",
+				progress: 95 + Math.round(totalProgress * 5),
+				timestamp: Date.now(),
+				renderedFrames: totalFrames,
+				totalFrames,
+				chunks: { completed: ranges.length, total: ranges.length },
+			});
+		},
+	});
+
+	await fsp.rm(chunkDir, { recursive: true, force: true });
+}
+
+// Adds the subtitles resolved by the render queue as a soft track, copying
+// the encoded audio and video as they are. MP4/MOV players read mov_text;
+// WebM only takes WebVTT.
+async function muxSubtitles(outputLocation, subtitles) {
+	const srtPath = `${outputLocation}.srt`;
+	const muxedPath = `${outputLocation}.subs${path.extname(outputLocation)}`;
+	await fsp.writeFile(srtPath, subtitles.srt);
+
+	try {
+		await new Promise((resolve, reject) => {
+			const ffmpeg = spawn("ffmpeg", [
+				"-y",
+				"-i",
+				outputLocation,
+				"-i",
+				srtPath,
+				"-map",
+				"0",
+				"-map",
+				"1",
+				"-c",
+				"copy",
+				"-c:s",
+				subtitles.codec,
+				"-metadata:s:s:0",
+				"language=und",
+				muxedPath,
+			]);
+			let stderr = "";
+			ffmpeg.stderr.on("data", (chunk) => {
+				stderr += chunk;
+			});
+			ffmpeg.on("error", reject);
+			ffmpeg.on("close", (code) => {
+				if (code === 0) return resolve();
+				reject(
+					new Error(
+						`Muxing subtitles failed (ffmpeg exit ${code}): ${stderr.slice(-1000)}`,
+					),
+				);
+			});
+		});
+		await fsp.rename(muxedPath, outputLocation);
+	} finally {
+		await fsp.rm(srtPath, { force: true });
+		await fsp.rm(muxedPath, { force: true });
+	}
+}
+
 async function main() {
 	logTimestamp("Render script started");
 	logSystemInfo();
@@ -47,6 +399,8 @@ async function main() {
 	const designArg = args.find((a) => a.startsWith("--design="));
 	const sessionArg = args.find((a) => a.startsWith("--session="));
 	const progressArg = args.find((a) => a.startsWith("--progress="));
+	// Checkpoint directory for chunked renders; without it renders run in one pass
+	const chunksArg = args.find((a) => a.startsWith("--chunks="));
 
 	if (!designArg) {
 		process.stderr.write("Missing --design=path\n");
@@ -63,10 +417,7 @@ async function main() {
 			`[render-local] Progress file: ${global.progressFilePath}\n`,
 		);
 		// Initialize progress file
-		fs.writeFileSync(
-			global.progressFilePath,
-			JSON.stringify({ progress: 0, timestamp: Date.now() }),
-		);
+		writeProgress({ stage: "bundling", progress: 0, timestamp: Date.now() });
 	}
 
 	process.stderr.write(`[render-local] Session ID: ${sessionId}\n`);
@@ -74,7 +425,41 @@ async function main() {
 
 	const raw = await fsp.readFile(designPath, "utf-8");
 	logTimestamp("Design file read successfully");
-	const { design } = JSON.parse(raw);
+	const {
+		design,
+		preset,
+		target: rawTarget,
+		audio,
+		subtitles,
+		loudness,
+	} = JSON.parse(raw);
+	// What to produce: a (ranged) video or audio mix, one still or a contact sheet
+	const target = rawTarget || { kind: "video" };
+	process.stderr.write(
+		`[render-local] Export target: ${JSON.stringify(target)}\n`,
+	);
+
+	// Soft-only captions: keep them out of the picture, they become a track
+	if (target.kind === "video" && subtitles?.hideItemIds?.length) {
+		const hidden = new Set(subtitles.hideItemIds);
+		design.trackItems = (design.trackItems || []).filter(
+			(item) => !hidden.has(item.id),
+		);
+		process.stderr.write(
+			`[render-local] Leaving ${hidden.size} caption items out of the picture\n`,
+		);
+	}
+
+	// Export preset resolved by the API route; older design files have none.
+	// Stills are rendered at design size and frame rate.
+	if (preset && target.kind === "video") {
+		process.stderr.write(
+			`[render-local] Export preset: ${preset.name} (${preset.codec}, .${preset.extension})\n`,
+		);
+		if (preset.fps) {
+			design.fps = preset.fps;
+		}
+	}
 
 	// ALL LOGS GO TO STDERR, NOT STDOUT
 	process.stderr.write(
@@ -135,7 +520,6 @@ async function main() {
 	}
 
 	const entry = path.join(projectRoot, "src", "remotion", "index.tsx");
-	const outdir = await fsp.mkdtemp(path.join(os.tmpdir(), "remotion-bundle-"));
 
 	process.stderr.write(
 		`[render-local] Project root resolved to: ${projectRoot}\n`,
@@ -174,19 +558,35 @@ async function main() {
 		process.stderr.write(`[remotion-info] ${args.join(" ")}\n`);
 
 	const bundleStartTime = Date.now();
-	const serveUrl = await bundle({
-		entryPoint: entry,
-		outDir: outdir,
-		verbose: false,
-		logLevel: "error",
+	const { serveUrl, cacheHit } = await getCachedBundle({
+		projectRoot,
+		options: { verbose: false, logLevel: "error" },
+		log: (message) => process.stderr.write(`[bundle-cache] ${message}\n`),
 	});
+	global.bundleCache = cacheHit ? "hit" : "miss";
+	writeProgress({ stage: "bundling", progress: 0, timestamp: Date.now() });
 	const bundleDuration = Date.now() - bundleStartTime;
-	logTimestamp(`Bundle completed in ${bundleDuration}ms`);
+	logTimestamp(
+		`Bundle ${cacheHit ? "loaded from cache" : "completed"} in ${bundleDuration}ms`,
+	);
 	process.stderr.write(`[render-local] Bundle URL: ${serveUrl}\n`);
 
 	// Get composition with the design props
-	const compositionId = "TimelineComposition";
-	const inputProps = { design };
+	const frames = getTargetFrames(design, target);
+	const compositionId =
+		target.kind === "contact-sheet"
+			? "ContactSheetComposition"
+			: "TimelineComposition";
+	const inputProps =
+		target.kind === "contact-sheet"
+			? {
+					design,
+					contactSheet: {
+						frames: frames.sheetFrames,
+						columns: Math.ceil(Math.sqrt(frames.sheetFrames.length)),
+					},
+				}
+			: { design };
 
 	process.stderr.write(
 		`[render-local] ===== COMPOSITION SELECTION PHASE =====\n`,
@@ -212,6 +612,11 @@ async function main() {
 	);
 
 	logTimestamp("Starting composition selection with enhanced monitoring");
+	writeProgress({
+		stage: "selecting-composition",
+		progress: 0,
+		timestamp: Date.now(),
+	});
 	process.stderr.write(
 		`[render-local] Composition selection timeout: 60 seconds\n`,
 	);
@@ -391,7 +796,18 @@ async function main() {
 
 	// Save to user-specific renders folder
 	const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-	const outputLocation = path.join(userRendersDir, `export_${timestamp}.mp4`);
+	const extension = getOutputExtension(target, preset, audio);
+	// Batch exports add their aspect ratio, e.g. export-9x16_<timestamp>.mp4
+	const filePrefix =
+		target.kind !== "video"
+			? target.kind
+			: target.variant
+				? `export-${target.variant}`
+				: "export";
+	const outputLocation = path.join(
+		userRendersDir,
+		`${filePrefix}_${timestamp}.${extension}`,
+	);
 	process.stderr.write(`[render-local] Rendering to: ${outputLocation}\n`);
 	logTimestamp("Starting video render process");
 
@@ -401,179 +817,299 @@ async function main() {
 	process.stderr.write(`[render-local] Timeout: 300000ms\n`);
 	process.stderr.write(`[render-local] Delay render timeout: 180000ms\n`);
 	process.stderr.write(`[render-local] Concurrency: 1\n`);
+	const encoderOptions =
+		target.kind === "audio"
+			? getAudioEncoderOptions(audio)
+			: getEncoderOptions(preset, composition);
+	if (frames.frameRange) {
+		process.stderr.write(
+			`[render-local] Frame range: ${frames.frameRange[0]}-${frames.frameRange[1]}\n`,
+		);
+	}
+	process.stderr.write(
+		`[render-local] Encoder options: ${JSON.stringify(encoderOptions)}\n`,
+	);
 	process.stderr.write(`[render-local] Output location: ${outputLocation}\n`);
 
+	// Shared by video and still renders
+	const renderChromiumOptions = {
+		gl: "swiftshader", // Use software rendering for VPS compatibility
+		args: [
+			"--no-sandbox",
+			"--disable-web-security",
+			"--disable-extensions",
+			"--disable-gpu",
+			"--disable-gpu-sandbox",
+			"--disable-software-rasterizer",
+			"--disable-background-timer-throttling",
+			"--disable-backgrounding-occluded-windows",
+			"--disable-renderer-backgrounding",
+			"--disable-field-trial-config",
+			"--disable-features=TranslateUI,VizDisplayCompositor",
+			"--run-all-compositor-stages-before-draw",
+			"--disable-threaded-animation",
+			"--disable-threaded-scrolling",
+			"--disable-dev-shm-usage",
+			"--disable-accelerated-2d-canvas",
+			"--disable-accelerated-jpeg-decoding",
+			"--disable-accelerated-mjpeg-decode",
+			"--disable-accelerated-video-decode",
+			"--disable-accelerated-video-encode",
+			"--disable-gpu-memory-buffer-compositor-resources",
+			"--disable-gpu-memory-buffer-video-frames",
+			"--disable-gpu-rasterization",
+			"--disable-2d-canvas-clip-aa",
+			"--disable-2d-canvas-image-chromium",
+			"--disable-3d-apis",
+			"--disable-canvas-aa",
+			"--disable-composited-antialiasing",
+			"--memory-pressure-off",
+			"--max_old_space_size=1024",
+			"--js-flags=--max-old-space-size=1024",
+			"--no-zygote",
+			"--single-process",
+			"--disable-setuid-sandbox",
+			"--disable-namespace-sandbox",
+			"--disable-background-networking",
+			"--disable-client-side-phishing-detection",
+			"--disable-component-extensions-with-background-pages",
+			"--disable-default-apps",
+			"--disable-hang-monitor",
+			"--disable-ipc-flooding-protection",
+			"--disable-popup-blocking",
+			"--disable-prompt-on-repost",
+			"--disable-sync",
+			"--disable-translate",
+			"--hide-scrollbars",
+			"--metrics-recording-only",
+			"--no-first-run",
+			"--no-default-browser-check",
+			"--disable-logging",
+			"--silent",
+			"--log-level=3",
+			"--disable-crash-reporter",
+			"--disable-breakpad",
+			"--disable-background-mode",
+			"--disable-plugins",
+			"--disable-plugins-discovery",
+			"--disable-preconnect",
+		],
+		// Add environment variables for better Chrome stability on VPS
+		environmentVariables: {
+			CHROME_NO_SANDBOX: "1",
+			CHROMIUM_DISABLE_LOGGING: "1",
+			CHROME_LOG_LEVEL: "3",
+			PUPPETEER_DISABLE_HEADLESS_WARNING: "true",
+			REMOTION_DISABLE_LOGGING: "1",
+			// Memory and performance settings
+			NODE_OPTIONS: "--max-old-space-size=1024",
+			MALLOC_ARENA_MAX: "2", // Limit glibc arenas
+			// Disable X11 requirements completely
+			DISPLAY: "",
+			XAUTHORITY: "",
+		},
+	};
+
 	let lastProgressTime = Date.now();
 	let renderStartTime = Date.now();
 
-	await renderMedia({
-		composition,
-		serveUrl,
-		codec: "h264",
-		outputLocation,
-		inputProps,
-		onProgress: (progress) => {
-			const now = Date.now();
-			const progressPercent = Math.round(progress.progress * 100);
-			const timeSinceLastProgress = now - lastProgressTime;
-			const totalRenderTime = now - renderStartTime;
-
-			// Progress logs go to STDERR for debugging with timing info
-			process.stderr.write(
-				`[render-local] Progress: ${progressPercent}% (+${timeSinceLastProgress}ms, total: ${totalRenderTime}ms)\n`,
-			);
+	if (target.kind === "still" || target.kind === "contact-sheet") {
+		const frame = target.kind === "still" ? frames.stillFrame : 0;
+		process.stderr.write(
+			`[render-local] Rendering ${target.kind} at frame ${frame} (${target.imageFormat})\n`,
+		);
+		writeProgress({
+			stage: "rendering",
+			progress: 0,
+			timestamp: Date.now(),
+			renderedFrames: 0,
+			totalFrames: 1,
+		});
+		await renderStill({
+			composition,
+			serveUrl,
+			output: outputLocation,
+			inputProps,
+			frame,
+			imageFormat: target.imageFormat,
+			jpegQuality: 90,
+			chromiumOptions: renderChromiumOptions,
+			onBrowserLog: (log) => {
+				if (log.type === "error") {
+					process.stderr.write(`[chrome-${log.type}] ${log.text}\n`);
+				}
+			},
+			timeoutInMilliseconds: 300000,
+			logLevel: "error",
+		});
+		writeProgress({
+			stage: "rendering",
+			progress: 100,
+			timestamp: Date.now(),
+			renderedFrames: 1,
+			totalFrames: 1,
+		});
+	} else {
+		const mediaRenderOptions = {
+			composition,
+			serveUrl,
+			inputProps,
+			chromiumOptions: renderChromiumOptions,
+			// Chrome browser logging
+			onBrowserLog: (log) => {
+				if (log.type === "error") {
+					process.stderr.write(`[chrome-${log.type}] ${log.text}\n`);
+				}
+			},
+			// Download logging
+			onDownload: (src) => {
+				process.stderr.write(`[render-local] Download: ${src}\n`);
+			},
+			// Balanced timeouts for stable rendering
+			timeoutInMilliseconds: 300000, // 5 minutes total timeout
+			delayRenderTimeoutInMilliseconds: 180000, // 3 minutes for individual asset loading
+			// Performance settings optimized for compatibility
+			concurrency: 1, // Single thread for stability
+			verbose: false, // Disabled to prevent stdout contamination
+			logLevel: "error", // Only log errors
+			// Quality settings optimized for compatibility (video only - Remotion
+			// rejects jpegQuality when no frames are captured)
+			...(target.kind === "audio" ? {} : { jpegQuality: 80 }),
+		};
 
-			// Log detailed frame info
-			if (
-				progress.renderedFrames !== undefined &&
-				progress.encodedFrames !== undefined
-			) {
-				process.stderr.write(
-					`[render-local]   Frames: ${progress.renderedFrames} rendered, ${progress.encodedFrames} encoded\n`,
-				);
-			}
+		// Whole composition unless in/out points are set
+		const mediaFrameRange = frames.frameRange || [
+			0,
+			composition.durationInFrames - 1,
+		];
+		const mediaTotalFrames = mediaFrameRange[1] - mediaFrameRange[0] + 1;
+		const shouldChunk =
+			chunksArg &&
+			target.kind === "video" &&
+			!!CHUNK_AUDIO[encoderOptions.codec] &&
+			mediaTotalFrames > CHUNK_FRAMES;
 
-			// Log memory usage at key progress points
-			if (progressPercent % 25 === 0) {
-				const memUsage = process.memoryUsage();
-				process.stderr.write(
-					`[render-local]   Memory: RSS=${Math.round(memUsage.rss / 1024 / 1024)}MB, Heap=${Math.round(memUsage.heapUsed / 1024 / 1024)}MB\n`,
-				);
-			}
+		if (shouldChunk) {
+			await renderInChunks({
+				renderOptions: mediaRenderOptions,
+				encoderOptions,
+				frameRange: mediaFrameRange,
+				compositionDurationInFrames: composition.durationInFrames,
+				fps: composition.fps,
+				chunkDir: chunksArg.split("=")[1],
+				outputLocation,
+				extension,
+			});
+		} else {
+			await renderMedia({
+				...mediaRenderOptions,
+				outputLocation,
+				onProgress: (progress) => {
+					const now = Date.now();
+					const progressPercent = Math.round(progress.progress * 100);
+					const timeSinceLastProgress = now - lastProgressTime;
+					const totalRenderTime = now - renderStartTime;
 
-			lastProgressTime = now;
-
-			// Also output structured progress to a temp file for API to read
-			if (global.progressFilePath) {
-				try {
-					fs.writeFileSync(
-						global.progressFilePath,
-						JSON.stringify({
-							progress: progressPercent,
-							timestamp: now,
-							renderedFrames: progress.renderedFrames,
-							encodedFrames: progress.encodedFrames,
-						}),
-					);
-				} catch (e) {
+					// Progress logs go to STDERR for debugging with timing info
 					process.stderr.write(
-						`[render-local] Failed to write progress: ${e}\n`,
+						`[render-local] Progress: ${progressPercent}% (+${timeSinceLastProgress}ms, total: ${totalRenderTime}ms)\n`,
 					);
-				}
-			}
-		},
-		chromiumOptions: {
-			gl: "swiftshader", // Use software rendering for VPS compatibility
-			args: [
-				"--no-sandbox",
-				"--disable-web-security",
-				"--disable-extensions",
-				"--disable-gpu",
-				"--disable-gpu-sandbox",
-				"--disable-software-rasterizer",
-				"--disable-background-timer-throttling",
-				"--disable-backgrounding-occluded-windows",
-				"--disable-renderer-backgrounding",
-				"--disable-field-trial-config",
-				"--disable-features=TranslateUI,VizDisplayCompositor",
-				"--run-all-compositor-stages-before-draw",
-				"--disable-threaded-animation",
-				"--disable-threaded-scrolling",
-				"--disable-dev-shm-usage",
-				"--disable-accelerated-2d-canvas",
-				"--disable-accelerated-jpeg-decoding",
-				"--disable-accelerated-mjpeg-decode",
-				"--disable-accelerated-video-decode",
-				"--disable-accelerated-video-encode",
-				"--disable-gpu-memory-buffer-compositor-resources",
-				"--disable-gpu-memory-buffer-video-frames",
-				"--disable-gpu-rasterization",
-				"--disable-2d-canvas-clip-aa",
-				"--disable-2d-canvas-image-chromium",
-				"--disable-3d-apis",
-				"--disable-canvas-aa",
-				"--disable-composited-antialiasing",
-				"--memory-pressure-off",
-				"--max_old_space_size=1024",
-				"--js-flags=--max-old-space-size=1024",
-				"--no-zygote",
-				"--single-process",
-				"--disable-setuid-sandbox",
-				"--disable-namespace-sandbox",
-				"--disable-background-networking",
-				"--disable-client-side-phishing-detection",
-				"--disable-component-extensions-with-background-pages",
-				"--disable-default-apps",
-				"--disable-hang-monitor",
-				"--disable-ipc-flooding-protection",
-				"--disable-popup-blocking",
-				"--disable-prompt-on-repost",
-				"--disable-sync",
-				"--disable-translate",
-				"--hide-scrollbars",
-				"--metrics-recording-only",
-				"--no-first-run",
-				"--no-default-browser-check",
-				"--disable-logging",
-				"--silent",
-				"--log-level=3",
-				"--disable-crash-reporter",
-				"--disable-breakpad",
-				"--disable-background-mode",
-				"--disable-plugins",
-				"--disable-plugins-discovery",
-				"--disable-preconnect",
-			],
-			// Add environment variables for better Chrome stability on VPS
-			environmentVariables: {
-				CHROME_NO_SANDBOX: "1",
-				CHROMIUM_DISABLE_LOGGING: "1",
-				CHROME_LOG_LEVEL: "3",
-				PUPPETEER_DISABLE_HEADLESS_WARNING: "true",
-				REMOTION_DISABLE_LOGGING: "1",
-				// Memory and performance settings
-				NODE_OPTIONS: "--max-old-space-size=1024",
-				MALLOC_ARENA_MAX: "2", // Limit glibc arenas
-				// Disable X11 requirements completely
-				DISPLAY: "",
-				XAUTHORITY: "",
-			},
-		},
-		// Chrome browser logging
-		onBrowserLog: (log) => {
-			if (log.type === "error") {
-				process.stderr.write(`[chrome-${log.type}] ${log.text}\n`);
-			}
-		},
-		// Download logging
-		onDownload: (src) => {
-			process.stderr.write(`[render-local] Download: ${src}\n`);
-		},
-		// Start logging
-		onStart: () => {
-			process.stderr.write(`[render-local] Render process started\n`);
-		},
-		// Balanced timeouts for stable rendering
-		timeoutInMilliseconds: 300000, // 5 minutes total timeout
-		delayRenderTimeoutInMilliseconds: 180000, // 3 minutes for individual asset loading
-		// Performance settings optimized for compatibility
-		concurrency: 1, // Single thread for stability
-		verbose: false, // Disabled to prevent stdout contamination
-		logLevel: "error", // Only log errors
-		// Audio handling - include audio in final render
-		enforceAudioTrack: true, // Include audio track in final video
-		// Quality settings optimized for compatibility
-		jpegQuality: 80, // Good quality for better compatibility
-		// Pixel format for better compatibility
-		pixelFormat: "yuv420p",
-		// H.264 encoding optimizations for compatibility
-		crf: 23, // Standard CRF for good quality/size balance
-	});
+
+					// Log detailed frame info
+					if (
+						progress.renderedFrames !== undefined &&
+						progress.encodedFrames !== undefined
+					) {
+						process.stderr.write(
+							`[render-local]   Frames: ${progress.renderedFrames} rendered, ${progress.encodedFrames} encoded\n`,
+						);
+					}
+
+					// Log memory usage at key progress points
+					if (progressPercent % 25 === 0) {
+						const memUsage = process.memoryUsage();
+						process.stderr.write(
+							`[render-local]   Memory: RSS=${Math.round(memUsage.rss / 1024 / 1024)}MB, Heap=${Math.round(memUsage.heapUsed / 1024 / 1024)}MB\n`,
+						);
+					}
+
+					lastProgressTime = now;
+
+					// Also output structured progress to a temp file for API to read
+					writeProgress({
+						// Frames are all captured once the encoder is the only
+						// thing left running
+						stage:
+							progress.renderedFrames >= mediaTotalFrames
+								? "encoding"
+								: "rendering",
+						progress: progressPercent,
+						timestamp: now,
+						renderedFrames: progress.renderedFrames,
+						encodedFrames: progress.encodedFrames,
+						totalFrames: mediaTotalFrames,
+					});
+				},
+				// Start logging
+				onStart: () => {
+					process.stderr.write(`[render-local] Render process started\n`);
+				},
+				// Codec, quality, scale and audio settings from the export preset
+				...encoderOptions,
+				// In/out points from the timeline; whole composition otherwise
+				...(frames.frameRange ? { frameRange: frames.frameRange } : {}),
+			});
+		}
+	}
 
 	const totalRenderDuration = Date.now() - renderStartTime;
 	logTimestamp(`Render completed in ${totalRenderDuration}ms`);
 	process.stderr.write(`[render-local] Render complete: ${outputLocation}\n`);
 
+	// EBU R128 target resolved by the render queue; only set for renders
+	// that carry audio
+	let loudnessReport = null;
+	if (loudness && (target.kind === "video" || target.kind === "audio")) {
+		writeProgress({ stage: "encoding", progress: 98, timestamp: Date.now() });
+		process.stderr.write(
+			`[render-local] Normalizing loudness to ${loudness.integrated} LUFS / ${loudness.truePeak} dBTP\n`,
+		);
+		loudnessReport = await normalizeLoudness(outputLocation, {
+			target: loudness,
+			codec: target.kind === "audio" ? audio.codec : preset?.codec || "h264",
+			audioBitrate:
+				target.kind === "audio" ? audio.audioBitrate : preset?.audioBitrate,
+			log: (message) => process.stderr.write(`[render-local] ${message}\n`),
+		});
+	}
+
+	if (target.kind === "video" && subtitles?.srt) {
+		writeProgress({ stage: "encoding", progress: 99, timestamp: Date.now() });
+		process.stderr.write(
+			`[render-local] Muxing ${subtitles.codec} subtitle track\n`,
+		);
+		await muxSubtitles(outputLocation, subtitles);
+	}
+
+	// Poster and scrub sprite for the renders gallery; the render itself is
+	// done, so failing here only costs the previews
+	if (target.kind === "video") {
+		const renderedFrames = frames.frameRange
+			? frames.frameRange[1] - frames.frameRange[0] + 1
+			: composition.durationInFrames;
+		try {
+			await generatePreviews(outputLocation, {
+				durationInSeconds: renderedFrames / composition.fps,
+				size: { width: composition.width, height: composition.height },
+				log: (message) => process.stderr.write(`[render-local] ${message}\n`),
+			});
+		} catch (e) {
+			process.stderr.write(
+				`[render-local] Preview generation failed (non-critical): ${e}\n`,
+			);
+		}
+	}
+
 	// Check output file properties
 	try {
 		const stats = await fsp.stat(outputLocation);
@@ -589,18 +1125,6 @@ async function main() {
 		);
 	}
 
-	// Cleanup temporary bundle directory to prevent memory bloat
-	try {
-		await fsp.rm(outdir, { recursive: true, force: true });
-		process.stderr.write(
-			`[render-local] Cleaned up bundle directory: ${outdir}\n`,
-		);
-	} catch (cleanupError) {
-		process.stderr.write(
-			`[render-local] Bundle cleanup warning (non-critical): ${cleanupError}\n`,
-		);
-	}
-
 	// Force garbage collection if available (helps with memory cleanup)
 	if (global.gc) {
 		global.gc();
@@ -614,7 +1138,9 @@ async function main() {
 	console.info = originalInfo;
 
 	// ONLY JSON OUTPUT GOES TO STDOUT - ensure no trailing content
-	process.stdout.write(JSON.stringify({ url: outputLocation }));
+	process.stdout.write(
+		JSON.stringify({ url: outputLocation, loudness: loudnessReport }),
+	);
 	// Do NOT add newline to stdout as it can interfere with JSON parsing
 }
 
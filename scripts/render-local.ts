@@ -1,8 +1,14 @@
-import { bundle } from "@remotion/bundler";
-import { renderMedia, getCompositions } from "@remotion/renderer";
+import {
+	renderMedia,
+	getCompositions,
+	type RenderMediaOptions,
+} from "@remotion/renderer";
 import fs from "fs/promises";
 import path from "path";
 import os from "os";
+import type { ExportPreset } from "../src/features/editor/constants/export-presets";
+import { getCachedBundle } from "./bundle-cache.cjs";
+import { getPresetScale } from "./render-encoder.cjs";
 
 // Production-optimized render configuration - removed chromium options for compatibility
 const PRODUCTION_RENDER_CONFIG = {
@@ -60,7 +66,13 @@ async function main() {
 		console.log("📄 [render-local] Reading design file:", designPath);
 
 		const raw = await fs.readFile(designPath, "utf-8");
-		const { design } = JSON.parse(raw);
+		const { design, preset } = JSON.parse(raw) as {
+			design: any;
+			preset?: ExportPreset;
+		};
+		if (preset?.fps) {
+			design.fps = preset.fps;
+		}
 
 		const size = design.size || { width: 1080, height: 1920 };
 		const fps = design.fps || 30;
@@ -87,26 +99,28 @@ async function main() {
 			process.exit(1);
 		}
 
-		const outdir = await fs.mkdtemp(path.join(os.tmpdir(), "remotion-bundle-"));
-		console.log("📦 [render-local] Bundle directory:", outdir);
-
 		console.log("🔨 [render-local] Starting bundle process...");
 		const bundleStart = Date.now();
 
-		const serveUrl = await bundle(entry, undefined, {
-			outDir: outdir,
-			// Add production webpack optimizations
-			webpackOverride: (config) => ({
-				...config,
-				optimization: {
-					...config.optimization,
-					minimize: false, // Disable minification for better debugging
-				},
-			}),
+		const { serveUrl, cacheHit } = await getCachedBundle({
+			projectRoot: process.cwd(),
+			options: {
+				// Add production webpack optimizations
+				webpackOverride: (config: any) => ({
+					...config,
+					optimization: {
+						...config.optimization,
+						minimize: false, // Disable minification for better debugging
+					},
+				}),
+			},
+			log: (message: string) => console.log(`📦 [bundle-cache] ${message}`),
 		});
 
 		const bundleTime = Date.now() - bundleStart;
-		console.log(`✅ [render-local] Bundle completed in ${bundleTime}ms`);
+		console.log(
+			`✅ [render-local] Bundle ${cacheHit ? "cache hit" : "built"} in ${bundleTime}ms`,
+		);
 		console.log("🌐 [render-local] Bundle URL:", serveUrl);
 
 		// Test composition selection before rendering
@@ -153,7 +167,10 @@ async function main() {
 			process.exit(1);
 		}
 
-		const outputLocation = path.join(os.tmpdir(), `export_${Date.now()}.mp4`);
+		const outputLocation = path.join(
+			os.tmpdir(),
+			`export_${Date.now()}.${preset?.extension || "mp4"}`,
+		);
 		console.log("🎥 [render-local] Output location:", outputLocation);
 
 		console.log("🎬 [render-local] Starting media render...");
@@ -169,13 +186,26 @@ async function main() {
 				durationInFrames,
 				defaultProps: { design },
 			} as any,
-			codec: "h264",
 			outputLocation,
 			inputProps: { design },
 			...PRODUCTION_RENDER_CONFIG,
-			// Additional render optimizations
-			pixelFormat: "yuv420p", // Better compatibility
-			crf: 18, // Good quality/size balance
+			...(preset
+				? ({
+						codec: preset.codec,
+						muted: !preset.audio,
+						scale: getPresetScale(preset.shortSide, size.width, size.height),
+						crf: preset.crf,
+						videoBitrate: preset.videoBitrate,
+						audioBitrate: preset.audio ? preset.audioBitrate : undefined,
+						pixelFormat: preset.pixelFormat,
+						proResProfile: preset.proResProfile,
+					} satisfies Partial<RenderMediaOptions>)
+				: {
+						codec: "h264" as const,
+						// Additional render optimizations
+						pixelFormat: "yuv420p" as const, // Better compatibility
+						crf: 18, // Good quality/size balance
+					}),
 		});
 
 		const renderTime = Date.now() - renderStart;
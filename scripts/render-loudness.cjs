@@ -0,0 +1,165 @@
+const { spawn } = require("node:child_process");
+const fsp = require("node:fs/promises");
+const path = require("node:path");
+
+// EBU R128 loudness normalization of a finished render with ffmpeg's
+// loudnorm filter. The first pass measures the mix; the second applies one
+// linear gain from those measurements, which leaves the dynamics alone.
+// loudnorm only falls back to dynamic compression when that gain would push
+// the true peak over the ceiling. Video and subtitle streams are copied.
+
+// Resolves with stderr, where loudnorm prints its JSON report
+function runFfmpeg(args) {
+	return new Promise((resolve, reject) => {
+		const ffmpeg = spawn("ffmpeg", ["-y", "-hide_banner", ...args]);
+		let stderr = "";
+		ffmpeg.stderr.on("data", (chunk) => {
+			stderr += chunk;
+		});
+		ffmpeg.on("error", reject);
+		ffmpeg.on("close", (code) => {
+			if (code === 0) return resolve(stderr);
+			reject(new Error(`ffmpeg exit ${code}: ${stderr.slice(-1000)}`));
+		});
+	});
+}
+
+// The report is the last {...} block loudnorm writes
+function parseReport(stderr) {
+	const start = stderr.lastIndexOf("{");
+	const end = stderr.lastIndexOf("}");
+	if (start === -1 || end < start) {
+		throw new Error("loudnorm printed no measurements");
+	}
+	return JSON.parse(stderr.slice(start, end + 1));
+}
+
+const toNumber = (value) => {
+	const number = Number.parseFloat(value);
+	return Number.isFinite(number) ? number : null;
+};
+
+const loudnormTarget = (target) =>
+	`I=${target.integrated}:TP=${target.truePeak}:LRA=${target.lra}`;
+
+// Encoder settings for the re-encoded audio stream, per render codec
+const AUDIO_ENCODERS = {
+	h264: { codec: "aac", bitrate: "192k" },
+	prores: { codec: "pcm_s16le" },
+	vp9: { codec: "libopus", bitrate: "128k" },
+	mp3: { codec: "libmp3lame", bitrate: "320k" },
+	wav: { codec: "pcm_s16le" },
+	aac: { codec: "aac", bitrate: "256k" },
+};
+
+/**
+ * Normalizes the audio of `outputLocation` in place and returns the
+ * measurements for the render manifest. Silent mixes are left alone.
+ *
+ * @param {string} outputLocation
+ * @param {{
+ *   target: { integrated: number; truePeak: number; lra: number };
+ *   codec: keyof typeof AUDIO_ENCODERS;
+ *   audioBitrate?: string;
+ *   log?: (message: string) => void;
+ * }} options
+ */
+async function normalizeLoudness(
+	outputLocation,
+	{ target, codec, audioBitrate, log = () => {} },
+) {
+	const encoder = AUDIO_ENCODERS[codec];
+	if (!encoder) {
+		throw new Error(`No audio encoder for ${codec} renders`);
+	}
+
+	const measured = parseReport(
+		await runFfmpeg([
+			"-i",
+			outputLocation,
+			"-vn",
+			"-sn",
+			"-af",
+			`loudnorm=${loudnormTarget(target)}:print_format=json`,
+			"-f",
+			"null",
+			"-",
+		]),
+	);
+	const input = {
+		integrated: toNumber(measured.input_i),
+		truePeak: toNumber(measured.input_tp),
+		lra: toNumber(measured.input_lra),
+		threshold: toNumber(measured.input_thresh),
+	};
+	const result = {
+		target: {
+			integrated: target.integrated,
+			truePeak: target.truePeak,
+			lra: target.lra,
+		},
+		input,
+		output: null,
+		normalization: null,
+	};
+
+	// -inf LUFS: nothing to normalize, and loudnorm can't take it as input
+	if (input.integrated === null || input.integrated <= -70) {
+		log(`Mix is silent (${measured.input_i} LUFS), leaving levels as they are`);
+		result.normalization = "skipped";
+		return result;
+	}
+	log(
+		`Measured ${input.integrated} LUFS, ${input.truePeak} dBTP, LRA ${input.lra} LU`,
+	);
+
+	const normalizedPath = `${outputLocation}.loudnorm${path.extname(outputLocation)}`;
+	const bitrate = audioBitrate || encoder.bitrate;
+	try {
+		const report = parseReport(
+			await runFfmpeg([
+				"-i",
+				outputLocation,
+				"-map",
+				"0",
+				"-c",
+				"copy",
+				"-af",
+				[
+					`loudnorm=${loudnormTarget(target)}`,
+					`measured_I=${measured.input_i}`,
+					`measured_TP=${measured.input_tp}`,
+					`measured_LRA=${measured.input_lra}`,
+					`measured_thresh=${measured.input_thresh}`,
+					`offset=${measured.target_offset}`,
+					"linear=true",
+					"print_format=json",
+				].join(":"),
+				// loudnorm works at 192 kHz; bring it back to the render's rate
+				"-ar",
+				"48000",
+				"-c:a",
+				encoder.codec,
+				...(bitrate ? ["-b:a", bitrate] : []),
+				normalizedPath,
+			]),
+		);
+		await fsp.rename(normalizedPath, outputLocation);
+
+		result.output = {
+			integrated: toNumber(report.output_i),
+			truePeak: toNumber(report.output_tp),
+			lra: toNumber(report.output_lra),
+		};
+		result.normalization =
+			report.normalization_type === "linear" ? "linear" : "dynamic";
+		log(
+			`Normalized to ${result.output.integrated} LUFS, ${result.output.truePeak} dBTP (${result.normalization})`,
+		);
+		return result;
+	} finally {
+		await fsp.rm(normalizedPath, { force: true });
+	}
+}
+
+module.exports = { normalizeLoudness };
@@ -0,0 +1,111 @@
+const { spawn } = require("node:child_process");
+const fsp = require("node:fs/promises");
+const path = require("node:path");
+
+// Poster frame and hover-scrub sprite sheet for a finished video render,
+// written to <renders dir>/.previews/ so the gallery can show them without
+// loading the video. src/lib/render-previews.ts reads them back; keep the
+// file names in sync.
+
+const PREVIEW_DIR = ".previews";
+const POSTER_WIDTH = 480;
+const SPRITE_FRAME_WIDTH = 160;
+const SPRITE_COLUMNS = 6;
+const SPRITE_ROWS = 4;
+
+function runFfmpeg(args) {
+	return new Promise((resolve, reject) => {
+		const ffmpeg = spawn("ffmpeg", ["-y", "-loglevel", "error", ...args]);
+		let stderr = "";
+		ffmpeg.stderr.on("data", (chunk) => {
+			stderr += chunk;
+		});
+		ffmpeg.on("error", reject);
+		ffmpeg.on("close", (code) => {
+			if (code === 0) return resolve();
+			reject(new Error(`ffmpeg exit ${code}: ${stderr.slice(-1000)}`));
+		});
+	});
+}
+
+// Even dimension for a frame `width` wide, as ffmpeg's scale=w:-2 picks it
+const scaledHeight = (width, size) =>
+	Math.max(2, Math.round((width * size.height) / size.width / 2) * 2);
+
+/**
+ * Writes <file>.poster.jpg, <file>.sprite.jpg and <file>.json (the sprite
+ * layout) for the video at `outputLocation`.
+ *
+ * @param {string} outputLocation
+ * @param {{
+ *   durationInSeconds: number;
+ *   size: { width: number; height: number };
+ *   log?: (message: string) => void;
+ * }} options
+ */
+async function generatePreviews(
+	outputLocation,
+	{ durationInSeconds, size, log = () => {} },
+) {
+	const previewDir = path.join(path.dirname(outputLocation), PREVIEW_DIR);
+	const baseName = path.basename(outputLocation);
+	const posterFile = `${baseName}.poster.jpg`;
+	const spriteFile = `${baseName}.sprite.jpg`;
+	await fsp.mkdir(previewDir, { recursive: true });
+
+	// A tenth in skips fade-ins and black first frames
+	const posterTime = Math.min(durationInSeconds * 0.1, 5);
+	await runFfmpeg([
+		"-ss",
+		posterTime.toFixed(3),
+		"-i",
+		outputLocation,
+		"-frames:v",
+		"1",
+		"-vf",
+		`scale=${POSTER_WIDTH}:-2`,
+		"-q:v",
+		"3",
+		path.join(previewDir, posterFile),
+	]);
+
+	// Evenly spaced frames tiled into one image; the gallery shows the cell
+	// under the pointer
+	const count = SPRITE_COLUMNS * SPRITE_ROWS;
+	const interval = Math.max(durationInSeconds / count, 0.001);
+	await runFfmpeg([
+		"-i",
+		outputLocation,
+		"-vf",
+		`fps=1/${interval.toFixed(6)},scale=${SPRITE_FRAME_WIDTH}:-2,tile=${SPRITE_COLUMNS}x${SPRITE_ROWS}`,
+		"-frames:v",
+		"1",
+		"-q:v",
+		"5",
+		path.join(previewDir, spriteFile),
+	]);
+
+	const meta = {
+		poster: posterFile,
+		sprite: {
+			file: spriteFile,
+			columns: SPRITE_COLUMNS,
+			rows: SPRITE_ROWS,
+			count: Math.min(
+				count,
+				Math.max(1, Math.ceil(durationInSeconds / interval)),
+			),
+			frameWidth: SPRITE_FRAME_WIDTH,
+			frameHeight: scaledHeight(SPRITE_FRAME_WIDTH, size),
+			intervalMs: Math.round(interval * 1000),
+		},
+	};
+	await fsp.writeFile(
+		path.join(previewDir, `${baseName}.json`),
+		JSON.stringify(meta, null, 2),
+	);
+	log(`Previews written to ${previewDir}`);
+	return meta;
+}
+
+module.exports = { generatePreviews, PREVIEW_DIR };
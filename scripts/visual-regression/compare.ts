@@ -0,0 +1,115 @@
+import type { RgbaImage } from "./png";
+
+// Perceptual frame comparison in the manner of pixelmatch: pixels are
+// compared by their distance in YIQ space, which weighs brightness over hue
+// roughly the way eyes do, after blending any transparency onto white.
+
+export interface FrameDiff {
+	// Pixels whose colour distance is above the per-pixel threshold
+	diffPixels: number;
+	totalPixels: number;
+	// diffPixels / totalPixels
+	ratio: number;
+	// Diff image: the export frame faded to grey with changed pixels in red
+	diff: RgbaImage;
+}
+
+// Largest possible YIQ distance, between black and white
+const MAX_YIQ_DELTA = 35215;
+const GAP = 8;
+
+const blend = (channel: number, alpha: number) =>
+	255 + ((channel - 255) * alpha) / 255;
+
+const yiq = (data: Buffer, i: number) => {
+	const alpha = data[i + 3];
+	const r = blend(data[i], alpha);
+	const g = blend(data[i + 1], alpha);
+	const b = blend(data[i + 2], alpha);
+	return [
+		r * 0.29889531 + g * 0.58662247 + b * 0.11448223,
+		r * 0.59597799 - g * 0.2741761 - b * 0.32180189,
+		r * 0.21147017 - g * 0.52261711 + b * 0.31114694,
+	];
+};
+
+const colorDelta = (a: Buffer, b: Buffer, i: number) => {
+	const [y1, i1, q1] = yiq(a, i);
+	const [y2, i2, q2] = yiq(b, i);
+	const y = y1 - y2;
+	const iDelta = i1 - i2;
+	const q = q1 - q2;
+	return 0.5053 * y * y + 0.299 * iDelta * iDelta + 0.1957 * q * q;
+};
+
+/**
+ * Compares two frames of the same size. `threshold` (0-1) is how far apart
+ * two colours may be before the pixel counts as different; 0.1 ignores
+ * antialiasing and compression noise but catches moved or recoloured items.
+ */
+export const compareFrames = (
+	expected: RgbaImage,
+	actual: RgbaImage,
+	threshold = 0.1,
+): FrameDiff => {
+	if (expected.width !== actual.width || expected.height !== actual.height) {
+		throw new Error(
+			`Frame sizes differ: ${expected.width}x${expected.height} vs ${actual.width}x${actual.height}`,
+		);
+	}
+
+	const { width, height } = expected;
+	const maxDelta = MAX_YIQ_DELTA * threshold * threshold;
+	const diff = Buffer.alloc(width * height * 4);
+	let diffPixels = 0;
+
+	for (let i = 0; i < diff.length; i += 4) {
+		if (colorDelta(expected.data, actual.data, i) > maxDelta) {
+			diffPixels += 1;
+			diff[i] = 255;
+			diff[i + 1] = 0;
+			diff[i + 2] = 0;
+		} else {
+			const [luma] = yiq(actual.data, i);
+			const faded = 255 + (luma - 255) * 0.1;
+			diff[i] = diff[i + 1] = diff[i + 2] = faded;
+		}
+		diff[i + 3] = 255;
+	}
+
+	const totalPixels = width * height;
+	return {
+		diffPixels,
+		totalPixels,
+		ratio: totalPixels ? diffPixels / totalPixels : 0,
+		diff: { width, height, data: diff },
+	};
+};
+
+// Lays images out left to right on a dark strip, top-aligned
+export const sideBySide = (images: RgbaImage[]): RgbaImage => {
+	const width =
+		images.reduce((sum, image) => sum + image.width, 0) +
+		GAP * (images.length + 1);
+	const height = Math.max(...images.map((image) => image.height)) + GAP * 2;
+	const data = Buffer.alloc(width * height * 4);
+	for (let i = 0; i < data.length; i += 4) {
+		data[i] = data[i + 1] = data[i + 2] = 32;
+		data[i + 3] = 255;
+	}
+
+	let left = GAP;
+	for (const image of images) {
+		const stride = image.width * 4;
+		for (let y = 0; y < image.height; y++) {
+			image.data.copy(
+				data,
+				((y + GAP) * width + left) * 4,
+				y * stride,
+				(y + 1) * stride,
+			);
+		}
+		left += image.width + GAP;
+	}
+	return { width, height, data };
+};
@@ -0,0 +1,146 @@
+import fsp from "node:fs/promises";
+import path from "node:path";
+
+// Loads the JSON designs kept in the repo root as render inputs. They come
+// in the three shapes the app produces:
+//   - a render request body, { design: { trackItems: [...] } }
+//   - an editor state dump, { trackItemsMap, trackItemIds, ... }
+//   - a caption job, { captions: [...], metadata }, which becomes one caption
+//     text item per word as the Texts panel lays out vertical captions
+
+export interface FixtureDesign {
+	size: { width: number; height: number };
+	fps: number;
+	duration: number;
+	background: { type: "color" | "image"; value: string };
+	trackItems: any[];
+	transitionsMap: Record<string, any>;
+}
+
+export interface Fixture {
+	name: string;
+	design: FixtureDesign;
+}
+
+export const DEFAULT_FIXTURES = [
+	"test-design.json",
+	"sample.json",
+	"test_ominous_captions.json",
+];
+
+const DEFAULT_SIZE = { width: 1080, height: 1920 };
+const DEFAULT_BACKGROUND = { type: "color" as const, value: "#000000" };
+const CAPTION_LINE_HEIGHT = 1.4;
+
+const endOf = (trackItems: any[]) =>
+	trackItems.reduce((end, item) => Math.max(end, item.display?.to || 0), 0);
+
+const fromCaptionJob = (job: any): Omit<FixtureDesign, "duration"> => {
+	const size = {
+		width: job.metadata?.videoWidth || DEFAULT_SIZE.width,
+		height: job.metadata?.videoHeight || DEFAULT_SIZE.height,
+	};
+	const width = Math.round(size.width * 0.9);
+
+	const trackItems = job.captions.map((caption: any, index: number) => {
+		const start = caption.start ?? caption.startTime ?? 0;
+		const end = caption.end ?? caption.endTime ?? start + 1;
+		const fontSize = caption.fontSize || caption.style?.fontSize || 85;
+		const fontFamily = (caption.fontFamily || caption.style?.fontFamily)
+			?.trim()
+			.replace(/\.ttf$/i, "");
+		const height = Math.round(fontSize * CAPTION_LINE_HEIGHT);
+		return {
+			id: caption.id || `caption-${index}`,
+			type: "text",
+			display: {
+				from: Math.round(start * 1000),
+				to: Math.max(Math.round(start * 1000) + 100, Math.round(end * 1000)),
+			},
+			details: {
+				text: caption.word || caption.text || "",
+				fontSize,
+				width,
+				height,
+				...(fontFamily && {
+					fontFamily,
+					fontUrl: `/fonts/${fontFamily}.ttf`,
+				}),
+				fontWeight: caption.style?.fontWeight,
+				color: caption.color || "#ffffff",
+				textAlign: "center",
+				whiteSpace: "nowrap",
+				left: `${Math.round((size.width - width) / 2)}px`,
+				top: `${Math.round((size.height - height) / 2)}px`,
+				originalIndex: index,
+				ominous: caption.ominous === true || caption.ominous === "true",
+			},
+		};
+	});
+
+	return {
+		size,
+		fps: job.metadata?.fps || 30,
+		background: DEFAULT_BACKGROUND,
+		trackItems,
+		transitionsMap: {},
+	};
+};
+
+export const toFixtureDesign = (json: any): FixtureDesign => {
+	let design: Omit<FixtureDesign, "duration"> & { duration?: number };
+
+	if (Array.isArray(json?.captions)) {
+		design = fromCaptionJob(json);
+	} else {
+		const source = json?.design ?? json;
+		// State dumps keep items in a map, ordered by trackItemIds
+		const trackItems = Array.isArray(source?.trackItemIds)
+			? source.trackItemIds
+					.map((id: string) => source.trackItemsMap?.[id])
+					.filter(Boolean)
+			: source?.trackItems;
+		if (!Array.isArray(trackItems)) {
+			throw new Error("No trackItems, trackItemsMap or captions found");
+		}
+		design = {
+			size: source.size || DEFAULT_SIZE,
+			fps: source.fps || 30,
+			duration: source.duration,
+			background: source.background || DEFAULT_BACKGROUND,
+			trackItems,
+			transitionsMap: source.transitionsMap || {},
+		};
+	}
+
+	return {
+		...design,
+		duration: design.duration || Math.max(endOf(design.trackItems), 1000),
+	};
+};
+
+export const loadFixture = async (file: string): Promise<Fixture> => {
+	const json = JSON.parse(await fsp.readFile(file, "utf8"));
+	try {
+		return {
+			name: path.basename(file, path.extname(file)),
+			design: toFixtureDesign(json),
+		};
+	} catch (error) {
+		throw new Error(`${file}: ${(error as Error).message}`);
+	}
+};
+
+// Without network access, remote footage can't load in either path;
+// comparing the text and shape layers alone still catches most drift
+export const withoutMedia = (design: FixtureDesign): FixtureDesign => ({
+	...design,
+	trackItems: design.trackItems.filter(
+		(item) => !["video", "image", "audio"].includes(item.type),
+	),
+});
+
+// Times (ms) to compare when none are given: early, middle and late, where
+// different items tend to be on screen
+export const defaultTimes = (design: FixtureDesign) =>
+	[0.1, 0.5, 0.9].map((fraction) => Math.round(design.duration * fraction));
@@ -0,0 +1,205 @@
+import fsp from "node:fs/promises";
+import path from "node:path";
+import {
+	type ChromiumOptions,
+	type HeadlessBrowser,
+	openBrowser,
+	renderStill,
+	selectComposition,
+} from "@remotion/renderer";
+import { getCachedBundle } from "../bundle-cache.cjs";
+import { compareFrames, sideBySide } from "./compare";
+import {
+	DEFAULT_FIXTURES,
+	defaultTimes,
+	type Fixture,
+	loadFixture,
+	withoutMedia,
+} from "./fixtures";
+import { decodePng, encodePng } from "./png";
+
+// Renders the same moments of each fixture through the editor player's
+// composition and the export composition, and fails when they look
+// different. Software GL only, so it runs on machines without a GPU.
+//
+// Usage: tsx scripts/visual-regression/index.ts [options]
+//   --fixtures=a.json,b.json  designs to check (default: the repo fixtures)
+//   --at=500,2000             times in ms (default: 10%, 50% and 90% in)
+//   --threshold=0.1           per-pixel colour tolerance, 0-1
+//   --max-diff=0.01           share of pixels allowed to differ per frame
+//   --out=dir                 where side-by-side images go
+//   --no-media                drop video, image and audio items first
+
+const PLAYER_COMPOSITION = "PlayerParityComposition";
+const EXPORT_COMPOSITION = "TimelineComposition";
+
+const chromiumOptions: ChromiumOptions = {
+	gl: "swiftshader",
+	disableWebSecurity: true,
+};
+
+interface FrameResult {
+	fixture: string;
+	timeMs: number;
+	ratio: number;
+	passed: boolean;
+	image?: string;
+}
+
+const parseArgs = (args: string[]) => {
+	const value = (name: string) =>
+		args.find((arg) => arg.startsWith(`--${name}=`))?.split("=")[1];
+	const list = (name: string) => value(name)?.split(",").filter(Boolean);
+	const number = (name: string, fallback: number) => {
+		const raw = value(name);
+		if (raw === undefined) return fallback;
+		const parsed = Number(raw);
+		if (!Number.isFinite(parsed) || parsed < 0) {
+			throw new Error(`--${name} must be a non-negative number`);
+		}
+		return parsed;
+	};
+
+	const times = list("at")?.map(Number);
+	if (times?.some((time) => !Number.isFinite(time) || time < 0)) {
+		throw new Error("--at must be a list of times in ms");
+	}
+
+	return {
+		fixtures: list("fixtures") ?? DEFAULT_FIXTURES,
+		times,
+		threshold: number("threshold", 0.1),
+		maxDiff: number("max-diff", 0.01),
+		out: value("out") ?? ".visual-regression",
+		noMedia: args.includes("--no-media"),
+	};
+};
+
+const renderFrame = async ({
+	serveUrl,
+	browser,
+	compositionId,
+	fixture,
+	timeMs,
+}: {
+	serveUrl: string;
+	browser: HeadlessBrowser;
+	compositionId: string;
+	fixture: Fixture;
+	timeMs: number;
+}) => {
+	const inputProps = { design: fixture.design };
+	const composition = await selectComposition({
+		serveUrl,
+		id: compositionId,
+		inputProps,
+		puppeteerInstance: browser,
+		chromiumOptions,
+		logLevel: "error",
+	});
+	// Each path at its own frame rate: the player always runs at 30 fps
+	const frame = Math.min(
+		Math.round((timeMs / 1000) * composition.fps),
+		composition.durationInFrames - 1,
+	);
+	const { buffer } = await renderStill({
+		composition,
+		serveUrl,
+		inputProps,
+		frame,
+		output: null,
+		imageFormat: "png",
+		puppeteerInstance: browser,
+		chromiumOptions,
+		timeoutInMilliseconds: 120000,
+		logLevel: "error",
+	});
+	if (!buffer) {
+		throw new Error(`${compositionId} returned no image`);
+	}
+	return decodePng(buffer);
+};
+
+async function main() {
+	const options = parseArgs(process.argv.slice(2));
+	const projectRoot = process.cwd();
+	const outDir = path.resolve(projectRoot, options.out);
+
+	const fixtures = await Promise.all(
+		options.fixtures.map((file) =>
+			loadFixture(path.resolve(projectRoot, file)),
+		),
+	);
+	if (options.noMedia) {
+		for (const fixture of fixtures) {
+			fixture.design = withoutMedia(fixture.design);
+		}
+	}
+
+	const { serveUrl } = await getCachedBundle({
+		projectRoot,
+		options: { verbose: false, logLevel: "error" },
+		log: (message: string) => console.log(`[bundle-cache] ${message}`),
+	});
+	const browser = await openBrowser("chrome", {
+		chromiumOptions,
+		logLevel: "error",
+	});
+
+	const results: FrameResult[] = [];
+	try {
+		for (const fixture of fixtures) {
+			const times = options.times ?? defaultTimes(fixture.design);
+			for (const timeMs of times) {
+				const render = (compositionId: string) =>
+					renderFrame({ serveUrl, browser, compositionId, fixture, timeMs });
+				const player = await render(PLAYER_COMPOSITION);
+				const exported = await render(EXPORT_COMPOSITION);
+
+				const { ratio, diff } = compareFrames(
+					player,
+					exported,
+					options.threshold,
+				);
+				const result: FrameResult = {
+					fixture: fixture.name,
+					timeMs,
+					ratio,
+					passed: ratio <= options.maxDiff,
+				};
+
+				if (!result.passed) {
+					await fsp.mkdir(outDir, { recursive: true });
+					result.image = path.join(outDir, `${fixture.name}@${timeMs}ms.png`);
+					await fsp.writeFile(
+						result.image,
+						encodePng(sideBySide([player, exported, diff])),
+					);
+				}
+				results.push(result);
+				console.log(
+					`[visual-regression] ${result.passed ? "✅" : "❌"} ${fixture.name} @ ${timeMs}ms: ${(ratio * 100).toFixed(2)}% of pixels differ`,
+				);
+			}
+		}
+	} finally {
+		await browser.close({ silent: true });
+	}
+
+	const failed = results.filter((result) => !result.passed);
+	if (failed.length > 0) {
+		console.error(
+			`[visual-regression] ${failed.length} of ${results.length} frames differ by more than ${(options.maxDiff * 100).toFixed(2)}%. Player | export | diff images:`,
+		);
+		for (const result of failed) {
+			console.error(`  ${result.image}`);
+		}
+		process.exit(1);
+	}
+	console.log(`[visual-regression] All ${results.length} frames match`);
+}
+
+main().catch((error) => {
+	console.error("[visual-regression] Failed:", error);
+	process.exit(1);
+});
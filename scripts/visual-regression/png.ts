@@ -0,0 +1,151 @@
+import { deflateSync, inflateSync } from "node:zlib";
+
+// Just enough PNG for the stills Chrome writes (8-bit, non-interlaced
+// greyscale, RGB or RGBA) and for writing the RGBA comparison images.
+
+export interface RgbaImage {
+	width: number;
+	height: number;
+	// 4 bytes per pixel, rows top to bottom
+	data: Buffer;
+}
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CHANNELS: Record<number, number> = {
+	0: 1, // greyscale
+	2: 3, // RGB
+	4: 2, // greyscale + alpha
+	6: 4, // RGBA
+};
+
+const CRC_TABLE = (() => {
+	const table = new Uint32Array(256);
+	for (let n = 0; n < 256; n++) {
+		let c = n;
+		for (let k = 0; k < 8; k++) {
+			c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+		}
+		table[n] = c >>> 0;
+	}
+	return table;
+})();
+
+const crc32 = (buffer: Buffer) => {
+	let crc = 0xffffffff;
+	for (const byte of buffer) {
+		crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+};
+
+const paeth = (a: number, b: number, c: number) => {
+	const p = a + b - c;
+	const pa = Math.abs(p - a);
+	const pb = Math.abs(p - b);
+	const pc = Math.abs(p - c);
+	if (pa <= pb && pa <= pc) return a;
+	return pb <= pc ? b : c;
+};
+
+export const decodePng = (file: Buffer): RgbaImage => {
+	if (!file.subarray(0, 8).equals(SIGNATURE)) {
+		throw new Error("Not a PNG file");
+	}
+
+	let width = 0;
+	let height = 0;
+	let colorType = 0;
+	const idat: Buffer[] = [];
+	for (let offset = 8; offset < file.length; ) {
+		const length = file.readUInt32BE(offset);
+		const type = file.toString("ascii", offset + 4, offset + 8);
+		const body = file.subarray(offset + 8, offset + 8 + length);
+		if (type === "IHDR") {
+			width = body.readUInt32BE(0);
+			height = body.readUInt32BE(4);
+			const bitDepth = body[8];
+			colorType = body[9];
+			const interlace = body[12];
+			if (bitDepth !== 8 || !(colorType in CHANNELS) || interlace !== 0) {
+				throw new Error(
+					`Unsupported PNG (bit depth ${bitDepth}, color type ${colorType}, interlace ${interlace})`,
+				);
+			}
+		} else if (type === "IDAT") {
+			idat.push(body);
+		} else if (type === "IEND") {
+			break;
+		}
+		offset += 12 + length;
+	}
+
+	const channels = CHANNELS[colorType];
+	const stride = width * channels;
+	const raw = inflateSync(Buffer.concat(idat));
+	const pixels = Buffer.alloc(stride * height);
+
+	// Undo the per-row filters
+	for (let y = 0; y < height; y++) {
+		const filter = raw[y * (stride + 1)];
+		const row = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+		const out = y * stride;
+		for (let x = 0; x < stride; x++) {
+			const left = x >= channels ? pixels[out + x - channels] : 0;
+			const up = y > 0 ? pixels[out + x - stride] : 0;
+			const upLeft =
+				y > 0 && x >= channels ? pixels[out + x - stride - channels] : 0;
+			let value = row[x];
+			if (filter === 1) value += left;
+			else if (filter === 2) value += up;
+			else if (filter === 3) value += (left + up) >> 1;
+			else if (filter === 4) value += paeth(left, up, upLeft);
+			pixels[out + x] = value & 0xff;
+		}
+	}
+
+	const data = Buffer.alloc(width * height * 4);
+	for (let i = 0, j = 0; i < data.length; i += 4, j += channels) {
+		if (channels <= 2) {
+			data[i] = data[i + 1] = data[i + 2] = pixels[j];
+			data[i + 3] = channels === 2 ? pixels[j + 1] : 255;
+		} else {
+			data[i] = pixels[j];
+			data[i + 1] = pixels[j + 1];
+			data[i + 2] = pixels[j + 2];
+			data[i + 3] = channels === 4 ? pixels[j + 3] : 255;
+		}
+	}
+	return { width, height, data };
+};
+
+const chunk = (type: string, body: Buffer) => {
+	const header = Buffer.alloc(8);
+	header.writeUInt32BE(body.length, 0);
+	header.write(type, 4, "ascii");
+	const crc = Buffer.alloc(4);
+	crc.writeUInt32BE(crc32(Buffer.concat([header.subarray(4), body])), 0);
+	return Buffer.concat([header, body, crc]);
+};
+
+export const encodePng = ({ width, height, data }: RgbaImage): Buffer => {
+	const ihdr = Buffer.alloc(13);
+	ihdr.writeUInt32BE(width, 0);
+	ihdr.writeUInt32BE(height, 4);
+	ihdr[8] = 8;
+	ihdr[9] = 6;
+
+	// Unfiltered rows; these images are only for people to look at
+	const stride = width * 4;
+	const raw = Buffer.alloc((stride + 1) * height);
+	for (let y = 0; y < height; y++) {
+		data.copy(raw, y * (stride + 1) + 1, y * stride, (y + 1) * stride);
+	}
+
+	return Buffer.concat([
+		SIGNATURE,
+		chunk("IHDR", ihdr),
+		chunk("IDAT", deflateSync(raw)),
+		chunk("IEND", Buffer.alloc(0)),
+	]);
+};
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { timingSafeEqual } from "node:crypto";
+import { getDiskUsage, runJanitor } from "@/lib/render-janitor";
+
+export const runtime = "nodejs";
+
+// Admin routes are off unless ADMIN_API_TOKEN is set, and then need
+// "Authorization: Bearer <token>"
+const checkAdmin = (request: NextRequest): NextResponse | null => {
+	const token = process.env.ADMIN_API_TOKEN;
+	if (!token) {
+		return NextResponse.json(
+			{ message: "Admin API is disabled - set ADMIN_API_TOKEN" },
+			{ status: 404 },
+		);
+	}
+
+	const given = Buffer.from(
+		request.headers.get("authorization")?.replace(/^Bearer\s+/i, "") ?? "",
+	);
+	const expected = Buffer.from(token);
+	if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+		return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+	}
+	return null;
+};
+
+// Disk usage of renders, previews and temp files by category and session
+export async function GET(request: NextRequest) {
+	const denied = checkAdmin(request);
+	if (denied) return denied;
+
+	try {
+		return NextResponse.json(await getDiskUsage());
+	} catch (error) {
+		console.error("[admin-storage] Failed to measure disk usage:", error);
+		return NextResponse.json(
+			{ message: "Failed to measure disk usage" },
+			{ status: 500 },
+		);
+	}
+}
+
+// Runs the janitor now. Body: { dryRun?: boolean }; defaults to
+// RENDER_JANITOR_DRY_RUN.
+export async function POST(request: NextRequest) {
+	const denied = checkAdmin(request);
+	if (denied) return denied;
+
+	// No body: use the configured mode
+	const body = await request.json().catch(() => ({}));
+	if (body?.dryRun !== undefined && typeof body.dryRun !== "boolean") {
+		return NextResponse.json(
+			{ message: "dryRun must be a boolean" },
+			{ status: 400 },
+		);
+	}
+
+	try {
+		const report = await runJanitor({ dryRun: body?.dryRun });
+		return NextResponse.json({ report, usage: await getDiskUsage() });
+	} catch (error) {
+		console.error("[admin-storage] Janitor run failed:", error);
+		return NextResponse.json(
+			{ message: "Janitor run failed" },
+			{ status: 500 },
+		);
+	}
+}
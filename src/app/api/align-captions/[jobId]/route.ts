@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { jobManager } from "@/lib/job-manager";
+import { getServerSessionId, sanitizeSessionId } from "@/utils/session";
+
+export const runtime = "nodejs";
+
+export async function GET(
+	request: NextRequest,
+	{ params }: { params: Promise<{ jobId: string }> },
+) {
+	const { jobId } = await params;
+
+	try {
+		const job = await jobManager.getJob(jobId, "align-captions");
+		// Another session's job reads as missing, like an unknown id
+		const sessionId = sanitizeSessionId(getServerSessionId(request));
+		if (!job || job.sessionId !== sessionId) {
+			return NextResponse.json(
+				{ message: `No alignment job found with ID: ${jobId}` },
+				{ status: 404 },
+			);
+		}
+
+		return NextResponse.json({
+			jobId,
+			status: job.status,
+			progress: job.progress,
+			stage: job.stage,
+			error: job.error,
+			...(job.status === "completed" && job.result),
+		});
+	} catch (error) {
+		console.error(`[align-captions] Failed to read job ${jobId}:`, error);
+		return NextResponse.json(
+			{ message: "Failed to read caption alignment" },
+			{ status: 500 },
+		);
+	}
+}
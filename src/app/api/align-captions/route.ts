@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Job, JobError, JobResults, jobManager } from "@/lib/job-manager";
+import { getAppOrigin, resolveMediaUrl } from "@/lib/media-urls";
+import {
+	getTranscriptionProvider,
+	TranscriptionError,
+	TranscriptWord,
+	transcribeMedia,
+} from "@/lib/transcription";
+import {
+	alignCaptions,
+	EditableCaption,
+	isEdited,
+} from "@/lib/transcription/alignment";
+import { getServerSessionId, sanitizeSessionId } from "@/utils/session";
+
+export const runtime = "nodejs";
+
+const MAX_CAPTIONS = 5000;
+
+const isCaption = (value: any): value is EditableCaption =>
+	typeof value?.id === "string" &&
+	Number.isFinite(value.start) &&
+	Number.isFinite(value.end);
+
+// Re-times captions after their words were edited. Body: { captions,
+// videoUrl? } with captions as the Texts panel stores them; edited ones carry
+// `originalWord`. The result is read from /api/align-captions/:jobId.
+export async function POST(request: NextRequest) {
+	const sessionId = sanitizeSessionId(getServerSessionId(request));
+
+	let body: any;
+	try {
+		body = await request.json();
+	} catch {
+		return NextResponse.json({ message: "Invalid JSON body" }, { status: 400 });
+	}
+
+	const captions = body?.captions;
+	if (
+		!Array.isArray(captions) ||
+		captions.length === 0 ||
+		captions.length > MAX_CAPTIONS ||
+		!captions.every(isCaption)
+	) {
+		return NextResponse.json(
+			{
+				message: `captions must be 1-${MAX_CAPTIONS} captions with an id, start and end`,
+			},
+			{ status: 400 },
+		);
+	}
+	// FFmpeg can read remote URLs, not the editor's blob: URLs
+	const remoteUrl =
+		typeof body.videoUrl === "string" && !body.videoUrl.startsWith("blob:")
+			? body.videoUrl
+			: null;
+	const videoUrl = remoteUrl
+		? resolveMediaUrl(remoteUrl, getAppOrigin(request))
+		: null;
+	if (remoteUrl && !videoUrl) {
+		return NextResponse.json(
+			{ message: "videoUrl is not an allowed media URL" },
+			{ status: 400 },
+		);
+	}
+	const editedCount = captions.filter(isEdited).length;
+
+	try {
+		const job = await jobManager.createJob("align-captions", {
+			sessionId,
+			input: { videoUrl, captionCount: captions.length, editedCount },
+		});
+		console.log(
+			`[align-captions] Job ${job.id}: ${editedCount} of ${captions.length} captions edited${videoUrl ? "" : ", no source audio"}`,
+		);
+
+		void jobManager.run(job, ({ setProgress }) =>
+			alignEditedCaptions(job, captions, videoUrl, setProgress),
+		);
+
+		return NextResponse.json({
+			jobId: job.id,
+			status: job.status,
+			editedCount,
+		});
+	} catch (error) {
+		console.error("[align-captions] Failed to start alignment:", error);
+		return NextResponse.json(
+			{ message: "Failed to start caption alignment" },
+			{ status: 500 },
+		);
+	}
+}
+
+async function alignEditedCaptions(
+	job: Job<"align-captions">,
+	captions: EditableCaption[],
+	videoUrl: string | null,
+	setProgress: (progress: number, stage?: string) => Promise<void>,
+): Promise<JobResults["align-captions"]> {
+	let heard: TranscriptWord[] | null = null;
+	let engine: string | null = null;
+
+	// Only worth listening to the audio when something changed
+	if (videoUrl && captions.some(isEdited)) {
+		try {
+			const provider = getTranscriptionProvider();
+			const status = await provider.check();
+			if (status.available) {
+				let lastProgress = 0;
+				const transcript = await transcribeMedia(videoUrl, job.id, {
+					provider,
+					onProgress: (percent, stage) => {
+						const progress = Math.round(percent * 0.9);
+						if (progress - lastProgress < 5) return;
+						lastProgress = progress;
+						void setProgress(progress, stage);
+					},
+				});
+				heard = transcript.words;
+				engine = provider.name;
+			} else {
+				console.warn(
+					`[align-captions] ${status.reason}; spreading edited words by length instead`,
+				);
+			}
+		} catch (error) {
+			if (error instanceof TranscriptionError) {
+				throw new JobError(error.message, error.retryable);
+			}
+			throw error;
+		}
+	}
+
+	await setProgress(95, "aligning");
+	return {
+		captions: alignCaptions(captions, heard),
+		audioAligned: heard !== null,
+		engine,
+	};
+}
@@ -41,7 +41,7 @@ export async function GET(
 		console.log(
 			`🟡 [${requestId}] Looking up B-roll timing job: ${brollJobId}`,
 		);
-		const job = jobManager.getJob(brollJobId);
+		const job = await jobManager.getJob(brollJobId, "broll-timing");
 
 		if (!job) {
 			console.error(
@@ -63,20 +63,21 @@ export async function GET(
 			status: job.status,
 		};
 
-		if (job.status === "completed" && job.brollTimings) {
+		const brollTimings = job.result?.brollTimings;
+		if (job.status === "completed" && brollTimings) {
 			console.log(
 				`✅ [${requestId}] B-roll timing job completed, timings available:`,
-				job.brollTimings.length,
+				brollTimings.length,
 				"timings",
 			);
-			response.brollTimings = job.brollTimings;
+			response.brollTimings = brollTimings;
 			response.message = "B-roll timing suggestions generated successfully";
-			response.count = job.brollTimings.length;
+			response.count = brollTimings.length;
 		} else if (job.status === "failed") {
 			console.error(`❌ [${requestId}] B-roll timing job failed:`, job.error);
 			response.error = job.error;
 			response.message = "B-roll timing generation failed";
-		} else if (job.status === "processing") {
+		} else if (job.status === "processing" || job.status === "queued") {
 			console.log(`⏳ [${requestId}] B-roll timing job still processing...`);
 			response.message = "B-roll timing suggestions are still being generated";
 		}
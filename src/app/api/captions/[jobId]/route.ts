@@ -29,7 +29,7 @@ export async function GET(
 		console.log(`🔵 [${requestId}] Retrieving captions for job: ${jobId}`);
 
 		// Check if job exists
-		const job = jobManager.getJob(jobId);
+		const job = await jobManager.getJob(jobId, "captions");
 		console.log(
 			`🔵 [${requestId}] Job lookup result:`,
 			job ? "Found" : "Not found",
@@ -56,13 +56,14 @@ export async function GET(
 			status: job.status,
 		};
 
-		if (job.status === "completed" && job.captions) {
+		const captions = job.result?.captions;
+		if (job.status === "completed" && captions) {
 			console.log(
 				`✅ [${requestId}] Job completed, captions available:`,
-				job.captions.length,
+				captions.length,
 				"captions",
 			);
-			response.captions = job.captions;
+			response.captions = captions;
 			response.message = "Captions generated successfully";
 
 			// TODO: Also try to read from captions_for_remotion.json file
@@ -89,7 +90,7 @@ export async function GET(
 				console.log(`🔵 [${requestId}] Parsed file captions:`, fileCaptions);
 
 				// Use file captions if available, otherwise use memory captions
-				response.captions = fileCaptions.captions || job.captions;
+				response.captions = fileCaptions.captions || captions;
 				response.source = "file";
 				console.log(
 					`✅ [${requestId}] Using captions from file, count: ${response.captions.length}`,
@@ -108,7 +109,7 @@ export async function GET(
 			console.error(`❌ [${requestId}] Job failed:`, job.error);
 			response.error = job.error;
 			response.message = "Caption generation failed";
-		} else if (job.status === "processing") {
+		} else if (job.status === "processing" || job.status === "queued") {
 			console.log(`⏳ [${requestId}] Job still processing...`);
 			response.message = "Video is still being processed";
 		}
@@ -157,7 +158,7 @@ export async function DELETE(
 	try {
 		const { jobId } = await params;
 
-		const deleted = jobManager.deleteJob(jobId);
+		const deleted = await jobManager.deleteJob(jobId);
 
 		return NextResponse.json({
 			success: true,
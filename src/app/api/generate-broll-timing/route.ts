@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { nanoid } from "nanoid";
-import { jobManager } from "@/lib/job-manager";
+import { JobResults, jobManager } from "@/lib/job-manager";
+import { getServerSessionId, sanitizeSessionId } from "@/utils/session";
 
 export async function POST(request: NextRequest) {
 	const requestId = nanoid().slice(0, 8);
@@ -31,6 +32,10 @@ export async function POST(request: NextRequest) {
 		);
 
 		const { jobId, videoId, brollContext } = body;
+		// In the body: a custom header would need a CORS preflight
+		const sessionId = sanitizeSessionId(
+			String(body.sessionId || getServerSessionId(request)),
+		);
 
 		// Validate required parameters
 		if (!jobId) {
@@ -51,7 +56,7 @@ export async function POST(request: NextRequest) {
 		}
 
 		// Check if the caption job exists and is completed
-		const captionJob = jobManager.getJob(jobId);
+		const captionJob = await jobManager.getJob(jobId, "captions");
 		if (!captionJob) {
 			console.error(`❌ [${requestId}] Caption job not found: ${jobId}`);
 			return NextResponse.json(
@@ -60,7 +65,8 @@ export async function POST(request: NextRequest) {
 			);
 		}
 
-		if (captionJob.status !== "completed" || !captionJob.captions) {
+		const captions = captionJob.result?.captions;
+		if (captionJob.status !== "completed" || !captions) {
 			console.error(
 				`❌ [${requestId}] Caption job not completed or has no captions: ${jobId}`,
 			);
@@ -79,36 +85,31 @@ export async function POST(request: NextRequest) {
 		console.log(`🟡 [${requestId}] jobId: ${jobId}`);
 		console.log(`🟡 [${requestId}] videoId: ${videoId || "Not provided"}`);
 		console.log(`🟡 [${requestId}] brollContext: ${brollContext.length} clips`);
-		console.log(
-			`🟡 [${requestId}] Available captions: ${captionJob.captions.length}`,
-		);
+		console.log(`🟡 [${requestId}] Available captions: ${captions.length}`);
 
 		// Generate a unique B-roll job ID
 		const brollJobId = nanoid();
 		console.log(`🟡 [${requestId}] Generated B-roll job ID: ${brollJobId}`);
 
 		// Initialize B-roll timing job
-		jobManager.createJob(brollJobId);
+		const brollJob = await jobManager.createJob("broll-timing", {
+			id: brollJobId,
+			sessionId,
+			input: {
+				captionJobId: jobId,
+				videoId: videoId || null,
+				clipCount: brollContext.length,
+			},
+		});
 		console.log(
 			`🟡 [${requestId}] B-roll timing job created in manager: ${brollJobId}`,
 		);
 
-		// Start async B-roll timing processing
-		processBrollTiming(
-			brollJobId,
-			captionJob.captions,
-			brollContext,
-			requestId,
-		).catch((error) => {
-			console.error(
-				`❌ [${requestId}] B-roll timing processing failed:`,
-				error,
-			);
-			jobManager.updateJob(brollJobId, {
-				status: "failed",
-				error: error.message || "Unknown error during B-roll timing generation",
-			});
-		});
+		// Start async B-roll timing processing; the job manager records
+		// failures and retries
+		void jobManager.run(brollJob, () =>
+			processBrollTiming(brollJobId, captions, brollContext, requestId),
+		);
 
 		console.log(`🟡 [${requestId}] ==========================================`);
 		console.log(`🟡 [${requestId}] RESPONSE - B-roll timing job started`);
@@ -156,40 +157,25 @@ async function processBrollTiming(
 	captions: any[],
 	brollContext: any[],
 	requestId: string,
-) {
+): Promise<JobResults["broll-timing"]> {
 	console.log(
 		`🟡 [${requestId}] Starting B-roll timing processing for job: ${brollJobId}`,
 	);
 
-	try {
-		// Simulate processing time (in real implementation, this would call external service)
-		await new Promise((resolve) => setTimeout(resolve, 3000));
+	// Simulate processing time (in real implementation, this would call external service)
+	await new Promise((resolve) => setTimeout(resolve, 3000));
 
-		// Mock B-roll timing generation based on captions and B-roll context
-		const brollTimings = generateMockBrollTimings(captions, brollContext);
+	// Mock B-roll timing generation based on captions and B-roll context
+	const brollTimings = generateMockBrollTimings(captions, brollContext);
 
-		console.log(
-			`✅ [${requestId}] B-roll timing generation completed for job: ${brollJobId}`,
-		);
-		console.log(
-			`🟡 [${requestId}] Generated ${brollTimings.length} B-roll timing suggestions`,
-		);
+	console.log(
+		`✅ [${requestId}] B-roll timing generation completed for job: ${brollJobId}`,
+	);
+	console.log(
+		`🟡 [${requestId}] Generated ${brollTimings.length} B-roll timing suggestions`,
+	);
 
-		// Update job with results
-		jobManager.updateJob(brollJobId, {
-			status: "completed",
-			brollTimings,
-		});
-	} catch (error) {
-		console.error(
-			`❌ [${requestId}] B-roll timing processing failed for job: ${brollJobId}`,
-			error,
-		);
-		jobManager.updateJob(brollJobId, {
-			status: "failed",
-			error: error instanceof Error ? error.message : "Unknown error",
-		});
-	}
+	return { brollTimings };
 }
 
 // Mock function to generate B-roll timing suggestions
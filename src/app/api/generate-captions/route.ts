@@ -1,6 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { nanoid } from "nanoid";
-import { jobManager } from "@/lib/job-manager";
+import { Job, JobError, JobResults, jobManager } from "@/lib/job-manager";
+import {
+	getTranscriptionProvider,
+	ProviderStatus,
+	toCaptions,
+	transcribeMedia,
+	TranscriptionError,
+} from "@/lib/transcription";
+import { getServerSessionId, sanitizeSessionId } from "@/utils/session";
 import { promises as fs } from "fs";
 import path from "path";
 import os from "os";
@@ -123,9 +131,21 @@ export async function POST(request: NextRequest) {
 
 		// Generate a unique job ID
 		const jobId = nanoid();
+		// Sent as a field: a custom header would need a CORS preflight
+		const sessionId = sanitizeSessionId(
+			(formData.get("sessionId") as string) || getServerSessionId(request),
+		);
 
 		// Initialize job status
-		jobManager.createJob(jobId);
+		const job = await jobManager.createJob("captions", {
+			id: jobId,
+			sessionId,
+			input: {
+				fileName: videoFile.name,
+				fileSize: videoFile.size,
+				orientation,
+			},
+		});
 
 		// Save uploaded video file to temporary location
 
@@ -141,6 +161,7 @@ export async function POST(request: NextRequest) {
 
 			const stats = await fs.stat(tempVideoPath);
 		} catch (error) {
+			await jobManager.failJob(jobId, "Failed to save uploaded video file");
 			return NextResponse.json(
 				{
 					success: false,
@@ -161,7 +182,7 @@ export async function POST(request: NextRequest) {
 		// Start video processing asynchronously
 
 		// Process video in background
-		processVideoAsync(jobId, tempVideoPath, orientation, requestId);
+		void processVideoAsync(job, tempVideoPath, orientation);
 
 		const response = {
 			success: true,
@@ -208,128 +229,25 @@ export async function POST(request: NextRequest) {
 	}
 }
 
-// Background video processing function
+// Background video processing: runs the caption job (with retries) and
+// removes the uploaded video once it is done
 async function processVideoAsync(
-	jobId: string,
+	job: Job<"captions">,
 	videoPath: string,
 	orientation: string,
-	requestId: string,
 ) {
-	const processingId = nanoid().slice(0, 8);
-
-	try {
-		// Verify video file exists
-		await fs.access(videoPath);
-		const stats = await fs.stat(videoPath);
-
-		// TODO: Replace this with actual video processing
-		// For now, we'll simulate processing and generate realistic captions
-
-		// Simulate processing time based on file size (2-8 seconds)
-		const processingTime = Math.min(
-			2000 + (stats.size / 1024 / 1024) * 500,
-			8000,
-		);
-		await new Promise((resolve) => setTimeout(resolve, processingTime));
-
-		// Generate realistic captions based on video duration (estimate 30 seconds)
-		const estimatedDurationSeconds = 30; // TODO: Get actual duration from video
-		const captionsPerSecond = 2; // Approximate words per second
-		const totalCaptions = Math.floor(
-			estimatedDurationSeconds * captionsPerSecond,
-		);
-
-		const sampleWords = [
-			"Welcome",
-			"to",
-			"our",
-			"amazing",
-			"video",
-			"content",
-			"creation",
-			"platform",
-			"Here",
-			"you",
-			"can",
-			"create",
-			"stunning",
-			"videos",
-			"with",
-			"professional",
-			"captions",
-			"and",
-			"effects",
-			"Let",
-			"your",
-			"creativity",
-			"shine",
-			"through",
-			"every",
-			"frame",
-			"and",
-			"make",
-			"your",
-			"content",
-			"stand",
-			"out",
-			"from",
-			"the",
-			"crowd",
-			"with",
-			"engaging",
-			"storytelling",
-			"techniques",
-			"Transform",
-			"your",
-			"ideas",
-			"into",
-			"viral",
-			"content",
-			"today",
-		];
-
-		const captions = [];
-		for (let i = 0; i < Math.min(totalCaptions, 60); i++) {
-			const wordIndex = i % sampleWords.length;
-			const startTime = i * 0.5; // 0.5 seconds per word
-			const endTime = startTime + 0.8; // 0.8 second duration per word
-
-			captions.push({
-				id: `caption-${i + 1}`,
-				word: sampleWords[wordIndex],
-				text: sampleWords[wordIndex],
-				start: startTime,
-				end: endTime,
-				startTime: Math.round(startTime * 1000), // milliseconds
-				endTime: Math.round(endTime * 1000), // milliseconds
-				confidence: 0.85 + Math.random() * 0.15, // 0.85-1.0
-				vertical: orientation === "vertical",
-			});
-		}
-
-		// Update job status to completed
-		jobManager.updateJob(jobId, {
-			status: "completed",
-			captions: captions,
-			processedAt: new Date().toISOString(),
-			videoPath: videoPath,
-			orientation: orientation,
-		});
+	const finished = await jobManager.run(job, ({ setProgress }) =>
+		generateCaptions(job.id, videoPath, orientation, setProgress),
+	);
 
+	if (finished?.status === "completed") {
 		// Clean up temporary file after processing
 		setTimeout(async () => {
 			try {
 				await fs.unlink(videoPath);
 			} catch (cleanupError) {}
 		}, 60000); // Clean up after 1 minute
-	} catch (error) {
-		// Update job status to failed
-		jobManager.updateJob(jobId, {
-			status: "failed",
-			error: error instanceof Error ? error.message : "Unknown error",
-			failedAt: new Date().toISOString(),
-		});
-
+	} else {
 		// Clean up temporary file on failure
 		try {
 			await fs.unlink(videoPath);
@@ -337,14 +255,69 @@ async function processVideoAsync(
 	}
 }
 
+async function generateCaptions(
+	jobId: string,
+	videoPath: string,
+	orientation: string,
+	setProgress: (progress: number, stage?: string) => Promise<void>,
+): Promise<JobResults["captions"]> {
+	// Verify video file exists
+	await fs.stat(videoPath).catch(() => {
+		throw new JobError("Uploaded video file is missing", false);
+	});
+
+	// Engines report every percent; the job row only needs every few
+	let lastProgress = 0;
+	let lastStage = "";
+	try {
+		const transcript = await transcribeMedia(videoPath, jobId, {
+			onProgress: (percent, stage) => {
+				const progress = 5 + Math.round(percent * 0.9);
+				if (stage === lastStage && progress - lastProgress < 5) return;
+				lastProgress = progress;
+				lastStage = stage;
+				void setProgress(progress, stage);
+			},
+		});
+		if (transcript.words.length === 0) {
+			throw new JobError("No speech was found in the video", false);
+		}
+
+		return {
+			captions: toCaptions(transcript, orientation),
+			processedAt: new Date().toISOString(),
+			videoPath: videoPath,
+			orientation: orientation,
+			engine: transcript.engine,
+			language: transcript.language,
+			duration: transcript.duration,
+		};
+	} catch (error) {
+		if (error instanceof TranscriptionError) {
+			throw new JobError(error.message, error.retryable);
+		}
+		throw error;
+	}
+}
+
 // Optional: Add GET method for testing
 export async function GET() {
+	// Whether captions can actually be generated on this server
+	let transcription: ProviderStatus & { engine?: string };
+	try {
+		const provider = getTranscriptionProvider();
+		transcription = { engine: provider.name, ...(await provider.check()) };
+	} catch (error) {
+		transcription = { available: false, reason: (error as Error).message };
+	}
+
 	return NextResponse.json({
 		message: "Video processing API is running",
 		endpoints: {
 			POST: "/api/generate-captions",
 			GET: "/api/captions/:jobId",
 		},
-		activeJobs: jobManager.getAllJobs(),
+		jobs: "/api/jobs",
+		transcription,
 	});
 }
@@ -0,0 +1,107 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import { NextRequest } from "next/server";
+import { Job, JobKind, jobManager } from "@/lib/job-manager";
+import { RenderJobView, renderQueue } from "@/lib/render-queue";
+import { GET } from "./route";
+
+const CREATED = new Date(Date.UTC(2026, 0, 1));
+
+const job = (id: string, kind: Job["kind"]) =>
+	({
+		id,
+		kind,
+		status: "completed",
+		progress: 100,
+		stage: null,
+		error: null,
+		attempts: 1,
+		maxAttempts: 3,
+		nextAttemptAt: null,
+		createdAt: CREATED,
+		updatedAt: CREATED,
+		finishedAt: CREATED,
+	}) as Job;
+
+const render = (renderId: string) =>
+	({
+		renderId,
+		status: "completed",
+		progress: 100,
+		stage: null,
+		startTime: CREATED.getTime(),
+		elapsed: 1000,
+	}) as unknown as RenderJobView;
+
+const listKinds = async (query: string) => {
+	const response = await GET(
+		new NextRequest(`http://localhost/api/jobs${query}`, {
+			headers: { "x-cinetune-session": "session-1" },
+		}),
+	);
+	assert.equal(response.status, 200);
+	const { jobs } = await response.json();
+	return jobs.map((entry: { kind: string }) => entry.kind);
+};
+
+describe("GET /api/jobs", () => {
+	// The kinds each jobManager.listJobs call asked for
+	let requested: (JobKind[] | undefined)[];
+	const databaseUrl = process.env.DATABASE_URL;
+
+	beforeEach(() => {
+		process.env.DATABASE_URL = "postgres://test";
+		requested = [];
+		mock.method(
+			jobManager,
+			"listJobs",
+			async (_session: string, options?: { kinds?: JobKind[] }) => {
+				requested.push(options?.kinds);
+				return [job("caption-job", "captions"), job("encode-job", "encode")];
+			},
+		);
+		mock.method(renderQueue, "listJobs", async () => [render("render-job")]);
+	});
+
+	afterEach(() => {
+		mock.restoreAll();
+		if (databaseUrl === undefined) {
+			Reflect.deleteProperty(process.env, "DATABASE_URL");
+		} else {
+			process.env.DATABASE_URL = databaseUrl;
+		}
+	});
+
+	it("lists jobs and renders without a kind filter", async () => {
+		assert.deepEqual((await listKinds("")).sort(), [
+			"captions",
+			"encode",
+			"render",
+		]);
+		assert.deepEqual(requested, [undefined]);
+	});
+
+	it("lists only renders for ?kind=render", async () => {
+		assert.deepEqual(await listKinds("?kind=render"), ["render"]);
+		assert.deepEqual(requested, []);
+	});
+
+	it("passes the other kinds on without render", async () => {
+		await listKinds("?kind=captions,render");
+		assert.deepEqual(requested, [["captions"]]);
+	});
+
+	it("leaves renders out when they weren't asked for", async () => {
+		assert.deepEqual((await listKinds("?kind=captions,encode")).sort(), [
+			"captions",
+			"encode",
+		]);
+	});
+
+	it("rejects unknown kinds", async () => {
+		const response = await GET(
+			new NextRequest("http://localhost/api/jobs?kind=hologram"),
+		);
+		assert.equal(response.status, 400);
+	});
+});
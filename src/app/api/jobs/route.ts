@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Job, JobKind, JobStatus, jobManager } from "@/lib/job-manager";
+import { RenderJobView, renderQueue } from "@/lib/render-queue";
+import { getServerSessionId, sanitizeSessionId } from "@/utils/session";
+
+export const runtime = "nodejs";
+
+const JOB_KINDS: JobKind[] = [
+	"captions",
+	"broll-timing",
+	"encode",
+	"extract-audio",
+	"align-captions",
+	"render",
+];
+const MAX_LIMIT = 200;
+
+// One row per job in the listing. Inputs and results stay out of it: they
+// can hold server paths, and each kind has its own result endpoint.
+interface JobSummary {
+	id: string;
+	kind: JobKind;
+	status: JobStatus;
+	progress: number;
+	stage: string | null;
+	error: string | null;
+	attempts: number;
+	maxAttempts: number;
+	nextAttemptAt: Date | null;
+	createdAt: Date;
+	updatedAt: Date;
+	finishedAt: Date | null;
+}
+
+const summarizeJob = (job: Job): JobSummary => ({
+	id: job.id,
+	kind: job.kind,
+	status: job.status,
+	progress: job.progress,
+	stage: job.stage,
+	error: job.error,
+	attempts: job.attempts,
+	maxAttempts: job.maxAttempts,
+	nextAttemptAt: job.nextAttemptAt,
+	createdAt: job.createdAt,
+	updatedAt: job.updatedAt,
+	finishedAt: job.finishedAt,
+});
+
+const RENDER_STATUSES: Record<RenderJobView["status"], JobStatus> = {
+	queued: "queued",
+	rendering: "processing",
+	completed: "completed",
+	error: "failed",
+	cancelled: "cancelled",
+};
+
+// Renders live in the render queue's own table
+const summarizeRender = (render: RenderJobView): JobSummary => {
+	const startTime = new Date(render.startTime);
+	const isDone = ["completed", "error", "cancelled"].includes(render.status);
+	return {
+		id: render.renderId,
+		kind: "render",
+		status: RENDER_STATUSES[render.status],
+		progress: render.progress,
+		stage: render.stage,
+		error: render.error ?? null,
+		attempts: 1,
+		maxAttempts: 1,
+		nextAttemptAt: null,
+		createdAt: startTime,
+		updatedAt: isDone
+			? new Date(render.startTime + render.elapsed)
+			: new Date(),
+		finishedAt: isDone ? new Date(render.startTime + render.elapsed) : null,
+	};
+};
+
+// Jobs of the calling session (x-cinetune-session), newest first.
+// ?kind=captions,encode narrows the kinds; ?limit=N caps the count.
+export async function GET(request: NextRequest) {
+	const sessionId = sanitizeSessionId(getServerSessionId(request));
+	const { searchParams } = request.nextUrl;
+
+	const kinds = searchParams.get("kind")?.split(",").filter(Boolean) as
+		| JobKind[]
+		| undefined;
+	const unknownKind = kinds?.find((kind) => !JOB_KINDS.includes(kind));
+	if (unknownKind) {
+		return NextResponse.json(
+			{ message: `Unknown job kind: ${unknownKind}` },
+			{ status: 400 },
+		);
+	}
+	const limit = Number(searchParams.get("limit") || 50);
+	if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+		return NextResponse.json(
+			{ message: `limit must be between 1 and ${MAX_LIMIT}` },
+			{ status: 400 },
+		);
+	}
+
+	try {
+		// An empty list would mean "every kind" to listJobs, so ?kind=render
+		// doesn't ask it at all
+		const jobKinds = kinds?.filter((kind) => kind !== "render");
+		const jobs =
+			jobKinds && jobKinds.length === 0
+				? []
+				: (
+						await jobManager.listJobs(sessionId, { kinds: jobKinds, limit })
+					).map(summarizeJob);
+
+		// Renders need the Postgres render queue, which a SQLite-only dev
+		// setup doesn't have
+		const wantsRenders = !kinds || kinds.includes("render");
+		if (wantsRenders && process.env.DATABASE_URL) {
+			const renders = await renderQueue.listJobs(sessionId, limit);
+			jobs.push(...renders.map(summarizeRender));
+		}
+
+		jobs.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+		return NextResponse.json({ sessionId, jobs: jobs.slice(0, limit) });
+	} catch (error) {
+		console.error(`[jobs] Failed to list jobs for ${sessionId}:`, error);
+		return NextResponse.json(
+			{ message: "Failed to list jobs" },
+			{ status: 500 },
+		);
+	}
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import { jobManager } from "@/lib/job-manager";
+import { JobResults, jobManager } from "@/lib/job-manager";
 
 export async function GET(
 	request: NextRequest,
@@ -10,7 +10,7 @@ export async function GET(
 
 	try {
 		// Get job status from job manager
-		const job = jobManager.getJob(jobId);
+		const job = await jobManager.getJob(jobId);
 
 		if (!job) {
 			console.log(`❌ [STATUS] Job not found: ${jobId}`);
@@ -37,11 +37,22 @@ export async function GET(
 		const response = {
 			success: true,
 			jobId: jobId,
+			kind: job.kind,
 			status: job.status,
+			progress: job.progress,
+			...(job.stage && { stage: job.stage }),
+			attempts: job.attempts,
 			...(job.error && { error: job.error }),
-			...(job.captions && { captionsCount: job.captions.length }),
-			...(job.processedAt && { processedAt: job.processedAt }),
-			...(job.failedAt && { failedAt: job.failedAt }),
+			...(job.nextAttemptAt && {
+				nextAttemptAt: job.nextAttemptAt.toISOString(),
+			}),
+			...(job.kind === "captions" &&
+				job.result && {
+					captionsCount: (job.result as JobResults["captions"]).captions.length,
+					processedAt: (job.result as JobResults["captions"]).processedAt,
+				}),
+			...(job.status === "failed" &&
+				job.finishedAt && { failedAt: job.finishedAt.toISOString() }),
 		};
 
 		return NextResponse.json(response, {
@@ -0,0 +1,122 @@
+import { NextResponse } from "next/server";
+import { RenderJobView, renderQueue } from "@/lib/render-queue";
+import { watchRender } from "@/lib/render-watch";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const STDERR_TAIL_LENGTH = 2000;
+
+// Server-Sent Events for one render. Every poll of the render sends a
+// "progress" event; the stream ends with exactly one "done", "error" or
+// "cancelled" event. Streams for the same render share one poll.
+const toRenderEvent = (job: RenderJobView) => {
+	const data: Record<string, unknown> = {
+		renderId: job.renderId,
+		status: job.status,
+		stage: job.stage,
+		progress: job.progress,
+		position: job.queuePosition,
+		renderedFrames: job.renderedFrames,
+		totalFrames: job.totalFrames,
+		bundleCache: job.bundleCache,
+		eta: job.eta,
+		elapsed: job.elapsed,
+		preset: job.preset,
+	};
+
+	switch (job.status) {
+		case "completed":
+			if (job.filePath) {
+				data.url = `/api/render/local/file?path=${encodeURIComponent(job.filePath)}`;
+			}
+			return { name: "done", data, final: true };
+		case "error":
+			data.error = job.error || "Render failed";
+			data.stderr = job.stderr?.slice(-STDERR_TAIL_LENGTH) ?? "";
+			return { name: "error", data, final: true };
+		case "cancelled":
+			data.error = job.error;
+			return { name: "cancelled", data, final: true };
+		default:
+			return { name: "progress", data, final: false };
+	}
+};
+
+export async function GET(
+	request: Request,
+	{ params }: { params: Promise<{ id: string }> },
+) {
+	const { id } = await params;
+
+	let job: RenderJobView | null;
+	try {
+		job = await renderQueue.getJob(id);
+	} catch (e: any) {
+		console.error("[render-events] Failed to load render:", e);
+		return NextResponse.json(
+			{ message: "Failed to load render", error: e?.message || String(e) },
+			{ status: 500 },
+		);
+	}
+	if (!job) {
+		return NextResponse.json({ message: "Render not found" }, { status: 404 });
+	}
+
+	console.log(`[render-events] Streaming render ${id}`);
+	const encoder = new TextEncoder();
+	let unwatch: (() => void) | undefined;
+	let closed = false;
+
+	const stream = new ReadableStream<Uint8Array>({
+		start(controller) {
+			const close = () => {
+				if (closed) return;
+				closed = true;
+				unwatch?.();
+				try {
+					controller.close();
+				} catch {
+					// Client already went away
+				}
+			};
+
+			const send = (event: string, data: unknown) => {
+				controller.enqueue(
+					encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`),
+				);
+			};
+
+			request.signal.addEventListener("abort", close);
+			unwatch = watchRender(id, (current) => {
+				if (closed) return;
+				if (!current) {
+					send("error", { renderId: id, error: "Render not found" });
+					close();
+					return;
+				}
+
+				const event = toRenderEvent(current);
+				send(event.name, event.data);
+				if (event.final) close();
+			});
+			// The catch-up call can end the stream before watchRender returns
+			if (closed) unwatch();
+		},
+		cancel() {
+			closed = true;
+			unwatch?.();
+		},
+	});
+
+	return new NextResponse(stream, {
+		status: 200,
+		headers: {
+			"Content-Type": "text/event-stream",
+			"Cache-Control": "no-cache, no-transform",
+			Connection: "keep-alive",
+			// Stop nginx from buffering the stream
+			"X-Accel-Buffering": "no",
+		},
+	});
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { getRenderManifest } from "@/lib/render-manifest";
+import { getServerSessionId, sanitizeSessionId } from "@/utils/session";
+
+export const runtime = "nodejs";
+
+// Full manifest of a finished render, including its design snapshot
+export async function GET(
+	request: Request,
+	{ params }: { params: Promise<{ id: string }> },
+) {
+	try {
+		const { id } = await params;
+		const sessionId = sanitizeSessionId(getServerSessionId(request));
+		// Other sessions' renders are reported as missing
+		const manifest = await getRenderManifest(id, sessionId);
+		if (!manifest) {
+			return NextResponse.json(
+				{ message: "Render manifest not found" },
+				{ status: 404 },
+			);
+		}
+
+		return NextResponse.json(
+			{
+				renderId: manifest.id,
+				projectId: manifest.project_id,
+				sessionId: manifest.session_id,
+				status: manifest.status,
+				design: manifest.design,
+				target: manifest.target,
+				preset: manifest.preset,
+				durationMs: manifest.duration_ms,
+				renderTimeMs: manifest.render_time_ms,
+				error: manifest.error,
+				createdAt: manifest.created_at,
+				downloadUrl: manifest.output_path
+					? `/api/render/local/file?path=${encodeURIComponent(manifest.output_path)}`
+					: null,
+			},
+			{ status: 200 },
+		);
+	} catch (error: any) {
+		console.error("[render-manifest] Failed to load manifest:", error);
+		return NextResponse.json(
+			{ message: "Failed to load render manifest", error: error?.message },
+			{ status: 500 },
+		);
+	}
+}
@@ -1,4 +1,9 @@
 import { NextResponse } from "next/server";
+import { RenderQueueError, renderQueue } from "@/lib/render-queue";
+import { getServerSessionId, sanitizeSessionId } from "@/utils/session";
+
+export const runtime = "nodejs";
+
 export async function GET(
 	request: Request,
 	{ params }: { params: Promise<{ id: string }> },
@@ -39,3 +44,41 @@ export async function GET(
 		);
 	}
 }
+
+// Cancel a local render: queued jobs are dropped, running ones are killed
+export async function DELETE(
+	request: Request,
+	{ params }: { params: Promise<{ id: string }> },
+) {
+	try {
+		const { id } = await params;
+		if (!id) {
+			return NextResponse.json(
+				{ message: "id parameter is required" },
+				{ status: 400 },
+			);
+		}
+
+		const sessionId = sanitizeSessionId(getServerSessionId(request));
+		console.log(`[render-cancel] Cancelling render ${id}`);
+		const job = await renderQueue.cancel(id, sessionId);
+
+		return NextResponse.json(
+			{ renderId: job.renderId, status: job.status },
+			{ status: 200 },
+		);
+	} catch (error: any) {
+		if (error instanceof RenderQueueError) {
+			return NextResponse.json(
+				{ message: error.message },
+				{ status: error.status },
+			);
+		}
+		console.error(error);
+
+		return NextResponse.json(
+			{ message: "Internal server error" },
+			{ status: 500 },
+		);
+	}
+}
@@ -1,11 +1,28 @@
 import { NextRequest, NextResponse } from "next/server";
 import { readdir, stat } from "fs/promises";
-import { join } from "path";
+import { extname, join } from "path";
+import {
+	RenderManifestSummary,
+	getRenderManifestsByOutputPath,
+} from "@/lib/render-manifest";
+import { readRenderPreviews } from "@/lib/render-previews";
+import {
+	RENDER_FILE_TYPES,
+	getExportPreset,
+} from "@/features/editor/constants/export-presets";
+
+export const runtime = "nodejs";
+
+// Videos from export presets plus still and contact-sheet images
+const isRenderFile = (file: string) =>
+	Object.hasOwn(RENDER_FILE_TYPES, extname(file).slice(1));
 
 export async function GET(request: NextRequest) {
 	try {
 		// Universal access: Show all renders to all users
 		console.log(`[render-list] Loading all renders (universal access)`);
+		// Optional filter: only renders of this design id
+		const projectId = request.nextUrl.searchParams.get("projectId");
 
 		// FIXED: Use correct renders directory path (same fix as render script)
 		const projectRoot = process.cwd().includes(".next/standalone")
@@ -26,9 +43,7 @@ export async function GET(request: NextRequest) {
 					// This is a session directory, read files from it
 					try {
 						const sessionFiles = await readdir(itemPath);
-						const sessionVideoFiles = sessionFiles.filter((file) =>
-							file.endsWith(".mp4"),
-						);
+						const sessionVideoFiles = sessionFiles.filter(isRenderFile);
 
 						for (const file of sessionVideoFiles) {
 							const filePath = join(itemPath, file);
@@ -46,7 +61,7 @@ export async function GET(request: NextRequest) {
 							error,
 						);
 					}
-				} else if (item.endsWith(".mp4")) {
+				} else if (isRenderFile(item)) {
 					// This is a legacy file in the base directory
 					allRenders.push({
 						file: item,
@@ -65,7 +80,10 @@ export async function GET(request: NextRequest) {
 				`[render-list] No renders directory found or error reading:`,
 				error,
 			);
-			return NextResponse.json({ renders: [], totalCount: 0 }, { status: 200 });
+			return NextResponse.json(
+				{ renders: [], totalCount: 0, projects: [] },
+				{ status: 200 },
+			);
 		}
 
 		// Process all renders
@@ -73,47 +91,96 @@ export async function GET(request: NextRequest) {
 			`[render-list] Processing ${allRenders.length} total video files`,
 		);
 
-		const renders = allRenders.map((renderItem) => {
-			const { file, filePath, stats, source } = renderItem;
-
-			// FIXED: Simple and safe date handling
-			let createdAt: string;
-			try {
-				// Try to extract timestamp from filename (export_YYYY-MM-DDTHH-mm-ss-sssZ.mp4)
-				const timestampMatch = file.match(/export_(.+)\.mp4$/);
-				if (timestampMatch) {
-					const rawTimestamp = timestampMatch[1];
-					// Convert: 2025-08-26T18-21-41-878Z -> 2025-08-26T18:21:41.878Z
-					const isoTimestamp = rawTimestamp.replace(
-						/T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z$/,
-						"T$1:$2:$3.$4Z",
-					);
-
-					const parsedDate = new Date(isoTimestamp);
-					if (!isNaN(parsedDate.getTime())) {
-						createdAt = parsedDate.toISOString();
+		// Files from before render manifests existed have none
+		let manifestsByPath = new Map<string, RenderManifestSummary>();
+		try {
+			manifestsByPath = await getRenderManifestsByOutputPath(
+				allRenders.map((renderItem) => renderItem.filePath),
+			);
+		} catch (error) {
+			console.warn(`[render-list] Could not load render manifests:`, error);
+		}
+
+		// Every project with at least one render, for the gallery filter
+		const projectCounts = new Map<string, number>();
+		for (const manifest of manifestsByPath.values()) {
+			if (!manifest.project_id) continue;
+			projectCounts.set(
+				manifest.project_id,
+				(projectCounts.get(manifest.project_id) || 0) + 1,
+			);
+		}
+		const projects = Array.from(projectCounts, ([id, count]) => ({
+			id,
+			count,
+		}));
+
+		if (projectId) {
+			allRenders = allRenders.filter(
+				(renderItem) =>
+					manifestsByPath.get(renderItem.filePath)?.project_id === projectId,
+			);
+		}
+
+		const renders = await Promise.all(
+			allRenders.map(async (renderItem) => {
+				const { file, filePath, stats, source } = renderItem;
+				const extension = extname(file);
+				const manifest = manifestsByPath.get(filePath);
+				const preset = getExportPreset(manifest?.preset);
+
+				// FIXED: Simple and safe date handling
+				let createdAt: string;
+				try {
+					// Try to extract timestamp from filename (export_YYYY-MM-DDTHH-mm-ss-sssZ.mp4,
+					// also still_ and contact-sheet_ prefixes)
+					const timestampMatch = file.match(/^[a-z-]+_(.+)\.[a-z0-9]+$/);
+					if (timestampMatch) {
+						const rawTimestamp = timestampMatch[1];
+						// Convert: 2025-08-26T18-21-41-878Z -> 2025-08-26T18:21:41.878Z
+						const isoTimestamp = rawTimestamp.replace(
+							/T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z$/,
+							"T$1:$2:$3.$4Z",
+						);
+
+						const parsedDate = new Date(isoTimestamp);
+						if (!isNaN(parsedDate.getTime())) {
+							createdAt = parsedDate.toISOString();
+						} else {
+							throw new Error("Invalid timestamp format");
+						}
 					} else {
-						throw new Error("Invalid timestamp format");
+						throw new Error("No timestamp in filename");
 					}
-				} else {
-					throw new Error("No timestamp in filename");
+				} catch (error) {
+					// Fallback to file modification time
+					createdAt = stats.mtime.toISOString();
 				}
-			} catch (error) {
-				// Fallback to file modification time
-				createdAt = stats.mtime.toISOString();
-			}
 
-			return {
-				id: file.replace(".mp4", ""),
-				filename: file,
-				path: filePath,
-				size: stats.size,
-				createdAt,
-				modifiedAt: stats.mtime.toISOString(),
-				source, // Show which source this render came from
-				downloadUrl: `/api/render/local/file?path=${encodeURIComponent(filePath)}`,
-			};
-		});
+				return {
+					id: file.slice(0, -extension.length),
+					filename: file,
+					format: extension.slice(1),
+					preset: preset ? { id: preset.id, name: preset.name } : null,
+					// Present when a manifest was recorded for this file
+					renderId: manifest?.id ?? null,
+					projectId: manifest?.project_id ?? null,
+					target: manifest?.target ?? null,
+					durationMs: manifest?.duration_ms ?? null,
+					renderTimeMs: manifest?.render_time_ms ?? null,
+					// Measured levels of loudness-normalized renders
+					loudness: manifest?.loudness ?? null,
+					path: filePath,
+					size: stats.size,
+					createdAt,
+					modifiedAt: stats.mtime.toISOString(),
+					source, // Show which source this render came from
+					downloadUrl: `/api/render/local/file?path=${encodeURIComponent(filePath)}`,
+					// Poster and scrub sprite, for video renders that have them
+					previews: await readRenderPreviews(filePath),
+				};
+			}),
+		);
 
 		// Sort by creation date (newest first)
 		renders.sort(
@@ -125,7 +192,7 @@ export async function GET(request: NextRequest) {
 			`[render-list] Returning ${renders.length} total renders (universal access)`,
 		);
 		return NextResponse.json(
-			{ renders, totalCount: renders.length },
+			{ renders, totalCount: renders.length, projects },
 			{ status: 200 },
 		);
 	} catch (error) {
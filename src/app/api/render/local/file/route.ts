@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createReadStream, statSync } from "fs";
-import { basename, dirname, join, resolve } from "path";
+import { basename, dirname, extname, join, resolve } from "path";
 import { getServerSessionId, sanitizeSessionId } from "@/utils/session";
+import { RENDER_FILE_TYPES } from "@/features/editor/constants/export-presets";
 
 export async function GET(request: NextRequest) {
 	try {
@@ -63,6 +64,10 @@ export async function GET(request: NextRequest) {
 
 		const fileName = basename(filePath);
 		const fileSize = stats.size;
+		const ext = extname(fileName).slice(1);
+		const contentType = Object.hasOwn(RENDER_FILE_TYPES, ext)
+			? RENDER_FILE_TYPES[ext]
+			: "video/mp4";
 
 		console.log("[file-stream] Streaming file:", {
 			path: filePath,
@@ -94,7 +99,7 @@ export async function GET(request: NextRequest) {
 		return new NextResponse(readableStream, {
 			status: 200,
 			headers: {
-				"Content-Type": "video/mp4",
+				"Content-Type": contentType,
 				"Content-Length": fileSize.toString(),
 				"Content-Disposition": `attachment; filename="${fileName}"`,
 				"Cache-Control": "no-cache",
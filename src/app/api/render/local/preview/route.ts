@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { readFile } from "node:fs/promises";
+import { join, resolve, sep } from "node:path";
+import { getPreviewPath, RenderPreviewKind } from "@/lib/render-previews";
+
+export const runtime = "nodejs";
+
+const PREVIEW_KINDS: RenderPreviewKind[] = ["poster", "sprite"];
+
+// Poster frame or scrub sprite of a render, looked up by the render's path
+// like /api/render/local/file
+export async function GET(request: NextRequest) {
+	try {
+		const searchParams = request.nextUrl.searchParams;
+		const filePath = searchParams.get("path");
+		const kind = searchParams.get("kind") as RenderPreviewKind | null;
+
+		if (!filePath || !kind || !PREVIEW_KINDS.includes(kind)) {
+			return NextResponse.json(
+				{ message: "path and kind (poster or sprite) are required" },
+				{ status: 400 },
+			);
+		}
+
+		const projectRoot = process.cwd().includes(".next/standalone")
+			? join(process.cwd(), "../../")
+			: process.cwd();
+		const baseRendersDir = resolve(join(projectRoot, "renders"));
+		const previewPath = resolve(getPreviewPath(resolve(filePath), kind));
+
+		if (!previewPath.startsWith(baseRendersDir + sep)) {
+			console.warn(
+				`[render-preview] Access denied - not in renders directory: ${filePath}`,
+			);
+			return NextResponse.json(
+				{ message: "Access denied - File must be in renders directory" },
+				{ status: 403 },
+			);
+		}
+
+		let image: Buffer;
+		try {
+			image = await readFile(previewPath);
+		} catch {
+			return NextResponse.json(
+				{ message: "No preview for this render" },
+				{ status: 404 },
+			);
+		}
+
+		return new NextResponse(new Uint8Array(image), {
+			status: 200,
+			headers: {
+				"Content-Type": "image/jpeg",
+				"Content-Length": image.length.toString(),
+				// Renders are never rewritten under the same name
+				"Cache-Control": "private, max-age=86400",
+			},
+		});
+	} catch (error) {
+		console.error("[render-preview] Error:", error);
+		return NextResponse.json(
+			{ message: "Internal server error" },
+			{ status: 500 },
+		);
+	}
+}
@@ -1,16 +1,18 @@
 import { NextResponse } from "next/server";
-import path from "path";
 import os from "os";
 import fs from "fs/promises";
-import { spawn } from "child_process";
 import { getServerSessionId, sanitizeSessionId } from "@/utils/session";
-import { randomUUID } from "crypto";
+import { renderQueue } from "@/lib/render-queue";
+import { preflightDesign } from "@/lib/design-preflight";
+import { getAppOrigin } from "@/lib/media-urls";
+import {
+	DEFAULT_EXPORT_PRESET_ID,
+	getExportPreset,
+	parseExportTarget,
+} from "@/features/editor/constants/export-presets";
 
 export const runtime = "nodejs";
 
-// Store active renders for progress tracking
-const activeRenders = new Map<string, { status: string; startTime: number }>();
-
 export async function POST(request: Request) {
 	const startTime = Date.now();
 	console.log("[local-render] API route hit - starting");
@@ -69,151 +71,77 @@ export async function POST(request: Request) {
 			);
 		}
 
-		console.log("[local-render] Creating temp directory...");
-		const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "remotion-design-"));
-		const designPath = path.join(tmpDir, "design.json");
-
-		console.log("[local-render] Writing design to:", designPath);
-		await fs.writeFile(designPath, JSON.stringify({ design }, null, 2));
-		console.log("[local-render] Design file written successfully");
-
-		const nodeBin = process.execPath;
-		const scriptPath = path.join(process.cwd(), "scripts", "render-local.cjs");
-		console.log("[local-render] node bin:", nodeBin);
-		console.log("[local-render] script path:", scriptPath);
-		console.log("[local-render] current working directory:", process.cwd());
-
-		// Log system resources before starting render
-		console.log(`[local-render] System resources:`);
-		console.log(`  Free memory: ${Math.round(os.freemem() / 1024 / 1024)}MB`);
-		console.log(`  Total memory: ${Math.round(os.totalmem() / 1024 / 1024)}MB`);
-		console.log(`  CPU cores: ${os.cpus().length}`);
-		console.log(`  Load average: ${os.loadavg()}`);
-		console.log(`  Platform: ${os.platform()}, Architecture: ${os.arch()}`);
-
-		// Verify script exists
-		console.log("[local-render] Checking if script exists...");
-		try {
-			const scriptStats = await fs.stat(scriptPath);
-			console.log(
-				"[local-render] Script found, size:",
-				scriptStats.size,
-				"bytes",
-			);
-		} catch (scriptError) {
-			console.error("[local-render] Script not found:", scriptError);
+		const presetId = body?.preset || DEFAULT_EXPORT_PRESET_ID;
+		const preset = getExportPreset(presetId);
+		if (!preset) {
+			console.error(`[local-render] Unknown export preset: ${presetId}`);
 			return NextResponse.json(
-				{
-					message: "Renderer script not found",
-					scriptPath,
-					cwd: process.cwd(),
-					error: String(scriptError),
-				},
-				{ status: 500 },
+				{ message: `Unknown export preset: ${presetId}` },
+				{ status: 400 },
 			);
 		}
 
-		// Verify design exists
-		console.log("[local-render] Verifying design file...");
-		try {
-			const designStats = await fs.stat(designPath);
-			console.log(
-				"[local-render] Design file verified, size:",
-				designStats.size,
-				"bytes",
-			);
-		} catch (designError) {
-			console.error("[local-render] Design file missing:", designError);
+		const target = parseExportTarget(body?.target);
+		if (typeof target === "string") {
+			console.error(`[local-render] Invalid export target: ${target}`);
+			return NextResponse.json({ message: target }, { status: 400 });
+		}
+
+		// Catch bad media, fonts and timings before a render slot is used
+		const preflight = await preflightDesign(design, {
+			origin: getAppOrigin(request),
+		});
+		if (preflight.issues.length > 0) {
+			console.log(`[local-render] Pre-flight issues:`, preflight.issues);
+		}
+		if (!preflight.ok) {
 			return NextResponse.json(
 				{
-					message: "Temp design file missing",
-					designPath,
-					error: String(designError),
+					message: "Design failed pre-flight checks",
+					issues: preflight.issues,
 				},
-				{ status: 500 },
+				{ status: 422 },
 			);
 		}
+		console.log(`[local-render] Export target:`, target);
 
-		// Generate unique render ID for progress tracking
-		const renderId = randomUUID();
-		const progressFilePath = path.join(
-			os.tmpdir(),
-			`render-progress-${renderId}.json`,
-		);
+		// Log system resources before queueing the render
+		console.log(`[local-render] System resources:`);
+		console.log(`  Free memory: ${Math.round(os.freemem() / 1024 / 1024)}MB`);
+		console.log(`  Total memory: ${Math.round(os.totalmem() / 1024 / 1024)}MB`);
+		console.log(`  CPU cores: ${os.cpus().length}`);
+		console.log(`  Load average: ${os.loadavg()}`);
+		console.log(`  Platform: ${os.platform()}, Architecture: ${os.arch()}`);
 
+		// Renders share the persistent queue with /api/render/start, so this
+		// request waits for a free slot as well as for the render itself
+		const queued = await renderQueue.enqueue({
+			sessionId: sanitizedSessionId,
+			design,
+			preset,
+			target,
+		});
+		const renderId = queued.renderId;
 		console.log(
-			"[local-render] Spawning child process with progress tracking...",
+			`[local-render] Render ${renderId} queued at position ${queued.queuePosition ?? 0}`,
 		);
-		console.log("[local-render] Render ID:", renderId);
-		console.log("[local-render] Progress file:", progressFilePath);
-
-		// Log the exact command being executed
-		const cmdArgs = [
-			"--max-old-space-size=1024",
-			scriptPath,
-			`--design=${designPath}`,
-			`--session=${sanitizedSessionId}`,
-			`--progress=${progressFilePath}`,
-		];
-		console.log(`[local-render] Command: ${nodeBin} ${cmdArgs.join(" ")}`);
-		console.log(`[local-render] Environment variables being set:`);
-		console.log(`  NODE_OPTIONS: --max-old-space-size=1024`);
-		console.log(`  CHROMIUM_DISABLE_LOGGING: 1`);
-		console.log(`  CHROME_LOG_LEVEL: 3`);
-
-		const child = spawn(nodeBin, cmdArgs, {
-			stdio: ["ignore", "pipe", "pipe"],
-			cwd: process.cwd(),
-			env: {
-				...process.env,
-				// Suppress Chrome download logs
-				CHROMIUM_DISABLE_LOGGING: "1",
-				CHROME_LOG_LEVEL: "3", // Only fatal errors
-				PUPPETEER_DISABLE_HEADLESS_WARNING: "true",
-				// Suppress Remotion logs
-				REMOTION_DISABLE_LOGGING: "1",
-				NODE_ENV: "production", // Suppress dev warnings
-				// Additional memory management
-				NODE_OPTIONS: "--max-old-space-size=1024",
-			},
-		});
-
-		let stdout = "";
-		let stderr = "";
-		child.stdout.on("data", (d) => {
-			const chunk = d.toString();
-			stdout += chunk;
-			// Don't log stdout chunks as they contain the JSON result
-		});
-
-		child.stderr.on("data", (d) => {
-			const chunk = d.toString();
-			stderr += chunk;
-			// Log all stderr chunks for debugging (but limit length for readability)
-			console.log("[render-start] stderr chunk:", chunk);
-		});
 
-		console.log("[local-render] Waiting for child process to complete...");
-		const renderStartTime = Date.now();
-		const exitCode: number = await new Promise((resolve) =>
-			child.on("close", resolve),
-		);
-		const renderDuration = Date.now() - renderStartTime;
-		console.log("[render-start] child exited with code:", exitCode);
+		console.log("[local-render] Waiting for render to complete...");
+		const job = await renderQueue.waitForCompletion(renderId);
+		const renderDuration = job.elapsed;
+		console.log(`[local-render] Render ${renderId} finished: ${job.status}`);
 		console.log(`[local-render] Total render time: ${renderDuration}ms`);
 
-		if (stderr) {
-			console.log("[local-render] Full stderr:", stderr.slice(0, 4000));
-		}
-		if (stdout) {
-			console.log("[local-render] stdout received, length:", stdout.length);
+		if (job.status === "cancelled") {
+			return NextResponse.json(
+				{ message: "Render cancelled", renderId, status: job.status },
+				{ status: 409 },
+			);
 		}
 
-		if (exitCode !== 0) {
-			console.error("[render-start] Render failed with exit code:", exitCode);
-			console.error(
-				`[local-render] Render duration before failure: ${renderDuration}ms`,
-			);
+		if (job.status !== "completed") {
+			const stderr = job.stderr || "";
+			console.error("[local-render] Render failed:", job.error);
 			console.error(
 				`[local-render] Memory at failure: ${JSON.stringify(process.memoryUsage())}`,
 			);
@@ -244,10 +172,9 @@ export async function POST(request: Request) {
 			return NextResponse.json(
 				{
 					message: "Renderer failed",
-					exitCode,
-					stderr: stderr.slice(0, 8000),
-					scriptPath,
-					designPath,
+					renderId,
+					error: job.error,
+					stderr: stderr.slice(-8000),
 					errorAnalysis,
 					renderDuration,
 					memoryAtFailure: process.memoryUsage(),
@@ -263,32 +190,11 @@ export async function POST(request: Request) {
 			);
 		}
 
-		console.log("[local-render] Parsing renderer output...");
-		let parsed: any = {};
-		try {
-			// Clean stdout - remove any trailing whitespace/newlines
-			const cleanStdout = stdout.trim();
-			console.log("[local-render] Clean stdout:", cleanStdout);
-			parsed = JSON.parse(cleanStdout);
-			console.log("[local-render] Parsed output:", parsed);
-		} catch (parseError) {
-			console.error("[local-render] Failed to parse stdout JSON:", parseError);
-			console.error("[local-render] Raw stdout:", stdout);
-			return NextResponse.json(
-				{
-					message: "Invalid renderer output",
-					stdout: stdout.slice(0, 8000),
-					parseError: String(parseError),
-				},
-				{ status: 500 },
-			);
-		}
-
-		const filePath: string = parsed.url;
+		const filePath = job.filePath;
 		console.log("[local-render] Output file path:", filePath);
 		if (!filePath) {
 			return NextResponse.json(
-				{ message: "No output file returned", parsed },
+				{ message: "No output file returned", renderId },
 				{ status: 500 },
 			);
 		}
@@ -321,34 +227,12 @@ export async function POST(request: Request) {
 			`[local-render] Final memory usage: ${JSON.stringify(process.memoryUsage())}`,
 		);
 
-		// Clean up progress file after successful render
-		try {
-			await fs.unlink(progressFilePath);
-			console.log("[local-render] Progress file cleaned up");
-		} catch (cleanupError) {
-			console.log(
-				"[local-render] Progress file cleanup failed (non-critical):",
-				cleanupError,
-			);
-		}
-
-		// Clean up temporary design file and directory to prevent memory bloat
-		try {
-			await fs.unlink(designPath);
-			await fs.rmdir(tmpDir);
-			console.log("[local-render] Temporary design files cleaned up");
-		} catch (cleanupError) {
-			console.log(
-				"[local-render] Design cleanup failed (non-critical):",
-				cleanupError,
-			);
-		}
-
 		return NextResponse.json(
 			{
 				url: fileUrl,
 				renderId: renderId,
 				status: "completed",
+				preset: job.preset,
 			},
 			{ status: 200 },
 		);
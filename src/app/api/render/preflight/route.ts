@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { preflightDesign } from "@/lib/design-preflight";
+import { getAppOrigin } from "@/lib/media-urls";
+
+export const runtime = "nodejs";
+
+// Same checks the render routes run before queueing, so the editor can show
+// problems before an export starts
+export async function POST(request: Request) {
+	let body: any;
+	try {
+		body = await request.json();
+	} catch (parseError) {
+		return NextResponse.json(
+			{ message: "Invalid JSON in request body", error: String(parseError) },
+			{ status: 400 },
+		);
+	}
+
+	try {
+		const result = await preflightDesign(body?.design, {
+			origin: getAppOrigin(request),
+		});
+		console.log(
+			`[render-preflight] ${result.ok ? "passed" : "failed"} with ${result.issues.length} issue(s)`,
+		);
+		return NextResponse.json(result, { status: 200 });
+	} catch (e: any) {
+		console.error("[render-preflight] Pre-flight crashed:", e);
+		return NextResponse.json(
+			{ message: "Pre-flight failed", error: e?.message || String(e) },
+			{ status: 500 },
+		);
+	}
+}
@@ -29,6 +29,8 @@ export async function GET(
 				progress: progressData.progress || 0,
 				timestamp: progressData.timestamp || Date.now(),
 				status: "rendering",
+				// Live stage updates are streamed from /api/render/[id]/events
+				stage: progressData.stage,
 			});
 		} catch (parseError) {
 			console.error(
@@ -1,28 +1,18 @@
 import { NextResponse } from "next/server";
-import path from "path";
-import os from "os";
-import fs from "fs/promises";
-import fsSync from "fs";
-import { spawn } from "child_process";
 import { getServerSessionId, sanitizeSessionId } from "@/utils/session";
-import { randomUUID } from "crypto";
+import { renderQueue } from "@/lib/render-queue";
+import { preflightDesign } from "@/lib/design-preflight";
+import { getAppOrigin } from "@/lib/media-urls";
+import { getRenderManifest } from "@/lib/render-manifest";
+import type { RenderManifest } from "@/lib/db";
+import {
+	DEFAULT_EXPORT_PRESET_ID,
+	getExportPreset,
+	parseExportTarget,
+} from "@/features/editor/constants/export-presets";
 
 export const runtime = "nodejs";
 
-// Store active renders for progress tracking
-const activeRenders = new Map<
-	string,
-	{
-		status: string;
-		startTime: number;
-		child?: any;
-		progressFilePath: string;
-		filePath?: string;
-		error?: string;
-		stderr?: string;
-	}
->();
-
 export async function POST(request: Request) {
 	console.log("[render-start] API route hit - starting");
 
@@ -47,7 +37,28 @@ export async function POST(request: Request) {
 		}
 
 		console.log("[render-start] Body parsed successfully");
-		const design = body?.design || {};
+
+		// Re-render of an earlier job: reuse its design snapshot and target,
+		// usually with a different preset
+		let rerenderSource: RenderManifest | undefined;
+		if (body?.rerenderOf) {
+			rerenderSource = await getRenderManifest(
+				String(body.rerenderOf),
+				sanitizedSessionId,
+			);
+			if (!rerenderSource) {
+				console.error(
+					`[render-start] No manifest for re-render of ${body.rerenderOf}`,
+				);
+				return NextResponse.json(
+					{ message: "Original render not found" },
+					{ status: 404 },
+				);
+			}
+			console.log(`[render-start] Re-rendering ${rerenderSource.id}`);
+		}
+
+		const design = (rerenderSource?.design as any) || body?.design || {};
 
 		console.log("[render-start] incoming design summary:", {
 			id: design?.id,
@@ -74,171 +85,60 @@ export async function POST(request: Request) {
 			);
 		}
 
-		// Generate unique render ID
-		const renderId = randomUUID();
-		const progressFilePath = path.join(
-			os.tmpdir(),
-			`render-progress-${renderId}.json`,
-		);
-
-		console.log("[render-start] Creating temp directory...");
-		const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "remotion-design-"));
-		const designPath = path.join(tmpDir, "design.json");
-
-		console.log("[render-start] Writing design to:", designPath);
-		await fs.writeFile(designPath, JSON.stringify({ design }, null, 2));
-		console.log("[render-start] Design file written successfully");
-
-		const nodeBin = process.execPath;
-
-		// Fix script path resolution for standalone deployment
-		let projectRoot;
-		if (process.cwd().includes(".next/standalone")) {
-			// Running from standalone directory - go up to project root
-			projectRoot = path.resolve(process.cwd(), "../../");
-		} else {
-			// Running directly from project root
-			projectRoot = process.cwd();
+		const presetId = body?.preset || DEFAULT_EXPORT_PRESET_ID;
+		const preset = getExportPreset(presetId);
+		if (!preset) {
+			console.error(`[render-start] Unknown export preset: ${presetId}`);
+			return NextResponse.json(
+				{ message: `Unknown export preset: ${presetId}` },
+				{ status: 400 },
+			);
 		}
 
-		const scriptPath = path.join(projectRoot, "scripts", "render-local.cjs");
-		console.log("[render-start] node bin:", nodeBin);
-		console.log("[render-start] script path:", scriptPath);
+		const target = parseExportTarget(body?.target ?? rerenderSource?.target);
+		if (typeof target === "string") {
+			console.error(`[render-start] Invalid export target: ${target}`);
+			return NextResponse.json({ message: target }, { status: 400 });
+		}
 
-		// Verify script exists
-		console.log("[render-start] Checking if script exists...");
-		try {
-			const scriptStats = await fs.stat(scriptPath);
-			console.log(
-				"[render-start] Script found, size:",
-				scriptStats.size,
-				"bytes",
-			);
-		} catch (scriptError) {
-			console.error("[render-start] Script not found:", scriptError);
+		// Catch bad media, fonts and timings before a render slot is used
+		const preflight = await preflightDesign(design, {
+			origin: getAppOrigin(request),
+		});
+		if (preflight.issues.length > 0) {
+			console.log(`[render-start] Pre-flight issues:`, preflight.issues);
+		}
+		if (!preflight.ok) {
 			return NextResponse.json(
 				{
-					message: "Renderer script not found",
-					scriptPath,
-					error: String(scriptError),
+					message: "Design failed pre-flight checks",
+					issues: preflight.issues,
 				},
-				{ status: 500 },
+				{ status: 422 },
 			);
 		}
-
-		// Initialize progress tracking
-		activeRenders.set(renderId, {
-			status: "starting",
-			startTime: Date.now(),
-			progressFilePath,
+		console.log(`[render-start] Export target:`, target);
+		console.log(`[render-start] Export preset: ${preset.name}`);
+
+		// Persist the job; the queue starts it once a render slot is free
+		const job = await renderQueue.enqueue({
+			sessionId: sanitizedSessionId,
+			design,
+			preset,
+			target,
 		});
-
-		console.log("[render-start] Spawning child process asynchronously...");
-		console.log("[render-start] Render ID:", renderId);
-		console.log("[render-start] Progress file:", progressFilePath);
-
-		// Spawn the render process asynchronously
-		const child = spawn(
-			nodeBin,
-			[
-				// Enhanced memory optimization flags for Node.js process
-				"--max-old-space-size=2048", // Increase heap to 2GB for better stability
-				// "--expose-gc", // Not allowed in production NODE_OPTIONS
-				scriptPath,
-				`--design=${designPath}`,
-				`--session=${sanitizedSessionId}`,
-				`--progress=${progressFilePath}`,
-			],
-			{
-				stdio: ["ignore", "pipe", "pipe"],
-				cwd: projectRoot,
-				env: {
-					...process.env,
-					CHROMIUM_DISABLE_LOGGING: "1",
-					CHROME_LOG_LEVEL: "3",
-					PUPPETEER_DISABLE_HEADLESS_WARNING: "true",
-					REMOTION_DISABLE_LOGGING: "1",
-					NODE_ENV: "production",
-					// Enhanced memory management and Chrome stability
-					NODE_OPTIONS: "--max-old-space-size=2048",
-					DISPLAY: ":99", // Virtual display for headless rendering
-				},
-				detached: false,
-			},
+		console.log(
+			`[render-start] Render ${job.renderId} queued at position ${job.queuePosition ?? 0}`,
 		);
 
-		let stdout = "";
-		let stderr = "";
-
-		child.stdout.on("data", (d) => {
-			stdout += d.toString();
-		});
-
-		child.stderr.on("data", (d) => {
-			stderr += d.toString();
-			console.log("[render-start] stderr chunk:", d.toString().slice(0, 200));
-		});
-
-		// Handle process completion asynchronously
-		child.on("close", async (exitCode) => {
-			console.log("[render-start] child exited with code:", exitCode);
-
-			const renderData = activeRenders.get(renderId);
-			if (!renderData) return;
-
-			if (exitCode === 0) {
-				try {
-					const cleanStdout = stdout.trim();
-					const parsed = JSON.parse(cleanStdout);
-					const filePath = parsed.url;
-
-					// Update render status to completed with file path
-					activeRenders.set(renderId, {
-						...renderData,
-						status: "completed",
-						filePath: filePath,
-					});
-
-					console.log(
-						"[render-start] Render completed successfully:",
-						filePath,
-					);
-				} catch (parseError) {
-					console.error(
-						"[render-start] Failed to parse completion output:",
-						parseError,
-					);
-					activeRenders.set(renderId, {
-						...renderData,
-						status: "error",
-						error: "Failed to parse render output",
-					});
-				}
-			} else {
-				console.error("[render-start] Render failed with exit code:", exitCode);
-				activeRenders.set(renderId, {
-					...renderData,
-					status: "error",
-					error: `Render failed with exit code ${exitCode}`,
-					stderr: stderr.slice(0, 1000),
-				});
-			}
-		});
-
-		// Store child process reference
-		activeRenders.set(renderId, {
-			...activeRenders.get(renderId)!,
-			status: "rendering",
-			child,
-		});
-
 		// Return render ID immediately for progress tracking
-		console.log("[render-start] Returning render ID for progress tracking");
 		return NextResponse.json(
 			{
-				renderId: renderId,
-				status: "started",
-				message: "Render started successfully",
+				renderId: job.renderId,
+				status: job.status,
+				position: job.queuePosition,
+				preset: job.preset,
+				message: "Render queued successfully",
 			},
 			{ status: 202 },
 		); // 202 Accepted - request accepted for processing
@@ -275,59 +175,42 @@ export async function GET(request: Request) {
 		return NextResponse.json({ message: "Missing render ID" }, { status: 400 });
 	}
 
-	const renderData = activeRenders.get(renderId);
-	if (!renderData) {
-		return NextResponse.json({ message: "Render not found" }, { status: 404 });
-	}
-
-	// Read current progress if available
-	let progress = 0;
+	let job;
 	try {
-		if (fsSync.existsSync(renderData.progressFilePath)) {
-			const progressData = JSON.parse(
-				await fs.readFile(renderData.progressFilePath, "utf-8"),
-			);
-			progress = progressData.progress || 0;
-		}
-	} catch (progressError) {
-		console.log("[render-start] Failed to read progress:", progressError);
+		job = await renderQueue.getJob(renderId);
+	} catch (e: any) {
+		console.error("[render-start] Failed to load render:", e);
+		return NextResponse.json(
+			{ message: "Failed to load render", error: e?.message || String(e) },
+			{ status: 500 },
+		);
+	}
+	if (!job) {
+		return NextResponse.json({ message: "Render not found" }, { status: 404 });
 	}
 
 	const response: any = {
 		renderId,
-		status: renderData.status,
-		progress,
-		startTime: renderData.startTime,
-		elapsed: Date.now() - renderData.startTime,
+		status: job.status,
+		stage: job.stage,
+		progress: job.progress,
+		renderedFrames: job.renderedFrames,
+		totalFrames: job.totalFrames,
+		bundleCache: job.bundleCache,
+		eta: job.eta,
+		position: job.queuePosition,
+		preset: job.preset,
+		startTime: job.startTime,
+		elapsed: job.elapsed,
 	};
 
-	if (renderData.status === "completed" && (renderData as any).filePath) {
-		response.url = `/api/render/local/file?path=${encodeURIComponent((renderData as any).filePath)}`;
-
-		// Clean up after successful completion
-		activeRenders.delete(renderId);
-		try {
-			if (fsSync.existsSync(renderData.progressFilePath)) {
-				await fs.unlink(renderData.progressFilePath);
-			}
-		} catch (cleanupError) {
-			console.log("[render-start] Progress file cleanup failed:", cleanupError);
-		}
+	if (job.status === "completed" && job.filePath) {
+		response.url = `/api/render/local/file?path=${encodeURIComponent(job.filePath)}`;
 	}
 
-	if (renderData.status === "error") {
-		response.error = (renderData as any).error;
-		response.stderr = (renderData as any).stderr;
-
-		// Clean up after error
-		activeRenders.delete(renderId);
-		try {
-			if (fsSync.existsSync(renderData.progressFilePath)) {
-				await fs.unlink(renderData.progressFilePath);
-			}
-		} catch (cleanupError) {
-			console.log("[render-start] Progress file cleanup failed:", cleanupError);
-		}
+	if (job.status === "error" || job.status === "cancelled") {
+		response.error = job.error;
+		response.stderr = job.stderr?.slice(-1000);
 	}
 
 	return NextResponse.json(response);
@@ -3,21 +3,11 @@ import { spawn } from "child_process";
 import { promises as fs } from "fs";
 import path from "path";
 import { nanoid } from "nanoid";
+import { JobResults, jobManager } from "@/lib/job-manager";
+import { getServerSessionId, sanitizeSessionId } from "@/utils/session";
 
-interface VideoEncodingJob {
-	id: string;
-	inputPath: string;
-	outputPath: string;
-	progress: number;
-	status: "pending" | "processing" | "completed" | "failed";
-	error?: string;
-	originalSize?: number;
-	compressedSize?: number;
-	startTime?: number;
-}
-
-// In-memory job tracking (in production, use Redis or database)
-const encodingJobs = new Map<string, VideoEncodingJob>();
+// Retrying once covers a killed ffmpeg; a broken input fails every time
+const MAX_ENCODE_ATTEMPTS = 2;
 
 // Optimal encoding settings for editing workflow
 const getEncodingSettings = (inputPath: string) => {
@@ -54,13 +44,18 @@ const getEncodingSettings = (inputPath: string) => {
 	return baseSettings;
 };
 
-const encodeVideo = async (job: VideoEncodingJob): Promise<void> => {
+const encodeVideo = async (
+	jobId: string,
+	inputPath: string,
+	outputPath: string,
+	setProgress: (progress: number) => Promise<void>,
+): Promise<JobResults["encode"]> => {
 	return new Promise((resolve, reject) => {
-		const settings = getEncodingSettings(job.inputPath);
+		const settings = getEncodingSettings(inputPath);
 
 		const ffmpegArgs = [
 			"-i",
-			job.inputPath,
+			inputPath,
 			"-progress",
 			"pipe:1", // Progress to stdout
 			"-nostats", // No stats output
@@ -68,20 +63,16 @@ const encodeVideo = async (job: VideoEncodingJob): Promise<void> => {
 			"error", // Only show errors
 			...settings,
 			"-y", // Overwrite output
-			job.outputPath,
+			outputPath,
 		];
 
-		console.log(
-			`🎬 Starting FFmpeg encoding: ${job.inputPath} -> ${job.outputPath}`,
-		);
+		console.log(`🎬 Starting FFmpeg encoding: ${inputPath} -> ${outputPath}`);
 		console.log(`FFmpeg command: ffmpeg ${ffmpegArgs.join(" ")}`);
 
 		const ffmpeg = spawn("ffmpeg", ffmpegArgs);
 		let duration: number | null = null;
 		let timeProcessed: number | null = null;
-
-		job.status = "processing";
-		job.startTime = Date.now();
+		let lastProgress = -1;
 
 		ffmpeg.stdout.on("data", (data) => {
 			const output = data.toString();
@@ -105,9 +96,14 @@ const encodeVideo = async (job: VideoEncodingJob): Promise<void> => {
 					Math.round((timeProcessed / duration) * 100),
 					100,
 				);
-				job.progress = progress;
+				if (progress !== lastProgress) {
+					lastProgress = progress;
+					setProgress(progress).catch((error) =>
+						console.warn(`Failed to store encoding progress: ${error}`),
+					);
+				}
 
-				console.log(`📊 Encoding progress: ${job.id} - ${progress}%`);
+				console.log(`📊 Encoding progress: ${jobId} - ${progress}%`);
 			}
 		});
 
@@ -132,40 +128,33 @@ const encodeVideo = async (job: VideoEncodingJob): Promise<void> => {
 			if (code === 0) {
 				try {
 					// Get file sizes for comparison
-					const originalStats = await fs.stat(job.inputPath);
-					const compressedStats = await fs.stat(job.outputPath);
-
-					job.originalSize = originalStats.size;
-					job.compressedSize = compressedStats.size;
-					job.status = "completed";
-					job.progress = 100;
+					const originalStats = await fs.stat(inputPath);
+					const compressedStats = await fs.stat(outputPath);
 
 					const compressionRatio = (
 						((originalStats.size - compressedStats.size) / originalStats.size) *
 						100
 					).toFixed(1);
-					console.log(`✅ Encoding completed: ${job.id}`);
+					console.log(`✅ Encoding completed: ${jobId}`);
 					console.log(
 						`📦 Size reduction: ${originalStats.size} -> ${compressedStats.size} bytes (${compressionRatio}% smaller)`,
 					);
 
-					resolve();
+					resolve({
+						outputUrl: `/uploads/${path.basename(outputPath)}`,
+						originalSize: originalStats.size,
+						compressedSize: compressedStats.size,
+					});
 				} catch (error) {
-					job.status = "failed";
-					job.error = `Failed to get file stats: ${error}`;
-					reject(error);
+					reject(new Error(`Failed to get file stats: ${error}`));
 				}
 			} else {
-				job.status = "failed";
-				job.error = `FFmpeg process exited with code ${code}`;
-				console.error(`❌ Encoding failed: ${job.id} - Exit code: ${code}`);
-				reject(new Error(`FFmpeg process failed with code ${code}`));
+				console.error(`❌ Encoding failed: ${jobId} - Exit code: ${code}`);
+				reject(new Error(`FFmpeg process exited with code ${code}`));
 			}
 		});
 
 		ffmpeg.on("error", (error) => {
-			job.status = "failed";
-			job.error = error.message;
 			console.error(`❌ FFmpeg spawn error: ${error.message}`);
 			reject(error);
 		});
@@ -223,21 +212,18 @@ export async function POST(request: NextRequest) {
 		await fs.mkdir(uploadsDir, { recursive: true });
 
 		// Create encoding job
-		const job: VideoEncodingJob = {
+		const job = await jobManager.createJob("encode", {
 			id: jobId,
-			inputPath,
-			outputPath,
-			progress: 0,
-			status: "pending",
-		};
-
-		encodingJobs.set(jobId, job);
-
-		// Start encoding process asynchronously
-		encodeVideo(job).catch((error) => {
-			console.error(`Encoding job ${jobId} failed:`, error);
+			sessionId: sanitizeSessionId(getServerSessionId(request)),
+			input: { inputPath, outputPath },
+			maxAttempts: MAX_ENCODE_ATTEMPTS,
 		});
 
+		// Start encoding process asynchronously; failures are recorded on the job
+		void jobManager.run(job, ({ setProgress }) =>
+			encodeVideo(jobId, inputPath, outputPath, setProgress),
+		);
+
 		return NextResponse.json({
 			success: true,
 			jobId,
@@ -269,29 +255,29 @@ export async function GET(request: NextRequest) {
 			);
 		}
 
-		const job = encodingJobs.get(jobId);
+		const job = await jobManager.getJob(jobId, "encode");
 		if (!job) {
 			return NextResponse.json({ error: "Job not found" }, { status: 404 });
 		}
 
 		// Calculate processing time if job is active
 		let processingTime = null;
-		if (job.startTime && job.status === "processing") {
-			processingTime = Math.round((Date.now() - job.startTime) / 1000);
+		if (job.startedAt && job.status === "processing") {
+			processingTime = Math.round(
+				(Date.now() - job.startedAt.getTime()) / 1000,
+			);
 		}
 
 		return NextResponse.json({
 			jobId: job.id,
-			status: job.status,
+			// Queued covers both not started yet and waiting for a retry
+			status: job.status === "queued" ? "pending" : job.status,
 			progress: job.progress,
-			error: job.error,
-			originalSize: job.originalSize,
-			compressedSize: job.compressedSize,
+			error: job.error ?? undefined,
+			originalSize: job.result?.originalSize,
+			compressedSize: job.result?.compressedSize,
 			processingTime,
-			outputUrl:
-				job.status === "completed"
-					? `/uploads/${path.basename(job.outputPath)}`
-					: undefined,
+			outputUrl: job.result?.outputUrl,
 		});
 	} catch (error) {
 		console.error("Error getting encoding job status:", error);
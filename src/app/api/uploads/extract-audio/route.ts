@@ -1,4 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
+import {
+	AudioExtractionOptions,
+	extractAudioWithFFmpeg,
+	getVideoOrientation,
+} from "@/lib/audio-extraction";
+import { jobManager } from "@/lib/job-manager";
+import { getServerSessionId, sanitizeSessionId } from "@/utils/session";
 import { exec } from "child_process";
 import { promisify } from "util";
 import { promises as fs } from "fs";
@@ -7,61 +14,11 @@ import { tmpdir } from "os";
 
 const execAsync = promisify(exec);
 
-async function getVideoOrientation(videoUrl: string): Promise<{
-	orientation: "vertical" | "horizontal";
-	width: number;
-	height: number;
-}> {
-	try {
-		console.log(`📐 [SERVER-AUDIO] Detecting video orientation from URL`);
-
-		// Use ffprobe to get video dimensions
-		const ffprobeCmd = `ffprobe -v quiet -print_format json -show_streams "${videoUrl}"`;
-
-		const { stdout } = await execAsync(ffprobeCmd, {
-			timeout: 30000, // 30 second timeout for metadata
-			maxBuffer: 1024 * 1024, // 1MB buffer
-		});
-
-		const probeData = JSON.parse(stdout);
-		const videoStream = probeData.streams?.find(
-			(stream: any) => stream.codec_type === "video",
-		);
-
-		if (!videoStream) {
-			console.warn(
-				`⚠️ [SERVER-AUDIO] No video stream found, defaulting to vertical`,
-			);
-			return { orientation: "vertical", width: 0, height: 0 };
-		}
-
-		const width = parseInt(videoStream.width) || 0;
-		const height = parseInt(videoStream.height) || 0;
-		const orientation = height > width ? "vertical" : "horizontal";
-
-		console.log(
-			`📐 [SERVER-AUDIO] Video dimensions: ${width}x${height} (${orientation})`,
-		);
-
-		return { orientation, width, height };
-	} catch (error) {
-		console.warn(
-			`⚠️ [SERVER-AUDIO] Failed to detect orientation, defaulting to vertical:`,
-			error,
-		);
-		return { orientation: "vertical", width: 0, height: 0 };
-	}
-}
-
 interface AudioExtractionRequest {
 	videoUrl: string;
 	videoId: string;
 	userId?: string;
-	options?: {
-		format?: "mp3" | "wav" | "aac";
-		bitrate?: string;
-		channels?: number;
-		sampleRate?: number;
+	options?: AudioExtractionOptions & {
 		normalize?: boolean;
 		removeNoise?: boolean;
 	};
@@ -85,121 +42,6 @@ interface AudioExtractionResponse {
 	error?: string;
 }
 
-async function extractAudioWithFFmpeg(
-	videoUrl: string,
-	videoId: string,
-	options: any = {},
-) {
-	const tempDir = tmpdir();
-	const audioPath = path.join(tempDir, `audio_${videoId}_${Date.now()}.mp3`);
-
-	try {
-		console.log(
-			`🎵 [SERVER-AUDIO] Extracting audio directly from URL (no download): ${videoUrl}`,
-		);
-
-		// Build FFmpeg command with options - directly from URL
-		const format = options.format || "mp3";
-		const bitrate = options.bitrate || "128k";
-		const channels = options.channels || 1;
-		const sampleRate = options.sampleRate || 44100;
-
-		// Use FFmpeg directly with the URL - optimized for speed!
-		let ffmpegCmd = `ffmpeg -i "${videoUrl}" -vn -acodec libmp3lame -b:a ${bitrate} -ac ${channels} -ar ${sampleRate}`;
-
-		// Add optimizations for faster processing
-		ffmpegCmd += ` -avoid_negative_ts make_zero`; // Handle timestamp issues
-		ffmpegCmd += ` -fflags +genpts`; // Generate presentation timestamps
-
-		// Add duration limit for safety (max 5 minutes of audio)
-		ffmpegCmd += ` -t 300`;
-
-		ffmpegCmd += ` -y "${audioPath}"`;
-
-		console.log(
-			`⚡ [SERVER-AUDIO] Running optimized FFmpeg: ${ffmpegCmd.substring(0, 120)}...`,
-		);
-
-		// Execute FFmpeg command with extended timeout for slow network conditions
-		const ffmpegStartTime = Date.now();
-		try {
-			const { stdout, stderr } = await execAsync(ffmpegCmd, {
-				timeout: 300000, // 5 minute timeout (increased from 2 minutes)
-				maxBuffer: 1024 * 1024 * 20, // 20MB buffer for large outputs
-				env: { ...process.env, FFREPORT: "file=/dev/null" }, // Reduce FFmpeg logging overhead
-			});
-
-			const ffmpegDuration = Date.now() - ffmpegStartTime;
-			console.log(`✅ [SERVER-AUDIO] FFmpeg completed in ${ffmpegDuration}ms`);
-
-			if (stderr && stderr.length > 0) {
-				// Log progress information and any errors
-				const stderrLines = stderr.split("\n");
-
-				// Find progress lines (contain "time=" and "speed=")
-				const progressLines = stderrLines.filter(
-					(line) => line.includes("time=") && line.includes("speed="),
-				);
-				if (progressLines.length > 0) {
-					const lastProgress = progressLines[progressLines.length - 1];
-					console.log(`📈 [SERVER-AUDIO] Progress: ${lastProgress.trim()}`);
-				}
-
-				// Find error lines
-				const errorLines = stderrLines.filter(
-					(line) =>
-						line.includes("error") ||
-						line.includes("Error") ||
-						line.includes("fail") ||
-						line.includes("Failed"),
-				);
-				if (errorLines.length > 0) {
-					console.log(
-						`⚠️ [SERVER-AUDIO] FFmpeg issues: ${errorLines.slice(0, 2).join(", ")}`,
-					);
-				}
-			}
-		} catch (ffmpegError) {
-			console.error(`❌ [SERVER-AUDIO] FFmpeg execution failed:`, ffmpegError);
-			throw new Error(
-				`FFmpeg execution failed: ${ffmpegError instanceof Error ? ffmpegError.message : String(ffmpegError)}`,
-			);
-		}
-
-		// Check if audio file was created
-		try {
-			const audioStats = await fs.stat(audioPath);
-			console.log(
-				`📊 [SERVER-AUDIO] Audio file created: ${(audioStats.size / 1024 / 1024).toFixed(2)}MB`,
-			);
-
-			if (audioStats.size === 0) {
-				throw new Error("FFmpeg created empty audio file");
-			}
-
-			// Read the extracted audio file
-			const audioBuffer = await fs.readFile(audioPath);
-
-			return {
-				audioBuffer,
-				audioSize: audioStats.size,
-				audioPath,
-				audioFilename: `audio_${videoId}.mp3`,
-			};
-		} catch (statsError) {
-			throw new Error(
-				`Audio file was not created or is inaccessible: ${statsError instanceof Error ? statsError.message : String(statsError)}`,
-			);
-		}
-	} catch (error) {
-		console.error(`❌ [SERVER-AUDIO] Audio extraction error:`, error);
-
-		// Clean up temporary files on error
-		await fs.unlink(audioPath).catch(() => {});
-		throw error;
-	}
-}
-
 export async function POST(request: NextRequest) {
 	try {
 		const body: AudioExtractionRequest = await request.json();
@@ -270,8 +112,16 @@ export async function POST(request: NextRequest) {
 		console.log(`⚡ [SERVER-AUDIO] Using local FFmpeg processing`);
 
 		const extractionStartTime = Date.now();
+		// Recorded as a job so it shows up in the session's job list; the
+		// client falls back to extracting in the browser instead of retrying
+		const job = await jobManager.createJob("extract-audio", {
+			sessionId: sanitizeSessionId(getServerSessionId(request)),
+			input: { videoId, videoUrl },
+			maxAttempts: 1,
+		});
+		let response: AudioExtractionResponse | undefined;
 
-		try {
+		const finished = await jobManager.run(job, async () => {
 			// Get video orientation first (only if ffprobe is available)
 			let orientationPromise;
 			if (ffprobeAvailable) {
@@ -291,11 +141,11 @@ export async function POST(request: NextRequest) {
 			}
 
 			// Try local FFmpeg extraction first
-			const extractionResult = await extractAudioWithFFmpeg(
-				videoUrl,
-				videoId,
-				options,
-			);
+			// serve-audio only serves mp3
+			const extractionResult = await extractAudioWithFFmpeg(videoUrl, videoId, {
+				...options,
+				format: "mp3",
+			});
 			const orientationResult = await orientationPromise;
 			const processingTime = Date.now() - extractionStartTime;
 
@@ -335,7 +185,7 @@ export async function POST(request: NextRequest) {
 
 			console.log(`🔗 [SERVER-AUDIO] Audio available at: ${audioUrl}`);
 
-			const response: AudioExtractionResponse = {
+			response = {
 				success: true,
 				audioUrl: audioUrl,
 				audioFile: {
@@ -368,56 +218,57 @@ export async function POST(request: NextRequest) {
 				60 * 60 * 1000,
 			); // 1 hour
 
-			return NextResponse.json(response);
-		} catch (ffmpegError) {
-			console.error(
-				`❌ [SERVER-AUDIO] Local FFmpeg extraction failed:`,
-				ffmpegError,
-			);
+			return {
+				audioUrl,
+				audioSize: extractionResult.audioSize,
+				processingTime,
+			};
+		});
 
-			// Provide more specific error information
-			let errorDetails = "Unknown error";
-			let specificError = "Server-side audio extraction failed";
-
-			if (ffmpegError instanceof Error) {
-				errorDetails = ffmpegError.message;
-
-				if (errorDetails.includes("timeout")) {
-					specificError =
-						"FFmpeg processing timed out - video may be too large or server overloaded";
-				} else if (
-					errorDetails.includes("No such file") ||
-					errorDetails.includes("not found")
-				) {
-					specificError = "FFmpeg binary not found or not executable";
-				} else if (errorDetails.includes("Permission denied")) {
-					specificError =
-						"FFmpeg permission denied - server configuration issue";
-				} else if (
-					errorDetails.includes("Invalid data") ||
-					errorDetails.includes("No such file")
-				) {
-					specificError =
-						"Unable to access video URL - network or permissions issue";
-				} else if (errorDetails.includes("Protocol not found")) {
-					specificError =
-						"FFmpeg cannot access HTTPS URLs - missing protocol support";
-				}
-			}
+		if (finished?.status === "completed" && response) {
+			return NextResponse.json(response);
+		}
 
-			console.log(`🔄 [SERVER-AUDIO] Specific error: ${specificError}`);
+		const errorDetails = finished?.error ?? "Audio extraction job was lost";
+		console.error(
+			`❌ [SERVER-AUDIO] Local FFmpeg extraction failed: ${errorDetails}`,
+		);
 
-			// Return a controlled error that triggers client-side fallback with specific details
-			return NextResponse.json(
-				{
-					success: false,
-					error: "Server-side audio extraction temporarily unavailable",
-					fallbackToClient: true,
-					details: `${specificError}: ${errorDetails}`,
-				},
-				{ status: 503 },
-			);
+		// Provide more specific error information
+		let specificError = "Server-side audio extraction failed";
+		if (errorDetails.includes("timeout")) {
+			specificError =
+				"FFmpeg processing timed out - video may be too large or server overloaded";
+		} else if (
+			errorDetails.includes("No such file") ||
+			errorDetails.includes("not found")
+		) {
+			specificError = "FFmpeg binary not found or not executable";
+		} else if (errorDetails.includes("Permission denied")) {
+			specificError = "FFmpeg permission denied - server configuration issue";
+		} else if (
+			errorDetails.includes("Invalid data") ||
+			errorDetails.includes("No such file")
+		) {
+			specificError =
+				"Unable to access video URL - network or permissions issue";
+		} else if (errorDetails.includes("Protocol not found")) {
+			specificError =
+				"FFmpeg cannot access HTTPS URLs - missing protocol support";
 		}
+
+		console.log(`🔄 [SERVER-AUDIO] Specific error: ${specificError}`);
+
+		// Return a controlled error that triggers client-side fallback with specific details
+		return NextResponse.json(
+			{
+				success: false,
+				error: "Server-side audio extraction temporarily unavailable",
+				fallbackToClient: true,
+				details: `${specificError}: ${errorDetails}`,
+			},
+			{ status: 503 },
+		);
 	} catch (error) {
 		console.error("❌ [SERVER-AUDIO] Audio extraction route error:", error);
 
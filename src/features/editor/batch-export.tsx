@@ -0,0 +1,422 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Thumbnail } from "@remotion/player";
+import { CircleCheckIcon, CircleX, Loader2 } from "lucide-react";
+import type StateManager from "@designcombo/state";
+import { toast } from "sonner";
+import { TimelineVideo } from "@/remotion/TimelineVideo";
+import { getUserSessionId } from "@/utils/session";
+import {
+	ASPECT_VARIANTS,
+	type AspectVariant,
+	type AspectVariantId,
+} from "./constants/aspect-variants";
+import {
+	type CaptionMode,
+	type ExportPresetId,
+	type ExportRange,
+	getExportPreset,
+	type LoudnessTargetId,
+} from "./constants/export-presets";
+import {
+	type AspectRemapRules,
+	DEFAULT_REMAP_RULES,
+	type MediaFitRule,
+	remapTrackItems,
+} from "./utils/aspect-remap";
+import useStore from "./store/use-store";
+import { useDownloadState } from "./store/use-download-state";
+
+const PREVIEW_HEIGHT = 160;
+
+const MEDIA_FIT_LABELS: Record<MediaFitRule, string> = {
+	fit: "Fit",
+	fill: "Fill",
+};
+
+interface QueuedRender {
+	renderId?: string;
+	status: "queued" | "rendering" | "completed" | "error" | "cancelled";
+	progress: number;
+	error?: string;
+}
+
+// The current design laid out again for one aspect ratio, in the shape
+// /api/render/start takes. It keeps the project's id so the renders are filed
+// under the project; the ratio is recorded in the render target.
+const buildVariantDesign = (
+	stateManager: StateManager,
+	variant: AspectVariant,
+	rules: AspectRemapRules,
+) => {
+	const state = stateManager.getState();
+	const { background } = useStore.getState();
+	return {
+		id: useDownloadState.getState().actions.getProjectId(),
+		size: variant.size,
+		fps: state.fps || 30,
+		duration: state.duration,
+		background,
+		trackItems: remapTrackItems(
+			Object.values(state.trackItemsMap || {}),
+			state.size,
+			variant,
+			rules,
+		),
+		tracks: state.tracks || [],
+		transitionsMap: state.transitionsMap || {},
+	};
+};
+
+const VariantPreview = ({
+	design,
+	variant,
+	frame,
+	showSafeArea,
+}: {
+	design: ReturnType<typeof buildVariantDesign>;
+	variant: AspectVariant;
+	frame: number;
+	showSafeArea: boolean;
+}) => {
+	const { width, height } = variant.size;
+	const durationInFrames = Math.max(
+		1,
+		Math.round(((design.duration || 0) / 1000) * design.fps),
+	);
+	const { safeArea } = variant;
+
+	return (
+		<div
+			className="relative overflow-hidden rounded-sm bg-black"
+			style={{
+				height: PREVIEW_HEIGHT,
+				width: (PREVIEW_HEIGHT * width) / height,
+			}}
+		>
+			<Thumbnail
+				component={TimelineVideo}
+				inputProps={{ design }}
+				compositionWidth={width}
+				compositionHeight={height}
+				durationInFrames={durationInFrames}
+				fps={design.fps}
+				frameToDisplay={Math.min(frame, durationInFrames - 1)}
+				style={{ width: "100%", height: "100%" }}
+			/>
+			{showSafeArea && (
+				<div
+					className="pointer-events-none absolute border border-dashed border-amber-400/70"
+					style={{
+						top: `${safeArea.top * 100}%`,
+						right: `${safeArea.right * 100}%`,
+						bottom: `${safeArea.bottom * 100}%`,
+						left: `${safeArea.left * 100}%`,
+					}}
+				/>
+			)}
+		</div>
+	);
+};
+
+// Renders one project as several aspect ratios. Each selected ratio gets its
+// own copy of the design, remapped with the chosen rules, and its own render
+// job; the project itself is left as it is.
+export const BatchExport = ({
+	open,
+	onOpenChange,
+	stateManager,
+	presetId,
+	captionMode,
+	range,
+	loudness,
+}: {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	stateManager: StateManager;
+	presetId: ExportPresetId;
+	captionMode: CaptionMode;
+	range: ExportRange | null;
+	loudness: LoudnessTargetId | null;
+}) => {
+	const { size, playerRef } = useStore();
+	const [selected, setSelected] = useState<AspectVariantId[]>(
+		ASPECT_VARIANTS.map((variant) => variant.id),
+	);
+	const [mediaFit, setMediaFit] = useState<
+		Record<AspectVariantId, MediaFitRule>
+	>({ "16x9": "fit", "9x16": "fill", "1x1": "fill" });
+	const [captionsInSafeArea, setCaptionsInSafeArea] = useState(
+		DEFAULT_REMAP_RULES.captionsInSafeArea,
+	);
+	const [isQueueing, setIsQueueing] = useState(false);
+	const [queued, setQueued] = useState<
+		Partial<Record<AspectVariantId, QueuedRender>>
+	>({});
+	// Previews show the frame under the playhead when the dialog opened
+	const [frame, setFrame] = useState(0);
+
+	useEffect(() => {
+		if (!open) return;
+		setFrame(playerRef?.current?.getCurrentFrame() ?? 0);
+		setQueued({});
+	}, [open, playerRef]);
+
+	const designs = useMemo(() => {
+		if (!open) return null;
+		return Object.fromEntries(
+			ASPECT_VARIANTS.map((variant) => [
+				variant.id,
+				buildVariantDesign(stateManager, variant, {
+					media: mediaFit[variant.id],
+					captionsInSafeArea,
+				}),
+			]),
+		) as Record<AspectVariantId, ReturnType<typeof buildVariantDesign>>;
+	}, [open, stateManager, mediaFit, captionsInSafeArea]);
+
+	// Follow the queued jobs until each one finishes
+	const pending = Object.entries(queued).filter(
+		([, render]) =>
+			render?.renderId &&
+			(render.status === "queued" || render.status === "rendering"),
+	) as [AspectVariantId, QueuedRender][];
+	const pendingKey = pending.map(([id]) => id).join(",");
+
+	useEffect(() => {
+		if (!open || pending.length === 0) return;
+		const sources = pending.map(([id, render]) => {
+			const source = new EventSource(`/api/render/${render.renderId}/events`);
+			const update = (event: Event) => {
+				const raw = (event as MessageEvent).data;
+				// A plain "error" is a dropped connection; the browser reconnects
+				if (!raw) return;
+				const job = JSON.parse(raw);
+				if (event.type !== "progress") source.close();
+				setQueued((current) => ({
+					...current,
+					[id]: {
+						...render,
+						status: job.status ?? "error",
+						progress: job.progress ?? 0,
+						error: job.error,
+					},
+				}));
+			};
+			for (const name of ["progress", "done", "error", "cancelled"]) {
+				source.addEventListener(name, update);
+			}
+			return source;
+		});
+		return () => {
+			for (const source of sources) source.close();
+		};
+		// pendingKey changes exactly when the set of jobs to follow does
+	}, [open, pendingKey]);
+
+	const handleQueue = async () => {
+		if (!designs) return;
+		setIsQueueing(true);
+		const sessionId = getUserSessionId();
+		let failures = 0;
+
+		// One after another, so the queue order matches the list
+		for (const variant of ASPECT_VARIANTS) {
+			if (!selected.includes(variant.id)) continue;
+			try {
+				const res = await fetch("/api/render/start", {
+					method: "POST",
+					headers: {
+						"Content-Type": "application/json",
+						"x-cinetune-session": sessionId,
+					},
+					body: JSON.stringify({
+						design: designs[variant.id],
+						preset: presetId,
+						target: {
+							kind: "video",
+							range,
+							captions: captionMode,
+							variant: variant.id,
+							loudness,
+						},
+					}),
+				});
+				const info = await res.json().catch(() => ({}));
+				if (!res.ok) {
+					throw new Error(info?.message || `Status ${res.status}`);
+				}
+				console.log(
+					`[batch-export] Queued ${variant.label} as ${info.renderId}`,
+				);
+				setQueued((current) => ({
+					...current,
+					[variant.id]: {
+						renderId: info.renderId,
+						status: "queued",
+						progress: 0,
+					},
+				}));
+			} catch (error) {
+				failures += 1;
+				console.error(
+					`[batch-export] Failed to queue ${variant.label}:`,
+					error,
+				);
+				setQueued((current) => ({
+					...current,
+					[variant.id]: {
+						status: "error",
+						progress: 0,
+						error: (error as Error)?.message || "Could not queue render",
+					},
+				}));
+			}
+		}
+
+		setIsQueueing(false);
+		if (failures > 0) {
+			toast.error(
+				`${failures} of ${selected.length} renders could not be queued.`,
+			);
+		} else {
+			toast.success(
+				`Queued ${selected.length} renders. They appear under Renders when done.`,
+			);
+		}
+	};
+
+	const toggleVariant = (id: AspectVariantId) =>
+		setSelected((current) =>
+			current.includes(id)
+				? current.filter((value) => value !== id)
+				: [...current, id],
+		);
+	const hasQueued = Object.keys(queued).length > 0;
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="max-w-3xl bg-background">
+				<DialogHeader>
+					<DialogTitle>Export aspect ratios</DialogTitle>
+					<DialogDescription>
+						Renders a {size.width}×{size.height} project once per ratio with{" "}
+						{getExportPreset(presetId)?.name ?? presetId}. The project itself is
+						not changed.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="flex flex-wrap items-start justify-center gap-4">
+					{ASPECT_VARIANTS.map((variant) => {
+						const isSelected = selected.includes(variant.id);
+						const render = queued[variant.id];
+						return (
+							<div
+								key={variant.id}
+								className={`flex flex-col items-center gap-2 rounded-md border p-3 ${
+									isSelected ? "border-border" : "border-transparent opacity-50"
+								}`}
+							>
+								{designs && (
+									<VariantPreview
+										design={designs[variant.id]}
+										variant={variant}
+										frame={frame}
+										showSafeArea={captionsInSafeArea}
+									/>
+								)}
+								<Button
+									variant={isSelected ? "secondary" : "ghost"}
+									size="sm"
+									className="h-7 w-full"
+									disabled={isQueueing || hasQueued}
+									onClick={() => toggleVariant(variant.id)}
+									title={variant.description}
+								>
+									{variant.label}
+								</Button>
+								<div className="flex w-full gap-1">
+									{(Object.keys(MEDIA_FIT_LABELS) as MediaFitRule[]).map(
+										(rule) => (
+											<Button
+												key={rule}
+												variant={
+													mediaFit[variant.id] === rule ? "secondary" : "ghost"
+												}
+												size="sm"
+												className="h-7 flex-1 text-xs"
+												disabled={!isSelected || isQueueing || hasQueued}
+												onClick={() =>
+													setMediaFit((current) => ({
+														...current,
+														[variant.id]: rule,
+													}))
+												}
+											>
+												{MEDIA_FIT_LABELS[rule]}
+											</Button>
+										),
+									)}
+								</div>
+								{render && (
+									<div className="flex w-full items-center gap-1 text-xs text-muted-foreground">
+										{render.status === "completed" ? (
+											<CircleCheckIcon className="h-3.5 w-3.5 text-green-500" />
+										) : render.status === "error" ||
+											render.status === "cancelled" ? (
+											<CircleX className="h-3.5 w-3.5 text-red-500" />
+										) : (
+											<Loader2 className="h-3.5 w-3.5 animate-spin" />
+										)}
+										<span className="truncate" title={render.error}>
+											{render.status === "rendering"
+												? `${Math.round(render.progress)}%`
+												: (render.error ?? render.status)}
+										</span>
+									</div>
+								)}
+							</div>
+						);
+					})}
+				</div>
+
+				<div className="flex items-center justify-between gap-2 border-t border-border pt-4 text-sm">
+					<div className="text-xs text-muted-foreground">
+						Fit shows the whole frame, Fill crops footage to cover it. Other
+						items keep their relative position.
+					</div>
+					<Button
+						variant={captionsInSafeArea ? "secondary" : "ghost"}
+						size="sm"
+						className="h-7 flex-none"
+						disabled={isQueueing || hasQueued}
+						onClick={() => setCaptionsInSafeArea((value) => !value)}
+					>
+						Captions in safe area
+					</Button>
+				</div>
+
+				<DialogFooter>
+					<Button variant="outline" onClick={() => onOpenChange(false)}>
+						{hasQueued ? "Close" : "Cancel"}
+					</Button>
+					<Button
+						disabled={selected.length === 0 || isQueueing || hasQueued}
+						onClick={handleQueue}
+					>
+						{isQueueing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+						Queue {selected.length} render{selected.length === 1 ? "" : "s"}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+};
@@ -0,0 +1,51 @@
+export type AspectVariantId = "16x9" | "9x16" | "1x1";
+
+// Fractions of the frame that platform UI (titles, buttons, comment bars)
+// may cover; captions are kept out of them
+export interface SafeAreaInsets {
+	top: number;
+	right: number;
+	bottom: number;
+	left: number;
+}
+
+export interface AspectVariant {
+	id: AspectVariantId;
+	label: string;
+	icon: "landscape" | "portrait" | "square";
+	description: string;
+	size: { width: number; height: number };
+	safeArea: SafeAreaInsets;
+}
+
+export const ASPECT_VARIANTS: AspectVariant[] = [
+	{
+		id: "16x9",
+		label: "16:9",
+		icon: "landscape",
+		description: "YouTube ads",
+		size: { width: 1920, height: 1080 },
+		// Broadcast title safe
+		safeArea: { top: 0.05, right: 0.05, bottom: 0.05, left: 0.05 },
+	},
+	{
+		id: "9x16",
+		label: "9:16",
+		icon: "portrait",
+		description: "TikTok, YouTube Shorts",
+		size: { width: 1080, height: 1920 },
+		// Account name and caption at the bottom, action buttons on the right
+		safeArea: { top: 0.1, right: 0.12, bottom: 0.2, left: 0.06 },
+	},
+	{
+		id: "1x1",
+		label: "1:1",
+		icon: "square",
+		description: "Instagram, Facebook posts",
+		size: { width: 1080, height: 1080 },
+		safeArea: { top: 0.06, right: 0.06, bottom: 0.08, left: 0.06 },
+	},
+];
+
+export const getAspectVariant = (id?: string | null) =>
+	ASPECT_VARIANTS.find((variant) => variant.id === id);
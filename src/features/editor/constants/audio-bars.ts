@@ -0,0 +1,221 @@
+export type AudioBarsType =
+	| "linealAudioBars"
+	| "radialAudioBars"
+	| "waveAudioBars"
+	| "hillAudioBars";
+
+export const AUDIO_BARS_TYPES: AudioBarsType[] = [
+	"linealAudioBars",
+	"radialAudioBars",
+	"waveAudioBars",
+	"hillAudioBars",
+];
+
+export const AUDIO_BARS_LABELS: Record<AudioBarsType, string> = {
+	linealAudioBars: "Lineal Bars",
+	radialAudioBars: "Radial Bars",
+	waveAudioBars: "Wave",
+	hillAudioBars: "Hill",
+};
+
+export type AudioBarsField =
+	| {
+			kind: "color";
+			key: string;
+			label: string;
+			// Fields like lineColor/fillColor may hold a list of colors
+			multiple?: boolean;
+			defaultValue: string;
+	  }
+	| {
+			kind: "number";
+			key: string;
+			label: string;
+			min: number;
+			max: number;
+			step: number;
+			defaultValue: number;
+	  }
+	| {
+			kind: "select";
+			key: string;
+			label: string;
+			options: { value: string; label: string }[];
+			defaultValue: string;
+	  };
+
+// Every style property used by OPTIONS_*_BARS in menu-item/elements.tsx,
+// grouped by visualizer type
+export const AUDIO_BARS_FIELDS: Record<AudioBarsType, AudioBarsField[]> = {
+	linealAudioBars: [
+		{
+			kind: "color",
+			key: "linealBarColor",
+			label: "Bar color",
+			defaultValue: "#ffffff",
+		},
+		{
+			kind: "number",
+			key: "lineThickness",
+			label: "Thickness",
+			min: 1,
+			max: 40,
+			step: 1,
+			defaultValue: 5,
+		},
+		{
+			kind: "number",
+			key: "gapSize",
+			label: "Gap",
+			min: 0,
+			max: 40,
+			step: 1,
+			defaultValue: 7,
+		},
+		{
+			kind: "number",
+			key: "roundness",
+			label: "Roundness",
+			min: 0,
+			max: 20,
+			step: 1,
+			defaultValue: 2,
+		},
+		{
+			kind: "select",
+			key: "placement",
+			label: "Placement",
+			options: [
+				{ value: "over", label: "Over" },
+				{ value: "under", label: "Under" },
+			],
+			defaultValue: "over",
+		},
+	],
+	radialAudioBars: [
+		{
+			kind: "color",
+			key: "radialBarColor",
+			label: "Bar color",
+			defaultValue: "#00a6ff",
+		},
+		{
+			kind: "number",
+			key: "lineThickness",
+			label: "Thickness",
+			min: 1,
+			max: 40,
+			step: 1,
+			defaultValue: 6,
+		},
+	],
+	waveAudioBars: [
+		{
+			kind: "color",
+			key: "lineColor",
+			label: "Line color",
+			multiple: true,
+			defaultValue: "#EE8482",
+		},
+		{
+			kind: "number",
+			key: "lines",
+			label: "Lines",
+			min: 1,
+			max: 10,
+			step: 1,
+			defaultValue: 1,
+		},
+		{
+			kind: "number",
+			key: "lineGap",
+			label: "Gap",
+			min: 0,
+			max: 100,
+			step: 1,
+			defaultValue: 0,
+		},
+		{
+			kind: "number",
+			key: "sections",
+			label: "Sections",
+			min: 2,
+			max: 40,
+			step: 1,
+			defaultValue: 10,
+		},
+		{
+			kind: "number",
+			key: "offsetPixelSpeed",
+			label: "Speed (px/s)",
+			min: -400,
+			max: 400,
+			step: 10,
+			defaultValue: 0,
+		},
+		{
+			kind: "number",
+			key: "topRoundness",
+			label: "Top roundness",
+			min: 0,
+			max: 1,
+			step: 0.05,
+			defaultValue: 0.2,
+		},
+		{
+			kind: "number",
+			key: "bottomRoundness",
+			label: "Bottom roundness",
+			min: 0,
+			max: 1,
+			step: 0.05,
+			defaultValue: 0.2,
+		},
+	],
+	hillAudioBars: [
+		{
+			kind: "color",
+			key: "fillColor",
+			label: "Fill color",
+			multiple: true,
+			defaultValue: "#92E1B0",
+		},
+		{
+			kind: "color",
+			key: "strokeColor",
+			label: "Stroke color",
+			defaultValue: "#E9AB6C",
+		},
+		{
+			kind: "number",
+			key: "strokeWidth",
+			label: "Stroke width",
+			min: 0,
+			max: 10,
+			step: 1,
+			defaultValue: 2,
+		},
+		{
+			kind: "number",
+			key: "copies",
+			label: "Copies",
+			min: 1,
+			max: 8,
+			step: 1,
+			defaultValue: 1,
+		},
+		{
+			kind: "select",
+			key: "blendMode",
+			label: "Blend mode",
+			options: [
+				{ value: "normal", label: "Normal" },
+				{ value: "screen", label: "Screen" },
+				{ value: "multiply", label: "Multiply" },
+				{ value: "overlay", label: "Overlay" },
+				{ value: "lighten", label: "Lighten" },
+			],
+			defaultValue: "normal",
+		},
+	],
+};
@@ -0,0 +1,115 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { EXPORT_PRESETS, parseExportTarget } from "./export-presets";
+
+describe("parseExportTarget", () => {
+	it("defaults to the whole timeline as a video with burned-in captions", () => {
+		assert.deepEqual(parseExportTarget(undefined), {
+			kind: "video",
+			range: null,
+			captions: "burned",
+			variant: undefined,
+			loudness: null,
+		});
+	});
+
+	it("keeps a valid range, caption mode, variant and loudness target", () => {
+		assert.deepEqual(
+			parseExportTarget({
+				kind: "video",
+				range: { start: 1000, end: 5000 },
+				captions: "soft",
+				variant: "9x16",
+				loudness: "social",
+			}),
+			{
+				kind: "video",
+				range: { start: 1000, end: 5000 },
+				captions: "soft",
+				variant: "9x16",
+				loudness: "social",
+			},
+		);
+	});
+
+	it("rejects ranges that are invalid or end before they start", () => {
+		assert.equal(
+			parseExportTarget({ range: { start: -1, end: 10 } }),
+			"Invalid export range",
+		);
+		assert.equal(
+			parseExportTarget({ range: { start: 10, end: 10 } }),
+			"Export range must end after it starts",
+		);
+	});
+
+	it("parses audio, still and contact sheet targets", () => {
+		assert.deepEqual(parseExportTarget({ kind: "audio" }), {
+			kind: "audio",
+			audioFormat: "mp3",
+			range: null,
+			loudness: null,
+		});
+		assert.deepEqual(parseExportTarget({ kind: "still", time: 2500 }), {
+			kind: "still",
+			time: 2500,
+			imageFormat: "png",
+		});
+		assert.deepEqual(
+			parseExportTarget({ kind: "contact-sheet", imageFormat: "jpeg" }),
+			{ kind: "contact-sheet", frames: 12, imageFormat: "jpeg", range: null },
+		);
+	});
+
+	it("rejects out-of-range stills and contact sheets", () => {
+		assert.equal(
+			parseExportTarget({ kind: "still", time: -5 }),
+			"Still export needs a non-negative time",
+		);
+		assert.equal(
+			parseExportTarget({ kind: "contact-sheet", frames: 100 }),
+			"Contact sheet needs 2-36 frames",
+		);
+	});
+
+	it("rejects unknown kinds and formats", () => {
+		assert.equal(
+			parseExportTarget({ kind: "hologram" }),
+			"Unknown export kind: hologram",
+		);
+		assert.equal(
+			parseExportTarget({ kind: "audio", audioFormat: "flac" }),
+			"Unsupported audio format: flac",
+		);
+		assert.equal(
+			parseExportTarget({ variant: "4x3" }),
+			"Unknown aspect variant: 4x3",
+		);
+	});
+
+	it("rejects names inherited from Object.prototype", () => {
+		for (const name of ["constructor", "toString", "__proto__"]) {
+			assert.equal(typeof parseExportTarget({ captions: name }), "string");
+			assert.equal(typeof parseExportTarget({ loudness: name }), "string");
+			assert.equal(
+				typeof parseExportTarget({ kind: "audio", audioFormat: name }),
+				"string",
+			);
+			assert.equal(
+				typeof parseExportTarget({ kind: "still", time: 0, imageFormat: name }),
+				"string",
+			);
+		}
+	});
+});
+
+describe("EXPORT_PRESETS", () => {
+	it("never gives the encoder both a CRF and a bitrate", () => {
+		for (const preset of EXPORT_PRESETS) {
+			assert.ok(
+				preset.crf === undefined || preset.videoBitrate === undefined,
+				preset.id,
+			);
+		}
+	});
+});
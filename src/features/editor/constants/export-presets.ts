@@ -0,0 +1,323 @@
+import { type AspectVariantId, getAspectVariant } from "./aspect-variants";
+
+export type ExportPresetId =
+	| "social-1080p-h264"
+	| "archive-prores-422"
+	| "web-vp9-webm"
+	| "animated-gif"
+	| "draft-540p";
+
+export type ExportCodec = "h264" | "prores" | "vp9" | "gif";
+
+// Resolved on the server and written next to the design, so
+// scripts/render-local.cjs gets plain renderMedia() settings and never has
+// to know the preset list itself.
+export interface ExportPreset {
+	id: ExportPresetId;
+	name: string;
+	description: string;
+	codec: ExportCodec;
+	extension: "mp4" | "mov" | "webm" | "gif";
+	mimeType: string;
+	// Target length of the shorter output edge in pixels; null keeps the
+	// design size. Applied through Remotion's `scale`, so layout is unchanged.
+	shortSide: number | null;
+	// Overrides design.fps; null keeps the design frame rate
+	fps: number | null;
+	// At most one of crf / videoBitrate; without either the codec default applies
+	crf?: number;
+	videoBitrate?: string;
+	audioBitrate?: string;
+	pixelFormat?: "yuv420p" | "yuv422p10le";
+	proResProfile?: "standard";
+	audio: boolean;
+}
+
+export const DEFAULT_EXPORT_PRESET_ID: ExportPresetId = "social-1080p-h264";
+
+export const EXPORT_PRESETS: ExportPreset[] = [
+	{
+		id: "social-1080p-h264",
+		name: "Social 1080p H.264",
+		description: "MP4 for TikTok, Reels and YouTube uploads",
+		codec: "h264",
+		extension: "mp4",
+		mimeType: "video/mp4",
+		shortSide: 1080,
+		fps: 30,
+		crf: 20,
+		audioBitrate: "192k",
+		pixelFormat: "yuv420p",
+		audio: true,
+	},
+	{
+		id: "archive-prores-422",
+		name: "Archive ProRes 422",
+		description: "Full-size master for further editing",
+		codec: "prores",
+		extension: "mov",
+		mimeType: "video/quicktime",
+		shortSide: null,
+		fps: null,
+		pixelFormat: "yuv422p10le",
+		proResProfile: "standard",
+		audio: true,
+	},
+	{
+		id: "web-vp9-webm",
+		name: "Web VP9/WebM",
+		description: "Small WebM for embedding on websites",
+		codec: "vp9",
+		extension: "webm",
+		mimeType: "video/webm",
+		shortSide: 1080,
+		fps: null,
+		crf: 32,
+		pixelFormat: "yuv420p",
+		audio: true,
+	},
+	{
+		id: "animated-gif",
+		name: "Animated GIF",
+		description: "Silent 480p loop at 15 fps",
+		codec: "gif",
+		extension: "gif",
+		mimeType: "image/gif",
+		shortSide: 480,
+		fps: 15,
+		audio: false,
+	},
+	{
+		id: "draft-540p",
+		name: "Draft 540p",
+		description: "Fast low-quality preview render",
+		codec: "h264",
+		extension: "mp4",
+		mimeType: "video/mp4",
+		shortSide: 540,
+		fps: null,
+		crf: 30,
+		pixelFormat: "yuv420p",
+		audio: true,
+	},
+];
+
+export const getExportPreset = (id?: string | null): ExportPreset | undefined =>
+	EXPORT_PRESETS.find((preset) => preset.id === id);
+
+export type StillImageFormat = "png" | "jpeg";
+
+export const STILL_IMAGE_FORMATS: Record<
+	StillImageFormat,
+	{ extension: "png" | "jpg"; mimeType: string }
+> = {
+	png: { extension: "png", mimeType: "image/png" },
+	jpeg: { extension: "jpg", mimeType: "image/jpeg" },
+};
+
+export type AudioExportFormat = "mp3" | "wav" | "aac";
+
+// Remotion's audio-only codecs. AAC goes into .m4a so browsers can play it.
+export const AUDIO_EXPORT_FORMATS: Record<
+	AudioExportFormat,
+	{
+		name: string;
+		extension: "mp3" | "wav" | "m4a";
+		mimeType: string;
+		audioBitrate?: string;
+	}
+> = {
+	mp3: {
+		name: "MP3",
+		extension: "mp3",
+		mimeType: "audio/mpeg",
+		audioBitrate: "320k",
+	},
+	wav: { name: "WAV", extension: "wav", mimeType: "audio/wav" },
+	aac: {
+		name: "AAC",
+		extension: "m4a",
+		mimeType: "audio/mp4",
+		audioBitrate: "256k",
+	},
+};
+
+// In/out points in milliseconds on the design timeline
+export interface ExportRange {
+	start: number;
+	end: number;
+}
+
+// Where a video's captions end up: drawn into the picture, as a subtitle
+// track players can switch on and off, or both
+export type CaptionMode = "burned" | "soft" | "both";
+
+export const CAPTION_MODES: Record<CaptionMode, string> = {
+	burned: "Burned-in",
+	soft: "Soft",
+	both: "Both",
+};
+
+export const CONTACT_SHEET_MIN_FRAMES = 2;
+export const CONTACT_SHEET_MAX_FRAMES = 36;
+export const CONTACT_SHEET_DEFAULT_FRAMES = 12;
+
+export type LoudnessTargetId = "social" | "podcast" | "broadcast";
+
+// EBU R128 targets the final mix is normalized to: integrated loudness in
+// LUFS, a true-peak ceiling in dBTP and the loudness range the normalizer
+// may keep, in LU
+export interface LoudnessTarget {
+	name: string;
+	description: string;
+	integrated: number;
+	truePeak: number;
+	lra: number;
+}
+
+export const LOUDNESS_TARGETS: Record<LoudnessTargetId, LoudnessTarget> = {
+	social: {
+		name: "Social",
+		description: "-14 LUFS for YouTube, TikTok and streaming",
+		integrated: -14,
+		truePeak: -1,
+		lra: 11,
+	},
+	podcast: {
+		name: "Podcast",
+		description: "-16 LUFS for spoken word",
+		integrated: -16,
+		truePeak: -1,
+		lra: 11,
+	},
+	broadcast: {
+		name: "Broadcast",
+		description: "-23 LUFS, EBU R128",
+		integrated: -23,
+		truePeak: -1,
+		lra: 15,
+	},
+};
+
+// What a render job produces. Times stay in milliseconds until the render
+// script converts them with the (possibly preset-overridden) frame rate.
+export type ExportTarget =
+	| {
+			kind: "video";
+			range?: ExportRange | null;
+			captions?: CaptionMode;
+			// Aspect ratio of a batch export; names the output file
+			variant?: AspectVariantId;
+			// Normalize the final mix; null leaves levels as mixed
+			loudness?: LoudnessTargetId | null;
+	  }
+	| {
+			kind: "audio";
+			audioFormat: AudioExportFormat;
+			range?: ExportRange | null;
+			loudness?: LoudnessTargetId | null;
+	  }
+	| { kind: "still"; time: number; imageFormat: StillImageFormat }
+	| {
+			kind: "contact-sheet";
+			frames: number;
+			imageFormat: StillImageFormat;
+			range?: ExportRange | null;
+	  };
+
+const parseRange = (raw: any): ExportRange | null | string => {
+	if (raw === undefined || raw === null) return null;
+	const start = Number(raw.start);
+	const end = Number(raw.end);
+	if (!Number.isFinite(start) || !Number.isFinite(end) || start < 0) {
+		return "Invalid export range";
+	}
+	if (end <= start) {
+		return "Export range must end after it starts";
+	}
+	return { start, end };
+};
+
+// Target ids are strings too, so this returns the error or null
+const checkLoudness = (raw: any): string | null =>
+	raw === undefined || raw === null || Object.hasOwn(LOUDNESS_TARGETS, raw)
+		? null
+		: `Unknown loudness target: ${raw}`;
+
+// Validates an untrusted target from a request body. Returns an error
+// message instead of a target when the input is unusable.
+export const parseExportTarget = (raw: any): ExportTarget | string => {
+	const kind = raw?.kind ?? "video";
+
+	if (kind === "video") {
+		const range = parseRange(raw?.range);
+		if (typeof range === "string") return range;
+		const captions = raw?.captions ?? "burned";
+		if (!Object.hasOwn(CAPTION_MODES, captions)) {
+			return `Unsupported caption mode: ${captions}`;
+		}
+		const variant = raw?.variant;
+		if (variant !== undefined && !getAspectVariant(variant)) {
+			return `Unknown aspect variant: ${variant}`;
+		}
+		const loudnessError = checkLoudness(raw?.loudness);
+		if (loudnessError) return loudnessError;
+		return { kind, range, captions, variant, loudness: raw?.loudness ?? null };
+	}
+
+	if (kind === "audio") {
+		const audioFormat = raw?.audioFormat ?? "mp3";
+		if (!Object.hasOwn(AUDIO_EXPORT_FORMATS, audioFormat)) {
+			return `Unsupported audio format: ${audioFormat}`;
+		}
+		const range = parseRange(raw?.range);
+		if (typeof range === "string") return range;
+		const loudnessError = checkLoudness(raw?.loudness);
+		if (loudnessError) return loudnessError;
+		return { kind, audioFormat, range, loudness: raw?.loudness ?? null };
+	}
+
+	const imageFormat = raw?.imageFormat ?? "png";
+	if (!Object.hasOwn(STILL_IMAGE_FORMATS, imageFormat)) {
+		return `Unsupported image format: ${imageFormat}`;
+	}
+
+	if (kind === "still") {
+		const time = Number(raw?.time);
+		if (!Number.isFinite(time) || time < 0) {
+			return "Still export needs a non-negative time";
+		}
+		return { kind, time, imageFormat };
+	}
+
+	if (kind === "contact-sheet") {
+		const frames = Math.round(
+			Number(raw?.frames ?? CONTACT_SHEET_DEFAULT_FRAMES),
+		);
+		if (
+			!Number.isFinite(frames) ||
+			frames < CONTACT_SHEET_MIN_FRAMES ||
+			frames > CONTACT_SHEET_MAX_FRAMES
+		) {
+			return `Contact sheet needs ${CONTACT_SHEET_MIN_FRAMES}-${CONTACT_SHEET_MAX_FRAMES} frames`;
+		}
+		const range = parseRange(raw?.range);
+		if (typeof range === "string") return range;
+		return { kind, frames, imageFormat, range };
+	}
+
+	return `Unknown export kind: ${kind}`;
+};
+
+// Every file extension a render can produce, mapped to its content type
+export const RENDER_FILE_TYPES: Record<string, string> = Object.fromEntries([
+	...EXPORT_PRESETS.map((preset) => [preset.extension, preset.mimeType]),
+	...Object.values(AUDIO_EXPORT_FORMATS).map((format) => [
+		format.extension,
+		format.mimeType,
+	]),
+	...Object.values(STILL_IMAGE_FORMATS).map((format) => [
+		format.extension,
+		format.mimeType,
+	]),
+]);
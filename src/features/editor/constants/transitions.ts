@@ -0,0 +1,67 @@
+export type TransitionKind = "none" | "fade" | "wipe" | "slide" | "zoom";
+
+export type TransitionDirection =
+	| "from-left"
+	| "from-right"
+	| "from-top"
+	| "from-bottom";
+
+export interface TransitionPreset {
+	kind: TransitionKind;
+	name: string;
+	description: string;
+	icon: string;
+	directions?: TransitionDirection[];
+}
+
+export const DEFAULT_TRANSITION_DURATION = 500; // Duration in milliseconds
+export const MIN_TRANSITION_DURATION = 100;
+export const MAX_TRANSITION_DURATION = 2000;
+
+export const TRANSITION_DIRECTIONS: {
+	value: TransitionDirection;
+	label: string;
+}[] = [
+	{ value: "from-left", label: "From left" },
+	{ value: "from-right", label: "From right" },
+	{ value: "from-top", label: "From top" },
+	{ value: "from-bottom", label: "From bottom" },
+];
+
+export const TRANSITION_PRESETS: TransitionPreset[] = [
+	{
+		kind: "none",
+		name: "None",
+		description: "Hard cut between clips",
+		icon: "✂️",
+	},
+	{
+		kind: "fade",
+		name: "Crossfade",
+		description: "Blend the outgoing clip into the next one",
+		icon: "🌗",
+	},
+	{
+		kind: "wipe",
+		name: "Wipe",
+		description: "Reveal the next clip with a moving edge",
+		icon: "🧹",
+		directions: ["from-left", "from-right", "from-top", "from-bottom"],
+	},
+	{
+		kind: "slide",
+		name: "Slide",
+		description: "Push the outgoing clip off screen",
+		icon: "➡️",
+		directions: ["from-left", "from-right", "from-top", "from-bottom"],
+	},
+	{
+		kind: "zoom",
+		name: "Zoom",
+		description: "Zoom through into the next clip",
+		icon: "🔍",
+	},
+];
+
+export const getTransitionPreset = (kind: string) =>
+	TRANSITION_PRESETS.find((preset) => preset.kind === kind);
@@ -16,6 +16,7 @@ import BasicText from "./control-item/basic-text";
 import BasicImage from "./control-item/basic-image";
 import BasicVideo from "./control-item/basic-video";
 import BasicAudio from "./control-item/basic-audio";
+import BasicAudioBars from "./control-item/basic-audio-bars";
 import { motion, PanInfo, useAnimation } from "framer-motion";
 import ColorPicker from "@/components/color-picker";
 import { dispatch } from "@designcombo/events";
@@ -37,6 +38,18 @@ const ActiveControlItem = ({
 					image: <ItemImage handleMenuItemClick={handleMenuItemClick} />,
 					video: <ItemVideo handleMenuItemClick={handleMenuItemClick} />,
 					audio: <ItemAudio handleMenuItemClick={handleMenuItemClick} />,
+					linealAudioBars: (
+						<ItemAudioBars handleMenuItemClick={handleMenuItemClick} />
+					),
+					radialAudioBars: (
+						<ItemAudioBars handleMenuItemClick={handleMenuItemClick} />
+					),
+					waveAudioBars: (
+						<ItemAudioBars handleMenuItemClick={handleMenuItemClick} />
+					),
+					hillAudioBars: (
+						<ItemAudioBars handleMenuItemClick={handleMenuItemClick} />
+					),
 				}[trackItem?.type as "text"]
 			}
 		</>
@@ -317,6 +330,30 @@ const ControlItem = ({
 							type={feature}
 						/>
 					),
+					linealAudioBars: (
+						<BasicAudioBars
+							trackItem={trackItem as ITrackItem}
+							type={feature}
+						/>
+					),
+					radialAudioBars: (
+						<BasicAudioBars
+							trackItem={trackItem as ITrackItem}
+							type={feature}
+						/>
+					),
+					waveAudioBars: (
+						<BasicAudioBars
+							trackItem={trackItem as ITrackItem}
+							type={feature}
+						/>
+					),
+					hillAudioBars: (
+						<BasicAudioBars
+							trackItem={trackItem as ITrackItem}
+							type={feature}
+						/>
+					),
 				}[trackItem?.type as "text"]
 			}
 		</>
@@ -535,6 +572,7 @@ const ItemImage = ({
 			{ icon: Icons.animation, label: "Animations", id: "animations" },
 			{ icon: Icons.outline, label: "Outline", id: "outline" },
 			{ icon: Icons.shadow, label: "Shadow", id: "shadow" },
+			{ icon: Icons.arrowRight, label: "Transition", id: "transition" },
 		]}
 		handleMenuItemClick={handleMenuItemClick}
 	/>
@@ -552,6 +590,7 @@ const ItemVideo = ({
 			{ icon: Icons.animation, label: "Animations", id: "animations" },
 			{ icon: Icons.outline, label: "Outline", id: "outline" },
 			{ icon: Icons.shadow, label: "Shadow", id: "shadow" },
+			{ icon: Icons.arrowRight, label: "Transition", id: "transition" },
 		]}
 		handleMenuItemClick={handleMenuItemClick}
 	/>
@@ -571,3 +610,18 @@ const ItemAudio = ({
 		handleMenuItemClick={handleMenuItemClick}
 	/>
 );
+
+const ItemAudioBars = ({
+	handleMenuItemClick,
+}: {
+	handleMenuItemClick: (menuItem: string, label: string) => void;
+}) => (
+	<ItemGroup
+		items={[
+			{ icon: Icons.audio, label: "Source", id: "source" },
+			{ icon: Icons.style, label: "Style", id: "style" },
+			{ icon: Icons.basic, label: "Basic", id: "basic" },
+		]}
+		handleMenuItemClick={handleMenuItemClick}
+	/>
+);
@@ -0,0 +1,83 @@
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ITrackItem } from "@designcombo/types";
+import React, { useEffect, useState } from "react";
+import { dispatch } from "@designcombo/events";
+import { EDIT_OBJECT } from "@designcombo/state";
+import Opacity from "./common/opacity";
+import { AudioBarsSource, AudioBarsStyle } from "./common/audio-bars";
+
+const BasicAudioBars = ({
+	trackItem,
+	type,
+}: {
+	trackItem: ITrackItem;
+	type?: string;
+}) => {
+	const showAll = !type;
+	const [properties, setProperties] = useState(trackItem);
+
+	useEffect(() => {
+		setProperties(trackItem);
+	}, [trackItem]);
+
+	const handleChangeOpacity = (v: number) => {
+		dispatch(EDIT_OBJECT, {
+			payload: {
+				[trackItem.id]: {
+					details: {
+						opacity: v,
+					},
+				},
+			},
+		});
+
+		setProperties((prev) => {
+			return {
+				...prev,
+				details: {
+					...prev.details,
+					opacity: v,
+				},
+			} as ITrackItem;
+		});
+	};
+
+	const components = [
+		{
+			key: "source",
+			component: <AudioBarsSource trackItem={trackItem} />,
+		},
+		{
+			key: "style",
+			component: <AudioBarsStyle trackItem={trackItem} />,
+		},
+		{
+			key: "basic",
+			component: (
+				<Opacity
+					onChange={(v: number) => handleChangeOpacity(v)}
+					value={properties.details.opacity ?? 100}
+				/>
+			),
+		},
+	];
+
+	return (
+		<div className="flex flex-1 flex-col">
+			<div className="text-text-primary flex h-12 flex-none items-center px-4 text-sm font-medium">
+				Visualizer
+			</div>
+			<ScrollArea className="h-full">
+				<div className="flex flex-col gap-2 px-4 py-4">
+					{components
+						.filter((comp) => showAll || comp.key === type)
+						.map((comp) => (
+							<React.Fragment key={comp.key}>{comp.component}</React.Fragment>
+						))}
+				</div>
+			</ScrollArea>
+		</div>
+	);
+};
+
+export default BasicAudioBars;
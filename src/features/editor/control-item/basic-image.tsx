@@ -12,6 +12,7 @@ import { dispatch } from "@designcombo/events";
 import { EDIT_OBJECT } from "@designcombo/state";
 import Blur from "./common/blur";
 import Brightness from "./common/brightness";
+import Transition from "./common/transition";
 import useLayoutStore from "../store/use-layout-store";
 import { Label } from "@/components/ui/label";
 
@@ -250,6 +251,10 @@ const BasicImage = ({
 				/>
 			),
 		},
+		{
+			key: "transition",
+			component: <Transition trackItem={trackItem} />,
+		},
 	];
 	return (
 		<div className="flex flex-1 flex-col">
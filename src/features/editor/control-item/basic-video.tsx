@@ -12,6 +12,7 @@ import React, { useEffect, useState } from "react";
 import { dispatch } from "@designcombo/events";
 import { EDIT_OBJECT, ADD_TEXT } from "@designcombo/state";
 import Speed from "./common/speed";
+import Transition from "./common/transition";
 import useLayoutStore from "../store/use-layout-store";
 import { Label } from "@/components/ui/label";
 import Squantre from "./common/squantre";
@@ -1716,6 +1717,10 @@ const BasicVideo = ({
 				/>
 			),
 		},
+		{
+			key: "transition",
+			component: <Transition trackItem={trackItem} />,
+		},
 	];
 
 	return (
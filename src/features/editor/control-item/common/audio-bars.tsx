@@ -0,0 +1,316 @@
+import ColorPicker from "@/components/color-picker";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Popover,
+	PopoverContent,
+	PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { dispatch } from "@designcombo/events";
+import { EDIT_OBJECT } from "@designcombo/state";
+import { ITrackItem } from "@designcombo/types";
+import { Plus, X } from "lucide-react";
+import { useEffect, useState } from "react";
+import {
+	AUDIO_BARS_FIELDS,
+	AUDIO_BARS_LABELS,
+	AudioBarsField,
+	AudioBarsType,
+} from "../../constants/audio-bars";
+import useStore from "../../store/use-store";
+
+const AUTO_SOURCE = "auto";
+
+const editDetails = (id: string, details: Record<string, unknown>) => {
+	dispatch(EDIT_OBJECT, {
+		payload: {
+			[id]: {
+				details,
+			},
+		},
+	});
+};
+
+export const AudioBarsSource = ({ trackItem }: { trackItem: ITrackItem }) => {
+	const { trackItemsMap } = useStore();
+	const [value, setValue] = useState<string>(
+		(trackItem.details as any).audioSourceId || AUTO_SOURCE,
+	);
+
+	useEffect(() => {
+		setValue((trackItem.details as any).audioSourceId || AUTO_SOURCE);
+	}, [trackItem]);
+
+	const sources = Object.values(trackItemsMap).filter(
+		(item) =>
+			(item.type === "audio" || item.type === "video") &&
+			!!(item.details as any)?.src,
+	);
+
+	return (
+		<div className="flex flex-col gap-2">
+			<Label className="font-sans text-xs font-semibold">Audio source</Label>
+			<Select
+				value={value}
+				onValueChange={(newValue) => {
+					setValue(newValue);
+					editDetails(trackItem.id, {
+						audioSourceId: newValue === AUTO_SOURCE ? null : newValue,
+					});
+				}}
+			>
+				<SelectTrigger className="h-8 text-xs">
+					<SelectValue />
+				</SelectTrigger>
+				<SelectContent className="z-[300]">
+					<SelectItem value={AUTO_SOURCE}>First audio track</SelectItem>
+					{sources.map((source) => (
+						<SelectItem key={source.id} value={source.id}>
+							{source.name || `${source.type} ${source.id.slice(0, 6)}`}
+						</SelectItem>
+					))}
+				</SelectContent>
+			</Select>
+		</div>
+	);
+};
+
+const ColorSwatch = ({
+	value,
+	onChange,
+}: {
+	value: string;
+	onChange: (v: string) => void;
+}) => (
+	<Popover>
+		<PopoverTrigger asChild>
+			<div className="relative w-32 cursor-pointer">
+				<div
+					style={{ backgroundColor: value }}
+					className="absolute left-0.5 top-0.5 h-7 w-7 flex-none rounded-md border border-border"
+				/>
+				<Input
+					className="pointer-events-none h-8 pl-10"
+					value={value}
+					onChange={() => {}}
+				/>
+			</div>
+		</PopoverTrigger>
+		<PopoverContent side="bottom" align="end" className="z-[300] w-[280px] p-4">
+			<ColorPicker
+				value={value}
+				format="hex"
+				solid={true}
+				gradient={false}
+				onChange={onChange}
+			/>
+		</PopoverContent>
+	</Popover>
+);
+
+const ColorField = ({
+	field,
+	value,
+	onChange,
+}: {
+	field: Extract<AudioBarsField, { kind: "color" }>;
+	value: string | string[] | null | undefined;
+	onChange: (v: string | string[]) => void;
+}) => {
+	const colors = Array.isArray(value) ? value : [value || field.defaultValue];
+
+	const updateColor = (index: number, color: string) => {
+		const next = colors.map((c, i) => (i === index ? color : c));
+		onChange(next.length === 1 ? next[0] : next);
+	};
+
+	return (
+		<div className="flex flex-col gap-2">
+			{colors.map((color, index) => (
+				<div className="flex gap-2" key={index}>
+					<div className="flex flex-1 items-center gap-1 text-sm text-muted-foreground">
+						{index === 0 ? field.label : ""}
+						{field.multiple && colors.length > 1 && (
+							<Button
+								variant="ghost"
+								size="icon"
+								className="h-6 w-6"
+								onClick={() => {
+									const next = colors.filter((_, i) => i !== index);
+									onChange(next.length === 1 ? next[0] : next);
+								}}
+							>
+								<X className="h-3 w-3" />
+							</Button>
+						)}
+					</div>
+					<ColorSwatch value={color} onChange={(v) => updateColor(index, v)} />
+				</div>
+			))}
+			{field.multiple && (
+				<Button
+					variant="outline"
+					size="sm"
+					className="h-7 self-end text-xs"
+					onClick={() => onChange([...colors, colors[colors.length - 1]])}
+				>
+					<Plus className="mr-1 h-3 w-3" />
+					Add color
+				</Button>
+			)}
+		</div>
+	);
+};
+
+const NumberField = ({
+	field,
+	value,
+	onChange,
+}: {
+	field: Extract<AudioBarsField, { kind: "number" }>;
+	value: number | null | undefined;
+	onChange: (v: number) => void;
+}) => {
+	const [localValue, setLocalValue] = useState(value ?? field.defaultValue);
+
+	useEffect(() => {
+		setLocalValue(value ?? field.defaultValue);
+	}, [value, field.defaultValue]);
+
+	return (
+		<div className="flex gap-2">
+			<div className="flex flex-1 items-center text-sm text-muted-foreground">
+				{field.label}
+			</div>
+			<div
+				className="w-32"
+				style={{
+					display: "grid",
+					gridTemplateColumns: "1fr 80px",
+				}}
+			>
+				<Input
+					className="h-8 w-11 px-2 text-center text-sm"
+					type="number"
+					step={field.step}
+					onChange={(e) => {
+						const newValue = Number(e.target.value);
+						if (newValue >= field.min && newValue <= field.max) {
+							setLocalValue(newValue);
+							onChange(newValue);
+						}
+					}}
+					value={localValue}
+				/>
+				<Slider
+					value={[localValue]}
+					onValueChange={(e) => {
+						setLocalValue(e[0]);
+					}}
+					onValueCommit={() => {
+						onChange(localValue);
+					}}
+					min={field.min}
+					max={field.max}
+					step={field.step}
+					aria-label={field.label}
+				/>
+			</div>
+		</div>
+	);
+};
+
+const SelectField = ({
+	field,
+	value,
+	onChange,
+}: {
+	field: Extract<AudioBarsField, { kind: "select" }>;
+	value: string | null | undefined;
+	onChange: (v: string) => void;
+}) => (
+	<div className="flex gap-2">
+		<div className="flex flex-1 items-center text-sm text-muted-foreground">
+			{field.label}
+		</div>
+		<Select value={value || field.defaultValue} onValueChange={onChange}>
+			<SelectTrigger className="h-8 w-32 text-xs">
+				<SelectValue />
+			</SelectTrigger>
+			<SelectContent className="z-[300]">
+				{field.options.map((option) => (
+					<SelectItem key={option.value} value={option.value}>
+						{option.label}
+					</SelectItem>
+				))}
+			</SelectContent>
+		</Select>
+	</div>
+);
+
+export const AudioBarsStyle = ({ trackItem }: { trackItem: ITrackItem }) => {
+	const type = trackItem.type as AudioBarsType;
+	const fields = AUDIO_BARS_FIELDS[type] ?? [];
+	const [details, setDetails] = useState<Record<string, any>>(
+		trackItem.details as Record<string, any>,
+	);
+
+	useEffect(() => {
+		setDetails(trackItem.details as Record<string, any>);
+	}, [trackItem]);
+
+	const handleChange = (key: string, value: unknown) => {
+		setDetails((prev) => ({ ...prev, [key]: value }));
+		editDetails(trackItem.id, { [key]: value });
+	};
+
+	return (
+		<div className="flex flex-col gap-2">
+			<Label className="font-sans text-xs font-semibold">
+				{AUDIO_BARS_LABELS[type] ?? "Visualizer"}
+			</Label>
+			{fields.map((field) => {
+				switch (field.kind) {
+					case "color":
+						return (
+							<ColorField
+								key={field.key}
+								field={field}
+								value={details[field.key]}
+								onChange={(v) => handleChange(field.key, v)}
+							/>
+						);
+					case "number":
+						return (
+							<NumberField
+								key={field.key}
+								field={field}
+								value={details[field.key]}
+								onChange={(v) => handleChange(field.key, v)}
+							/>
+						);
+					case "select":
+						return (
+							<SelectField
+								key={field.key}
+								field={field}
+								value={details[field.key]}
+								onChange={(v) => handleChange(field.key, v)}
+							/>
+						);
+					default:
+						return null;
+				}
+			})}
+		</div>
+	);
+};
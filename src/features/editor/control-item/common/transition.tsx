@@ -0,0 +1,241 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { ITrackItem, ITransition } from "@designcombo/types";
+import { useEffect, useMemo, useState } from "react";
+import {
+	DEFAULT_TRANSITION_DURATION,
+	MAX_TRANSITION_DURATION,
+	MIN_TRANSITION_DURATION,
+	TRANSITION_DIRECTIONS,
+	TRANSITION_PRESETS,
+	TransitionDirection,
+	TransitionKind,
+	getTransitionPreset,
+} from "../../constants/transitions";
+import useStore from "../../store/use-store";
+
+const TRANSITIONABLE_TYPES = ["video", "image"];
+
+const Transition = ({ trackItem }: { trackItem: ITrackItem }) => {
+	const { tracks, trackItemsMap, transitionsMap, transitionIds, fps } =
+		useStore();
+
+	// The clip that starts where this one ends on the same track
+	const { track, nextItem } = useMemo(() => {
+		const track = tracks.find((t) => t.items.includes(trackItem.id));
+		if (!track) return { track: undefined, nextItem: undefined };
+
+		const frameTolerance = 1000 / fps;
+		const nextItem = track.items
+			.map((id) => trackItemsMap[id])
+			.filter(
+				(item) =>
+					item &&
+					item.id !== trackItem.id &&
+					TRANSITIONABLE_TYPES.includes(item.type) &&
+					Math.abs(item.display.from - trackItem.display.to) <= frameTolerance,
+			)
+			.sort((a, b) => a.display.from - b.display.from)[0];
+
+		return { track, nextItem };
+	}, [tracks, trackItemsMap, trackItem.id, trackItem.display.to, fps]);
+
+	const existing = useMemo(
+		() =>
+			Object.values(transitionsMap).find(
+				(transition) => transition.fromId === trackItem.id,
+			),
+		[transitionsMap, trackItem.id],
+	);
+
+	const maxDuration = useMemo(() => {
+		if (!nextItem) return MAX_TRANSITION_DURATION;
+		const durations = [trackItem, nextItem].map(
+			(item) => item.display.to - item.display.from,
+		);
+		return Math.max(
+			MIN_TRANSITION_DURATION,
+			Math.min(MAX_TRANSITION_DURATION, ...durations),
+		);
+	}, [trackItem, nextItem]);
+
+	const [duration, setDuration] = useState(
+		existing?.duration ?? DEFAULT_TRANSITION_DURATION,
+	);
+
+	useEffect(() => {
+		setDuration(existing?.duration ?? DEFAULT_TRANSITION_DURATION);
+	}, [existing?.duration]);
+
+	const activeKind = (existing?.kind as TransitionKind) ?? "none";
+	const activePreset = getTransitionPreset(activeKind);
+
+	const applyTransition = (changes: {
+		kind?: TransitionKind;
+		direction?: TransitionDirection;
+		duration?: number;
+	}) => {
+		const { stateManager } = useStore.getState();
+		if (!stateManager || !track || !nextItem) return;
+
+		const kind = changes.kind ?? activeKind;
+		const id = `${trackItem.id}-${nextItem.id}`;
+		const remainingIds = transitionIds.filter(
+			(transitionId) => transitionsMap[transitionId]?.fromId !== trackItem.id,
+		);
+		const remainingMap = Object.fromEntries(
+			Object.entries(transitionsMap).filter(
+				([, transition]) => transition.fromId !== trackItem.id,
+			),
+		);
+
+		if (kind === "none") {
+			stateManager.updateState(
+				{ transitionIds: remainingIds, transitionsMap: remainingMap },
+				{ updateHistory: true, kind: "remove" },
+			);
+			return;
+		}
+
+		const preset = getTransitionPreset(kind);
+		const direction =
+			changes.direction ??
+			(existing?.kind === kind ? existing.direction : undefined) ??
+			preset?.directions?.[0];
+		const transition: ITransition = {
+			id,
+			trackId: track.id,
+			fromId: trackItem.id,
+			toId: nextItem.id,
+			type: "transition",
+			kind,
+			name: preset?.name,
+			direction,
+			duration: Math.min(changes.duration ?? duration, maxDuration),
+		};
+
+		stateManager.updateState(
+			{
+				transitionIds: [...remainingIds, id],
+				transitionsMap: { ...remainingMap, [id]: transition },
+			},
+			{ updateHistory: true, kind: "add:transition" },
+		);
+	};
+
+	return (
+		<div className="flex flex-col gap-2">
+			<Label className="font-sans text-xs font-semibold">
+				Transition to next clip
+			</Label>
+
+			{!nextItem ? (
+				<div className="text-xs text-muted-foreground">
+					Place another video or image directly after this clip on the same
+					track to add a transition.
+				</div>
+			) : (
+				<>
+					<div className="grid grid-cols-3 gap-2">
+						{TRANSITION_PRESETS.map((preset) => (
+							<Button
+								key={preset.kind}
+								variant={activeKind === preset.kind ? "default" : "outline"}
+								size="sm"
+								className="flex h-auto flex-col gap-1 py-2 text-xs"
+								title={preset.description}
+								onClick={() => applyTransition({ kind: preset.kind })}
+							>
+								<span>{preset.icon}</span>
+								<span>{preset.name}</span>
+							</Button>
+						))}
+					</div>
+
+					{activePreset?.directions && (
+						<div className="flex gap-2">
+							<div className="flex flex-1 items-center text-sm text-muted-foreground">
+								Direction
+							</div>
+							<Select
+								value={existing?.direction ?? activePreset.directions[0]}
+								onValueChange={(value) =>
+									applyTransition({ direction: value as TransitionDirection })
+								}
+							>
+								<SelectTrigger className="h-8 w-32 text-xs">
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent className="z-[300]">
+									{TRANSITION_DIRECTIONS.filter((direction) =>
+										activePreset.directions?.includes(direction.value),
+									).map((direction) => (
+										<SelectItem key={direction.value} value={direction.value}>
+											{direction.label}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</div>
+					)}
+
+					{activeKind !== "none" && (
+						<div className="flex gap-2">
+							<div className="flex flex-1 items-center text-sm text-muted-foreground">
+								Duration (ms)
+							</div>
+							<div
+								className="w-32"
+								style={{
+									display: "grid",
+									gridTemplateColumns: "1fr 80px",
+								}}
+							>
+								<Input
+									className="h-8 w-11 px-2 text-center text-sm"
+									type="number"
+									onChange={(e) => {
+										const newValue = Number(e.target.value);
+										if (
+											newValue >= MIN_TRANSITION_DURATION &&
+											newValue <= maxDuration
+										) {
+											setDuration(newValue);
+											applyTransition({ duration: newValue });
+										}
+									}}
+									value={duration}
+								/>
+								<Slider
+									id="transition-duration"
+									value={[duration]}
+									onValueChange={(e) => {
+										setDuration(e[0]);
+									}}
+									onValueCommit={() => {
+										applyTransition({ duration });
+									}}
+									min={MIN_TRANSITION_DURATION}
+									max={maxDuration}
+									step={50}
+									aria-label="Transition duration"
+								/>
+							</div>
+						</div>
+					)}
+				</>
+			)}
+		</div>
+	);
+};
+
+export default Transition;
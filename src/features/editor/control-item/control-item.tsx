@@ -12,6 +12,7 @@ import BasicText from "./basic-text";
 import BasicImage from "./basic-image";
 import BasicVideo from "./basic-video";
 import BasicAudio from "./basic-audio";
+import BasicAudioBars from "./basic-audio-bars";
 import useStore from "../store/use-store";
 import useLayoutStore from "../store/use-layout-store";
 import { LassoSelect } from "lucide-react";
@@ -65,6 +66,10 @@ const ActiveControlItem = ({
 					image: <BasicImage trackItem={trackItem as ITrackItem & IImage} />,
 					video: <BasicVideo trackItem={trackItem as ITrackItem & IVideo} />,
 					audio: <BasicAudio trackItem={trackItem as ITrackItem & IAudio} />,
+					linealAudioBars: <BasicAudioBars trackItem={trackItem} />,
+					radialAudioBars: <BasicAudioBars trackItem={trackItem} />,
+					waveAudioBars: <BasicAudioBars trackItem={trackItem} />,
+					hillAudioBars: <BasicAudioBars trackItem={trackItem} />,
 				}[trackItem.type as "text"]
 			}
 		</>
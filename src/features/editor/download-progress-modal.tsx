@@ -2,16 +2,96 @@ import { useState, useEffect } from "react";
 import { Dialog, DialogContent } from "@/components/ui/dialog";
 import { useDownloadState } from "./store/use-download-state";
 import { Button } from "@/components/ui/button";
-import { CircleCheckIcon, XIcon, FileVideo } from "lucide-react";
+import {
+	CircleCheckIcon,
+	CircleX,
+	XIcon,
+	FileVideo,
+	TriangleAlert,
+} from "lucide-react";
 import { DialogDescription, DialogTitle } from "@radix-ui/react-dialog";
 import { download } from "@/utils/download";
 import { RendersGallery } from "./renders-gallery";
+import type { RenderStage } from "@/lib/render-queue";
+import type { DesignIssue } from "@/lib/design-schema";
+import useStore from "./store/use-store";
+
+const STAGE_LABELS: Partial<Record<RenderStage, string>> = {
+	bundling: "Bundling project...",
+	"selecting-composition": "Preparing composition...",
+	rendering: "Rendering frames...",
+	encoding: "Encoding...",
+};
+
+const formatEta = (ms: number) => {
+	const seconds = Math.max(1, Math.round(ms / 1000));
+	if (seconds < 60) return `about ${seconds}s left`;
+	const minutes = Math.floor(seconds / 60);
+	if (minutes < 60) return `about ${minutes}m ${seconds % 60}s left`;
+	return `about ${Math.floor(minutes / 60)}h ${minutes % 60}m left`;
+};
+
+const PreflightIssues = ({ issues }: { issues: DesignIssue[] }) => {
+	const { trackItemsMap } = useStore();
+
+	// Errors first; both keep their original order
+	const sorted = [
+		...issues.filter((issue) => issue.level === "error"),
+		...issues.filter((issue) => issue.level === "warning"),
+	];
+
+	return (
+		<div className="max-h-64 w-full max-w-[640px] overflow-auto rounded-md border">
+			{sorted.map((issue, index) => {
+				const item = issue.itemId ? trackItemsMap[issue.itemId] : undefined;
+				return (
+					<div
+						key={`${issue.code}-${issue.itemId ?? ""}-${index}`}
+						className="flex items-start gap-2 border-b px-3 py-2 text-sm last:border-b-0"
+					>
+						{issue.level === "error" ? (
+							<CircleX className="mt-0.5 h-4 w-4 flex-none text-red-500" />
+						) : (
+							<TriangleAlert className="mt-0.5 h-4 w-4 flex-none text-amber-500" />
+						)}
+						<div className="min-w-0">
+							<div>{issue.message}</div>
+							{(item || issue.path) && (
+								<div className="truncate text-xs text-zinc-500">
+									{item
+										? `${item.name || item.type} (${item.id.slice(0, 6)})`
+										: issue.path}
+								</div>
+							)}
+						</div>
+					</div>
+				);
+			})}
+		</div>
+	);
+};
 
 const DownloadProgressModal = () => {
-	const { progress, displayProgressModal, output, actions } =
-		useDownloadState();
+	const {
+		progress,
+		displayProgressModal,
+		output,
+		renderStatus,
+		renderStage,
+		queuePosition,
+		renderedFrames,
+		totalFrames,
+		bundleCache,
+		eta,
+		renderError,
+		preflightStatus,
+		preflightIssues,
+		actions,
+	} = useDownloadState();
+	const [cancelling, setCancelling] = useState(false);
 	const [rendersGalleryOpen, setRendersGalleryOpen] = useState(false);
-	const isCompleted = progress === 100;
+	// Progress can hit 100% a moment before the job reports its output file
+	const isCompleted = progress === 100 && !!output;
 
 	// Log progress changes and modal state
 	useEffect(() => {
@@ -36,7 +116,7 @@ const DownloadProgressModal = () => {
 				`📥 [CineTune Download] Starting file download from: ${output.url}`,
 			);
 			try {
-				await download(output.url, "untitled.mp4");
+				await download(output.url, `untitled.${output.type || "mp4"}`);
 				console.log(
 					`✅ [CineTune Download] File download completed successfully`,
 				);
@@ -49,6 +129,20 @@ const DownloadProgressModal = () => {
 			);
 		}
 	};
+
+	const handleCancel = async () => {
+		setCancelling(true);
+		try {
+			await actions.cancelExport();
+		} finally {
+			setCancelling(false);
+		}
+	};
+
+	const isQueued = renderStatus === "queued";
+	const isCancelled = renderStatus === "cancelled";
+	const isFailed = renderStatus === "error";
+
 	return (
 		<Dialog
 			open={displayProgressModal}
@@ -64,7 +158,35 @@ const DownloadProgressModal = () => {
 				<div className="flex h-16 items-center border-b px-4 font-medium">
 					Download
 				</div>
-				{isCompleted ? (
+				{preflightStatus === "checking" ? (
+					<div className="flex flex-1 flex-col items-center justify-center gap-4">
+						<div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+						<div className="font-bold">Checking design...</div>
+						<div className="text-center text-zinc-500">
+							Verifying media, fonts and timings before the export starts.
+						</div>
+					</div>
+				) : preflightStatus === "failed" || preflightStatus === "warnings" ? (
+					<div className="flex flex-1 flex-col items-center justify-center gap-4 px-8">
+						<div className="font-bold">
+							{preflightStatus === "failed"
+								? "Fix these problems before exporting"
+								: "The export may not look as expected"}
+						</div>
+						<PreflightIssues issues={preflightIssues || []} />
+						<div className="flex gap-2">
+							{preflightStatus === "warnings" && (
+								<Button onClick={actions.confirmExport}>Export anyway</Button>
+							)}
+							<Button
+								variant={"outline"}
+								onClick={() => actions.setDisplayProgressModal(false)}
+							>
+								{preflightStatus === "warnings" ? "Cancel" : "Close"}
+							</Button>
+						</div>
+					</div>
+				) : isCompleted ? (
 					<div className="flex flex-1 flex-col items-center justify-center gap-2 space-y-4">
 						<div className="flex flex-col items-center space-y-1 text-center">
 							<div className="font-semibold">
@@ -87,17 +209,81 @@ const DownloadProgressModal = () => {
 							</Button>
 						</div>
 					</div>
+				) : isCancelled ? (
+					<div className="flex flex-1 flex-col items-center justify-center gap-4">
+						<div className="font-bold">Export cancelled</div>
+						<Button
+							variant={"outline"}
+							onClick={() => actions.setDisplayProgressModal(false)}
+						>
+							Close
+						</Button>
+					</div>
+				) : isFailed ? (
+					<div className="flex flex-1 flex-col items-center justify-center gap-4 px-8">
+						<TriangleAlert className="h-8 w-8 text-red-500" />
+						<div className="font-bold">Export failed</div>
+						<div className="text-center text-zinc-500">
+							{renderError?.message || "The render did not finish."}
+						</div>
+						{renderError?.stderr && (
+							<details className="w-full max-w-[640px] text-xs">
+								<summary className="cursor-pointer text-zinc-500">
+									Renderer output
+								</summary>
+								<pre className="mt-2 max-h-48 overflow-auto whitespace-pre-wrap rounded-md bg-muted p-3">
+									{renderError.stderr}
+								</pre>
+							</details>
+						)}
+						<Button
+							variant={"outline"}
+							onClick={() => actions.setDisplayProgressModal(false)}
+						>
+							Close
+						</Button>
+					</div>
 				) : (
 					<div className="flex flex-1 flex-col items-center justify-center gap-4">
 						<div className="text-5xl font-semibold">
-							{Math.floor(progress)}%
+							{isQueued ? "—" : `${Math.floor(progress)}%`}
+						</div>
+						<div className="font-bold">
+							{isQueued
+								? queuePosition
+									? `Queued - position ${queuePosition}`
+									: "Queued..."
+								: (renderStage && STAGE_LABELS[renderStage]) || "Exporting..."}
 						</div>
-						<div className="font-bold">Exporting...</div>
+						{!isQueued && (
+							<div className="text-sm text-zinc-500">
+								{renderStage === "rendering" && totalFrames
+									? `${renderedFrames ?? 0} / ${totalFrames} frames`
+									: null}
+								{renderStage === "rendering" && totalFrames && eta
+									? " · "
+									: null}
+								{eta ? formatEta(eta) : null}
+							</div>
+						)}
+						{!isQueued && bundleCache && (
+							<div className="text-xs text-zinc-500">
+								{bundleCache === "hit"
+									? "Reused cached render bundle"
+									: "Built a fresh render bundle"}
+							</div>
+						)}
 						<div className="text-center text-zinc-500">
 							<div>Closing the browser will not cancel the export.</div>
 							<div>The video will be saved in your space.</div>
 						</div>
-						<Button variant={"outline"}>Cancel</Button>
+						<Button
+							variant={"outline"}
+							onClick={handleCancel}
+							disabled={cancelling}
+						>
+							{cancelling ? "Cancelling..." : "Cancel"}
+						</Button>
 					</div>
 				)}
 			</DialogContent>
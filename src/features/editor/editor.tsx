@@ -29,6 +29,7 @@ import { dispatch } from "@designcombo/events";
 import { useIsLargeScreen } from "@/hooks/use-media-query";
 import { ITrackItem } from "@designcombo/types";
 import useLayoutStore from "./store/use-layout-store";
+import { useDownloadState } from "./store/use-download-state";
 import { DemoButton } from "@/components/ui/demo-button";
 import { useTourStore } from "./tour/tour-store";
 import { TourOverlay } from "./tour/tour-overlay";
@@ -59,7 +60,7 @@ const Editor = ({ tempId, id }: { tempId?: string; id?: string }) => {
 	const { scene } = useSceneStore();
 	const timelinePanelRef = useRef<ImperativePanelHandle>(null);
 	const sceneRef = useRef<SceneRef>(null);
-	const { timeline, playerRef } = useStore();
+	const { timeline, playerRef, setStateManager } = useStore();
 	const { activeIds, trackItemsMap, transitionsMap } = useStore();
 	const [loaded, setLoaded] = useState(false);
 	const [trackItem, setTrackItem] = useState<ITrackItem | null>(null);
@@ -76,6 +77,15 @@ const Editor = ({ tempId, id }: { tempId?: string; id?: string }) => {
 
 	useTimelineEvents();
 
+	useEffect(() => {
+		setStateManager(stateManager);
+	}, [setStateManager]);
+
+	// File renders under the scene being edited
+	useEffect(() => {
+		if (id) useDownloadState.getState().actions.setProjectId(id);
+	}, [id]);
+
 	const { setCompactFonts, setFonts } = useDataState();
 
 	useEffect(() => {
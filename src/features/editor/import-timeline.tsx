@@ -0,0 +1,165 @@
+import { useRef, useState } from "react";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { CircleX, FileInput, Loader2, TriangleAlert } from "lucide-react";
+import { dispatch } from "@designcombo/events";
+import { DESIGN_LOAD } from "@designcombo/state";
+import type { IDesign } from "@designcombo/types";
+import { toast } from "sonner";
+import {
+	buildImportedDesign,
+	type ImportReport,
+	parseTimelineFile,
+} from "./interchange";
+import useStore from "./store/use-store";
+import { timeToString } from "./utils/time";
+
+const KIND_LABELS: Record<keyof ImportReport["counts"], string> = {
+	video: "video",
+	audio: "audio",
+	image: "image",
+	text: "title",
+};
+
+// Loads an FCPXML or OTIO timeline. The import report is shown before the
+// current timeline gets replaced, so nothing is lost without the user seeing
+// it first.
+export const ImportTimeline = ({ showLabel }: { showLabel: boolean }) => {
+	const inputRef = useRef<HTMLInputElement>(null);
+	const [isReading, setIsReading] = useState(false);
+	const [pending, setPending] = useState<{
+		design: IDesign;
+		report: ImportReport;
+	} | null>(null);
+
+	const handleFile = async (file: File) => {
+		setIsReading(true);
+		try {
+			const timeline = parseTimelineFile(await file.text(), file.name);
+			if (!timeline) {
+				toast.error("Use an FCPXML or OTIO file.");
+				return;
+			}
+			const { size, fps } = useStore.getState();
+			const result = await buildImportedDesign(timeline, { size, fps });
+			console.log(
+				`[import-timeline] Read ${file.name}: ${result.design.trackItemIds.length} items, ${result.report.issues.length} issues`,
+			);
+			if (result.design.trackItemIds.length === 0) {
+				toast.error("Nothing in this timeline could be imported.");
+				return;
+			}
+			setPending(result);
+		} catch (error) {
+			console.error("Failed to import timeline:", error);
+			toast.error(
+				(error as Error)?.message || "Could not read the timeline file.",
+			);
+		} finally {
+			setIsReading(false);
+		}
+	};
+
+	const handleConfirm = () => {
+		if (!pending) return;
+		dispatch(DESIGN_LOAD, { payload: pending.design });
+		toast.success(`Imported ${pending.report.name}`);
+		setPending(null);
+	};
+
+	const counts = pending
+		? (Object.keys(KIND_LABELS) as (keyof ImportReport["counts"])[])
+				.filter((kind) => pending.report.counts[kind] > 0)
+				.map(
+					(kind) =>
+						`${pending.report.counts[kind]} ${KIND_LABELS[kind]}${pending.report.counts[kind] === 1 ? "" : "s"}`,
+				)
+				.join(", ")
+		: "";
+
+	return (
+		<>
+			<input
+				ref={inputRef}
+				type="file"
+				accept=".fcpxml,.xml,.otio"
+				className="hidden"
+				onChange={(e) => {
+					const file = e.target.files?.[0];
+					e.target.value = "";
+					if (file) handleFile(file);
+				}}
+			/>
+			<Button
+				variant="ghost"
+				size="sm"
+				disabled={isReading}
+				onClick={() => inputRef.current?.click()}
+				className="flex items-center gap-2 text-muted-foreground hover:text-foreground"
+				title="Import an FCPXML or OTIO timeline"
+			>
+				{isReading ? (
+					<Loader2 width={16} className="animate-spin" />
+				) : (
+					<FileInput width={16} />
+				)}
+				{showLabel && <span className="text-sm">Import</span>}
+			</Button>
+
+			<Dialog
+				open={pending !== null}
+				onOpenChange={(open) => !open && setPending(null)}
+			>
+				<DialogContent className="max-w-xl bg-background">
+					<DialogHeader>
+						<DialogTitle>Import {pending?.report.name}</DialogTitle>
+						<DialogDescription>
+							{pending?.report.format === "fcpxml" ? "FCPXML" : "OTIO"} timeline
+							with {counts}. Importing replaces the current timeline.
+						</DialogDescription>
+					</DialogHeader>
+
+					{pending && pending.report.issues.length > 0 && (
+						<div className="max-h-72 overflow-auto rounded-md border">
+							{pending.report.issues.map((issue, index) => (
+								<div
+									key={`${issue.name}-${issue.at ?? ""}-${index}`}
+									className="flex items-start gap-2 border-b px-3 py-2 text-sm last:border-b-0"
+								>
+									{issue.severity === "skipped" ? (
+										<CircleX className="mt-0.5 h-4 w-4 flex-none text-red-500" />
+									) : (
+										<TriangleAlert className="mt-0.5 h-4 w-4 flex-none text-amber-500" />
+									)}
+									<div className="min-w-0">
+										<div>{issue.reason}</div>
+										<div className="truncate text-xs text-zinc-500">
+											{issue.name}
+											{issue.at !== undefined &&
+												` at ${timeToString({ time: issue.at })}`}
+											{issue.severity === "skipped" && " (not imported)"}
+										</div>
+									</div>
+								</div>
+							))}
+						</div>
+					)}
+
+					<DialogFooter>
+						<Button variant="outline" onClick={() => setPending(null)}>
+							Cancel
+						</Button>
+						<Button onClick={handleConfirm}>Replace timeline</Button>
+					</DialogFooter>
+				</DialogContent>
+			</Dialog>
+		</>
+	);
+};
@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { ITrackItem } from "@designcombo/types";
+import { toEdl } from "./edl";
+import {
+	buildInterchangeTimeline,
+	buildMediaManifest,
+	framesToTimecode,
+} from "./timeline";
+
+const item = (
+	id: string,
+	type: string,
+	from: number,
+	to: number,
+	extra: Record<string, unknown> = {},
+) => ({ id, type, display: { from, to }, ...extra }) as unknown as ITrackItem;
+
+// Two clips on V1, the second at double speed, a title above them and music
+const timeline = buildInterchangeTimeline(
+	{
+		size: { width: 1920, height: 1080 },
+		fps: 30,
+		tracks: [
+			{ id: "titles", items: ["title"] },
+			{ id: "picture", items: ["first", "fast"] },
+			{ id: "sound", items: ["music"] },
+		] as any,
+		trackItemsMap: {
+			title: item("title", "text", 500, 1500, { details: { text: "Hello" } }),
+			first: item("first", "video", 0, 1000, {
+				details: { src: "/media/first.mp4" },
+			}),
+			fast: item("fast", "video", 1000, 3000, {
+				trim: { from: 1000, to: 5000 },
+				playbackRate: 2,
+				details: { src: "/media/fast.mp4" },
+			}),
+			music: item("music", "audio", 0, 3000, {
+				details: { src: "/media/music.mp3" },
+			}),
+		},
+	},
+	{ name: "Demo", origin: "https://app.example.com" },
+);
+const lines = toEdl(timeline, buildMediaManifest(timeline)).split("\n");
+
+describe("framesToTimecode", () => {
+	it("writes non-drop-frame HH:MM:SS:FF", () => {
+		assert.equal(framesToTimecode(0, 30), "00:00:00:00");
+		assert.equal(framesToTimecode(30 * 3600 + 30 * 61 + 7, 30), "01:01:01:07");
+	});
+
+	it("counts fractional rates at the nearest whole rate", () => {
+		assert.equal(framesToTimecode(31, 29.97), "00:00:01:01");
+	});
+});
+
+describe("toEdl", () => {
+	it("cuts V1 clips with source and record timecodes", () => {
+		assert.ok(
+			lines.includes(
+				"001 R002     B     C        00:00:00:00 00:00:01:00 00:00:00:00 00:00:01:00",
+			),
+		);
+	});
+
+	it("records the source span a speed change covers, with an M2 line", () => {
+		const event = lines.indexOf(
+			"002 R003     B     C        00:00:01:00 00:00:05:00 00:00:01:00 00:00:03:00",
+		);
+		assert.notEqual(event, -1);
+		assert.equal(
+			lines[event + 1],
+			"M2   R003      60.0                00:00:01:00",
+		);
+	});
+
+	it("puts audio on A and lists what CMX3600 can't hold", () => {
+		assert.ok(
+			lines.includes(
+				"003 R001     A     C        00:00:00:00 00:00:03:00 00:00:00:00 00:00:03:00",
+			),
+		);
+		assert.ok(lines.includes("* V2 00:00:00:15 00:00:01:15 Hello"));
+		assert.ok(lines.includes("* R002 https://app.example.com/media/first.mp4"));
+	});
+});
@@ -0,0 +1,116 @@
+import {
+	framesToTimecode,
+	type InterchangeClip,
+	type InterchangeTimeline,
+	type MediaManifest,
+} from "./timeline";
+
+// CMX3600 only has one picture track, so the EDL carries V1 plus the first two
+// audio lanes. Everything else is listed as a comment so it isn't silently
+// lost. Video clips are cut as "B" (picture and sound) on V1.
+
+const MAX_AUDIO_LANES = 2;
+
+const pad = (value: number, length: number) =>
+	String(value).padStart(length, "0");
+
+// EDL lines are plain ASCII and clip names can't span lines
+const sanitize = (value: string) =>
+	value.replace(/[\r\n]+/g, " ").replace(/[^\x20-\x7e]/g, "_");
+
+export const toEdl = (
+	timeline: InterchangeTimeline,
+	manifest: MediaManifest,
+): string => {
+	const { fps } = timeline;
+	const tc = (frames: number) => framesToTimecode(frames, fps);
+	const lines = [
+		`TITLE: ${sanitize(timeline.name).slice(0, 70)}`,
+		"FCM: NON-DROP FRAME",
+		"",
+	];
+	let eventNumber = 0;
+
+	const writeEvent = (clip: InterchangeClip, channel: string) => {
+		const media = clip.media;
+		if (!media) return;
+		eventNumber++;
+		// The record side always runs at 100%; M2 tells the receiving editor
+		// how fast the source plays
+		const sourceFrames =
+			clip.kind === "image"
+				? clip.duration
+				: Math.round(clip.duration * clip.playbackRate);
+		const sourceStart = clip.kind === "image" ? 0 : clip.sourceStart;
+		lines.push(
+			[
+				pad(eventNumber, 3),
+				media.reel.padEnd(8),
+				channel.padEnd(5),
+				"C       ",
+				tc(sourceStart),
+				tc(sourceStart + sourceFrames),
+				tc(clip.start),
+				tc(clip.start + clip.duration),
+			].join(" "),
+		);
+		if (clip.kind !== "image" && clip.playbackRate !== 1) {
+			lines.push(
+				`M2   ${media.reel.padEnd(8)} ${(fps * clip.playbackRate).toFixed(1).padStart(5)}                ${tc(sourceStart)}`,
+			);
+		}
+		lines.push(`* FROM CLIP NAME: ${sanitize(clip.name)}`);
+		lines.push(`* SOURCE FILE: ${sanitize(media.url)}`);
+		lines.push("");
+	};
+
+	const [baseLane = [], ...upperLanes] = timeline.videoLanes;
+	for (const clip of baseLane) {
+		if (clip.kind === "text") {
+			lines.push(
+				`* TITLE AT ${tc(clip.start)}: ${sanitize(clip.text ?? clip.name)}`,
+				"",
+			);
+			continue;
+		}
+		writeEvent(clip, clip.kind === "video" ? "B" : "V");
+	}
+
+	timeline.audioLanes.slice(0, MAX_AUDIO_LANES).forEach((lane, index) => {
+		for (const clip of lane) {
+			writeEvent(clip, index === 0 ? "A" : "A2");
+		}
+	});
+
+	const skipped = [
+		...upperLanes.flatMap((lane, index) =>
+			lane.map((clip) => ({ clip, track: `V${index + 2}` })),
+		),
+		...timeline.audioLanes.slice(MAX_AUDIO_LANES).flatMap((lane, index) =>
+			lane.map((clip) => ({
+				clip,
+				track: `A${index + MAX_AUDIO_LANES + 1}`,
+			})),
+		),
+	];
+	if (skipped.length > 0) {
+		lines.push(
+			"* NOT IN THIS EDL (CMX3600 HAS ONE VIDEO AND TWO AUDIO TRACKS):",
+		);
+		for (const { clip, track } of skipped) {
+			lines.push(
+				`* ${track} ${tc(clip.start)} ${tc(clip.start + clip.duration)} ${sanitize(clip.kind === "text" ? (clip.text ?? clip.name) : clip.name)}`,
+			);
+		}
+		lines.push("");
+	}
+
+	// Reel to file list for relinking
+	lines.push("* MEDIA MANIFEST:");
+	for (const media of manifest.media) {
+		lines.push(`* ${media.reel} ${sanitize(media.url)}`);
+	}
+	lines.push("");
+
+	return lines.join("\n");
+};
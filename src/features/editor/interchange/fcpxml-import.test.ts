@@ -0,0 +1,105 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DOMParser } from "linkedom";
+import { parseFcpxml } from "./fcpxml-import";
+
+// The importer runs in the browser and uses its DOMParser
+globalThis.DOMParser = DOMParser as unknown as typeof globalThis.DOMParser;
+
+const fcpxml = (spine: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<fcpxml version="1.10">
+	<resources>
+		<format id="r1" frameDuration="1001/30000s" width="1280" height="720"/>
+		<asset id="r2" name="interview" start="3600s" duration="600s" hasVideo="1" hasAudio="1" format="r1">
+			<media-rep kind="original-media" src="https://cdn.example.com/interview.mov"/>
+		</asset>
+	</resources>
+	<library>
+		<event name="Event">
+			<project name="Cut">
+				<sequence format="r1">
+					<spine>${spine}</spine>
+				</sequence>
+			</project>
+		</event>
+	</library>
+</fcpxml>`;
+
+describe("parseFcpxml", () => {
+	it("reads rational times relative to the asset's timecode", () => {
+		const timeline = parseFcpxml(
+			fcpxml(
+				'<asset-clip ref="r2" offset="0s" name="a" start="3610s" duration="30030/30000s"/>' +
+					'<asset-clip ref="r2" offset="30030/30000s" name="b" start="3600s" duration="2s"/>',
+			),
+		);
+		assert.equal(timeline.name, "Cut");
+		assert.equal(timeline.fps, 29.97);
+		assert.deepEqual(timeline.size, { width: 1280, height: 720 });
+		assert.deepEqual(
+			timeline.videoLanes[0].map(({ name, start, duration, sourceStart }) => ({
+				name,
+				start,
+				duration,
+				sourceStart,
+			})),
+			[
+				{ name: "a", start: 0, duration: 1001, sourceStart: 10000 },
+				{ name: "b", start: 1001, duration: 2000, sourceStart: 0 },
+			],
+		);
+		assert.equal(timeline.videoLanes[0][0].mediaDuration, 600000);
+	});
+
+	it("takes a constant speed from the timeMap", () => {
+		const [clip] = parseFcpxml(
+			fcpxml(
+				`<asset-clip ref="r2" offset="0s" name="slow" start="3610s" duration="4s">
+					<timeMap>
+						<timept time="3610s" value="3610s" interp="linear"/>
+						<timept time="3614s" value="3612s" interp="linear"/>
+					</timeMap>
+				</asset-clip>`,
+			),
+		).videoLanes[0];
+		assert.equal(clip.playbackRate, 0.5);
+		assert.equal(clip.sourceStart, 10000);
+	});
+
+	it("averages variable speed and reports it and unsupported items", () => {
+		const timeline = parseFcpxml(
+			fcpxml(
+				`<asset-clip ref="r2" offset="0s" name="ramp" start="3600s" duration="2s">
+					<timeMap>
+						<timept time="3600s" value="3600s"/>
+						<timept time="3601s" value="3601s"/>
+						<timept time="3602s" value="3605s"/>
+					</timeMap>
+				</asset-clip>
+				<transition name="Dissolve" offset="1s" duration="1s"/>`,
+			),
+		);
+		assert.equal(timeline.videoLanes[0][0].playbackRate, 2.5);
+		assert.deepEqual(timeline.issues, [
+			{
+				name: "ramp",
+				at: 0,
+				severity: "changed",
+				reason: "Variable speed replaced by its average (250%)",
+			},
+			{
+				name: "Dissolve",
+				at: 1000,
+				severity: "skipped",
+				reason: "Transitions are not supported",
+			},
+		]);
+	});
+
+	it("rejects files without a sequence", () => {
+		assert.throws(
+			() => parseFcpxml('<fcpxml version="1.10"><resources/></fcpxml>'),
+			/no sequence/,
+		);
+	});
+});
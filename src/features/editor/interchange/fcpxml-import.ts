@@ -0,0 +1,414 @@
+import type {
+	ImportedClip,
+	ImportedClipKind,
+	ImportedTimeline,
+	ImportIssue,
+} from "./import";
+
+// Reads FCPXML (1.5 and later) as exported by Final Cut Pro, Resolve and
+// Premiere. Positions follow the FCPXML model: every element sits at `offset`
+// in its parent's local time, and its own children are laid out in its local
+// time starting at `start`.
+
+interface FcpAsset {
+	name: string;
+	src: string;
+	// Local time of the first frame, e.g. 3600s for a 01:00:00:00 timecode
+	start: number;
+	duration: number;
+	hasVideo: boolean;
+	hasAudio: boolean;
+	size?: { width: number; height: number };
+}
+
+const IMAGE_EXTENSIONS = /\.(png|jpe?g|gif|webp|bmp|tiff?|heic|psd)$/i;
+
+// Elements whose children without a lane follow one another in time
+const STORYLINES = new Set(["spine", "sync-clip"]);
+
+const UNSUPPORTED: Record<string, string> = {
+	transition: "Transitions are not supported",
+	"ref-clip": "Compound clips are not supported",
+	"mc-clip": "Multicam clips are not supported",
+};
+
+// "1001/30000s", "10s" or "0s" to seconds
+const parseTime = (value: string | null | undefined): number | undefined => {
+	const match = value?.trim().match(/^(-?\d+(?:\.\d+)?)(?:\/(\d+))?s$/);
+	if (!match) return undefined;
+	return Number(match[1]) / (match[2] ? Number(match[2]) : 1);
+};
+
+const timeAttr = (element: Element, name: string, fallback = 0) =>
+	parseTime(element.getAttribute(name)) ?? fallback;
+
+const toHexColor = (value: string | null) => {
+	const parts = value?.trim().split(/\s+/).map(Number);
+	if (!parts || parts.length < 3 || parts.some(Number.isNaN)) return undefined;
+	return `#${parts
+		.slice(0, 3)
+		.map((channel) =>
+			Math.round(Math.min(1, Math.max(0, channel)) * 255)
+				.toString(16)
+				.padStart(2, "0"),
+		)
+		.join("")}`;
+};
+
+const childElements = (element: Element) => Array.from(element.children);
+
+const parseFormats = (resources: Element | null) => {
+	const formats = new Map<
+		string,
+		{ fps?: number; size?: { width: number; height: number } }
+	>();
+	for (const format of resources?.getElementsByTagName("format") ?? []) {
+		const frameDuration = parseTime(format.getAttribute("frameDuration"));
+		const width = Number(format.getAttribute("width"));
+		const height = Number(format.getAttribute("height"));
+		formats.set(format.getAttribute("id") ?? "", {
+			fps: frameDuration ? 1 / frameDuration : undefined,
+			size: width && height ? { width, height } : undefined,
+		});
+	}
+	return formats;
+};
+
+const parseAssets = (
+	resources: Element | null,
+	formats: ReturnType<typeof parseFormats>,
+) => {
+	const assets = new Map<string, FcpAsset>();
+	for (const asset of resources?.getElementsByTagName("asset") ?? []) {
+		// 1.9+ keeps the path in <media-rep>, older versions in `src`
+		const mediaRep =
+			Array.from(asset.getElementsByTagName("media-rep")).find(
+				(rep) => rep.getAttribute("kind") === "original-media",
+			) ?? asset.getElementsByTagName("media-rep")[0];
+		const src = mediaRep?.getAttribute("src") ?? asset.getAttribute("src");
+		if (!src) continue;
+
+		assets.set(asset.getAttribute("id") ?? "", {
+			name: asset.getAttribute("name") || src.split("/").pop() || src,
+			src,
+			start: timeAttr(asset, "start"),
+			duration: timeAttr(asset, "duration"),
+			hasVideo: asset.getAttribute("hasVideo") === "1",
+			hasAudio: asset.getAttribute("hasAudio") === "1",
+			size: formats.get(asset.getAttribute("format") ?? "")?.size,
+		});
+	}
+	return assets;
+};
+
+// Constant speed from a <timeMap>, or null when there isn't one
+const getSpeed = (element: Element, issues: ImportIssue[], at: number) => {
+	const timeMap = childElements(element).find(
+		(child) => child.tagName === "timeMap",
+	);
+	if (!timeMap) return null;
+
+	const points = childElements(timeMap)
+		.filter((child) => child.tagName === "timept")
+		.map((point) => ({
+			time: timeAttr(point, "time"),
+			value: timeAttr(point, "value"),
+		}));
+	if (points.length < 2) return null;
+
+	const first = points[0];
+	const last = points[points.length - 1];
+	const rate = (last.value - first.value) / (last.time - first.time || 1);
+	const isConstant = points.every(
+		(point, index) =>
+			index === 0 ||
+			Math.abs(
+				(point.value - points[index - 1].value) /
+					(point.time - points[index - 1].time || 1) -
+					rate,
+			) < 0.001,
+	);
+	const name = element.getAttribute("name") || element.tagName;
+	if (!isConstant) {
+		issues.push({
+			name,
+			at,
+			severity: "changed",
+			reason: `Variable speed replaced by its average (${Math.round(Math.abs(rate) * 100)}%)`,
+		});
+	}
+	if (rate < 0) {
+		issues.push({
+			name,
+			at,
+			severity: "changed",
+			reason: "Reversed playback is not supported; plays forwards",
+		});
+	}
+
+	// Source time at any local time of the clip
+	return {
+		rate: Math.abs(rate),
+		sourceAt: (time: number) => first.value + (time - first.time) * rate,
+	};
+};
+
+export const parseFcpxml = (content: string): ImportedTimeline => {
+	const document = new DOMParser().parseFromString(content, "application/xml");
+	if (document.getElementsByTagName("parsererror").length > 0) {
+		throw new Error("The FCPXML file is not valid XML");
+	}
+	const sequence = document.getElementsByTagName("sequence")[0];
+	const spine = sequence
+		? childElements(sequence).find((child) => child.tagName === "spine")
+		: undefined;
+	if (!sequence || !spine) {
+		throw new Error("The FCPXML file has no sequence to import");
+	}
+
+	const resources = document.getElementsByTagName("resources")[0] ?? null;
+	const formats = parseFormats(resources);
+	const assets = parseAssets(resources, formats);
+	const format = formats.get(sequence.getAttribute("format") ?? "");
+	const project = sequence.closest("project");
+
+	const issues: ImportIssue[] = [];
+	// Keyed by FCPXML lane: 0 is the primary storyline, positive lanes are
+	// above it, negative ones below
+	const lanes = new Map<number, ImportedClip[]>();
+	const addClip = (lane: number, clip: ImportedClip) => {
+		if (clip.duration <= 0 || clip.start + clip.duration <= 0) return;
+		// Clips hanging off the very start can begin before zero
+		if (clip.start < 0) {
+			clip.sourceStart -= clip.start * clip.playbackRate;
+			clip.duration += clip.start;
+			clip.start = 0;
+		}
+		const existing = lanes.get(lane) ?? [];
+		existing.push(clip);
+		lanes.set(lane, existing);
+	};
+
+	const toMs = (seconds: number) => Math.round(seconds * 1000);
+
+	// Adds the clip an element stands for, with its local `start` landing at
+	// timeline second `at`
+	const readClip = (element: Element, at: number, lane: number) => {
+		const name = element.getAttribute("name") || element.tagName;
+		const duration = timeAttr(element, "duration");
+		const start = timeAttr(element, "start");
+		const base = {
+			name,
+			start: toMs(at),
+			duration: toMs(duration),
+			playbackRate: 1,
+		};
+
+		if (element.tagName === "title") {
+			const text = Array.from(element.getElementsByTagName("text"))
+				.map((node) => node.textContent ?? "")
+				.join("\n")
+				.trim();
+			const style = element
+				.getElementsByTagName("text-style-def")[0]
+				?.getElementsByTagName("text-style")[0];
+			if (!text) return;
+			addClip(lane, {
+				...base,
+				kind: "text",
+				text,
+				sourceStart: 0,
+				style: style
+					? {
+							fontFamily: style.getAttribute("font") ?? undefined,
+							fontSize: Number(style.getAttribute("fontSize")) || undefined,
+							color: toHexColor(style.getAttribute("fontColor")),
+							textAlign: style.getAttribute("alignment") ?? undefined,
+						}
+					: undefined,
+			});
+			return;
+		}
+
+		// <clip> wraps the <video>/<audio> that points at the media, with its
+		// own offset inside the clip
+		let media: Element = element;
+		let mediaStart = start;
+		if (element.tagName === "clip") {
+			const inner = childElements(element).find(
+				(child) =>
+					(child.tagName === "video" || child.tagName === "audio") &&
+					!child.hasAttribute("lane"),
+			);
+			if (!inner) {
+				issues.push({
+					name,
+					at: toMs(at),
+					severity: "skipped",
+					reason: "Clip has no media",
+				});
+				return;
+			}
+			media = inner;
+			mediaStart =
+				timeAttr(inner, "start") + (start - timeAttr(inner, "offset"));
+		}
+
+		const asset = assets.get(media.getAttribute("ref") ?? "");
+		if (!asset) {
+			// <video> can also point at a generator effect
+			issues.push({
+				name,
+				at: toMs(at),
+				severity: "skipped",
+				reason: "Generators and effects without media are not supported",
+			});
+			return;
+		}
+
+		let kind: ImportedClipKind =
+			!asset.hasVideo ||
+			media.tagName === "audio" ||
+			element.getAttribute("srcEnable") === "audio"
+				? "audio"
+				: "video";
+		if (kind === "video" && IMAGE_EXTENSIONS.test(asset.src)) kind = "image";
+
+		const speed = kind === "image" ? null : getSpeed(element, issues, toMs(at));
+		const sourceTime = speed ? speed.sourceAt(mediaStart) : mediaStart;
+		if (speed?.rate === 0) {
+			issues.push({
+				name,
+				at: toMs(at),
+				severity: "skipped",
+				reason: "Freeze frames are not supported",
+			});
+			return;
+		}
+
+		addClip(lane, {
+			...base,
+			kind,
+			src: asset.src,
+			sourceStart:
+				kind === "image" ? 0 : Math.max(0, toMs(sourceTime - asset.start)),
+			playbackRate: speed?.rate ?? 1,
+			mediaDuration: asset.duration ? toMs(asset.duration) : undefined,
+			mediaSize: asset.size,
+		});
+
+		const effects = childElements(element).filter((child) =>
+			child.tagName.startsWith("filter-"),
+		);
+		if (effects.length > 0) {
+			issues.push({
+				name,
+				at: toMs(at),
+				severity: "changed",
+				reason: `Effects dropped: ${effects.map((effect) => effect.getAttribute("name") || effect.tagName).join(", ")}`,
+			});
+		}
+	};
+
+	// `at` is where the element's local `start` lands on the timeline
+	const visit = (element: Element, at: number, lane: number) => {
+		const tag = element.tagName;
+		if (UNSUPPORTED[tag]) {
+			issues.push({
+				name: element.getAttribute("name") || tag,
+				at: toMs(at),
+				severity: "skipped",
+				reason: UNSUPPORTED[tag],
+			});
+			return;
+		}
+		if (tag === "audition") {
+			// The first child is the active pick
+			const pick = childElements(element).find((child) =>
+				child.hasAttribute("duration"),
+			);
+			if (pick) {
+				issues.push({
+					name: pick.getAttribute("name") || tag,
+					at: toMs(at),
+					severity: "changed",
+					reason: "Only the active pick of the audition was imported",
+				});
+				visit(pick, at, lane);
+			}
+			return;
+		}
+		if (["asset-clip", "clip", "video", "audio", "title"].includes(tag)) {
+			readClip(element, at, lane);
+		}
+
+		// Storylines are the one story element without a duration of its own
+		const children = childElements(element).filter(
+			(child) => child.hasAttribute("duration") || child.tagName === "spine",
+		);
+		// A storyline's local time is its parent's; measure from its first
+		// child so both conventions exporters use line up
+		const start =
+			tag === "spine"
+				? children[0]
+					? timeAttr(children[0], "offset")
+					: 0
+				: timeAttr(element, "start");
+		let cursor = start;
+		for (const child of children) {
+			const offset = parseTime(child.getAttribute("offset")) ?? cursor;
+			const childAt = at + (offset - start);
+			const childLane = child.getAttribute("lane");
+			// A <clip>'s own audio and video components are part of it
+			if (
+				tag === "clip" &&
+				(child.tagName === "audio" || child.tagName === "video")
+			) {
+				continue;
+			}
+			if (childLane !== null) {
+				visit(child, childAt, lane + Number(childLane));
+			} else if (STORYLINES.has(tag)) {
+				visit(child, childAt, lane);
+				cursor = offset + timeAttr(child, "duration");
+			}
+		}
+	};
+
+	visit(spine, 0, 0);
+
+	const sortedLanes = Array.from(lanes.entries())
+		.sort(([a], [b]) => a - b)
+		.map(([lane, clips]) => ({
+			lane,
+			clips: clips.sort((a, b) => a.start - b.start),
+		}));
+	const videoLanes: ImportedClip[][] = [];
+	const audioLanes: ImportedClip[][] = [];
+	const lowerLanes: ImportedClip[][] = [];
+	for (const { lane, clips } of sortedLanes) {
+		if (lane < 0) {
+			lowerLanes.unshift(clips);
+			continue;
+		}
+		const visual = clips.filter((clip) => clip.kind !== "audio");
+		const audio = clips.filter((clip) => clip.kind === "audio");
+		if (visual.length > 0) videoLanes.push(visual);
+		if (audio.length > 0) audioLanes.push(audio);
+	}
+	// Lanes below the storyline come after its own audio, -1 first
+	audioLanes.push(...lowerLanes);
+
+	return {
+		format: "fcpxml",
+		name:
+			project?.getAttribute("name") ||
+			sequence.closest("event")?.getAttribute("name") ||
+			"Imported timeline",
+		fps: format?.fps ? Math.round(format.fps * 1000) / 1000 : undefined,
+		size: format?.size,
+		videoLanes,
+		audioLanes,
+		issues,
+	};
+};
@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { ITrackItem } from "@designcombo/types";
+import { toFcpxml } from "./fcpxml";
+import { buildInterchangeTimeline } from "./timeline";
+
+const exportClip = (fps: number, playbackRate: number) =>
+	toFcpxml(
+		buildInterchangeTimeline(
+			{
+				size: { width: 1920, height: 1080 },
+				fps,
+				tracks: [{ id: "picture", items: ["clip"] }] as any,
+				trackItemsMap: {
+					clip: {
+						id: "clip",
+						type: "video",
+						display: { from: 1000, to: 3000 },
+						trim: { from: 1000, to: 1000 + 2000 * playbackRate },
+						playbackRate,
+						details: { src: "/media/clip.mp4" },
+					} as unknown as ITrackItem,
+				},
+			},
+			{ name: "Demo", origin: "https://app.example.com" },
+		),
+	);
+
+describe("toFcpxml", () => {
+	it("writes times as frame counts over the frame rate", () => {
+		const xml = exportClip(30, 1);
+		assert.match(xml, /<format id="r1" [^>]*frameDuration="1\/30s"/);
+		assert.match(
+			xml,
+			/<asset-clip ref="r2" lane="1" offset="30\/30s" name="clip.mp4" duration="60\/30s" start="30\/30s"\/>/,
+		);
+		assert.match(xml, /<sequence format="r1" duration="90\/30s"/);
+	});
+
+	it("uses 1001/30000s frames for 29.97", () => {
+		const xml = exportClip(29.97, 1);
+		assert.match(xml, /frameDuration="1001\/30000s"/);
+		assert.match(xml, /offset="30030\/30000s"/);
+	});
+
+	it("maps a speed change with a linear timeMap", () => {
+		const xml = exportClip(30, 2);
+		assert.match(
+			xml,
+			/<timept time="30\/30s" value="30\/30s" interp="linear"\/>\s*<timept time="90\/30s" value="150\/30s" interp="linear"\/>/,
+		);
+	});
+
+	it("escapes names and sources", () => {
+		const xml = toFcpxml(
+			buildInterchangeTimeline(
+				{
+					size: { width: 1920, height: 1080 },
+					fps: 30,
+					tracks: [{ id: "titles", items: ["title"] }] as any,
+					trackItemsMap: {
+						title: {
+							id: "title",
+							type: "text",
+							name: 'Tom & "Jerry"',
+							display: { from: 0, to: 1000 },
+							details: { text: "<b>hi</b>" },
+						} as unknown as ITrackItem,
+					},
+				},
+				{ name: "A & B", origin: "https://app.example.com" },
+			),
+		);
+		assert.match(xml, /name="Tom &amp; &quot;Jerry&quot;"/);
+		assert.match(xml, /&lt;b&gt;hi&lt;\/b&gt;<\/text-style>/);
+		assert.match(xml, /<project name="A &amp; B">/);
+	});
+});
@@ -0,0 +1,160 @@
+import type {
+	InterchangeClip,
+	InterchangeMedia,
+	InterchangeTimeline,
+} from "./timeline";
+
+// FCPXML 1.10 for Final Cut Pro, Resolve and Premiere (via its importer).
+// Everything hangs off one gap in the primary storyline as connected clips:
+// video lanes become lanes 1, 2, ... and audio lanes -1, -2, ..., which keeps
+// the layered layout of the editor without rebuilding a magnetic storyline.
+
+// Final Cut's stock title, present on every install
+const BASIC_TITLE_UID =
+	".../Titles.localized/Bumper:Opener.localized/Basic Title.localized/Basic Title.moti";
+
+const escapeXml = (value: string) =>
+	value
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+
+// 29.97 and friends are expressed as 1001/30000s frames
+const getFrameDuration = (fps: number) =>
+	Number.isInteger(fps)
+		? { numerator: 1, denominator: fps }
+		: { numerator: 1001, denominator: Math.round(fps) * 1000 };
+
+// "#rrggbb" to FCPXML's "r g b a" in 0-1
+const toFcpColor = (color: unknown) => {
+	const hex = typeof color === "string" ? color.replace(/^#/, "") : "";
+	if (!/^[0-9a-f]{6}$/i.test(hex)) return "1 1 1 1";
+	const channel = (offset: number) =>
+		(Number.parseInt(hex.slice(offset, offset + 2), 16) / 255).toFixed(3);
+	return `${channel(0)} ${channel(2)} ${channel(4)} 1`;
+};
+
+export const toFcpxml = (timeline: InterchangeTimeline): string => {
+	const { numerator, denominator } = getFrameDuration(timeline.fps);
+	const time = (frames: number) =>
+		frames === 0 ? "0s" : `${frames * numerator}/${denominator}s`;
+
+	const assetIds = new Map<InterchangeMedia, string>();
+	const resources: string[] = [
+		`<format id="r1" name="FFVideoFormatRateUndefined" frameDuration="${time(1)}" width="${timeline.size.width}" height="${timeline.size.height}"/>`,
+	];
+	let nextId = 2;
+
+	// Assets need a duration; without one from the design, cover what the
+	// clips use
+	const usedFrames = new Map<InterchangeMedia, number>();
+	for (const clip of [...timeline.videoLanes, ...timeline.audioLanes].flat()) {
+		if (!clip.media) continue;
+		const end =
+			clip.sourceStart + Math.round(clip.duration * clip.playbackRate);
+		usedFrames.set(clip.media, Math.max(usedFrames.get(clip.media) ?? 0, end));
+	}
+
+	for (const media of timeline.media) {
+		const id = `r${nextId++}`;
+		assetIds.set(media, id);
+		const hasVideo = media.kind !== "audio";
+		const hasAudio = media.kind !== "image";
+		resources.push(
+			[
+				`<asset id="${id}" name="${escapeXml(media.name)}" uid="${escapeXml(media.id)}" start="0s" duration="${time(media.durationFrames ?? usedFrames.get(media) ?? 0)}" hasVideo="${hasVideo ? 1 : 0}" hasAudio="${hasAudio ? 1 : 0}"${hasVideo ? ' format="r1"' : ""}${hasAudio ? ' audioSources="1" audioChannels="2" audioRate="48000"' : ""}>`,
+				`\t<media-rep kind="original-media" src="${escapeXml(media.url)}"/>`,
+				`\t<metadata><md key="com.apple.proapps.studio.reel" value="${media.reel}"/></metadata>`,
+				"</asset>",
+			].join("\n"),
+		);
+	}
+
+	const hasText = timeline.videoLanes.some((lane) =>
+		lane.some((clip) => clip.kind === "text"),
+	);
+	const titleEffectId = `r${nextId++}`;
+	if (hasText) {
+		resources.push(
+			`<effect id="${titleEffectId}" name="Basic Title" uid="${BASIC_TITLE_UID}"/>`,
+		);
+	}
+
+	let textStyleCount = 0;
+	const writeClip = (clip: InterchangeClip, lane: number) => {
+		const common = `lane="${lane}" offset="${time(clip.start)}" name="${escapeXml(clip.name)}" duration="${time(clip.duration)}"`;
+
+		if (clip.kind === "text") {
+			const styleId = `ts${++textStyleCount}`;
+			const fontSize = Number.parseFloat(clip.details.fontSize) || 60;
+			return [
+				`<title ref="${titleEffectId}" ${common} start="0s">`,
+				`\t<text><text-style ref="${styleId}">${escapeXml(clip.text ?? "")}</text-style></text>`,
+				`\t<text-style-def id="${styleId}"><text-style font="${escapeXml(String(clip.details.fontFamily || "Helvetica"))}" fontSize="${fontSize}" fontColor="${toFcpColor(clip.details.color)}" alignment="${clip.details.textAlign || "center"}"/></text-style-def>`,
+				"</title>",
+			].join("\n");
+		}
+
+		const ref = assetIds.get(clip.media as InterchangeMedia);
+		const start = time(clip.sourceStart);
+		// Stills have no timecode of their own
+		if (clip.kind === "image") {
+			return `<video ref="${ref}" ${common} start="0s"/>`;
+		}
+		if (clip.playbackRate === 1) {
+			return `<asset-clip ref="${ref}" ${common} start="${start}"/>`;
+		}
+
+		// Constant speed change: clip time maps linearly onto source time
+		const sourceFrames = Math.round(clip.duration * clip.playbackRate);
+		return [
+			`<asset-clip ref="${ref}" ${common} start="${start}">`,
+			"\t<timeMap>",
+			`\t\t<timept time="${start}" value="${start}" interp="linear"/>`,
+			`\t\t<timept time="${time(clip.sourceStart + clip.duration)}" value="${time(clip.sourceStart + sourceFrames)}" interp="linear"/>`,
+			"\t</timeMap>",
+			"</asset-clip>",
+		].join("\n");
+	};
+
+	const connected = [
+		...timeline.videoLanes.flatMap((lane, index) =>
+			lane.map((clip) => writeClip(clip, index + 1)),
+		),
+		...timeline.audioLanes.flatMap((lane, index) =>
+			lane.map((clip) => writeClip(clip, -(index + 1))),
+		),
+	];
+
+	const indent = (text: string, depth: number) =>
+		text
+			.split("\n")
+			.map((line) => "\t".repeat(depth) + line)
+			.join("\n");
+	const duration = time(timeline.durationFrames);
+
+	return [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		"<!DOCTYPE fcpxml>",
+		'<fcpxml version="1.10">',
+		"\t<resources>",
+		...resources.map((resource) => indent(resource, 2)),
+		"\t</resources>",
+		"\t<library>",
+		`\t\t<event name="${escapeXml(timeline.name)}">`,
+		`\t\t\t<project name="${escapeXml(timeline.name)}">`,
+		`\t\t\t\t<sequence format="r1" duration="${duration}" tcStart="0s" tcFormat="NDF" audioLayout="stereo" audioRate="48k">`,
+		"\t\t\t\t\t<spine>",
+		`\t\t\t\t\t\t<gap name="Gap" offset="0s" start="0s" duration="${duration}">`,
+		...connected.map((clip) => indent(clip, 7)),
+		"\t\t\t\t\t\t</gap>",
+		"\t\t\t\t\t</spine>",
+		"\t\t\t\t</sequence>",
+		"\t\t\t</project>",
+		"\t\t</event>",
+		"\t</library>",
+		"</fcpxml>",
+		"",
+	].join("\n");
+};
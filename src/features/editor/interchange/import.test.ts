@@ -0,0 +1,141 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { ITrackItem } from "@designcombo/types";
+import { DOMParser } from "linkedom";
+import { exportInterchange, parseTimelineFile } from "./index";
+import type { ImportedClip } from "./import";
+
+// The FCPXML reader runs in the browser and uses its DOMParser
+globalThis.DOMParser = DOMParser as unknown as typeof globalThis.DOMParser;
+
+const ORIGIN = "https://app.example.com";
+
+const item = (
+	id: string,
+	type: string,
+	from: number,
+	to: number,
+	extra: Record<string, unknown> = {},
+) => ({ id, type, display: { from, to }, ...extra }) as unknown as ITrackItem;
+
+// A cut, a double-speed clip, a title above them and music under them
+const design = {
+	size: { width: 1920, height: 1080 },
+	fps: 30,
+	tracks: [
+		{ id: "titles", items: ["title"] },
+		{ id: "picture", items: ["first", "fast"] },
+		{ id: "sound", items: ["music"] },
+	] as any,
+	trackItemsMap: {
+		title: item("title", "text", 500, 1500, {
+			details: {
+				text: "Hello",
+				fontFamily: "Arial",
+				fontSize: 48,
+				color: "#ff0000",
+				textAlign: "left",
+			},
+		}),
+		first: item("first", "video", 0, 1000, {
+			duration: 10000,
+			details: { src: "/media/first.mp4" },
+		}),
+		fast: item("fast", "video", 1000, 3000, {
+			trim: { from: 1000, to: 5000 },
+			playbackRate: 2,
+			details: { src: "/media/fast.mp4" },
+		}),
+		music: item("music", "audio", 0, 3000, {
+			details: { src: "/media/music.mp3" },
+		}),
+	},
+};
+
+const summarize = (lanes: ImportedClip[][]) =>
+	lanes.map((lane) =>
+		lane.map(
+			({ kind, src, text, start, duration, sourceStart, playbackRate }) => ({
+				kind,
+				...(src !== undefined && { src }),
+				...(text !== undefined && { text }),
+				start,
+				duration,
+				sourceStart,
+				playbackRate,
+			}),
+		),
+	);
+
+describe("export -> import round trip", () => {
+	for (const format of ["fcpxml", "otio"] as const) {
+		it(`keeps clips, timing and speed through ${format}`, () => {
+			const exported = exportInterchange(format, design, {
+				name: "Demo",
+				origin: ORIGIN,
+			});
+			const timeline = parseTimelineFile(exported, `demo.${format}`);
+			assert.ok(timeline);
+
+			assert.equal(timeline.format, format);
+			assert.equal(timeline.name, "Demo");
+			assert.equal(timeline.fps, 30);
+			assert.deepEqual(timeline.size, design.size);
+			assert.deepEqual(timeline.issues, []);
+			assert.deepEqual(summarize(timeline.videoLanes), [
+				[
+					{
+						kind: "video",
+						src: `${ORIGIN}/media/first.mp4`,
+						start: 0,
+						duration: 1000,
+						sourceStart: 0,
+						playbackRate: 1,
+					},
+					{
+						kind: "video",
+						src: `${ORIGIN}/media/fast.mp4`,
+						start: 1000,
+						duration: 2000,
+						sourceStart: 1000,
+						playbackRate: 2,
+					},
+				],
+				[
+					{
+						kind: "text",
+						text: "Hello",
+						start: 500,
+						duration: 1000,
+						sourceStart: 0,
+						playbackRate: 1,
+					},
+				],
+			]);
+			assert.deepEqual(summarize(timeline.audioLanes), [
+				[
+					{
+						kind: "audio",
+						src: `${ORIGIN}/media/music.mp3`,
+						start: 0,
+						duration: 3000,
+						sourceStart: 0,
+						playbackRate: 1,
+					},
+				],
+			]);
+			assert.equal(timeline.videoLanes[0][0].mediaDuration, 10000);
+			assert.deepEqual(timeline.videoLanes[1][0].style, {
+				fontFamily: "Arial",
+				fontSize: 48,
+				color: "#ff0000",
+				// OTIO generator parameters have no alignment
+				...(format === "fcpxml" && { textAlign: "left" }),
+			});
+		});
+	}
+
+	it("returns null for files that are neither FCPXML nor OTIO", () => {
+		assert.equal(parseTimelineFile("TITLE: Demo", "demo.edl"), null);
+	});
+});
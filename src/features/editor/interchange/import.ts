@@ -0,0 +1,326 @@
+import type { IDesign, ITrack, ITrackItem } from "@designcombo/types";
+import { generateId } from "@designcombo/timeline";
+import { DEFAULT_FONT } from "../constants/font";
+import { LOCAL_FONT_MAPPING } from "../utils/local-fonts";
+import { parseFcpxml } from "./fcpxml-import";
+import { parseOtio } from "./otio-import";
+
+// Timelines coming from other editors, normalised by the FCPXML and OTIO
+// readers and turned into a design that DESIGN_LOAD can take. Anything that
+// can't be represented ends up in the import report instead of vanishing.
+
+export type ImportedClipKind = "video" | "audio" | "image" | "text";
+
+export interface ImportedClip {
+	name: string;
+	kind: ImportedClipKind;
+	src?: string;
+	text?: string;
+	// Milliseconds on the timeline
+	start: number;
+	duration: number;
+	// Milliseconds into the source media
+	sourceStart: number;
+	playbackRate: number;
+	// Source length, when the file says
+	mediaDuration?: number;
+	mediaSize?: { width: number; height: number };
+	style?: {
+		fontFamily?: string;
+		fontSize?: number;
+		color?: string;
+		textAlign?: string;
+	};
+}
+
+export interface ImportIssue {
+	name: string;
+	// Timeline position in milliseconds, if it has one
+	at?: number;
+	// "skipped" items are not in the design; "changed" ones are, but not as
+	// they were in the source
+	severity: "skipped" | "changed";
+	reason: string;
+}
+
+export interface ImportedTimeline {
+	format: "fcpxml" | "otio";
+	name: string;
+	fps?: number;
+	size?: { width: number; height: number };
+	// Bottom lane first
+	videoLanes: ImportedClip[][];
+	audioLanes: ImportedClip[][];
+	issues: ImportIssue[];
+}
+
+export interface ImportReport {
+	format: ImportedTimeline["format"];
+	name: string;
+	counts: Record<ImportedClipKind, number>;
+	issues: ImportIssue[];
+}
+
+const MEDIA_PROBE_TIMEOUT_MS = 10000;
+
+// Reads the timeline file; null when it's neither FCPXML nor OTIO
+export const parseTimelineFile = (
+	content: string,
+	filename?: string,
+): ImportedTimeline | null => {
+	const extension = filename?.split(".").pop()?.toLowerCase();
+	const head = content.replace(/^\uFEFF/, "").trimStart();
+
+	if (
+		extension === "fcpxml" ||
+		extension === "xml" ||
+		head.includes("<fcpxml")
+	) {
+		return parseFcpxml(content);
+	}
+	if (extension === "otio" || head.startsWith("{")) {
+		return parseOtio(content);
+	}
+	return null;
+};
+
+// Natural size of a video or image, from the browser. Falls back to null when
+// the file can't be reached (local paths, CORS, timeouts).
+const probeMediaSize = (
+	src: string,
+	kind: "video" | "image",
+): Promise<{ width: number; height: number } | null> =>
+	new Promise((resolve) => {
+		const timeout = setTimeout(() => resolve(null), MEDIA_PROBE_TIMEOUT_MS);
+		const done = (size: { width: number; height: number } | null) => {
+			clearTimeout(timeout);
+			resolve(size && size.width > 0 && size.height > 0 ? size : null);
+		};
+
+		if (kind === "image") {
+			const image = new Image();
+			image.onload = () =>
+				done({ width: image.naturalWidth, height: image.naturalHeight });
+			image.onerror = () => done(null);
+			image.src = src;
+			return;
+		}
+		const video = document.createElement("video");
+		video.preload = "metadata";
+		video.muted = true;
+		video.onloadedmetadata = () =>
+			done({ width: video.videoWidth, height: video.videoHeight });
+		video.onerror = () => done(null);
+		video.src = src;
+	});
+
+// Same placement as the state manager's "fit" scale mode
+const fitToCanvas = (
+	canvas: { width: number; height: number },
+	media: { width: number; height: number },
+) => {
+	const scale = Math.min(
+		canvas.width / media.width,
+		canvas.height / media.height,
+	);
+	return {
+		top: `${canvas.height / 2 - media.height / 2}px`,
+		left: `${canvas.width / 2 - media.width / 2}px`,
+		transform: `scale(${scale})`,
+	};
+};
+
+const getTrackType = (items: ITrackItem[]): ITrack["type"] => {
+	const types = new Set(items.map((item) => item.type));
+	if (types.size === 1) return items[0].type as ITrack["type"];
+	return "video";
+};
+
+export const buildImportedDesign = async (
+	timeline: ImportedTimeline,
+	fallback: { size: { width: number; height: number }; fps: number },
+): Promise<{ design: IDesign; report: ImportReport }> => {
+	const size = timeline.size ?? fallback.size;
+	const fps = timeline.fps ?? fallback.fps;
+	const issues = [...timeline.issues];
+	const counts: ImportReport["counts"] = {
+		video: 0,
+		audio: 0,
+		image: 0,
+		text: 0,
+	};
+
+	// Probe each visual source once, and flag sources the browser can't load
+	const sizes = new Map<string, { width: number; height: number } | null>();
+	const flagged = new Set<string>();
+	for (const clip of [...timeline.videoLanes, ...timeline.audioLanes].flat()) {
+		if (!clip.src) continue;
+		if (/^file:/i.test(clip.src) && !flagged.has(clip.src)) {
+			flagged.add(clip.src);
+			issues.push({
+				name: clip.name,
+				severity: "changed",
+				reason: `Points to a local file (${decodeURI(clip.src)}); replace the media after importing`,
+			});
+		}
+		if (
+			clip.kind !== "audio" &&
+			!clip.mediaSize &&
+			!sizes.has(clip.src) &&
+			!flagged.has(clip.src)
+		) {
+			sizes.set(
+				clip.src,
+				await probeMediaSize(
+					clip.src,
+					clip.kind === "image" ? "image" : "video",
+				),
+			);
+		}
+	}
+
+	const toItem = (clip: ImportedClip): ITrackItem => {
+		const id = generateId();
+		const display = { from: clip.start, to: clip.start + clip.duration };
+		counts[clip.kind]++;
+
+		if (clip.kind === "text") {
+			const localFont = clip.style?.fontFamily
+				? LOCAL_FONT_MAPPING[clip.style.fontFamily]
+				: undefined;
+			const fontSize = clip.style?.fontSize ?? 60;
+			const width = Math.round(size.width * 0.8);
+			const lines = (clip.text ?? "").split("\n").length;
+			const height = Math.round(fontSize * 1.2 * lines);
+			return {
+				id,
+				name: clip.name,
+				type: "text",
+				display,
+				details: {
+					text: clip.text ?? "",
+					fontSize,
+					width,
+					height,
+					fontUrl: localFont?.url ?? DEFAULT_FONT.url,
+					fontFamily: localFont?.postScriptName ?? DEFAULT_FONT.postScriptName,
+					color: clip.style?.color ?? "#ffffff",
+					textAlign: clip.style?.textAlign ?? "center",
+					wordWrap: "break-word",
+					opacity: 100,
+					top: `${Math.round((size.height - height) / 2)}px`,
+					left: `${Math.round((size.width - width) / 2)}px`,
+					borderWidth: 0,
+					borderColor: "#000000",
+					boxShadow: { color: "#000000", x: 0, y: 0, blur: 0 },
+				},
+				metadata: {},
+			} as ITrackItem;
+		}
+
+		const trim = {
+			from: clip.sourceStart,
+			to: clip.sourceStart + clip.duration * clip.playbackRate,
+		};
+		const src = clip.src as string;
+
+		if (clip.kind === "audio") {
+			return {
+				id,
+				name: clip.name,
+				type: "audio",
+				display,
+				trim,
+				playbackRate: clip.playbackRate,
+				duration: clip.mediaDuration,
+				details: { src, volume: 100 },
+				metadata: {},
+			} as ITrackItem;
+		}
+
+		const mediaSize = clip.mediaSize ?? sizes.get(src) ?? size;
+		const common = {
+			src,
+			width: mediaSize.width,
+			height: mediaSize.height,
+			opacity: 100,
+			...fitToCanvas(size, mediaSize),
+			borderRadius: 0,
+			borderWidth: 0,
+			borderColor: "#000000",
+			boxShadow: { color: "#000000", x: 0, y: 0, blur: 0 },
+			blur: 0,
+			brightness: 100,
+			flipX: false,
+			flipY: false,
+			rotate: "0deg",
+			visibility: "visible",
+		};
+
+		if (clip.kind === "image") {
+			return {
+				id,
+				name: clip.name,
+				type: "image",
+				display,
+				details: { ...common, border: "none" },
+				metadata: {},
+			} as ITrackItem;
+		}
+		return {
+			id,
+			name: clip.name,
+			type: "video",
+			display,
+			trim,
+			playbackRate: clip.playbackRate,
+			duration: clip.mediaDuration,
+			details: { ...common, volume: 100 },
+			metadata: {},
+		} as ITrackItem;
+	};
+
+	// The editor lists its top track first
+	const lanes = [
+		...[...timeline.videoLanes].reverse(),
+		...timeline.audioLanes,
+	].filter((lane) => lane.length > 0);
+	const trackItemsMap: Record<string, ITrackItem> = {};
+	const tracks: ITrack[] = lanes.map((lane) => {
+		const items = lane.map(toItem);
+		for (const item of items) trackItemsMap[item.id] = item;
+		return {
+			id: generateId(),
+			type: getTrackType(items),
+			items: items.map((item) => item.id),
+			accepts: ["audio", "video", "image", "text", "caption", "template"],
+			magnetic: false,
+			static: false,
+		};
+	});
+
+	const duration = Math.max(
+		0,
+		...Object.values(trackItemsMap).map((item) => item.display.to),
+	);
+
+	return {
+		design: {
+			id: generateId(),
+			size,
+			fps,
+			duration,
+			tracks,
+			trackItemIds: Object.keys(trackItemsMap),
+			trackItemsMap,
+			transitionIds: [],
+			transitionsMap: {},
+		},
+		report: {
+			format: timeline.format,
+			name: timeline.name,
+			counts,
+			issues: issues.sort((a, b) => (a.at ?? 0) - (b.at ?? 0)),
+		},
+	};
+};
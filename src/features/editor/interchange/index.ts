@@ -0,0 +1,60 @@
+import { toEdl } from "./edl";
+import { toFcpxml } from "./fcpxml";
+import { toOtio } from "./otio";
+import {
+	buildInterchangeTimeline,
+	buildMediaManifest,
+	type InterchangeDesign,
+} from "./timeline";
+
+export type InterchangeFormat = "fcpxml" | "edl" | "otio" | "manifest";
+
+export const INTERCHANGE_FORMATS: Record<
+	InterchangeFormat,
+	{ name: string; extension: string; mimeType: string }
+> = {
+	fcpxml: {
+		name: "FCPXML",
+		extension: "fcpxml",
+		mimeType: "application/xml",
+	},
+	edl: { name: "EDL", extension: "edl", mimeType: "text/plain" },
+	otio: { name: "OTIO", extension: "otio", mimeType: "application/json" },
+	manifest: {
+		name: "Media manifest",
+		extension: "media.json",
+		mimeType: "application/json",
+	},
+};
+
+// JSON can sit in an XML comment as long as it never contains "--", which
+// only shows up inside strings where "-" means the same thing
+const toXmlComment = (value: unknown) =>
+	`<!-- media manifest\n${JSON.stringify(value, null, 2).replace(/--/g, "-\\u002d")}\n-->`;
+
+export const exportInterchange = (
+	format: InterchangeFormat,
+	design: InterchangeDesign,
+	options: { name: string; origin: string },
+): string => {
+	const timeline = buildInterchangeTimeline(design, options);
+	const manifest = buildMediaManifest(timeline);
+
+	switch (format) {
+		case "fcpxml":
+			return toFcpxml(timeline).replace(
+				"<!DOCTYPE fcpxml>",
+				`<!DOCTYPE fcpxml>\n${toXmlComment(manifest)}`,
+			);
+		case "edl":
+			return toEdl(timeline, manifest);
+		case "otio":
+			return toOtio(timeline, manifest);
+		case "manifest":
+			return `${JSON.stringify(manifest, null, 2)}\n`;
+	}
+};
+
+export type { InterchangeDesign, MediaManifest } from "./timeline";
+export { buildImportedDesign, parseTimelineFile } from "./import";
+export type { ImportIssue, ImportReport } from "./import";
@@ -0,0 +1,210 @@
+import type {
+	ImportedClip,
+	ImportedClipKind,
+	ImportedTimeline,
+	ImportIssue,
+} from "./import";
+
+// Reads OpenTimelineIO JSON (.otio). Track children play one after another;
+// transitions overlap their neighbours and take no time of their own.
+
+interface OtioObject {
+	OTIO_SCHEMA?: string;
+	name?: string;
+	metadata?: Record<string, any>;
+	[key: string]: any;
+}
+
+const IMAGE_EXTENSIONS = /\.(png|jpe?g|gif|webp|bmp|tiff?|heic|psd)$/i;
+
+const schemaName = (object: OtioObject | null | undefined) =>
+	object?.OTIO_SCHEMA?.split(".")[0] ?? "";
+
+// RationalTime to milliseconds
+const toMs = (time: OtioObject | null | undefined) =>
+	time?.rate ? Math.round((time.value / time.rate) * 1000) : 0;
+
+const getMediaReference = (clip: OtioObject): OtioObject | undefined =>
+	clip.media_references
+		? clip.media_references[clip.active_media_reference_key ?? "DEFAULT_MEDIA"]
+		: clip.media_reference;
+
+export const parseOtio = (content: string): ImportedTimeline => {
+	let root: OtioObject;
+	try {
+		root = JSON.parse(content);
+	} catch {
+		throw new Error("The OTIO file is not valid JSON");
+	}
+	if (schemaName(root) !== "Timeline") {
+		throw new Error("The OTIO file has no timeline to import");
+	}
+
+	const issues: ImportIssue[] = [];
+	const videoLanes: ImportedClip[][] = [];
+	const audioLanes: ImportedClip[][] = [];
+	let fps: number | undefined = root.global_start_time?.rate;
+
+	const readClip = (
+		clip: OtioObject,
+		trackKind: "Video" | "Audio",
+		start: number,
+	): ImportedClip | null => {
+		const name = clip.name || "Clip";
+		const range = clip.source_range;
+		const duration = toMs(range?.duration);
+		fps ??= range?.duration?.rate;
+		const reference = getMediaReference(clip);
+		const skip = (reason: string) => {
+			issues.push({ name, at: start, severity: "skipped", reason });
+			return null;
+		};
+
+		let playbackRate = 1;
+		for (const effect of clip.effects ?? []) {
+			const effectSchema = schemaName(effect);
+			if (effectSchema === "LinearTimeWarp") {
+				playbackRate = Math.abs(effect.time_scalar ?? 1);
+				if (effect.time_scalar < 0) {
+					issues.push({
+						name,
+						at: start,
+						severity: "changed",
+						reason: "Reversed playback is not supported; plays forwards",
+					});
+				}
+			} else if (effectSchema === "FreezeFrame") {
+				return skip("Freeze frames are not supported");
+			} else {
+				issues.push({
+					name,
+					at: start,
+					severity: "changed",
+					reason: `Effect dropped: ${effect.effect_name || effect.name || effectSchema}`,
+				});
+			}
+		}
+		if (playbackRate === 0) return skip("Freeze frames are not supported");
+
+		const base = { name, start, duration, playbackRate };
+		switch (schemaName(reference)) {
+			case "ExternalReference": {
+				const src: string | undefined = reference?.target_url;
+				if (!src) return skip("Clip has no media path");
+				const available = reference?.available_range;
+				let kind: ImportedClipKind = trackKind === "Audio" ? "audio" : "video";
+				if (kind === "video" && IMAGE_EXTENSIONS.test(src)) kind = "image";
+				const bounds = reference?.available_image_bounds;
+				return {
+					...base,
+					kind,
+					src,
+					// Source ranges are in the media's own time, which may start at
+					// its timecode
+					sourceStart:
+						kind === "image"
+							? 0
+							: Math.max(
+									0,
+									toMs(range?.start_time) - toMs(available?.start_time),
+								),
+					mediaDuration: available ? toMs(available.duration) : undefined,
+					mediaSize: bounds
+						? {
+								width: Math.abs(bounds.max.x - bounds.min.x),
+								height: Math.abs(bounds.max.y - bounds.min.y),
+							}
+						: undefined,
+				};
+			}
+			case "GeneratorReference": {
+				const text = reference?.parameters?.text;
+				if (reference?.generator_kind !== "text" || !text) {
+					return skip(
+						`Generators are not supported (${reference?.generator_kind || "unknown"})`,
+					);
+				}
+				return {
+					...base,
+					kind: "text",
+					text: String(text),
+					sourceStart: 0,
+					playbackRate: 1,
+					style: {
+						fontFamily: reference.parameters.fontFamily ?? undefined,
+						fontSize:
+							Number.parseFloat(reference.parameters.fontSize) || undefined,
+						color: reference.parameters.color ?? undefined,
+					},
+				};
+			}
+			case "ImageSequenceReference":
+				return skip("Image sequences are not supported");
+			default:
+				return skip("Media is missing");
+		}
+	};
+
+	const readTrack = (track: OtioObject) => {
+		const kind = track.kind === "Audio" ? "Audio" : "Video";
+		const clips: ImportedClip[] = [];
+		let cursor = 0;
+		for (const child of track.children ?? []) {
+			const schema = schemaName(child);
+			if (schema === "Transition") {
+				issues.push({
+					name: child.name || "Transition",
+					at: cursor,
+					severity: "skipped",
+					reason: "Transitions are not supported",
+				});
+				continue;
+			}
+
+			const duration = toMs(child.source_range?.duration);
+			if (schema === "Clip") {
+				const clip = readClip(child, kind, cursor);
+				if (clip && clip.duration > 0) clips.push(clip);
+			} else if (schema === "Stack" || schema === "Track") {
+				issues.push({
+					name: child.name || schema,
+					at: cursor,
+					severity: "skipped",
+					reason: "Nested timelines are not supported",
+				});
+			} else if (schema !== "Gap") {
+				issues.push({
+					name: child.name || schema,
+					at: cursor,
+					severity: "skipped",
+					reason: `Unknown item (${child.OTIO_SCHEMA})`,
+				});
+			}
+			cursor += duration;
+		}
+		if (clips.length === 0) return;
+		if (kind === "Audio") {
+			audioLanes.push(clips);
+		} else {
+			videoLanes.push(clips);
+		}
+	};
+
+	// Stack children go bottom first, like our lanes
+	for (const track of root.tracks?.children ?? []) {
+		if (schemaName(track) === "Track") {
+			readTrack(track);
+		}
+	}
+
+	return {
+		format: "otio",
+		name: root.name || "Imported timeline",
+		fps,
+		// Our own exports record the canvas
+		size: root.metadata?.cinetune?.size,
+		videoLanes,
+		audioLanes,
+		issues,
+	};
+};
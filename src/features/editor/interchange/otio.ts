@@ -0,0 +1,158 @@
+import type {
+	InterchangeClip,
+	InterchangeTimeline,
+	MediaManifest,
+} from "./timeline";
+
+// OpenTimelineIO's native JSON (.otio). Tracks go into the stack bottom
+// first, and the gaps between clips are written out explicitly since OTIO
+// tracks are sequential.
+
+const rationalTime = (value: number, rate: number) => ({
+	OTIO_SCHEMA: "RationalTime.1",
+	rate,
+	value,
+});
+
+const timeRange = (start: number, duration: number, rate: number) => ({
+	OTIO_SCHEMA: "TimeRange.1",
+	duration: rationalTime(duration, rate),
+	start_time: rationalTime(start, rate),
+});
+
+const gap = (duration: number, rate: number) => ({
+	OTIO_SCHEMA: "Gap.1",
+	metadata: {},
+	name: "",
+	source_range: timeRange(0, duration, rate),
+	effects: [],
+	markers: [],
+	enabled: true,
+});
+
+const toOtioClip = (clip: InterchangeClip, rate: number) => {
+	const speed = clip.kind === "image" ? 1 : clip.playbackRate;
+	const mediaReference =
+		clip.kind === "text"
+			? {
+					OTIO_SCHEMA: "GeneratorReference.1",
+					metadata: {},
+					name: clip.name,
+					available_range: null,
+					available_image_bounds: null,
+					generator_kind: "text",
+					parameters: {
+						text: clip.text ?? "",
+						fontFamily: clip.details.fontFamily ?? null,
+						fontSize: clip.details.fontSize ?? null,
+						color: clip.details.color ?? null,
+					},
+				}
+			: {
+					OTIO_SCHEMA: "ExternalReference.1",
+					metadata: { reel: clip.media?.reel },
+					name: clip.media?.name ?? clip.name,
+					available_range:
+						clip.media?.durationFrames != null
+							? timeRange(0, clip.media.durationFrames, rate)
+							: null,
+					available_image_bounds: null,
+					target_url: clip.media?.url ?? "",
+				};
+
+	return {
+		OTIO_SCHEMA: "Clip.2",
+		metadata: { cinetune: { itemId: clip.id, kind: clip.kind } },
+		name: clip.name,
+		// In OTIO the source range is the timeline duration before effects;
+		// the time warp scales it onto the source
+		source_range: timeRange(
+			clip.kind === "text" || clip.kind === "image" ? 0 : clip.sourceStart,
+			clip.duration,
+			rate,
+		),
+		effects:
+			speed === 1
+				? []
+				: [
+						{
+							OTIO_SCHEMA: "LinearTimeWarp.1",
+							metadata: {},
+							name: "",
+							effect_name: "LinearTimeWarp",
+							time_scalar: speed,
+						},
+					],
+		markers: [],
+		enabled: true,
+		media_references: { DEFAULT_MEDIA: mediaReference },
+		active_media_reference_key: "DEFAULT_MEDIA",
+	};
+};
+
+const toOtioTrack = (
+	lane: InterchangeClip[],
+	kind: "Video" | "Audio",
+	name: string,
+	rate: number,
+) => {
+	const children: unknown[] = [];
+	let cursor = 0;
+	for (const clip of lane) {
+		if (clip.start > cursor) children.push(gap(clip.start - cursor, rate));
+		children.push(toOtioClip(clip, rate));
+		cursor = clip.start + clip.duration;
+	}
+	return {
+		OTIO_SCHEMA: "Track.1",
+		metadata: {},
+		name,
+		source_range: null,
+		effects: [],
+		markers: [],
+		enabled: true,
+		children,
+		kind,
+	};
+};
+
+export const toOtio = (
+	timeline: InterchangeTimeline,
+	manifest: MediaManifest,
+): string => {
+	const rate = timeline.fps;
+	const tracks = [
+		...timeline.videoLanes.map((lane, index) =>
+			toOtioTrack(lane, "Video", `V${index + 1}`, rate),
+		),
+		...timeline.audioLanes.map((lane, index) =>
+			toOtioTrack(lane, "Audio", `A${index + 1}`, rate),
+		),
+	];
+
+	return `${JSON.stringify(
+		{
+			OTIO_SCHEMA: "Timeline.1",
+			metadata: {
+				cinetune: {
+					size: timeline.size,
+					media_manifest: manifest,
+				},
+			},
+			name: timeline.name,
+			global_start_time: rationalTime(0, rate),
+			tracks: {
+				OTIO_SCHEMA: "Stack.1",
+				metadata: {},
+				name: "tracks",
+				source_range: null,
+				effects: [],
+				markers: [],
+				enabled: true,
+				children: tracks,
+			},
+		},
+		null,
+		2,
+	)}\n`;
+};
@@ -0,0 +1,227 @@
+import type { ITrack, ITrackItem } from "@designcombo/types";
+
+// Format-neutral view of the design that the FCPXML, EDL and OTIO writers
+// share: frame-quantised clips grouped into video and audio lanes, plus the
+// media they reference.
+
+export interface InterchangeDesign {
+	size: { width: number; height: number };
+	fps: number;
+	duration?: number;
+	tracks: ITrack[];
+	trackItemsMap: Record<string, ITrackItem>;
+}
+
+export type InterchangeMediaKind = "video" | "audio" | "image";
+
+export interface InterchangeMedia {
+	id: string;
+	name: string;
+	kind: InterchangeMediaKind;
+	// Absolute URL the receiving editor can relink against
+	url: string;
+	// `details.src` as stored in the design
+	originalSrc: string;
+	// 8-character EDL reel name
+	reel: string;
+	// Source length in frames when the design knows it
+	durationFrames: number | null;
+	itemIds: string[];
+}
+
+export interface InterchangeClip {
+	id: string;
+	name: string;
+	kind: InterchangeMediaKind | "text";
+	// Timeline position, in frames
+	start: number;
+	duration: number;
+	// First source frame used; 0 for text
+	sourceStart: number;
+	playbackRate: number;
+	media?: InterchangeMedia;
+	text?: string;
+	details: Record<string, any>;
+}
+
+export interface InterchangeTimeline {
+	name: string;
+	fps: number;
+	size: { width: number; height: number };
+	durationFrames: number;
+	// Bottom lane first, as NLEs number them (V1 is under V2)
+	videoLanes: InterchangeClip[][];
+	audioLanes: InterchangeClip[][];
+	media: InterchangeMedia[];
+}
+
+const VISUAL_TYPES = ["video", "image", "text"];
+
+const getFileName = (src: string) => {
+	try {
+		const pathname = new URL(src, "http://localhost").pathname;
+		return decodeURIComponent(pathname.split("/").pop() || "") || src;
+	} catch {
+		return src;
+	}
+};
+
+// Clips within one lane never overlap in a valid design; if they do, the
+// later clip loses its overlapping head rather than breaking the writers
+const removeOverlaps = (clips: InterchangeClip[]) => {
+	let cursor = 0;
+	const result: InterchangeClip[] = [];
+	for (const clip of [...clips].sort((a, b) => a.start - b.start)) {
+		const trimmed = Math.max(0, cursor - clip.start);
+		if (trimmed >= clip.duration) continue;
+		result.push(
+			trimmed === 0
+				? clip
+				: {
+						...clip,
+						start: clip.start + trimmed,
+						duration: clip.duration - trimmed,
+						sourceStart:
+							clip.sourceStart + Math.round(trimmed * clip.playbackRate),
+					},
+		);
+		cursor = clip.start + clip.duration;
+	}
+	return result;
+};
+
+export const buildInterchangeTimeline = (
+	design: InterchangeDesign,
+	{ name, origin }: { name: string; origin: string },
+): InterchangeTimeline => {
+	const fps = design.fps || 30;
+	const toFrames = (ms: number) => Math.round((ms / 1000) * fps);
+	const media = new Map<string, InterchangeMedia>();
+
+	const getMedia = (item: ITrackItem): InterchangeMedia | undefined => {
+		const src: string | undefined = item.details?.src;
+		if (!src || !["video", "audio", "image"].includes(item.type)) {
+			return undefined;
+		}
+
+		let entry = media.get(src);
+		if (!entry) {
+			let url = src;
+			try {
+				url = new URL(src, origin).toString();
+			} catch {
+				// Keep whatever the design had
+			}
+			entry = {
+				id: `media-${media.size + 1}`,
+				name: getFileName(src),
+				kind: item.type as InterchangeMediaKind,
+				url,
+				originalSrc: src,
+				reel: `R${String(media.size + 1).padStart(3, "0")}`,
+				durationFrames: item.duration ? toFrames(item.duration) : null,
+				itemIds: [],
+			};
+			media.set(src, entry);
+		}
+		entry.itemIds.push(item.id);
+		return entry;
+	};
+
+	const toClip = (item: ITrackItem): InterchangeClip | null => {
+		const start = toFrames(item.display.from);
+		const duration = toFrames(item.display.to) - start;
+		if (duration <= 0) return null;
+
+		const isText = item.type === "text" || item.type === "caption";
+		const clipMedia = isText ? undefined : getMedia(item);
+		if (!isText && !clipMedia) return null;
+
+		return {
+			id: item.id,
+			name: item.name || clipMedia?.name || item.type,
+			kind: isText ? "text" : (clipMedia as InterchangeMedia).kind,
+			start,
+			duration,
+			sourceStart: toFrames(item.trim?.from ?? 0),
+			playbackRate: item.playbackRate || 1,
+			media: clipMedia,
+			text: isText ? String(item.details?.text ?? "") : undefined,
+			details: item.details ?? {},
+		};
+	};
+
+	const videoLanes: InterchangeClip[][] = [];
+	const audioLanes: InterchangeClip[][] = [];
+	// The editor lists its top track first
+	for (const track of [...design.tracks].reverse()) {
+		const clips = track.items
+			.map((id) => design.trackItemsMap[id])
+			.filter(
+				(item): item is ITrackItem =>
+					!!item &&
+					(VISUAL_TYPES.includes(item.type) ||
+						item.type === "caption" ||
+						item.type === "audio"),
+			)
+			.map(toClip)
+			.filter((clip): clip is InterchangeClip => clip !== null);
+		if (clips.length === 0) continue;
+
+		const lane = removeOverlaps(clips);
+		if (lane.every((clip) => clip.kind === "audio")) {
+			audioLanes.push(lane);
+		} else {
+			videoLanes.push(lane.filter((clip) => clip.kind !== "audio"));
+			const audio = lane.filter((clip) => clip.kind === "audio");
+			if (audio.length > 0) audioLanes.push(audio);
+		}
+	}
+
+	const lastFrame = Math.max(
+		0,
+		...[...videoLanes, ...audioLanes].flat().map((c) => c.start + c.duration),
+	);
+
+	return {
+		name,
+		fps,
+		size: design.size,
+		durationFrames: Math.max(
+			lastFrame,
+			design.duration ? toFrames(design.duration) : 0,
+		),
+		videoLanes,
+		audioLanes,
+		media: Array.from(media.values()),
+	};
+};
+
+// The relink list shipped with every export, also downloadable on its own
+export const buildMediaManifest = (timeline: InterchangeTimeline) => ({
+	project: timeline.name,
+	fps: timeline.fps,
+	size: timeline.size,
+	generatedAt: new Date().toISOString(),
+	media: timeline.media.map((entry) => ({
+		id: entry.id,
+		name: entry.name,
+		kind: entry.kind,
+		url: entry.url,
+		originalSrc: entry.originalSrc,
+		reel: entry.reel,
+		durationFrames: entry.durationFrames,
+		itemIds: entry.itemIds,
+	})),
+});
+
+export type MediaManifest = ReturnType<typeof buildMediaManifest>;
+
+// HH:MM:SS:FF, non-drop-frame at the nearest whole frame rate
+export const framesToTimecode = (frames: number, fps: number) => {
+	const base = Math.round(fps);
+	const pad = (value: number) => String(value).padStart(2, "0");
+	const ff = frames % base;
+	const totalSeconds = Math.floor(frames / base);
+	return `${pad(Math.floor(totalSeconds / 3600))}:${pad(Math.floor(totalSeconds / 60) % 60)}:${pad(totalSeconds % 60)}:${pad(ff)}`;
+};
@@ -6,6 +6,7 @@ import {
 	ADD_ITEMS,
 	ENTER_EDIT_MODE,
 	EDIT_OBJECT,
+	LAYER_DELETE,
 } from "@designcombo/state";
 import { dispatch } from "@designcombo/events";
 import { useIsDraggingOverTimeline } from "../hooks/is-dragging-over-timeline";
@@ -14,7 +15,7 @@ import { TEXT_ADD_PAYLOAD } from "../constants/payload";
 import { cn } from "@/lib/utils";
 import { nanoid } from "nanoid";
 import { generateId } from "@designcombo/timeline";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { toast } from "sonner";
 import useStore from "../store/use-store";
 import { Pencil } from "lucide-react";
@@ -25,7 +26,16 @@ import {
 } from "@/components/ui/popover";
 import useUploadStore from "../store/use-upload-store";
 import { LOCAL_FONT_MAPPING } from "../utils/local-fonts";
+import {
+	parseSubtitles,
+	subtitleCuesToCaptions,
+} from "../utils/subtitle-import";
 import { loadFonts } from "../utils/fonts";
+import {
+	getCaptionTimelineUpdates,
+	hasEditedWords,
+	requestCaptionAlignment,
+} from "../utils/caption-alignment";
 import {
 	optimizeVideoForCaptions,
 	shouldOptimizeVideo,
@@ -35,6 +45,7 @@ import {
 	shouldExtractAudio,
 	extractAudioForCaptions,
 } from "@/utils/audio-extraction";
+import { getUserSessionId } from "@/utils/session";
 
 // Canonical mapping and normalization
 const FONT_FAMILY_CANONICAL_MAP: Record<string, string> = {
@@ -303,6 +314,7 @@ async function extractAudioServerSide(
 			method: "POST",
 			headers: {
 				"Content-Type": "application/json",
+				"x-cinetune-session": getUserSessionId(),
 			},
 			body: JSON.stringify({
 				videoUrl,
@@ -882,6 +894,7 @@ export const Texts = () => {
 		| "bottom_center"
 	>("top_left");
 	const [wordsAtATime, setWordsAtATime] = useState<number>(1);
+	const subtitleInputRef = useRef<HTMLInputElement>(null);
 	const [gridLayout, setGridLayout] = useState<"default" | "either_side">(
 		"default",
 	);
@@ -893,6 +906,9 @@ export const Texts = () => {
 	const { uploads } = useUploadStore();
 	const [editingWordIndex, setEditingWordIndex] = useState<number | null>(null);
 	const [editingWordValue, setEditingWordValue] = useState<string>("");
+	const [alignmentProgress, setAlignmentProgress] = useState<number | null>(
+		null,
+	);
 
 	// Load available captions from localStorage on component mount
 	useEffect(() => {
@@ -971,11 +987,14 @@ export const Texts = () => {
 							const oldCaption = parsedData.captions[originalIndex];
 							const oldWord = oldCaption.word || oldCaption.text || "";
 
-							// Update both word and text fields to ensure consistency
+							// Update both word and text fields to ensure consistency.
+							// The transcribed word is kept so re-alignment can tell
+							// edited words from untouched ones.
 							parsedData.captions[originalIndex] = {
 								...parsedData.captions[originalIndex],
 								word: editedCaption.word,
 								text: editedCaption.text || editedCaption.word,
+								originalWord: oldCaption.originalWord ?? oldWord,
 							};
 
 							// Update timestamp to track when edit was made
@@ -1002,6 +1021,88 @@ export const Texts = () => {
 		return false;
 	};
 
+	// Re-times the stored captions after words were edited, inserted or
+	// removed, then brings the caption items on the timeline in line
+	const realignCaptions = async () => {
+		const captionsKeys = Object.keys(localStorage).filter((key) =>
+			key.startsWith("captions_"),
+		);
+		const storageKey = captionsKeys[captionsKeys.length - 1];
+		const parsedData = storageKey
+			? JSON.parse(localStorage.getItem(storageKey) || "null")
+			: null;
+		if (!Array.isArray(parsedData?.captions)) {
+			toast.error("No captions to align");
+			return;
+		}
+
+		setAlignmentProgress(0);
+		try {
+			const { captions, audioAligned } = await requestCaptionAlignment(
+				parsedData.captions,
+				parsedData.videoUrl,
+				setAlignmentProgress,
+			);
+
+			const updates = getCaptionTimelineUpdates(
+				useStore.getState().trackItemsMap,
+				captions,
+			);
+			if (Object.keys(updates.reindex).length > 0) {
+				const payload: Record<string, any> = {};
+				for (const [id, originalIndex] of Object.entries(updates.reindex)) {
+					payload[id] = { details: { originalIndex } };
+				}
+				dispatch(EDIT_OBJECT, { payload });
+			}
+			// EDIT_OBJECT can't move items in time, so changed items are
+			// replaced
+			const removedIds = [
+				...updates.remove,
+				...updates.replace.map(({ itemId }) => itemId),
+			];
+			if (removedIds.length > 0) {
+				dispatch(LAYER_DELETE, { payload: { trackItemIds: removedIds } });
+			}
+			// One dispatch for every replacement, on a caption track of their own
+			const trackItems = updates.replace.flatMap(({ payloads }) => payloads);
+			if (trackItems.length > 0) {
+				dispatch(ADD_ITEMS, {
+					payload: {
+						trackItems,
+						tracks: [
+							{
+								id: generateId(),
+								type: "text",
+								items: trackItems.map((item) => item.id),
+							},
+						],
+					},
+				});
+			}
+
+			parsedData.captions = captions.map(
+				({ sourceIndex, alignment, ...caption }) => caption,
+			);
+			parsedData.updatedAt = new Date().toISOString();
+			localStorage.setItem(storageKey, JSON.stringify(parsedData));
+			loadAvailableCaptions();
+
+			toast.success(
+				audioAligned
+					? "Captions re-aligned to the audio"
+					: "Captions re-timed (source audio unavailable, timings estimated)",
+			);
+		} catch (error) {
+			console.error("❌ Caption alignment failed:", error);
+			toast.error(
+				error instanceof Error ? error.message : "Caption alignment failed",
+			);
+		} finally {
+			setAlignmentProgress(null);
+		}
+	};
+
 	const formatTime = (timeMs: number): string => {
 		const seconds = Math.floor(timeMs / 1000);
 		const minutes = Math.floor(seconds / 60);
@@ -1313,39 +1414,50 @@ export const Texts = () => {
 		}
 	};
 
-	const handleLoadCaptionsFromJSON = async () => {
+	// `importedCaptions` come from a subtitle file; without them the most
+	// recently generated captions in localStorage are used
+	const handleLoadCaptionsFromJSON = async (importedCaptions?: any[]) => {
 		try {
-			// Step 1: Find captions in localStorage
+			let parsedData: any;
+			if (importedCaptions) {
+				parsedData = { captions: importedCaptions };
+			} else {
+				// Step 1: Find captions in localStorage
 
-			const allKeys = Object.keys(localStorage);
-			const captionsKeys = allKeys.filter((key) => key.startsWith("captions_"));
+				const allKeys = Object.keys(localStorage);
+				const captionsKeys = allKeys.filter((key) =>
+					key.startsWith("captions_"),
+				);
 
-			if (captionsKeys.length === 0) {
-				console.error("❌ ==========================================");
-				console.error("❌ NO CAPTIONS FOUND IN LOCALSTORAGE");
-				console.error("❌ ==========================================");
-				console.error("❌ Available keys:", allKeys);
-				toast.error("No captions found. Please generate captions first.");
-				return;
-			}
+				if (captionsKeys.length === 0) {
+					console.error("❌ ==========================================");
+					console.error("❌ NO CAPTIONS FOUND IN LOCALSTORAGE");
+					console.error("❌ ==========================================");
+					console.error("❌ Available keys:", allKeys);
+					toast.error("No captions found. Please generate captions first.");
+					return;
+				}
 
-			// Step 2: Select the most recent captions
+				// Step 2: Select the most recent captions
 
-			const mostRecentKey = captionsKeys[captionsKeys.length - 1];
+				const mostRecentKey = captionsKeys[captionsKeys.length - 1];
 
-			// Step 3: Load and parse captions data
+				// Step 3: Load and parse captions data
 
-			const captionsData = localStorage.getItem(mostRecentKey);
+				const captionsData = localStorage.getItem(mostRecentKey);
 
-			if (!captionsData) {
-				console.error("❌ ==========================================");
-				console.error("❌ NO CAPTIONS DATA FOUND FOR KEY:", mostRecentKey);
-				console.error("❌ ==========================================");
-				toast.error("No captions data found. Please generate captions first.");
-				return;
-			}
+				if (!captionsData) {
+					console.error("❌ ==========================================");
+					console.error("❌ NO CAPTIONS DATA FOUND FOR KEY:", mostRecentKey);
+					console.error("❌ ==========================================");
+					toast.error(
+						"No captions data found. Please generate captions first.",
+					);
+					return;
+				}
 
-			const parsedData = JSON.parse(captionsData);
+				parsedData = JSON.parse(captionsData);
+			}
 
 			if (!parsedData.captions || !Array.isArray(parsedData.captions)) {
 				console.error("❌ ==========================================");
@@ -2421,6 +2533,36 @@ export const Texts = () => {
 		}
 	};
 
+	const handleImportSubtitles = async (file: File) => {
+		try {
+			const parsed = parseSubtitles(await file.text(), file.name);
+			if (!parsed || parsed.cues.length === 0) {
+				toast.error("No captions found. Use an SRT, VTT or ASS file.");
+				return;
+			}
+
+			// Only fonts we ship can be loaded; others fall back to the
+			// default caption font
+			const captions = subtitleCuesToCaptions(parsed.cues).map((caption) => {
+				const localFont = caption.fontFamily
+					? LOCAL_FONT_MAPPING[caption.fontFamily]
+					: undefined;
+				return {
+					...caption,
+					fontFamily: localFont?.postScriptName,
+					style: { ...caption.style, fontFamily: localFont?.postScriptName },
+				};
+			});
+			await handleLoadCaptionsFromJSON(captions);
+			toast.success(
+				`Imported ${parsed.cues.length} captions from ${file.name}`,
+			);
+		} catch (error) {
+			console.error("❌ Failed to import subtitles:", error);
+			toast.error("Could not read the subtitle file.");
+		}
+	};
+
 	const handleAddCreativeCaptions = async () => {
 		console.log(
 			`🎬 [CAPTION-GEN] ═══ Starting Creative Captions Generation ═══`,
@@ -2899,6 +3041,8 @@ export const Texts = () => {
 				`📦 [CAPTION-GEN] Step 6: Preparing FormData for caption API`,
 			);
 			const captionFormData = new FormData();
+			// Lists the job under this session in /api/jobs
+			captionFormData.append("sessionId", getUserSessionId());
 
 			// Add the processed file (video or audio) with appropriate field name
 			if (optimizationResult.isAudioOnly) {
@@ -3920,12 +4064,32 @@ export const Texts = () => {
 				<Button
 					variant="outline"
 					className="w-60 backdrop-blur-sm bg-white/5 border border-white/20 hover:bg-white/15 transition-all duration-200"
-					onClick={handleLoadCaptionsFromJSON}
+					onClick={() => handleLoadCaptionsFromJSON()}
 					data-tour="load-captions"
 				>
 					Add captions
 				</Button>
 
+				<input
+					ref={subtitleInputRef}
+					type="file"
+					accept=".srt,.vtt,.ass,.ssa"
+					className="hidden"
+					onChange={(e) => {
+						const file = e.target.files?.[0];
+						// Allow picking the same file again
+						e.target.value = "";
+						if (file) handleImportSubtitles(file);
+					}}
+				/>
+				<Button
+					variant="outline"
+					className="w-60 backdrop-blur-sm bg-white/5 border border-white/20 hover:bg-white/15 transition-all duration-200"
+					onClick={() => subtitleInputRef.current?.click()}
+				>
+					Import subtitles (SRT, VTT, ASS)
+				</Button>
+
 				{/* Transcript Popover */}
 				{availableCaptions.length > 0 && (
 					<Popover>
@@ -4260,6 +4424,20 @@ export const Texts = () => {
 									</Button>
 								</div>
 
+								{originalCaptions.some(hasEditedWords) && (
+									<Button
+										variant="outline"
+										size="sm"
+										className="mt-2 w-full text-xs bg-gray-800 border-gray-700 text-white hover:bg-gray-700"
+										disabled={alignmentProgress !== null}
+										onClick={realignCaptions}
+									>
+										{alignmentProgress !== null
+											? `Re-aligning... ${Math.round(alignmentProgress)}%`
+											: `Re-align ${originalCaptions.filter(hasEditedWords).length} edited words to audio`}
+									</Button>
+								)}
+
 								{/* Word Stats */}
 								<div className="mt-3 text-xs text-gray-400 text-center">
 									Total: {availableCaptions.length} words • Duration:{" "}
@@ -30,6 +30,7 @@ import {
 import { Pencil, RefreshCw } from "lucide-react";
 import { getMostRecentCaptionJobId } from "./load-available-captions-context";
 import { toast } from "sonner";
+import { getUserSessionId } from "@/utils/session";
 
 // Helper function to extract thumbnail from video URL or file
 const generateThumbnailFromVideo = async (
@@ -647,6 +648,7 @@ export const Uploads = () => {
 						jobId: captionJobId,
 						videoId: aRollVideoName, // Send video name instead of ID
 						brollContext: brollContext,
+						sessionId: getUserSessionId(),
 					}),
 				},
 			);
@@ -18,9 +18,38 @@ import {
 import { Label } from "@/components/ui/label";
 
 import type StateManager from "@designcombo/state";
-import { generateId } from "@designcombo/timeline";
 import type { IDesign } from "@designcombo/types";
 import { useDownloadState } from "./store/use-download-state";
+import {
+	AUDIO_EXPORT_FORMATS,
+	AudioExportFormat,
+	CAPTION_MODES,
+	CaptionMode,
+	CONTACT_SHEET_DEFAULT_FRAMES,
+	CONTACT_SHEET_MAX_FRAMES,
+	CONTACT_SHEET_MIN_FRAMES,
+	EXPORT_PRESETS,
+	ExportTarget,
+	StillImageFormat,
+	getExportPreset,
+	LOUDNESS_TARGETS,
+	LoudnessTargetId,
+} from "./constants/export-presets";
+import useStore from "./store/use-store";
+import {
+	CAPTION_FORMATS,
+	CaptionFormat,
+	formatCaptions,
+	isCaptionItem,
+} from "./utils/caption-sidecars";
+import { downloadText } from "@/utils/download";
+import {
+	exportInterchange,
+	INTERCHANGE_FORMATS,
+	InterchangeFormat,
+} from "./interchange";
+import { timeToString } from "./utils/time";
+import { Input } from "@/components/ui/input";
 import DownloadProgressModal from "./download-progress-modal";
 import AutosizeInput from "@/components/ui/autosize-input";
 import { debounce } from "lodash";
@@ -33,6 +62,12 @@ import {
 import { LogoIcons } from "@/components/shared/logos";
 import Link from "next/link";
 import { RendersGallery } from "./renders-gallery";
+import { ImportTimeline } from "./import-timeline";
+import { BatchExport } from "./batch-export";
+import {
+	ASPECT_VARIANTS,
+	type AspectVariant,
+} from "./constants/aspect-variants";
 
 export default function Navbar({
 	user,
@@ -139,7 +174,8 @@ export default function Navbar({
 						<FileVideo width={16} />
 						{!isSmallScreen && <span className="text-sm">Renders</span>}
 					</Button>
-					<DownloadPopover stateManager={stateManager} />
+					<ImportTimeline showLabel={!isSmallScreen} />
+					<DownloadPopover stateManager={stateManager} projectName={title} />
 				</div>
 			</div>
 
@@ -151,28 +187,81 @@ export default function Navbar({
 	);
 }
 
-const DownloadPopover = ({ stateManager }: { stateManager: StateManager }) => {
+const DownloadPopover = ({
+	stateManager,
+	projectName,
+}: {
+	stateManager: StateManager;
+	projectName: string;
+}) => {
 	const isMediumScreen = useIsMediumScreen();
-	const { actions, exportType } = useDownloadState();
+	const { actions, exportType, exportPreset } = useDownloadState();
 	const [isExportTypeOpen, setIsExportTypeOpen] = useState(false);
+	const selectedPreset = getExportPreset(exportPreset);
 	const [open, setOpen] = useState(false);
+	const { inPoint, outPoint, duration, fps, playerRef, trackItemsMap, size } =
+		useStore();
+	const [imageFormat, setImageFormat] = useState<StillImageFormat>("png");
+	const [sheetFrames, setSheetFrames] = useState(CONTACT_SHEET_DEFAULT_FRAMES);
+	const [audioFormat, setAudioFormat] = useState<AudioExportFormat>("mp3");
+	const [captionMode, setCaptionMode] = useState<CaptionMode>("burned");
+	const [isBatchOpen, setIsBatchOpen] = useState(false);
+	const [loudness, setLoudness] = useState<LoudnessTargetId | null>(null);
+
+	const hasCaptions = Object.values(trackItemsMap).some(isCaptionItem);
+	// GIFs have no subtitle track, so their captions are always burned in
+	const canSoftCaption = selectedPreset?.codec !== "gif";
+
+	const hasRange = inPoint !== null || outPoint !== null;
+	const range = hasRange
+		? { start: inPoint ?? 0, end: outPoint ?? duration }
+		: null;
+
+	const handleCaptionDownload = (format: CaptionFormat) => {
+		const { extension, mimeType } = CAPTION_FORMATS[format];
+		downloadText(
+			formatCaptions(
+				format,
+				{ trackItems: Object.values(trackItemsMap), size },
+				range,
+			),
+			`captions.${extension}`,
+			mimeType,
+		);
+	};
 
-	const handleExport = async () => {
+	const handleInterchangeDownload = (format: InterchangeFormat) => {
+		const { extension, mimeType } = INTERCHANGE_FORMATS[format];
+		const name = projectName.trim() || "Untitled";
+		downloadText(
+			exportInterchange(format, stateManager.getState(), {
+				name,
+				origin: window.location.origin,
+			}),
+			`${name}.${extension}`,
+			mimeType,
+		);
+	};
+
+	const handleExport = async (target: ExportTarget) => {
 		try {
 			console.log(`🎬 [CineTune Export] User clicked export button`);
 			const data: IDesign = {
-				id: generateId(),
+				id: actions.getProjectId(),
 				...stateManager.getState(),
 			};
 
 			console.log(`📝 [CineTune Export] Generated export data:`, {
 				id: data.id,
 				exportType: exportType,
+				exportPreset: exportPreset,
+				target: target,
 				timestamp: new Date().toISOString(),
 			});
 
 			actions.setState({ payload: data });
-			await actions.startExport();
+			setOpen(false);
+			await actions.startExport(target);
 		} catch (error) {
 			console.error(`💥 [CineTune Export] Export initiation failed:`, error);
 			console.error(`💥 [CineTune Export] Error details:`, {
@@ -190,53 +279,304 @@ const DownloadPopover = ({ stateManager }: { stateManager: StateManager }) => {
 	};
 
 	return (
-		<Popover open={open} onOpenChange={setOpen}>
-			<PopoverTrigger asChild>
-				<Button
-					className="flex h-7 gap-1 border border-border"
-					size={isMediumScreen ? "sm" : "icon"}
+		<>
+			<Popover open={open} onOpenChange={setOpen}>
+				<PopoverTrigger asChild>
+					<Button
+						className="flex h-7 gap-1 border border-border"
+						size={isMediumScreen ? "sm" : "icon"}
+					>
+						<Download width={18} />{" "}
+						<span className="hidden md:block">Export</span>
+					</Button>
+				</PopoverTrigger>
+				<PopoverContent
+					align="end"
+					className="bg-sidebar z-[250] flex w-60 flex-col gap-4"
 				>
-					<Download width={18} />{" "}
-					<span className="hidden md:block">Export</span>
-				</Button>
-			</PopoverTrigger>
-			<PopoverContent
-				align="end"
-				className="bg-sidebar z-[250] flex w-60 flex-col gap-4"
-			>
-				<Label>Export settings</Label>
-
-				<Popover open={isExportTypeOpen} onOpenChange={setIsExportTypeOpen}>
-					<PopoverTrigger asChild>
-						<Button className="w-full justify-between" variant="outline">
-							<div>{exportType.toUpperCase()}</div>
-							<ChevronDown width={16} />
+					<Label>Export settings</Label>
+
+					<Popover open={isExportTypeOpen} onOpenChange={setIsExportTypeOpen}>
+						<PopoverTrigger asChild>
+							<Button className="w-full justify-between" variant="outline">
+								<div className="truncate">
+									{selectedPreset?.name ?? exportType.toUpperCase()}
+								</div>
+								<ChevronDown width={16} />
+							</Button>
+						</PopoverTrigger>
+						<PopoverContent className="bg-background z-[251] w-[--radix-popover-trigger-width] px-2 py-2">
+							{EXPORT_PRESETS.map((preset) => (
+								<div
+									key={preset.id}
+									className={`flex flex-col rounded-sm px-3 py-1.5 text-sm hover:cursor-pointer hover:bg-zinc-800 ${
+										preset.id === exportPreset ? "bg-zinc-800" : ""
+									}`}
+									onClick={() => {
+										actions.setExportType("mp4");
+										actions.setExportPreset(preset.id);
+										setIsExportTypeOpen(false);
+									}}
+								>
+									<span>{preset.name}</span>
+									<span className="text-xs text-muted-foreground">
+										{preset.description}
+									</span>
+								</div>
+							))}
+							<div className="flex h-7 items-center justify-between rounded-sm px-3 text-sm cursor-not-allowed opacity-50">
+								JSON
+								<span className="text-xs text-muted-foreground">
+									Coming Soon
+								</span>
+							</div>
+						</PopoverContent>
+					</Popover>
+
+					<div className="flex flex-col gap-1">
+						<Button
+							onClick={() =>
+								handleExport({
+									kind: "video",
+									range,
+									captions:
+										hasCaptions && canSoftCaption ? captionMode : "burned",
+									loudness,
+								})
+							}
+							className="w-full"
+						>
+							{range ? "Export range" : "Export"}
 						</Button>
-					</PopoverTrigger>
-					<PopoverContent className="bg-background z-[251] w-[--radix-popover-trigger-width] px-2 py-2">
-						<div
-							className="flex h-7 items-center rounded-sm px-3 text-sm hover:cursor-pointer hover:bg-zinc-800"
+						<Button
+							variant="ghost"
+							size="sm"
+							className="h-7 w-full text-xs text-muted-foreground"
 							onClick={() => {
-								actions.setExportType("mp4");
-								setIsExportTypeOpen(false);
+								setOpen(false);
+								setIsBatchOpen(true);
 							}}
 						>
-							MP4
+							All aspect ratios…
+						</Button>
+						{range && (
+							<div className="text-center text-xs text-muted-foreground">
+								{timeToString({ time: range.start })} –{" "}
+								{timeToString({ time: range.end })}
+							</div>
+						)}
+					</div>
+
+					<div className="flex flex-col gap-2 border-t border-border pt-4">
+						<Label>Loudness</Label>
+						<div className="flex gap-1">
+							<Button
+								variant={loudness === null ? "secondary" : "ghost"}
+								size="sm"
+								className="h-7 flex-1 px-1"
+								onClick={() => setLoudness(null)}
+								title="Keep levels as mixed"
+							>
+								Off
+							</Button>
+							{(Object.keys(LOUDNESS_TARGETS) as LoudnessTargetId[]).map(
+								(id) => (
+									<Button
+										key={id}
+										variant={loudness === id ? "secondary" : "ghost"}
+										size="sm"
+										className="h-7 flex-1 px-1"
+										onClick={() => setLoudness(id)}
+										title={LOUDNESS_TARGETS[id].description}
+									>
+										{LOUDNESS_TARGETS[id].name}
+									</Button>
+								),
+							)}
 						</div>
-						<div className="flex h-7 items-center justify-between rounded-sm px-3 text-sm cursor-not-allowed opacity-50">
-							JSON
-							<span className="text-xs text-muted-foreground">Coming Soon</span>
+						{loudness && (
+							<div className="text-xs text-muted-foreground">
+								{LOUDNESS_TARGETS[loudness].integrated} LUFS, peaks at most{" "}
+								{LOUDNESS_TARGETS[loudness].truePeak} dBTP
+								{selectedPreset && !selectedPreset.audio
+									? ` (${selectedPreset.name} has no audio)`
+									: ""}
+							</div>
+						)}
+					</div>
+
+					{hasCaptions && (
+						<div className="flex flex-col gap-2 border-t border-border pt-4">
+							<Label>Captions</Label>
+							<div className="flex gap-1">
+								{(Object.keys(CAPTION_MODES) as CaptionMode[]).map((mode) => (
+									<Button
+										key={mode}
+										variant={captionMode === mode ? "secondary" : "ghost"}
+										size="sm"
+										className="h-7 flex-1"
+										disabled={!canSoftCaption && mode !== "burned"}
+										onClick={() => setCaptionMode(mode)}
+									>
+										{CAPTION_MODES[mode]}
+									</Button>
+								))}
+							</div>
+							{!canSoftCaption && (
+								<div className="text-xs text-muted-foreground">
+									GIFs can only show burned-in captions
+								</div>
+							)}
+							<div className="flex gap-1">
+								{(Object.keys(CAPTION_FORMATS) as CaptionFormat[]).map(
+									(format) => (
+										<Button
+											key={format}
+											variant="outline"
+											size="sm"
+											className="h-7 flex-1"
+											onClick={() => handleCaptionDownload(format)}
+											title={`Download captions as ${CAPTION_FORMATS[format].name}`}
+										>
+											.{CAPTION_FORMATS[format].extension}
+										</Button>
+									),
+								)}
+							</div>
 						</div>
-					</PopoverContent>
-				</Popover>
+					)}
 
-				<div>
-					<Button onClick={handleExport} className="w-full">
-						Export
-					</Button>
-				</div>
-			</PopoverContent>
-		</Popover>
+					<div className="flex flex-col gap-2 border-t border-border pt-4">
+						<Label>Audio only</Label>
+						<div className="flex gap-1">
+							{(Object.keys(AUDIO_EXPORT_FORMATS) as AudioExportFormat[]).map(
+								(format) => (
+									<Button
+										key={format}
+										variant={audioFormat === format ? "secondary" : "ghost"}
+										size="sm"
+										className="h-7 flex-1"
+										onClick={() => setAudioFormat(format)}
+									>
+										{AUDIO_EXPORT_FORMATS[format].name}
+									</Button>
+								),
+							)}
+						</div>
+						<Button
+							variant="outline"
+							className="w-full"
+							onClick={() =>
+								handleExport({ kind: "audio", audioFormat, range, loudness })
+							}
+						>
+							{range ? "Export audio range" : "Export audio mix"}
+						</Button>
+					</div>
+
+					<div className="flex flex-col gap-2 border-t border-border pt-4">
+						<Label>Stills</Label>
+						<div className="flex gap-1">
+							{(["png", "jpeg"] as StillImageFormat[]).map((format) => (
+								<Button
+									key={format}
+									variant={imageFormat === format ? "secondary" : "ghost"}
+									size="sm"
+									className="h-7 flex-1"
+									onClick={() => setImageFormat(format)}
+								>
+									{format.toUpperCase()}
+								</Button>
+							))}
+						</div>
+						<Button
+							variant="outline"
+							className="w-full"
+							onClick={() => {
+								const frame = playerRef?.current?.getCurrentFrame() ?? 0;
+								handleExport({
+									kind: "still",
+									time: (frame / fps) * 1000,
+									imageFormat,
+								});
+							}}
+						>
+							Export current frame
+						</Button>
+						<div className="flex gap-2">
+							<Input
+								type="number"
+								className="h-9 w-16 px-2 text-center"
+								min={CONTACT_SHEET_MIN_FRAMES}
+								max={CONTACT_SHEET_MAX_FRAMES}
+								value={sheetFrames}
+								onChange={(e) => {
+									const value = Number(e.target.value);
+									if (
+										value >= CONTACT_SHEET_MIN_FRAMES &&
+										value <= CONTACT_SHEET_MAX_FRAMES
+									) {
+										setSheetFrames(value);
+									}
+								}}
+								title="Frames on the contact sheet"
+							/>
+							<Button
+								variant="outline"
+								className="flex-1"
+								onClick={() =>
+									handleExport({
+										kind: "contact-sheet",
+										frames: sheetFrames,
+										imageFormat,
+										range,
+									})
+								}
+							>
+								Contact sheet
+							</Button>
+						</div>
+					</div>
+
+					<div className="flex flex-col gap-2 border-t border-border pt-4">
+						<Label>Interchange</Label>
+						<div className="flex gap-1">
+							{(["fcpxml", "edl", "otio"] as InterchangeFormat[]).map(
+								(format) => (
+									<Button
+										key={format}
+										variant="outline"
+										size="sm"
+										className="h-7 flex-1"
+										onClick={() => handleInterchangeDownload(format)}
+										title={`Download the timeline as ${INTERCHANGE_FORMATS[format].name}`}
+									>
+										{INTERCHANGE_FORMATS[format].name}
+									</Button>
+								),
+							)}
+						</div>
+						<Button
+							variant="ghost"
+							size="sm"
+							className="h-7 w-full text-xs text-muted-foreground"
+							onClick={() => handleInterchangeDownload("manifest")}
+						>
+							Media manifest only
+						</Button>
+					</div>
+				</PopoverContent>
+			</Popover>
+			<BatchExport
+				open={isBatchOpen}
+				onOpenChange={setIsBatchOpen}
+				stateManager={stateManager}
+				presetId={exportPreset}
+				captionMode={hasCaptions && canSoftCaption ? captionMode : "burned"}
+				range={range}
+				loudness={loudness}
+			/>
+		</>
 	);
 };
 
@@ -253,38 +593,15 @@ interface ResizeValue {
 	name: string;
 }
 
-const RESIZE_OPTIONS: ResizeOptionProps[] = [
-	{
-		label: "16:9",
-		icon: "landscape",
-		description: "YouTube ads",
-		value: {
-			width: 1920,
-			height: 1080,
-			name: "16:9",
-		},
-	},
-	{
-		label: "9:16",
-		icon: "portrait",
-		description: "TikTok, YouTube Shorts",
-		value: {
-			width: 1080,
-			height: 1920,
-			name: "9:16",
-		},
-	},
-	{
-		label: "1:1",
-		icon: "square",
-		description: "Instagram, Facebook posts",
-		value: {
-			width: 1080,
-			height: 1080,
-			name: "1:1",
-		},
-	},
-];
+// Same ratios the batch export renders
+const RESIZE_OPTIONS: ResizeOptionProps[] = ASPECT_VARIANTS.map(
+	(variant: AspectVariant) => ({
+		label: variant.label,
+		icon: variant.icon,
+		description: variant.description,
+		value: { ...variant.size, name: variant.label },
+	}),
+);
 
 const ResizeVideo = () => {
 	const handleResize = (options: ResizeValue) => {
@@ -1,4 +1,5 @@
 import { ISize, ITrackItem } from "@designcombo/types";
+import { TransitionSeries } from "@remotion/transitions";
 import { AbsoluteFill, Sequence } from "remotion";
 import { calculateFrames } from "../utils/frames";
 import { calculateContainerStyles } from "./styles";
@@ -13,6 +14,15 @@ export interface SequenceItemOptions {
 	size?: ISize;
 	frame?: number;
 	isTransition?: boolean;
+	// Frames the transition into the next clip takes. TransitionSeries starts
+	// the next clip that much early, so this clip is lengthened by it to keep
+	// the next one where the timeline shows it.
+	transitionOverlap?: number;
+	// Set by the export renderer: nothing is editable, so text items can be
+	// sequenced like every other item instead of staying mounted
+	isRendering?: boolean;
+	// Lets items reference other items, e.g. a visualizer's audio source
+	trackItemsMap?: Record<string, ITrackItem>;
 }
 
 export const BaseSequence = ({
@@ -25,7 +35,13 @@ export const BaseSequence = ({
 	children: React.ReactNode;
 }) => {
 	const { details } = item as ITrackItem;
-	const { fps, isTransition, frame = 0 } = options;
+	const {
+		fps,
+		isTransition,
+		isRendering,
+		frame = 0,
+		transitionOverlap = 0,
+	} = options;
 	const { from, durationInFrames } = calculateFrames(
 		{
 			from: item.display.from,
@@ -49,7 +65,7 @@ export const BaseSequence = ({
 
 	// Text items always render to preserve DOM state, but use opacity for visibility
 	// Other items use normal Sequence behavior
-	if (isTextItem) {
+	if (isTextItem && !isTransition && !isRendering) {
 		return (
 			<AbsoluteFill
 				id={item.id}
@@ -71,6 +87,39 @@ export const BaseSequence = ({
 		);
 	}
 
+	const content = (
+		<AbsoluteFill
+			id={item.id}
+			data-track-item="transition-element"
+			data-ominous={isOminous ? "true" : "false"}
+			className={`designcombo-scene-item id-${item.id} designcombo-scene-item-type-${item.type}${isOminous ? " ominous-text" : ""}`}
+			style={{
+				...calculateContainerStyles(details, crop, {
+					pointerEvents: item.type === "audio" || isRendering ? "none" : "auto",
+				}),
+				// Apply ominous mix-blend-mode to the container
+				mixBlendMode: isOminous ? "difference" : "normal",
+			}}
+		>
+			{children}
+		</AbsoluteFill>
+	);
+
+	// Items joined by a transition are laid out by the parent <TransitionSeries />
+	if (isTransition) {
+		return (
+			<TransitionSeries.Sequence
+				key={item.id}
+				durationInFrames={(durationInFrames || 1 / fps) + transitionOverlap}
+				style={{
+					pointerEvents: "none",
+				}}
+			>
+				{content}
+			</TransitionSeries.Sequence>
+		);
+	}
+
 	// Original sequence behavior for non-text items
 	return (
 		<Sequence
@@ -81,21 +130,7 @@ export const BaseSequence = ({
 				pointerEvents: "none",
 			}}
 		>
-			<AbsoluteFill
-				id={item.id}
-				data-track-item="transition-element"
-				data-ominous={isOminous ? "true" : "false"}
-				className={`designcombo-scene-item id-${item.id} designcombo-scene-item-type-${item.type}${isOminous ? " ominous-text" : ""}`}
-				style={{
-					...calculateContainerStyles(details, crop, {
-						pointerEvents: item.type === "audio" ? "none" : "auto",
-					}),
-					// Apply ominous mix-blend-mode to the container
-					mixBlendMode: isOminous ? "difference" : "normal",
-				}}
-			>
-				{children}
-			</AbsoluteFill>
+			{content}
 		</Sequence>
 	);
 };
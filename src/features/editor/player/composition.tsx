@@ -1,4 +1,4 @@
-import { SequenceItem } from "./sequence-item";
+import TimelineItems from "./timeline-items";
 import { useEffect, useState } from "react";
 import { dispatch, filter, subject } from "@designcombo/events";
 import {
@@ -6,7 +6,6 @@ import {
 	EDIT_TEMPLATE_ITEM,
 	ENTER_EDIT_MODE,
 } from "@designcombo/state";
-import { groupTrackItems } from "../utils/track-items";
 import { calculateTextHeight } from "../utils/text";
 import { useCurrentFrame } from "remotion";
 import useStore from "../store/use-store";
@@ -26,11 +25,6 @@ const Composition = () => {
 	} = useStore();
 	const frame = useCurrentFrame();
 
-	const groupedItems = groupTrackItems({
-		trackItemIds,
-		transitionsMap,
-		trackItemsMap: trackItemsMap,
-	});
 	const mediaItems = Object.values(trackItemsMap).filter((item) => {
 		return item.type === "video" || item.type === "audio";
 	});
@@ -152,23 +146,19 @@ const Composition = () => {
 	}, [editableTextId]);
 
 	return (
-		<>
-			{groupedItems.map((group, index) => {
-				if (group.length === 1) {
-					const item = trackItemsMap[group[0].id];
-					return SequenceItem[item.type](item, {
-						fps,
-						handleTextChange,
-						onTextBlur,
-						editableTextId,
-						frame,
-						size,
-						isTransition: false,
-					});
-				}
-				return null;
-			})}
-		</>
+		<TimelineItems
+			trackItemIds={trackItemIds}
+			trackItemsMap={trackItemsMap}
+			transitionsMap={transitionsMap}
+			options={{
+				fps,
+				handleTextChange,
+				onTextBlur,
+				editableTextId,
+				frame,
+				size,
+			}}
+		/>
 	);
 };
 
@@ -0,0 +1,399 @@
+import {
+	IHillAudioBars,
+	ILinealAudioBars,
+	IRadialAudioBars,
+	ITrackItem,
+	IWaveAudioBars,
+} from "@designcombo/types";
+import {
+	createSmoothSvgPath,
+	useAudioData,
+	visualizeAudio,
+} from "@remotion/media-utils";
+import { useCurrentFrame } from "remotion";
+import { BaseSequence, SequenceItemOptions } from "../base-sequence";
+import { calculateFrames } from "../../utils/frames";
+
+// Must be a power of two for visualizeAudio
+const NUMBER_OF_SAMPLES = 128;
+
+type AudioBarsItem =
+	| ILinealAudioBars
+	| IRadialAudioBars
+	| IWaveAudioBars
+	| IHillAudioBars;
+
+type AudioSourceItem = ITrackItem & {
+	details: { src: string };
+	playbackRate?: number;
+};
+
+// The visualizer follows the audio/video item picked in the control panel,
+// falling back to the earliest audio track (then video) on the timeline
+export const resolveAudioSource = (
+	item: AudioBarsItem,
+	trackItemsMap: Record<string, ITrackItem> = {},
+): AudioSourceItem | undefined => {
+	const candidates = Object.values(trackItemsMap)
+		.filter(
+			(candidate) =>
+				(candidate.type === "audio" || candidate.type === "video") &&
+				!!(candidate.details as any)?.src,
+		)
+		.sort(
+			(a, b) =>
+				Number(b.type === "audio") - Number(a.type === "audio") ||
+				a.display.from - b.display.from,
+		) as AudioSourceItem[];
+
+	const audioSourceId = (item.details as any).audioSourceId;
+	return (
+		candidates.find((candidate) => candidate.id === audioSourceId) ??
+		candidates[0]
+	);
+};
+
+// Frequency values (0..1, low to high) for the current frame of the item,
+// mapped onto the source's own timeline so trims and speed line up
+const useVisualizerValues = (
+	item: AudioBarsItem,
+	source: AudioSourceItem,
+	fps: number,
+) => {
+	const frame = useCurrentFrame();
+	const audioData = useAudioData(source.details.src);
+
+	if (!audioData) return new Array(NUMBER_OF_SAMPLES).fill(0);
+
+	const { from: itemFrom } = calculateFrames(item.display, fps);
+	const { from: sourceFrom, durationInFrames: sourceDuration } =
+		calculateFrames(source.display, fps);
+	const timelineFrame = itemFrom + frame;
+
+	if (
+		timelineFrame < sourceFrom ||
+		timelineFrame >= sourceFrom + sourceDuration
+	) {
+		return new Array(NUMBER_OF_SAMPLES).fill(0);
+	}
+
+	const mediaFrame =
+		(timelineFrame - sourceFrom) * (source.playbackRate || 1) +
+		((source.trim?.from || 0) / 1000) * fps;
+
+	return visualizeAudio({
+		audioData,
+		frame: mediaFrame,
+		fps,
+		numberOfSamples: NUMBER_OF_SAMPLES,
+		optimizeFor: "speed",
+	}).map((value) => Math.min(1, Math.sqrt(value)));
+};
+
+// Spread `count` points over the audible (lower) half of the spectrum
+const pickValues = (values: number[], count: number) => {
+	const usable = Math.floor(values.length / 2);
+	return Array.from(
+		{ length: Math.max(1, count) },
+		(_, i) => values[Math.floor((i / Math.max(1, count)) * usable)] ?? 0,
+	);
+};
+
+const toColorList = (color: string | string[] | null | undefined) =>
+	(Array.isArray(color) ? color : color ? [color] : []).filter(Boolean);
+
+const GradientDefs = ({ id, colors }: { id: string; colors: string[] }) => (
+	<defs>
+		<linearGradient id={id} x1="0" y1="0" x2="1" y2="0">
+			{colors.map((color, index) => (
+				<stop
+					key={`${color}-${index}`}
+					offset={colors.length > 1 ? index / (colors.length - 1) : 0}
+					stopColor={color}
+				/>
+			))}
+		</linearGradient>
+	</defs>
+);
+
+const LinealBars = ({
+	item,
+	source,
+	fps,
+}: {
+	item: ILinealAudioBars;
+	source: AudioSourceItem;
+	fps: number;
+}) => {
+	const { details } = item;
+	const values = useVisualizerValues(item, source, fps);
+	const width = details.width || 1080;
+	const height = details.height || 96;
+	const lineThickness = details.lineThickness ?? 5;
+	const gapSize = details.gapSize ?? 7;
+	const bars = Math.max(1, Math.floor(width / (lineThickness + gapSize)));
+	const isUnder = details.placement === "under";
+
+	let barValues = pickValues(values, bars);
+	if (details.inverted) barValues = [...barValues].reverse();
+
+	return (
+		<div
+			style={{
+				width: "100%",
+				height: "100%",
+				display: "flex",
+				alignItems: isUnder ? "flex-start" : "flex-end",
+				justifyContent: "center",
+				gap: gapSize,
+				backgroundColor: details.backgroundColor || "transparent",
+			}}
+		>
+			{barValues.map((value, index) => (
+				<div
+					key={index}
+					style={{
+						width: lineThickness,
+						height: Math.max(lineThickness, value * height),
+						borderRadius: details.roundness ?? 0,
+						backgroundColor: details.linealBarColor || "#ffffff",
+						flex: "none",
+					}}
+				/>
+			))}
+		</div>
+	);
+};
+
+const RadialBars = ({
+	item,
+	source,
+	fps,
+}: {
+	item: IRadialAudioBars;
+	source: AudioSourceItem;
+	fps: number;
+}) => {
+	const { details } = item;
+	const values = useVisualizerValues(item, source, fps);
+	const size = Math.min(details.width || 1080, details.height || 1080);
+	const center = size / 2;
+	const innerRadius = size * 0.25;
+	const maxLength = size * 0.22;
+	const bars = 64;
+	const lineThickness = (details as any).lineThickness ?? 6;
+	const color =
+		details.radialBarColor || (details as any).linealBarColor || "#ffffff";
+
+	return (
+		<svg
+			width="100%"
+			height="100%"
+			viewBox={`0 0 ${size} ${size}`}
+			style={{ overflow: "visible" }}
+		>
+			{pickValues(values, bars).map((value, index) => {
+				const angle = (index / bars) * Math.PI * 2 - Math.PI / 2;
+				const length = Math.max(2, value * maxLength);
+				return (
+					<line
+						key={index}
+						x1={center + Math.cos(angle) * innerRadius}
+						y1={center + Math.sin(angle) * innerRadius}
+						x2={center + Math.cos(angle) * (innerRadius + length)}
+						y2={center + Math.sin(angle) * (innerRadius + length)}
+						stroke={color}
+						strokeWidth={lineThickness}
+						strokeLinecap="round"
+					/>
+				);
+			})}
+		</svg>
+	);
+};
+
+// Alternating up/down lobes whose corners are rounded by top/bottomRoundness,
+// scrolled horizontally by offsetPixelSpeed (px per second)
+const WaveBars = ({
+	item,
+	source,
+	fps,
+}: {
+	item: IWaveAudioBars;
+	source: AudioSourceItem;
+	fps: number;
+}) => {
+	const { details } = item;
+	const frame = useCurrentFrame();
+	const values = useVisualizerValues(item, source, fps);
+	const width = details.width || 1080;
+	const height = details.height || 96;
+	const middle = height / 2;
+	const sections = Math.max(2, details.sections ?? 10);
+	const lineGap = details.lineGap ?? 0;
+	const lines = Math.max(1, details.lines ?? 1);
+	const sectionWidth = width / sections;
+	const lobeWidth = Math.max(1, sectionWidth - lineGap);
+	const offset =
+		(((details.offsetPixelSpeed ?? 0) * frame) / fps) % (sectionWidth * 2);
+	const colors = toColorList(details.lineColor);
+	const gradientId = `wave-gradient-${item.id}`;
+	const stroke =
+		colors.length > 1 ? `url(#${gradientId})` : colors[0] || "#ffffff";
+
+	// Extra sections on both sides keep the scrolling seamless
+	const sectionValues = pickValues(values, sections + 4);
+
+	const lobePath = (x: number, amplitude: number, up: boolean) => {
+		const roundness = up
+			? (details.topRoundness ?? 0.2)
+			: (details.bottomRoundness ?? 0.2);
+		const radius = Math.min(lobeWidth / 2, roundness * lobeWidth);
+		const peak = up ? middle - amplitude : middle + amplitude;
+		return [
+			`M ${x} ${middle}`,
+			`L ${x} ${up ? Math.min(peak + radius, middle) : Math.max(peak - radius, middle)}`,
+			`Q ${x} ${peak} ${x + radius} ${peak}`,
+			`L ${x + lobeWidth - radius} ${peak}`,
+			`Q ${x + lobeWidth} ${peak} ${x + lobeWidth} ${up ? Math.min(peak + radius, middle) : Math.max(peak - radius, middle)}`,
+			`L ${x + lobeWidth} ${middle}`,
+		].join(" ");
+	};
+
+	return (
+		<svg
+			width="100%"
+			height="100%"
+			viewBox={`0 0 ${width} ${height}`}
+			style={{ overflow: "hidden" }}
+		>
+			{colors.length > 1 && <GradientDefs id={gradientId} colors={colors} />}
+			{Array.from({ length: lines }).map((_, line) => {
+				const scale = 1 - line / lines;
+				const path = sectionValues
+					.map((value, index) => {
+						const x = (index - 2) * sectionWidth + offset + lineGap / 2;
+						const amplitude = Math.max(1, value * middle * scale);
+						return lobePath(x, amplitude, index % 2 === 0);
+					})
+					.join(" ");
+				return (
+					<path
+						key={line}
+						d={path}
+						fill="none"
+						stroke={stroke}
+						strokeWidth={2}
+						strokeLinejoin="round"
+					/>
+				);
+			})}
+		</svg>
+	);
+};
+
+const HillBars = ({
+	item,
+	source,
+	fps,
+}: {
+	item: IHillAudioBars;
+	source: AudioSourceItem;
+	fps: number;
+}) => {
+	const { details } = item;
+	const values = useVisualizerValues(item, source, fps);
+	const width = details.width || 1080;
+	const height = details.height || 96;
+	const copies = Math.max(1, details.copies ?? 1);
+	const fillColors = toColorList(details.fillColor);
+	const points = 32;
+
+	return (
+		<svg
+			width="100%"
+			height="100%"
+			viewBox={`0 0 ${width} ${height}`}
+			style={{ overflow: "visible" }}
+		>
+			{Array.from({ length: copies }).map((_, copy) => {
+				// Each copy samples a shifted band of the spectrum
+				const band = pickValues(values.slice(copy * 2), points);
+				// Mirror the spectrum so the hill peaks in the middle
+				const mirrored = [...[...band].reverse(), ...band];
+				const hillPoints = mirrored.map((value, index) => ({
+					x: (index / (mirrored.length - 1)) * width,
+					y: height - value * height * (1 - copy / (copies + 1)),
+				}));
+				const outline = createSmoothSvgPath({ points: hillPoints });
+				const fill = fillColors.length
+					? fillColors[copy % fillColors.length]
+					: "none";
+				return (
+					<path
+						key={copy}
+						d={`${outline} L ${width} ${height} L 0 ${height} Z`}
+						fill={fill}
+						stroke={details.strokeColor || "none"}
+						strokeWidth={details.strokeWidth ?? (details.strokeColor ? 2 : 0)}
+						style={{
+							mixBlendMode: (details.blendMode ||
+								"normal") as React.CSSProperties["mixBlendMode"],
+						}}
+					/>
+				);
+			})}
+		</svg>
+	);
+};
+
+const renderAudioBars = (
+	item: AudioBarsItem,
+	options: SequenceItemOptions,
+	Visualizer: React.ComponentType<{
+		item: any;
+		source: AudioSourceItem;
+		fps: number;
+	}>,
+) => {
+	const { fps, trackItemsMap } = options;
+	const source = resolveAudioSource(item, trackItemsMap);
+
+	const children = source ? (
+		<Visualizer item={item} source={source} fps={fps} />
+	) : null;
+
+	return BaseSequence({ item, options, children });
+};
+
+export const LinealAudioBars = ({
+	item,
+	options,
+}: {
+	item: ILinealAudioBars;
+	options: SequenceItemOptions;
+}) => renderAudioBars(item, options, LinealBars);
+
+export const RadialAudioBars = ({
+	item,
+	options,
+}: {
+	item: IRadialAudioBars;
+	options: SequenceItemOptions;
+}) => renderAudioBars(item, options, RadialBars);
+
+export const WaveAudioBars = ({
+	item,
+	options,
+}: {
+	item: IWaveAudioBars;
+	options: SequenceItemOptions;
+}) => renderAudioBars(item, options, WaveBars);
+
+export const HillAudioBars = ({
+	item,
+	options,
+}: {
+	item: IHillAudioBars;
+	options: SequenceItemOptions;
+}) => renderAudioBars(item, options, HillBars);
@@ -1,30 +1,65 @@
 import { IAudio } from "@designcombo/types";
+import { useState } from "react";
 import { BaseSequence, SequenceItemOptions } from "../base-sequence";
 import { Audio as RemotionAudio } from "remotion";
 
-export default function Audio({
+// Audio tracks pulled from QuickTime containers frequently fail to decode
+const isProblematicAudioFormat = (src: string) => {
+	const url = src.toLowerCase();
+	return (
+		url.includes(".mov") || url.includes(".m4v") || url.includes("quicktime")
+	);
+};
+
+// Rendered as a component (not called) so it can keep its own error state
+const AudioLayer = ({
 	item,
-	options,
+	fps,
+	isRendering,
 }: {
 	item: IAudio;
-	options: SequenceItemOptions;
-}) {
-	const { fps } = options;
+	fps: number;
+	isRendering: boolean;
+}) => {
 	const { details } = item;
+	const [hasAudioError, setHasAudioError] = useState(false);
 	const playbackRate = item.playbackRate || 1;
 
 	// Calculate effective volume - if muted is true, volume should be 0
 	const isMuted = (details as any).muted === true;
 	const effectiveVolume = isMuted ? 0 : (details.volume || 0) / 100;
 
-	const children = (
+	// The preview plays QuickTime audio fine; only the export skips it
+	if (hasAudioError || (isRendering && isProblematicAudioFormat(details.src))) {
+		return null;
+	}
+
+	return (
 		<RemotionAudio
-			startFrom={(item.trim?.from! / 1000) * fps}
-			endAt={(item.trim?.to! / 1000) * fps || 1 / fps}
+			startFrom={((item.trim?.from || 0) / 1000) * fps}
+			endAt={((item.trim?.to || item.display.to) / 1000) * fps || 1 / fps}
 			playbackRate={playbackRate}
 			src={details.src}
 			volume={effectiveVolume}
+			onError={(error) => {
+				console.error(`❌ Audio decoding failed for ${details.src}:`, error);
+				setHasAudioError(true);
+			}}
 		/>
 	);
+};
+
+export default function Audio({
+	item,
+	options,
+}: {
+	item: IAudio;
+	options: SequenceItemOptions;
+}) {
+	const { fps } = options;
+
+	const children = (
+		<AudioLayer item={item} fps={fps} isRendering={!!options.isRendering} />
+	);
 	return BaseSequence({ item, options, children });
 }
@@ -2,3 +2,9 @@ export { default as Audio } from "./audio";
 export { default as Image } from "./image";
 export { default as Text } from "./text";
 export { default as Video } from "./video";
+export {
+	HillAudioBars,
+	LinealAudioBars,
+	RadialAudioBars,
+	WaveAudioBars,
+} from "./audio-bars";
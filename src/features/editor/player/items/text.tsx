@@ -11,31 +11,51 @@ export default function Text({
 	item: IText;
 	options: SequenceItemOptions;
 }) {
-	const { handleTextChange, onTextBlur, fps, editableTextId } = options;
-	const { id, details, animations } = item as IText;
+	const {
+		handleTextChange,
+		onTextBlur,
+		fps,
+		editableTextId,
+		isTransition,
+		isRendering,
+	} = options;
+	const { id, details } = item as IText;
 
 	// Calculate frame bounds for animations
-	const { from: itemStartFrame, durationInFrames } = calculateFrames(
+	const { from, durationInFrames } = calculateFrames(
 		{
 			from: item.display.from,
 			to: item.display.to,
 		},
 		fps,
 	);
+	// Inside a Sequence the current frame is relative to the item's start
+	const isSequenced = isTransition || isRendering;
+	const itemStartFrame = isSequenced ? 0 : from;
 	const itemEndFrame = itemStartFrame + durationInFrames;
 
 	// Extract animations from details
 	const textAnimations = (details as any).animations;
 
+	// Vertical captions are laid out on a single centered line
+	const isVertical = (details as any).isVertical === true;
+	const style = {
+		...calculateTextStyles(details),
+		...(isVertical && {
+			whiteSpace: "nowrap" as const,
+			textAlign: "center" as const,
+		}),
+	};
+
 	const children = (
 		<MotionText
 			key={id}
 			id={id}
 			content={details.text}
-			editable={editableTextId === id}
+			editable={!isRendering && editableTextId === id}
 			onChange={handleTextChange}
 			onBlur={onTextBlur}
-			style={calculateTextStyles(details)}
+			style={style}
 			animations={textAnimations}
 			itemStartFrame={itemStartFrame}
 			itemEndFrame={itemEndFrame}
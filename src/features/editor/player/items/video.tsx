@@ -1,7 +1,149 @@
 import { IVideo } from "@designcombo/types";
+import { useState } from "react";
 import { BaseSequence, SequenceItemOptions } from "../base-sequence";
 import { calculateMediaStyles } from "../styles";
-import { OffthreadVideo } from "remotion";
+import { OffthreadVideo, Video as RemotionVideo } from "remotion";
+
+// QuickTime containers often fail to decode in OffthreadVideo
+const isProblematicFormat = (src: string) => {
+	const url = src.toLowerCase();
+	return (
+		url.includes(".mov") || url.includes("quicktime") || url.includes(".m4v")
+	);
+};
+
+const VideoErrorPlaceholder = ({ message }: { message: string }) => (
+	<div
+		style={{
+			width: "100%",
+			height: "100%",
+			backgroundColor: "#2a2a2a",
+			display: "flex",
+			flexDirection: "column",
+			alignItems: "center",
+			justifyContent: "center",
+			color: "#ff6b6b",
+			fontSize: "16px",
+			textAlign: "center",
+			padding: "20px",
+			borderRadius: "8px",
+			border: "2px dashed #ff6b6b",
+		}}
+	>
+		<div style={{ fontSize: "48px", marginBottom: "10px" }}>⚠️</div>
+		<div>Video Format Error</div>
+		<div style={{ fontSize: "12px", marginTop: "5px", opacity: 0.8 }}>
+			{message}
+		</div>
+		<div style={{ fontSize: "12px", marginTop: "5px", opacity: 0.6 }}>
+			Try converting to MP4 format
+		</div>
+	</div>
+);
+
+const MissingSourcePlaceholder = () => (
+	<div
+		style={{
+			width: "100%",
+			height: "100%",
+			backgroundColor: "#333333",
+			display: "flex",
+			alignItems: "center",
+			justifyContent: "center",
+			color: "white",
+			fontSize: "24px",
+			textAlign: "center",
+		}}
+	>
+		No Video Source
+	</div>
+);
+
+// Rendered as a component (not called) so it can keep its own error state
+const VideoLayer = ({
+	item,
+	fps,
+	overlap,
+	isRendering,
+}: {
+	item: IVideo;
+	fps: number;
+	// Extra frames shown under the transition into the next clip
+	overlap: number;
+	isRendering: boolean;
+}) => {
+	const { details } = item;
+	const [errorMessage, setErrorMessage] = useState<string | null>(null);
+	const playbackRate = item.playbackRate || 1;
+
+	// Calculate effective volume - if muted is true, volume should be 0
+	const isMuted = (details as any).muted === true;
+	const effectiveVolume = isMuted ? 0 : (details.volume || 0) / 100;
+
+	const startFrom = ((item.trim?.from || 0) / 1000) * fps;
+	const endAt =
+		(((item.trim?.to || item.display.to) / 1000) * fps || 1 / fps) +
+		overlap * playbackRate;
+
+	const handleVideoError = (error: unknown, component: string) => {
+		console.error(`❌ ${component} failed for ${details.src}:`, error);
+		setErrorMessage(`Video format not supported: ${component} failed`);
+	};
+
+	if (!details.src) {
+		return <MissingSourcePlaceholder />;
+	}
+
+	if (errorMessage) {
+		return <VideoErrorPlaceholder message={errorMessage} />;
+	}
+
+	if (isProblematicFormat(details.src)) {
+		return (
+			<RemotionVideo
+				startFrom={startFrom}
+				endAt={endAt}
+				playbackRate={playbackRate}
+				src={details.src}
+				volume={effectiveVolume}
+				muted={isMuted}
+				onError={(error) =>
+					handleVideoError(error, "Video (problematic format)")
+				}
+			/>
+		);
+	}
+
+	// Without a DOM the export prefers the regular Video component for
+	// stability
+	if (
+		isRendering &&
+		(typeof window === "undefined" || typeof document === "undefined")
+	) {
+		return (
+			<RemotionVideo
+				startFrom={startFrom}
+				endAt={endAt}
+				playbackRate={playbackRate}
+				src={details.src}
+				volume={effectiveVolume}
+				muted={isMuted}
+				onError={(error) => handleVideoError(error, "Video (production)")}
+			/>
+		);
+	}
+
+	return (
+		<OffthreadVideo
+			startFrom={startFrom}
+			endAt={endAt}
+			playbackRate={playbackRate}
+			src={details.src}
+			volume={effectiveVolume}
+			onError={(error) => handleVideoError(error, "OffthreadVideo")}
+		/>
+	);
+};
 
 export const Video = ({
 	item,
@@ -11,8 +153,7 @@ export const Video = ({
 	options: SequenceItemOptions;
 }) => {
 	const { fps } = options;
-	const { details, animations } = item;
-	const playbackRate = item.playbackRate || 1;
+	const { details } = item;
 	const crop = details?.crop || {
 		x: 0,
 		y: 0,
@@ -20,18 +161,13 @@ export const Video = ({
 		height: details.height,
 	};
 
-	// Calculate effective volume - if muted is true, volume should be 0
-	const isMuted = (details as any).muted === true;
-	const effectiveVolume = isMuted ? 0 : (details.volume || 0) / 100;
-
 	const children = (
 		<div style={calculateMediaStyles(details, crop)}>
-			<OffthreadVideo
-				startFrom={(item.trim?.from! / 1000) * fps}
-				endAt={(item.trim?.to! / 1000) * fps || 1 / fps}
-				playbackRate={playbackRate}
-				src={details.src}
-				volume={effectiveVolume}
+			<VideoLayer
+				item={item}
+				fps={fps}
+				overlap={options.transitionOverlap ?? 0}
+				isRendering={!!options.isRendering}
 			/>
 		</div>
 	);
@@ -2,25 +2,10 @@ import { useEffect, useRef, useState } from "react";
 import { ITextDetails } from "@designcombo/types";
 import { useCurrentFrame } from "remotion";
 import {
-	interpolateKeyframes,
-	calculateRelativeFrame,
-	shouldAnimationPlay,
-	AnimationState,
+	TextAnimations,
+	getTextAnimationStyles,
 } from "../utils/text-animation-utils";
 
-interface TextAnimationData {
-	id: string;
-	name: string;
-	keyframes: Array<{
-		frame: number;
-		opacity?: number;
-		transform?: string;
-		easing?: string;
-	}>;
-	duration: number;
-	category: "entrance" | "exit" | "emphasis";
-}
-
 const TextLayer: React.FC<{
 	id: string;
 	content: string;
@@ -28,11 +13,7 @@ const TextLayer: React.FC<{
 	onBlur?: (id: string, content: string) => void;
 	style?: React.CSSProperties;
 	editable?: boolean;
-	animations?: {
-		entrance?: TextAnimationData;
-		exit?: TextAnimationData;
-		emphasis?: TextAnimationData;
-	};
+	animations?: TextAnimations;
 	itemStartFrame?: number;
 	itemEndFrame?: number;
 }> = ({
@@ -52,120 +33,12 @@ const TextLayer: React.FC<{
 	const lastStylePropsRef = useRef<React.CSSProperties>({});
 	const currentFrame = useCurrentFrame();
 
-	// Calculate animation styles
-	const getAnimationStyles = (): {
-		opacity: number;
-		transform: string;
-		clipPath?: string;
-	} => {
-		if (!animations) {
-			return { opacity: 1, transform: "" };
-		}
-
-		let finalOpacity = 1;
-		const transforms: string[] = [];
-		let clipPath: string | undefined;
-
-		// Process each animation type in priority order (entrance, emphasis, exit)
-		const animationOrder: Array<"entrance" | "exit" | "emphasis"> = [
-			"entrance",
-			"emphasis",
-			"exit",
-		];
-
-		for (const animationType of animationOrder) {
-			const animationData = animations[animationType];
-			if (!animationData) continue;
-
-			const shouldPlay = shouldAnimationPlay(
-				currentFrame,
-				itemStartFrame,
-				itemEndFrame,
-				animationType,
-				animationData.duration,
-			);
-
-			if (shouldPlay) {
-				const relativeFrame = calculateRelativeFrame(
-					currentFrame,
-					itemStartFrame,
-					itemEndFrame,
-					animationType,
-					animationData.duration,
-				);
-
-				// Special handling for handwriting effect
-				if (animationData.id === "handwriting") {
-					const progress = relativeFrame / animationData.duration;
-					const clampedProgress = Math.max(0, Math.min(1, progress));
-
-					// Create a smoother clip-path that reveals text from left to right
-					// Add a small feather edge for smoother appearance
-					const revealPercentage = clampedProgress * 100;
-					const featherAmount = 2; // Small feather for smooth edge
-					const rightInset = Math.max(
-						0,
-						100 - revealPercentage - featherAmount,
-					);
-
-					clipPath = `inset(0 ${rightInset}% 0 0)`;
-
-					// Keep full opacity for handwriting
-					finalOpacity = 1;
-				} else {
-					// Normal animation processing
-					const animationState = interpolateKeyframes(
-						animationData.keyframes as any,
-						relativeFrame,
-					);
-
-					// For entrance/exit animations, we want to override opacity completely
-					// For emphasis animations, we might want to multiply
-					if (animationType === "entrance" || animationType === "exit") {
-						finalOpacity = animationState.opacity;
-					} else if (animationType === "emphasis") {
-						finalOpacity *= animationState.opacity;
-					}
-
-					// Add transform if it exists
-					if (animationState.transform && animationState.transform.trim()) {
-						transforms.push(animationState.transform);
-					}
-				}
-			} else if (animationType === "entrance") {
-				// Special handling for handwriting when not playing
-				if (animationData.id === "handwriting") {
-					if (currentFrame < itemStartFrame) {
-						// Before handwriting starts - hide text
-						clipPath = `inset(0 100% 0 0)`;
-					} else {
-						// After handwriting completes - show all text
-						clipPath = `inset(0 0% 0 0)`;
-					}
-				} else {
-					// Normal entrance animation handling
-					// Check if we're before the entrance animation starts
-					if (currentFrame < itemStartFrame) {
-						// We're before the item starts, so hide the text
-						finalOpacity = 0;
-					}
-					// If we're after the entrance animation completes, text should be visible (opacity = 1)
-				}
-			} else if (animationType === "exit") {
-				// Exit animation is not currently playing
-				// Check if we're after the exit animation completes
-				const exitStartFrame = itemEndFrame - animationData.duration;
-				if (currentFrame > exitStartFrame + animationData.duration) {
-					// We're after the exit animation completes, so hide the text
-					finalOpacity = 0;
-				}
-			}
-		}
-
-		return { opacity: finalOpacity, transform: transforms.join(" "), clipPath };
-	};
-
-	const animationStyles = getAnimationStyles();
+	const animationStyles = getTextAnimationStyles(
+		animations,
+		currentFrame,
+		itemStartFrame,
+		itemEndFrame,
+	);
 
 	useEffect(() => {
 		if (editable && divRef.current) {
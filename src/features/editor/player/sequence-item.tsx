@@ -1,6 +1,25 @@
 import React from "react";
-import { IAudio, IImage, ITrackItem, IText, IVideo } from "@designcombo/types";
-import { Audio, Image, Text, Video } from "./items";
+import {
+	IAudio,
+	IHillAudioBars,
+	IImage,
+	ILinealAudioBars,
+	IRadialAudioBars,
+	ITrackItem,
+	IText,
+	IVideo,
+	IWaveAudioBars,
+} from "@designcombo/types";
+import {
+	Audio,
+	HillAudioBars,
+	Image,
+	LinealAudioBars,
+	RadialAudioBars,
+	Text,
+	Video,
+	WaveAudioBars,
+} from "./items";
 import { SequenceItemOptions } from "./base-sequence";
 
 export const SequenceItem: Record<
@@ -11,4 +30,12 @@ export const SequenceItem: Record<
 	video: (item, options) => Video({ item: item as IVideo, options }),
 	audio: (item, options) => Audio({ item: item as IAudio, options }),
 	image: (item, options) => Image({ item: item as IImage, options }),
+	linealAudioBars: (item, options) =>
+		LinealAudioBars({ item: item as ILinealAudioBars, options }),
+	radialAudioBars: (item, options) =>
+		RadialAudioBars({ item: item as IRadialAudioBars, options }),
+	waveAudioBars: (item, options) =>
+		WaveAudioBars({ item: item as IWaveAudioBars, options }),
+	hillAudioBars: (item, options) =>
+		HillAudioBars({ item: item as IHillAudioBars, options }),
 };
@@ -0,0 +1,94 @@
+import { ITrackItem, ITransition } from "@designcombo/types";
+import { TransitionSeries } from "@remotion/transitions";
+import { calculateFrames } from "../utils/frames";
+import { groupTrackItems } from "../utils/track-items";
+import { SequenceItemOptions } from "./base-sequence";
+import { SequenceItem } from "./sequence-item";
+import {
+	getTransitionDurationInFrames,
+	isTransitionElement,
+	renderTransition,
+} from "./transitions";
+
+// The single composition body shared by the preview Player (composition.tsx)
+// and the export renderer (src/remotion/TimelineVideo.tsx). Every item type is
+// resolved through the SequenceItem registry, so a new type or style property
+// only has to be implemented once.
+
+const renderItem = (item: ITrackItem, options: SequenceItemOptions) => {
+	const render = SequenceItem[item.type];
+	if (!render) {
+		console.warn(`⚠️ No renderer registered for item type "${item.type}"`);
+		return null;
+	}
+	return render(item, options);
+};
+
+export const TimelineItems = ({
+	trackItemIds,
+	trackItemsMap,
+	transitionsMap,
+	options,
+}: {
+	trackItemIds: string[];
+	trackItemsMap: Record<string, ITrackItem>;
+	transitionsMap: Record<string, ITransition>;
+	options: SequenceItemOptions;
+}) => {
+	const { fps } = options;
+	const itemOptions = { ...options, trackItemsMap };
+	const groupedItems = groupTrackItems({
+		trackItemIds,
+		transitionsMap,
+		trackItemsMap,
+	});
+
+	return (
+		<>
+			{groupedItems.map((group) => {
+				if (group.length === 1) {
+					const item = trackItemsMap[group[0].id];
+					if (!item) return null;
+					return renderItem(item, { ...itemOptions, isTransition: false });
+				}
+
+				// Clips joined by transitions share one TransitionSeries
+				const firstItem = trackItemsMap[group[0].id];
+				if (!firstItem) return null;
+				const { from } = calculateFrames(firstItem.display, fps);
+
+				return (
+					<TransitionSeries key={firstItem.id} from={from}>
+						{group.map((element, index) => {
+							if (isTransitionElement(element)) {
+								return renderTransition({
+									transition: element,
+									fps,
+									fromItem: trackItemsMap[element.fromId],
+									toItem: trackItemsMap[element.toId],
+								});
+							}
+							const item = trackItemsMap[(element as ITrackItem).id];
+							if (!item) return null;
+							const next = group[index + 1];
+							return renderItem(item, {
+								...itemOptions,
+								isTransition: true,
+								transitionOverlap: isTransitionElement(next)
+									? getTransitionDurationInFrames(
+											next,
+											fps,
+											trackItemsMap[next.fromId],
+											trackItemsMap[next.toId],
+										)
+									: 0,
+							});
+						})}
+					</TransitionSeries>
+				);
+			})}
+		</>
+	);
+};
+
+export default TimelineItems;
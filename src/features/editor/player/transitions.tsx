@@ -0,0 +1,117 @@
+import { ITransition } from "@designcombo/types";
+import {
+	linearTiming,
+	TransitionPresentation,
+	TransitionPresentationComponentProps,
+	TransitionSeries,
+	TransitionTiming,
+} from "@remotion/transitions";
+import { fade } from "@remotion/transitions/fade";
+import { slide } from "@remotion/transitions/slide";
+import { wipe } from "@remotion/transitions/wipe";
+import { AbsoluteFill, interpolate } from "remotion";
+import {
+	TransitionDirection,
+	getTransitionPreset,
+} from "../constants/transitions";
+import { calculateFrames } from "../utils/frames";
+
+// Shared by the preview Player (composition.tsx) and the export renderer
+// (src/remotion/TimelineVideo.tsx) so both produce identical transitions.
+
+interface TimedItem {
+	display: { from: number; to: number };
+}
+
+type ZoomProps = Record<string, never>;
+
+const ZoomPresentation: React.FC<
+	TransitionPresentationComponentProps<ZoomProps>
+> = ({ children, presentationDirection, presentationProgress }) => {
+	const isEntering = presentationDirection === "entering";
+	const scale = isEntering
+		? interpolate(presentationProgress, [0, 1], [1.25, 1])
+		: interpolate(presentationProgress, [0, 1], [1, 0.8]);
+	const opacity = isEntering ? presentationProgress : 1 - presentationProgress;
+
+	return (
+		<AbsoluteFill style={{ transform: `scale(${scale})`, opacity }}>
+			{children}
+		</AbsoluteFill>
+	);
+};
+
+const zoom = (): TransitionPresentation<ZoomProps> => ({
+	component: ZoomPresentation,
+	props: {},
+});
+
+export const isTransitionElement = (element: unknown): element is ITransition =>
+	!!element &&
+	typeof element === "object" &&
+	"fromId" in element &&
+	"toId" in element;
+
+// Remotion rejects a transition longer than either neighbouring sequence,
+// so clamp to the shorter clip.
+export const getTransitionDurationInFrames = (
+	transition: ITransition,
+	fps: number,
+	fromItem?: TimedItem,
+	toItem?: TimedItem,
+) => {
+	const requested = (transition.duration / 1000) * fps;
+	const limits = [fromItem, toItem]
+		.filter((item): item is TimedItem => !!item)
+		.map((item) => calculateFrames(item.display, fps).durationInFrames);
+
+	return Math.max(1, Math.min(requested, ...limits));
+};
+
+// Generic so each presentation keeps its own props type
+const transitionElement = <P extends Record<string, unknown>>(
+	key: string,
+	presentation: TransitionPresentation<P>,
+	timing: TransitionTiming,
+) => (
+	<TransitionSeries.Transition
+		key={key}
+		presentation={presentation}
+		timing={timing}
+	/>
+);
+
+export const renderTransition = ({
+	transition,
+	fps,
+	fromItem,
+	toItem,
+}: {
+	transition: ITransition;
+	fps: number;
+	fromItem?: TimedItem;
+	toItem?: TimedItem;
+}) => {
+	const preset = getTransitionPreset(transition.kind);
+	const direction: TransitionDirection =
+		transition.direction || preset?.directions?.[0] || "from-left";
+	const timing = linearTiming({
+		durationInFrames: getTransitionDurationInFrames(
+			transition,
+			fps,
+			fromItem,
+			toItem,
+		),
+	});
+
+	switch (transition.kind) {
+		case "wipe":
+			return transitionElement(transition.id, wipe({ direction }), timing);
+		case "slide":
+			return transitionElement(transition.id, slide({ direction }), timing);
+		case "zoom":
+			return transitionElement(transition.id, zoom(), timing);
+		default:
+			return transitionElement(transition.id, fade(), timing);
+	}
+};
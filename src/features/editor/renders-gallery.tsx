@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, type MouseEvent } from "react";
 import {
 	Dialog,
 	DialogContent,
@@ -9,20 +9,135 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Download, Play, Calendar, FileVideo, RefreshCw } from "lucide-react";
+import {
+	DropdownMenu,
+	DropdownMenuContent,
+	DropdownMenuItem,
+	DropdownMenuLabel,
+	DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import {
+	Download,
+	Play,
+	Calendar,
+	Clock,
+	FileVideo,
+	FolderOpen,
+	Music,
+	RefreshCw,
+	Repeat,
+} from "lucide-react";
+import { dispatch } from "@designcombo/events";
+import { DESIGN_LOAD } from "@designcombo/state";
 import { download } from "@/utils/download";
+import { getUserSessionId } from "@/utils/session";
 import { toast } from "sonner";
+import {
+	EXPORT_PRESETS,
+	ExportPresetId,
+	ExportTarget,
+	RENDER_FILE_TYPES,
+} from "./constants/export-presets";
+import { useDownloadState } from "./store/use-download-state";
+import useStore from "./store/use-store";
+import { timeToString } from "./utils/time";
+import type { RenderPreviews } from "@/lib/render-previews";
+import type { LoudnessReport } from "@/lib/render-manifest";
+
+const ALL_PROJECTS = "all";
 
 interface Render {
 	id: string;
 	filename: string;
 	path: string;
 	size: number;
+	// Container extension, e.g. "mp4" or "gif"
+	format?: string;
+	preset?: { id: string; name: string } | null;
+	// From the render manifest; null for files rendered before manifests
+	renderId?: string | null;
+	projectId?: string | null;
+	target?: ExportTarget | null;
+	durationMs?: number | null;
+	renderTimeMs?: number | null;
+	loudness?: LoudnessReport | null;
 	createdAt: string;
 	modifiedAt: string;
 	downloadUrl: string;
+	// Poster and scrub sprite; null for audio, stills and older renders
+	previews?: RenderPreviews | null;
 }
 
+// Largest box the thumbnail fits in, whatever the render's aspect ratio
+const THUMBNAIL_BOX = { width: 160, height: 90 };
+
+// Poster frame that turns into a scrubber on hover: the pointer's position
+// across the thumbnail picks a cell of the sprite sheet
+const RenderThumbnail = ({ previews }: { previews: RenderPreviews }) => {
+	const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+	const { sprite } = previews;
+	const scale = Math.min(
+		THUMBNAIL_BOX.width / sprite.frameWidth,
+		THUMBNAIL_BOX.height / sprite.frameHeight,
+	);
+	const width = Math.round(sprite.frameWidth * scale);
+	const height = Math.round(sprite.frameHeight * scale);
+
+	const handleMouseMove = (e: MouseEvent<HTMLDivElement>) => {
+		const rect = e.currentTarget.getBoundingClientRect();
+		const fraction = Math.min(
+			0.999,
+			Math.max(0, (e.clientX - rect.left) / rect.width),
+		);
+		setHoverIndex(Math.floor(fraction * sprite.count));
+	};
+
+	const spriteStyle =
+		hoverIndex === null
+			? undefined
+			: {
+					backgroundImage: `url(${sprite.url})`,
+					backgroundSize: `${sprite.columns * width}px ${sprite.rows * height}px`,
+					backgroundPosition: `-${(hoverIndex % sprite.columns) * width}px -${Math.floor(hoverIndex / sprite.columns) * height}px`,
+				};
+
+	return (
+		<div
+			className="relative flex-none overflow-hidden rounded bg-black"
+			style={{ width, height }}
+			onMouseMove={handleMouseMove}
+			onMouseLeave={() => setHoverIndex(null)}
+		>
+			{hoverIndex === null ? (
+				<img
+					src={previews.posterUrl}
+					alt=""
+					loading="lazy"
+					className="h-full w-full object-cover"
+				/>
+			) : (
+				<>
+					<div className="h-full w-full" style={spriteStyle} />
+					<div
+						className="absolute bottom-0 left-0 h-0.5 bg-primary"
+						style={{ width: `${((hoverIndex + 1) / sprite.count) * 100}%` }}
+					/>
+					<div className="absolute right-1 top-1 rounded bg-black/70 px-1 text-[10px] text-white">
+						{timeToString({ time: hoverIndex * sprite.intervalMs })}
+					</div>
+				</>
+			)}
+		</div>
+	);
+};
+
 interface RendersGalleryProps {
 	open: boolean;
 	onOpenChange: (open: boolean) => void;
@@ -30,17 +145,26 @@ interface RendersGalleryProps {
 
 export const RendersGallery = ({ open, onOpenChange }: RendersGalleryProps) => {
 	const [renders, setRenders] = useState<Render[]>([]);
+	const [projects, setProjects] = useState<{ id: string; count: number }[]>([]);
+	const [projectFilter, setProjectFilter] = useState(ALL_PROJECTS);
 	const [loading, setLoading] = useState(false);
+	const currentProjectId = useDownloadState((state) => state.payload?.id);
+	const { startExport } = useDownloadState((state) => state.actions);
 
 	const fetchRenders = async () => {
 		setLoading(true);
 		try {
 			// Universal access: no session headers needed
-			const response = await fetch("/api/render/list");
+			const query =
+				projectFilter === ALL_PROJECTS
+					? ""
+					: `?projectId=${encodeURIComponent(projectFilter)}`;
+			const response = await fetch(`/api/render/list${query}`);
 
 			if (response.ok) {
 				const data = await response.json();
 				setRenders(data.renders || []);
+				setProjects(data.projects || []);
 				console.log(
 					`[renders-gallery] Loaded ${data.renders?.length || 0} renders (universal access)`,
 				);
@@ -64,12 +188,12 @@ export const RendersGallery = ({ open, onOpenChange }: RendersGalleryProps) => {
 		if (open) {
 			fetchRenders();
 		}
-	}, [open]);
+	}, [open, projectFilter]);
 
 	const handleDownload = async (render: Render) => {
 		try {
 			// Clean filename for download
-			const cleanFilename = `video_${render.id.replace("export_", "")}`;
+			const cleanFilename = `video_${render.id.replace("export_", "")}.${render.format || "mp4"}`;
 			await download(render.downloadUrl, cleanFilename);
 			toast.success("Download started");
 		} catch (error) {
@@ -85,6 +209,90 @@ export const RendersGallery = ({ open, onOpenChange }: RendersGalleryProps) => {
 		window.open(previewUrl, "_blank");
 	};
 
+	// Replaces the timeline with the design snapshot the render was made from
+	const handleOpenInEditor = async (render: Render) => {
+		if (!render.renderId) return;
+		if (
+			!window.confirm(
+				"Replace the current timeline with the design of this render?",
+			)
+		) {
+			return;
+		}
+		try {
+			const response = await fetch(`/api/render/${render.renderId}/manifest`, {
+				headers: { "x-cinetune-session": getUserSessionId() },
+			});
+			if (!response.ok) {
+				throw new Error(`Failed to load manifest: ${response.status}`);
+			}
+			const manifest = await response.json();
+			const { background, ...design } = manifest.design || {};
+			console.log(
+				`[renders-gallery] Opening design of ${render.renderId} in the editor`,
+			);
+			dispatch(DESIGN_LOAD, { payload: design });
+			if (background) {
+				useStore.setState({ background });
+			}
+			onOpenChange(false);
+			toast.success("Design opened in the editor");
+		} catch (error) {
+			console.error("Failed to open render design:", error);
+			toast.error("Could not open this render's design");
+		}
+	};
+
+	const handleRerender = (render: Render, presetId: ExportPresetId) => {
+		if (!render.renderId) return;
+		console.log(
+			`[renders-gallery] Re-rendering ${render.renderId} with ${presetId}`,
+		);
+		startExport(render.target ?? undefined, {
+			rerenderOf: render.renderId,
+			preset: presetId,
+		});
+		onOpenChange(false);
+	};
+
+	const getProjectLabel = (projectId: string): string =>
+		projectId === currentProjectId
+			? "Current project"
+			: `Project ${projectId.slice(0, 8)}`;
+
+	const formatDuration = (ms: number): string => {
+		const seconds = Math.round(ms / 1000);
+		const minutes = Math.floor(seconds / 60);
+		return minutes > 0
+			? `${minutes}m ${String(seconds % 60).padStart(2, "0")}s`
+			: `${seconds}s`;
+	};
+
+	const isAudioRender = (render: Render): boolean =>
+		!!RENDER_FILE_TYPES[render.format || ""]?.startsWith("audio/");
+
+	const isImageRender = (render: Render): boolean =>
+		!!RENDER_FILE_TYPES[render.format || ""]?.startsWith("image/") &&
+		render.format !== "gif";
+
+	// Output files are prefixed by what produced them (see render-local.cjs)
+	const getRenderTitle = (render: Render): string => {
+		if (isAudioRender(render)) return "Audio Mix";
+		if (render.filename.startsWith("contact-sheet_")) return "Contact Sheet";
+		if (render.filename.startsWith("still_")) return "Still Frame";
+		return "Video Export";
+	};
+
+	const formatLoudness = ({ input, output, target }: LoudnessReport) =>
+		[
+			`Target ${target.integrated} LUFS, ${target.truePeak} dBTP`,
+			`Mix ${input.integrated} LUFS, ${input.truePeak} dBTP`,
+			output &&
+				`Export ${output.integrated} LUFS, ${output.truePeak} dBTP, LRA ${output.lra} LU`,
+		]
+			.filter(Boolean)
+			.join("\n");
+
 	const formatFileSize = (bytes: number): string => {
 		if (bytes === 0) return "0 Bytes";
 		const k = 1024;
@@ -122,17 +330,32 @@ export const RendersGallery = ({ open, onOpenChange }: RendersGalleryProps) => {
 					<div className="text-sm text-muted-foreground">
 						{loading ? "Loading..." : `${renders.length} videos available`}
 					</div>
-					<Button
-						variant="outline"
-						size="sm"
-						onClick={fetchRenders}
-						disabled={loading}
-					>
-						<RefreshCw
-							className={`h-4 w-4 mr-2 ${loading ? "animate-spin" : ""}`}
-						/>
-						Refresh
-					</Button>
+					<div className="flex items-center gap-2">
+						<Select value={projectFilter} onValueChange={setProjectFilter}>
+							<SelectTrigger className="h-8 w-48 text-xs">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent className="z-[300]">
+								<SelectItem value={ALL_PROJECTS}>All projects</SelectItem>
+								{projects.map((project) => (
+									<SelectItem key={project.id} value={project.id}>
+										{getProjectLabel(project.id)} ({project.count})
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+						<Button
+							variant="outline"
+							size="sm"
+							onClick={fetchRenders}
+							disabled={loading}
+						>
+							<RefreshCw
+								className={`h-4 w-4 mr-2 ${loading ? "animate-spin" : ""}`}
+							/>
+							Refresh
+						</Button>
+					</div>
 				</div>
 
 				<ScrollArea className="h-[60vh]">
@@ -157,13 +380,48 @@ export const RendersGallery = ({ open, onOpenChange }: RendersGalleryProps) => {
 								>
 									<CardContent className="p-4">
 										<div className="flex items-center justify-between">
+											{render.previews ? (
+												<div className="mr-4">
+													<RenderThumbnail previews={render.previews} />
+												</div>
+											) : (
+												isImageRender(render) && (
+													<img
+														src={render.downloadUrl}
+														alt=""
+														loading="lazy"
+														className="mr-4 h-[90px] w-[160px] flex-none rounded bg-black object-contain"
+													/>
+												)
+											)}
 											<div className="flex-1 min-w-0">
 												<div className="flex items-center gap-2 mb-1">
-													<FileVideo className="h-4 w-4 text-primary" />
-													<h3 className="font-medium truncate">Video Export</h3>
+													{isAudioRender(render) ? (
+														<Music className="h-4 w-4 text-primary" />
+													) : (
+														<FileVideo className="h-4 w-4 text-primary" />
+													)}
+													<h3 className="font-medium truncate">
+														{getRenderTitle(render)}
+													</h3>
 													<Badge variant="outline" className="text-xs">
-														MP4
+														{(render.format || "mp4").toUpperCase()}
 													</Badge>
+													{render.preset && (
+														<Badge variant="secondary" className="text-xs">
+															{render.preset.name}
+														</Badge>
+													)}
+													{render.loudness?.output && (
+														<Badge
+															variant="secondary"
+															className="text-xs"
+															title={formatLoudness(render.loudness)}
+														>
+															{render.loudness.output.integrated?.toFixed(1)}{" "}
+															LUFS
+														</Badge>
+													)}
 												</div>
 
 												<div className="flex items-center gap-4 text-sm text-muted-foreground">
@@ -172,26 +430,100 @@ export const RendersGallery = ({ open, onOpenChange }: RendersGalleryProps) => {
 														{formatDate(render.createdAt)}
 													</div>
 													<div>{formatFileSize(render.size)}</div>
+													{render.durationMs ? (
+														<div>{formatDuration(render.durationMs)} long</div>
+													) : null}
+													{render.renderTimeMs ? (
+														<div className="flex items-center gap-1">
+															<Clock className="h-3 w-3" />
+															rendered in {formatDuration(render.renderTimeMs)}
+														</div>
+													) : null}
 												</div>
 
 												<div className="text-xs text-muted-foreground mt-1">
 													{render.filename}
 												</div>
+
+												{/* Audio renders play inline instead of opening a preview */}
+												{isAudioRender(render) && (
+													<audio
+														controls
+														preload="none"
+														src={render.downloadUrl}
+														className="mt-2 h-8 w-full"
+														onClick={(e) => e.stopPropagation()}
+													/>
+												)}
 											</div>
 
 											<div className="flex items-center gap-2 ml-4">
-												<Button
-													variant="ghost"
-													size="sm"
-													onClick={(e) => {
-														e.stopPropagation();
-														handlePreview(render);
-													}}
-													className="h-8 w-8 p-0"
-													title="Preview video"
-												>
-													<Play className="h-4 w-4" />
-												</Button>
+												{render.renderId && (
+													<Button
+														variant="ghost"
+														size="sm"
+														onClick={(e) => {
+															e.stopPropagation();
+															handleOpenInEditor(render);
+														}}
+														className="h-8 w-8 p-0"
+														title="Open design in editor"
+													>
+														<FolderOpen className="h-4 w-4" />
+													</Button>
+												)}
+
+												{/* Presets only apply to video renders */}
+												{render.renderId &&
+													(render.target?.kind ?? "video") === "video" && (
+														<DropdownMenu>
+															<DropdownMenuTrigger asChild>
+																<Button
+																	variant="ghost"
+																	size="sm"
+																	onClick={(e) => e.stopPropagation()}
+																	className="h-8 w-8 p-0"
+																	title="Re-render with another preset"
+																>
+																	<Repeat className="h-4 w-4" />
+																</Button>
+															</DropdownMenuTrigger>
+															<DropdownMenuContent
+																align="end"
+																className="z-[300]"
+															>
+																<DropdownMenuLabel className="text-xs">
+																	Re-render as
+																</DropdownMenuLabel>
+																{EXPORT_PRESETS.map((preset) => (
+																	<DropdownMenuItem
+																		key={preset.id}
+																		disabled={preset.id === render.preset?.id}
+																		onClick={() =>
+																			handleRerender(render, preset.id)
+																		}
+																	>
+																		{preset.name}
+																	</DropdownMenuItem>
+																))}
+															</DropdownMenuContent>
+														</DropdownMenu>
+													)}
+
+												{!isAudioRender(render) && (
+													<Button
+														variant="ghost"
+														size="sm"
+														onClick={(e) => {
+															e.stopPropagation();
+															handlePreview(render);
+														}}
+														className="h-8 w-8 p-0"
+														title="Preview video"
+													>
+														<Play className="h-4 w-4" />
+													</Button>
+												)}
 
 												<Button
 													variant="ghost"
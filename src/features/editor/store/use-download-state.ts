@@ -1,7 +1,25 @@
 import { IDesign } from "@designcombo/types";
+import { generateId } from "@designcombo/timeline";
 import { create } from "zustand";
 import useStore from "./use-store";
 import { getUserSessionId } from "@/utils/session";
+import {
+	DEFAULT_EXPORT_PRESET_ID,
+	ExportPresetId,
+	AUDIO_EXPORT_FORMATS,
+	ExportTarget,
+	STILL_IMAGE_FORMATS,
+	getExportPreset,
+} from "../constants/export-presets";
+import type { BundleCacheStatus, RenderStage } from "@/lib/render-queue";
+import type { DesignIssue } from "@/lib/design-schema";
+
+type ExportOptions = {
+	rerenderOf?: string;
+	preset?: ExportPresetId;
+	// Set once the user has accepted pre-flight warnings
+	skipPreflight?: boolean;
+};
 interface Output {
 	url: string;
 	type: string;
@@ -11,34 +29,91 @@ interface DownloadState {
 	projectId: string;
 	exporting: boolean;
 	exportType: "json" | "mp4";
+	exportPreset: ExportPresetId;
 	progress: number;
 	output?: Output;
 	payload?: IDesign;
 	displayProgressModal: boolean;
+	// Local render job tracked by /api/render/start
+	renderId?: string;
+	renderStatus?: "queued" | "rendering" | "completed" | "error" | "cancelled";
+	queuePosition?: number | null;
+	renderStage?: RenderStage;
+	renderedFrames?: number | null;
+	totalFrames?: number | null;
+	bundleCache?: BundleCacheStatus | null;
+	// Estimated milliseconds until the render finishes
+	eta?: number | null;
+	renderError?: { message: string; stderr: string };
+	// Design checks run before the render is queued
+	preflightStatus?: "checking" | "failed" | "warnings";
+	preflightIssues?: DesignIssue[];
+	// Export waiting for the user to accept pre-flight warnings
+	pendingExport?: { target: ExportTarget; options: ExportOptions };
 	actions: {
 		setProjectId: (projectId: string) => void;
+		// Id the project's renders are filed under: the scene id when the
+		// editor has one, otherwise generated once per editor session
+		getProjectId: () => string;
 		setExporting: (exporting: boolean) => void;
 		setExportType: (exportType: "json" | "mp4") => void;
+		setExportPreset: (exportPreset: ExportPresetId) => void;
 		setProgress: (progress: number) => void;
 		setState: (state: Partial<DownloadState>) => void;
 		setOutput: (output: Output) => void;
-		startExport: () => void;
+		// Defaults to the whole timeline as a video. With `rerenderOf` the
+		// server reuses that render's design snapshot instead of the payload.
+		startExport: (target?: ExportTarget, options?: ExportOptions) => void;
+		// Continues a pending export despite pre-flight warnings
+		confirmExport: () => void;
+		cancelExport: () => Promise<void>;
 		setDisplayProgressModal: (displayProgressModal: boolean) => void;
 	};
 }
 
 //const baseUrl = "https://api.combo.sh/v1";
 
+// Attempts to reopen a progress stream the server closed, about 4 minutes
+// of backing off
+const MAX_STREAM_RECONNECTS = 12;
+
+// File extension of a finished render, used to name the download
+const getOutputType = (
+	target: ExportTarget,
+	presetId: string | null,
+	fallback: string,
+): string => {
+	switch (target.kind) {
+		case "audio":
+			return AUDIO_EXPORT_FORMATS[target.audioFormat].extension;
+		case "still":
+		case "contact-sheet":
+			return STILL_IMAGE_FORMATS[target.imageFormat].extension;
+		default:
+			return getExportPreset(presetId)?.extension || fallback;
+	}
+};
+
 export const useDownloadState = create<DownloadState>((set, get) => ({
 	projectId: "",
 	exporting: false,
 	exportType: "mp4",
+	exportPreset: DEFAULT_EXPORT_PRESET_ID,
 	progress: 0,
 	displayProgressModal: false,
 	actions: {
 		setProjectId: (projectId) => set({ projectId }),
+		getProjectId: () => {
+			let { projectId } = get();
+			if (!projectId) {
+				projectId = generateId();
+				set({ projectId });
+			}
+			return projectId;
+		},
 		setExporting: (exporting) => set({ exporting }),
 		setExportType: (exportType) => set({ exportType }),
+		setExportPreset: (exportPreset) => set({ exportPreset }),
 		setProgress: (progress) => {
 			console.log(`🎬 [CineTune Render] Progress: ${progress}%`);
 			set({ progress });
@@ -47,28 +122,103 @@ export const useDownloadState = create<DownloadState>((set, get) => ({
 		setOutput: (output) => set({ output }),
 		setDisplayProgressModal: (displayProgressModal) =>
 			set({ displayProgressModal }),
-		startExport: async () => {
+		startExport: async (target = { kind: "video" }, options = {}) => {
 			try {
 				console.log(`🚀 [CineTune Render] Starting export process...`);
-				set({ exporting: true, displayProgressModal: true, progress: 0 });
+				set({
+					exporting: true,
+					displayProgressModal: true,
+					progress: 0,
+					output: undefined,
+					renderId: undefined,
+					renderStatus: "queued",
+					renderStage: "queued",
+					queuePosition: null,
+					renderedFrames: null,
+					totalFrames: null,
+					bundleCache: null,
+					eta: null,
+					renderError: undefined,
+					preflightStatus: undefined,
+					preflightIssues: undefined,
+					pendingExport: undefined,
+				});
 				const { payload } = get();
-				if (!payload) {
-					console.error(`❌ [CineTune Render] Payload is not defined`);
-					throw new Error("Payload is not defined");
+				const exportPreset = options.preset ?? get().exportPreset;
+
+				let requestBody: Record<string, unknown>;
+				if (options.rerenderOf) {
+					requestBody = {
+						rerenderOf: options.rerenderOf,
+						preset: exportPreset,
+						target,
+					};
+				} else {
+					if (!payload) {
+						console.error(`❌ [CineTune Render] Payload is not defined`);
+						throw new Error("Payload is not defined");
+					}
+
+					console.log(`📋 [CineTune Render] Export payload:`, {
+						id: payload.id,
+						size: payload.size,
+						fps: payload.fps || 30,
+						duration: payload.duration,
+						trackItemsCount: Array.isArray((payload as any).trackItems)
+							? (payload as any).trackItems.length
+							: Object.keys((payload as any).trackItemsMap || {}).length,
+					});
+
+					// Get current background from store
+					const { background } = useStore.getState();
+
+					requestBody = {
+						design: {
+							id: payload.id,
+							size: payload.size,
+							fps: payload.fps || 30,
+							duration: payload.duration,
+							background: background,
+							trackItems: Array.isArray((payload as any).trackItems)
+								? (payload as any).trackItems
+								: Object.values((payload as any).trackItemsMap || {}),
+							tracks: (payload as any).tracks || [],
+							transitionsMap: (payload as any).transitionsMap || {},
+						},
+						preset: exportPreset,
+						target,
+					};
 				}
 
-				console.log(`📋 [CineTune Render] Export payload:`, {
-					id: payload.id,
-					size: payload.size,
-					fps: payload.fps || 30,
-					duration: payload.duration,
-					trackItemsCount: Array.isArray((payload as any).trackItems)
-						? (payload as any).trackItems.length
-						: Object.keys((payload as any).trackItemsMap || {}).length,
-				});
+				// Re-renders are checked by the server against the stored design
+				if (!options.rerenderOf && !options.skipPreflight) {
+					set({ preflightStatus: "checking" });
+					const preflightRes = await fetch(`/api/render/preflight`, {
+						method: "POST",
+						headers: { "Content-Type": "application/json" },
+						body: JSON.stringify({ design: requestBody.design }),
+					});
+					if (!preflightRes.ok) {
+						throw new Error(
+							`Pre-flight check failed with status ${preflightRes.status}`,
+						);
+					}
+					const preflight = await preflightRes.json();
+					const issues: DesignIssue[] = preflight.issues || [];
 
-				// Get current background from store
-				const { background } = useStore.getState();
+					if (!preflight.ok || issues.length > 0) {
+						set({
+							exporting: false,
+							renderStatus: undefined,
+							renderStage: undefined,
+							preflightStatus: preflight.ok ? "warnings" : "failed",
+							preflightIssues: issues,
+							pendingExport: preflight.ok ? { target, options } : undefined,
+						});
+						return;
+					}
+					set({ preflightStatus: undefined });
+				}
 
 				// Get user session ID
 				const sessionId = getUserSessionId();
@@ -85,20 +235,7 @@ export const useDownloadState = create<DownloadState>((set, get) => ({
 						"Content-Type": "application/json",
 						"x-cinetune-session": sessionId,
 					},
-					body: JSON.stringify({
-						design: {
-							id: payload.id,
-							size: payload.size,
-							fps: payload.fps || 30,
-							duration: payload.duration,
-							background: background,
-							trackItems: Array.isArray((payload as any).trackItems)
-								? (payload as any).trackItems
-								: Object.values((payload as any).trackItemsMap || {}),
-							tracks: (payload as any).tracks || [],
-							transitionsMap: (payload as any).transitionsMap || {},
-						},
-					}),
+					body: JSON.stringify(requestBody),
 				});
 
 				if (!startRes.ok) {
@@ -127,133 +264,161 @@ export const useDownloadState = create<DownloadState>((set, get) => ({
 						timestamp: new Date().toISOString(),
 					});
 
+					// The server's own pre-flight found problems
+					if (Array.isArray(info?.issues)) {
+						set({
+							exporting: false,
+							renderStatus: undefined,
+							renderStage: undefined,
+							preflightStatus: "failed",
+							preflightIssues: info.issues,
+						});
+						return;
+					}
+
 					throw new Error(
 						info?.message ||
 							`Render start failed with status ${startRes.status}`,
 					);
 				}
 
-				const { renderId } = await startRes.json();
-				console.log(`🔄 [CineTune Render] Render started with ID: ${renderId}`);
+				const { renderId, position } = await startRes.json();
+				console.log(
+					`🔄 [CineTune Render] Render queued with ID: ${renderId} (position ${position ?? "-"})`,
+				);
+				set({ renderId, queuePosition: position ?? null });
 
-				// Poll for progress updates
-				const pollInterval = setInterval(async () => {
-					try {
-						const progressRes = await fetch(`/api/render/start?id=${renderId}`);
-						if (!progressRes.ok) {
-							let errorInfo: any = {};
-							try {
-								errorInfo = await progressRes.json();
-							} catch (parseError) {
-								console.error(
-									`❌ [CineTune Render] Failed to parse progress error response:`,
-									parseError,
-								);
-							}
+				// Stream stage and progress updates until the render finishes. Long
+				// queues and renders are fine: the stream only ends with the render.
+				let events: EventSource | undefined;
+				let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+				let reconnectAttempts = 0;
+				const stopStreaming = () => {
+					events?.close();
+					clearTimeout(reconnectTimer);
+				};
 
-							console.error(
-								`❌ [CineTune Render] Progress poll failed (${progressRes.status}):`,
-								errorInfo,
-							);
+				// Another export may have been started or this one cancelled
+				const isCurrent = () => {
+					if (get().renderId === renderId) return true;
+					stopStreaming();
+					return false;
+				};
 
-							// Log detailed progress poll error
-							console.error(
-								`❌ [CineTune Render] Progress poll error details:`,
-								{
-									status: progressRes.status,
-									statusText: progressRes.statusText,
-									url: progressRes.url,
-									body: errorInfo,
-									renderId: renderId,
-									timestamp: new Date().toISOString(),
-								},
-							);
-							return;
-						}
+				const applyUpdate = (data: any) => {
+					set({
+						renderStatus: data.status,
+						renderStage: data.stage,
+						queuePosition: data.position ?? null,
+						renderedFrames: data.renderedFrames ?? null,
+						totalFrames: data.totalFrames ?? null,
+						bundleCache: data.bundleCache ?? null,
+						eta: data.eta ?? null,
+					});
+					if (data.progress !== undefined) {
+						get().actions.setProgress(data.progress);
+					}
+				};
 
-						const progressData = await progressRes.json();
-						console.log(`📊 [CineTune Render] Progress update:`, {
-							status: progressData.status,
-							progress: progressData.progress,
-							elapsed: progressData.elapsed,
-						});
+				const connect = () => {
+					const source = new EventSource(`/api/render/${renderId}/events`);
+					events = source;
 
-						// Update progress
-						if (progressData.progress !== undefined) {
-							get().actions.setProgress(progressData.progress);
-						}
+					source.addEventListener("progress", (event) => {
+						if (!isCurrent()) return;
+						reconnectAttempts = 0;
+						applyUpdate(JSON.parse((event as MessageEvent).data));
+					});
 
-						// Handle completion
-						if (progressData.status === "completed") {
-							clearInterval(pollInterval);
+					source.addEventListener("done", (event) => {
+						stopStreaming();
+						if (!isCurrent()) return;
+						const data = JSON.parse((event as MessageEvent).data);
 
-							const endTime = Date.now();
-							const duration = (endTime - startTime) / 1000;
+						const duration = (Date.now() - startTime) / 1000;
+						console.log(
+							`✅ [CineTune Render] Render completed in ${duration.toFixed(2)}s: ${data.url}`,
+						);
 
-							console.log(
-								`✅ [CineTune Render] Render completed successfully!`,
-							);
-							console.log(
-								`⏱️ [CineTune Render] Total render time: ${duration.toFixed(2)} seconds`,
-							);
-							console.log(
-								`🎥 [CineTune Render] Video URL: ${progressData.url}`,
-							);
+						applyUpdate(data);
+						get().actions.setProgress(100);
+						set({
+							exporting: false,
+							eta: null,
+							output: {
+								url: data.url,
+								type: getOutputType(target, data.preset, get().exportType),
+							},
+						});
+					});
 
-							get().actions.setProgress(100);
-							set({
-								exporting: false,
-								output: { url: progressData.url, type: get().exportType },
-							});
-						}
+					source.addEventListener("cancelled", () => {
+						stopStreaming();
+						if (!isCurrent()) return;
+						set({
+							exporting: false,
+							progress: 0,
+							renderStatus: "cancelled",
+							renderStage: "cancelled",
+						});
+					});
 
-						// Handle errors
-						if (progressData.status === "error") {
-							clearInterval(pollInterval);
+					// Named "error" events carry the render failure. The browser also
+					// fires a plain "error" on connection loss, without data. It
+					// retries by itself unless the response was an HTTP error, which
+					// closes the source; reconnect then, backing off.
+					source.addEventListener("error", (event) => {
+						const raw = (event as MessageEvent).data;
+						if (!raw) {
+							if (source.readyState !== EventSource.CLOSED) return;
+							if (!isCurrent()) return;
+							if (reconnectAttempts >= MAX_STREAM_RECONNECTS) {
+								set({
+									exporting: false,
+									renderStatus: "error",
+									renderStage: "error",
+									eta: null,
+									renderError: {
+										message: "Lost the connection to the render",
+										stderr: "",
+									},
+								});
+								return;
+							}
+							const delay = Math.min(30000, 1000 * 2 ** reconnectAttempts++);
+							console.warn(
+								`⚠️ [CineTune Render] Progress stream closed, reconnecting in ${delay}ms`,
+							);
+							reconnectTimer = setTimeout(() => {
+								if (isCurrent()) connect();
+							}, delay);
+							return;
+						}
+						stopStreaming();
+						if (!isCurrent()) return;
+						const data = JSON.parse(raw);
 
-							// Log comprehensive error information
+						console.error(`❌ [CineTune Render] Render failed:`, data.error);
+						if (data.stderr) {
 							console.error(
-								`❌ [CineTune Render] Render failed:`,
-								progressData.error,
+								`❌ [CineTune Render] Server stderr output:`,
+								data.stderr,
 							);
-							console.error(`❌ [CineTune Render] Server error details:`, {
-								error: progressData.error,
-								stderr: progressData.stderr,
-								renderId: renderId,
-								elapsed: progressData.elapsed,
-								startTime: progressData.startTime,
-								timestamp: new Date().toISOString(),
-							});
-
-							// Log stderr output if available (contains script errors)
-							if (progressData.stderr) {
-								console.error(
-									`❌ [CineTune Render] Server stderr output:`,
-									progressData.stderr,
-								);
-							}
-
-							throw new Error(progressData.error || "Render failed");
 						}
-					} catch (pollError) {
-						console.error(
-							`❌ [CineTune Render] Progress polling failed:`,
-							pollError,
-						);
-						// Continue polling unless it's a critical error
-					}
-				}, 1000); // Poll every second
 
-				// Set timeout to prevent infinite polling
-				setTimeout(() => {
-					clearInterval(pollInterval);
-					if (get().exporting) {
-						console.error(
-							`⏰ [CineTune Render] Render timeout after 10 minutes`,
-						);
-						set({ exporting: false, progress: 0 });
-					}
-				}, 600000); // 10 minute timeout
+						set({
+							exporting: false,
+							renderStatus: "error",
+							renderStage: "error",
+							eta: null,
+							renderError: {
+								message: data.error || "Render failed",
+								stderr: data.stderr || "",
+							},
+						});
+					});
+				};
+				connect();
 			} catch (error) {
 				console.error(`💥 [CineTune Render] Export failed:`, error);
 				console.error(`💥 [CineTune Render] Error details:`, {
@@ -261,8 +426,59 @@ export const useDownloadState = create<DownloadState>((set, get) => ({
 					stack: (error as Error)?.stack,
 					name: (error as Error)?.name,
 				});
-				set({ exporting: false, progress: 0 });
+				set({
+					exporting: false,
+					progress: 0,
+					renderStatus: "error",
+					renderStage: "error",
+					renderError: {
+						message: (error as Error)?.message || "Export failed",
+						stderr: "",
+					},
+				});
+			}
+		},
+		confirmExport: () => {
+			const { pendingExport } = get();
+			if (!pendingExport) return;
+			get().actions.startExport(pendingExport.target, {
+				...pendingExport.options,
+				skipPreflight: true,
+			});
+		},
+		cancelExport: async () => {
+			const { renderId } = get();
+			if (!renderId) {
+				set({ exporting: false, displayProgressModal: false });
+				return;
+			}
+
+			try {
+				const res = await fetch(`/api/render/${renderId}`, {
+					method: "DELETE",
+					headers: { "x-cinetune-session": getUserSessionId() },
+				});
+				if (!res.ok) {
+					const info = await res.json().catch(() => ({}));
+					console.error(
+						`❌ [CineTune Render] Cancel failed (${res.status}):`,
+						info,
+					);
+					// The render already finished; let polling report the result
+					if (res.status === 409) return;
+				}
+			} catch (error) {
+				console.error(`❌ [CineTune Render] Cancel request failed:`, error);
 			}
+
+			set({
+				exporting: false,
+				progress: 0,
+				renderStatus: "cancelled",
+				renderStage: "cancelled",
+				queuePosition: null,
+				eta: null,
+			});
 		},
 	},
 }));
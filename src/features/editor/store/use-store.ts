@@ -1,4 +1,5 @@
 import Timeline from "@designcombo/timeline";
+import type StateManager from "@designcombo/state";
 import {
 	IComposition,
 	ISize,
@@ -36,6 +37,8 @@ interface ITimelineStore {
 
 	sceneMoveableRef: React.RefObject<Moveable> | null;
 	setSceneMoveableRef: (ref: React.RefObject<Moveable>) => void;
+	stateManager: StateManager | null;
+	setStateManager: (stateManager: StateManager) => void;
 	setState: (state: any) => Promise<void>;
 	compositions: Partial<IComposition>[];
 	setCompositions: (compositions: Partial<IComposition>[]) => void;
@@ -50,6 +53,13 @@ interface ITimelineStore {
 	// Auto composition feature
 	autoComposition: boolean;
 	setAutoComposition: (autoComposition: boolean) => void;
+
+	// Export in/out points in milliseconds; null means start/end of timeline
+	inPoint: number | null;
+	outPoint: number | null;
+	setInPoint: (inPoint: number | null) => void;
+	setOutPoint: (outPoint: number | null) => void;
+	clearInOutPoints: () => void;
 }
 
 const useStore = create<ITimelineStore>()(
@@ -73,6 +83,31 @@ const useStore = create<ITimelineStore>()(
 		autoComposition: false,
 		setAutoComposition: (autoComposition) => set({ autoComposition }),
 
+		inPoint: null,
+		outPoint: null,
+		// Setting one point past the other drops the other one
+		setInPoint: (inPoint) =>
+			set((state) => ({
+				inPoint,
+				outPoint:
+					inPoint !== null &&
+					state.outPoint !== null &&
+					state.outPoint <= inPoint
+						? null
+						: state.outPoint,
+			})),
+		setOutPoint: (outPoint) =>
+			set((state) => ({
+				outPoint,
+				inPoint:
+					outPoint !== null &&
+					state.inPoint !== null &&
+					state.inPoint >= outPoint
+						? null
+						: state.inPoint,
+			})),
+		clearInOutPoints: () => set({ inPoint: null, outPoint: null }),
+
 		timeline: null,
 		duration: 1000,
 		fps: 30,
@@ -97,6 +132,7 @@ const useStore = create<ITimelineStore>()(
 		transitionsMap: {},
 		trackItemsMap: {},
 		sceneMoveableRef: null,
+		stateManager: null,
 
 		setTimeline: (timeline: Timeline) =>
 			set(() => ({
@@ -123,6 +159,7 @@ const useStore = create<ITimelineStore>()(
 		setPlayerRef: (playerRef: React.RefObject<PlayerRef> | null) =>
 			set({ playerRef }),
 		setSceneMoveableRef: (ref) => set({ sceneMoveableRef: ref }),
+		setStateManager: (stateManager) => set({ stateManager }),
 	})),
 );
 
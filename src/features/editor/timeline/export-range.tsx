@@ -0,0 +1,37 @@
+import useStore from "../store/use-store";
+import { timeMsToUnits } from "../utils/timeline";
+import { TIMELINE_OFFSET_CANVAS_LEFT } from "../constants/constants";
+import { useTimelineOffsetX } from "../hooks/use-timeline-offset";
+
+// Highlights the export in/out range on the ruler. Purely visual - clicks
+// pass through to the ruler so seeking keeps working.
+const ExportRange = ({ scrollLeft }: { scrollLeft: number }) => {
+	const { inPoint, outPoint, duration, scale } = useStore();
+	const timelineOffsetX = useTimelineOffsetX();
+
+	if (inPoint === null && outPoint === null) return null;
+
+	const start = inPoint ?? 0;
+	const end = outPoint ?? duration;
+	const left =
+		timelineOffsetX +
+		TIMELINE_OFFSET_CANVAS_LEFT +
+		timeMsToUnits(start, scale.zoom) -
+		scrollLeft;
+	const width = timeMsToUnits(Math.max(0, end - start), scale.zoom);
+
+	return (
+		<div
+			className="pointer-events-none absolute border-x-2 border-primary bg-primary/20"
+			style={{
+				left,
+				width,
+				top: 50,
+				height: 40,
+				zIndex: 9,
+			}}
+		/>
+	);
+};
+
+export default ExportRange;
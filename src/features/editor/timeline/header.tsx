@@ -17,7 +17,7 @@ import {
 	getNextZoomLevel,
 	getPreviousZoomLevel,
 } from "../utils/timeline";
-import { LayoutGrid, Volume2, VolumeX } from "lucide-react";
+import { LayoutGrid, Volume2, VolumeX, X } from "lucide-react";
 import { useState, useEffect } from "react";
 
 const IconPlayerPauseFilled = ({ size }: { size: number }) => (
@@ -99,6 +99,11 @@ const Header = () => {
 		autoComposition,
 		setAutoComposition,
 		trackItemsMap,
+		inPoint,
+		outPoint,
+		setInPoint,
+		setOutPoint,
+		clearInOutPoints,
 	} = useStore();
 	const currentFrame = useCurrentPlayerFrame(playerRef);
 	const isLargeScreen = useIsLargeScreen();
@@ -173,6 +178,10 @@ const Header = () => {
 		});
 	};
 
+	// Export range: mark the playhead position as in/out point
+	const currentTimeMs = (currentFrame / fps) * 1000;
+	const hasExportRange = inPoint !== null || outPoint !== null;
+
 	// Auto composition logic
 	const handleAutoCompositionToggle = () => {
 		setAutoComposition(!autoComposition);
@@ -229,6 +238,45 @@ const Header = () => {
 						<span className="hidden lg:block">Clone</span>
 					</Button>
 				</div>
+				<div className="flex items-center">
+					<Button
+						onClick={() => setInPoint(currentTimeMs)}
+						variant={inPoint !== null ? "secondary" : "ghost"}
+						size={"sm"}
+						className="h-8 px-2"
+						title={
+							inPoint !== null
+								? `Export in point: ${timeToString({ time: inPoint })}`
+								: "Set export in point at playhead"
+						}
+					>
+						In
+					</Button>
+					<Button
+						onClick={() => setOutPoint(currentTimeMs)}
+						variant={outPoint !== null ? "secondary" : "ghost"}
+						size={"sm"}
+						className="h-8 px-2"
+						title={
+							outPoint !== null
+								? `Export out point: ${timeToString({ time: outPoint })}`
+								: "Set export out point at playhead"
+						}
+					>
+						Out
+					</Button>
+					{hasExportRange && (
+						<Button
+							onClick={clearInOutPoints}
+							variant={"ghost"}
+							size={"icon"}
+							className="h-6 w-6"
+							title="Clear export range"
+						>
+							<X size={14} />
+						</Button>
+					)}
+				</div>
 				{/* Mute/Unmute Button */}
 				{hasSelectedVideos && (
 					<div className="flex items-center">
@@ -11,6 +11,7 @@ import {
 } from "@designcombo/timeline";
 import useStore from "../store/use-store";
 import Playhead from "./playhead";
+import ExportRange from "./export-range";
 import { useCurrentPlayerFrame } from "../hooks/use-current-frame";
 import { Audio, Image, Text, Video } from "./items";
 import StateManager, { REPLACE_MEDIA } from "@designcombo/state";
@@ -318,6 +319,7 @@ const Timeline = memo(({ stateManager }: { stateManager: StateManager }) => {
 				scrollLeft={scrollLeft}
 				onScroll={onRulerScroll}
 			/>
+			<ExportRange scrollLeft={scrollLeft} />
 			<Playhead scrollLeft={scrollLeft} />
 			<div className="flex">
 				<div
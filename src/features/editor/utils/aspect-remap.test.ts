@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ASPECT_VARIANTS } from "../constants/aspect-variants";
+import { remapTrackItems } from "./aspect-remap";
+
+const LANDSCAPE = { width: 1920, height: 1080 };
+// 16:9, 9:16 and 1:1, in that order
+const [, portrait, square] = ASPECT_VARIANTS;
+
+const item = (type: string, details: Record<string, unknown>) => ({
+	id: `${type}-1`,
+	type,
+	details: { transform: "none", ...details },
+});
+
+// The box an item covers on screen: scale() applies around the box centre
+const visualBounds = (details: any) => {
+	const scale = Number(/scale\(([\d.]+)\)/.exec(details.transform)?.[1]);
+	const width = Number(details.width) * scale;
+	const height = Number(details.height) * scale;
+	const centerX = Number.parseFloat(details.left) + Number(details.width) / 2;
+	const centerY = Number.parseFloat(details.top) + Number(details.height) / 2;
+	return {
+		left: centerX - width / 2,
+		right: centerX + width / 2,
+		top: centerY - height / 2,
+		bottom: centerY + height / 2,
+	};
+};
+
+describe("remapTrackItems", () => {
+	const footage = item("video", {
+		width: 1920,
+		height: 1080,
+		left: "0px",
+		top: "0px",
+	});
+
+	it("letterboxes full-frame footage with the fit rule", () => {
+		const [remapped] = remapTrackItems([footage], LANDSCAPE, portrait, {
+			media: "fit",
+			captionsInSafeArea: true,
+		});
+		assert.equal(remapped.details.transform, "scale(0.563)");
+		assert.equal(remapped.details.left, "-420px");
+		assert.equal(remapped.details.top, "420px");
+	});
+
+	it("crops full-frame footage with the fill rule", () => {
+		const [remapped] = remapTrackItems([footage], LANDSCAPE, portrait, {
+			media: "fill",
+			captionsInSafeArea: true,
+		});
+		assert.equal(remapped.details.transform, "scale(1.778)");
+	});
+
+	it("keeps overlays in the same relative spot, scaled with the frame", () => {
+		const logo = item("image", {
+			width: 200,
+			height: 100,
+			left: "100px",
+			top: "100px",
+		});
+		const [remapped] = remapTrackItems([logo], LANDSCAPE, square);
+		assert.equal(remapped.details.transform, "scale(0.563)");
+		assert.equal(remapped.details.left, "12.5px");
+		assert.equal(remapped.details.top, "100px");
+	});
+
+	it("leaves audio untouched", () => {
+		const audio = item("audio", { src: "a.mp3" });
+		assert.equal(remapTrackItems([audio], LANDSCAPE, portrait)[0], audio);
+	});
+
+	it("narrows and moves captions into the safe area", () => {
+		const caption = item("text", {
+			width: 1800,
+			height: 100,
+			left: "60px",
+			top: "960px",
+			originalIndex: 0,
+		});
+		const [remapped] = remapTrackItems([caption], LANDSCAPE, portrait);
+		const { width, height } = portrait.size;
+		const { safeArea } = portrait;
+		const bounds = visualBounds(remapped.details);
+
+		// Within a pixel: the written scale is rounded
+		assert.ok(remapped.details.width < 1800, "caption box was narrowed");
+		assert.ok(bounds.left >= width * safeArea.left - 1);
+		assert.ok(bounds.right <= width * (1 - safeArea.right) + 1);
+		assert.ok(bounds.bottom <= height * (1 - safeArea.bottom) + 1);
+	});
+
+	it("lets captions leave the safe area when the rule is off", () => {
+		const caption = item("text", {
+			width: 1800,
+			height: 100,
+			left: "60px",
+			top: "960px",
+			originalIndex: 0,
+		});
+		const [remapped] = remapTrackItems([caption], LANDSCAPE, portrait, {
+			media: "fit",
+			captionsInSafeArea: false,
+		});
+		assert.equal(remapped.details.width, 1800);
+	});
+});
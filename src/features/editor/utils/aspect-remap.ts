@@ -0,0 +1,176 @@
+import type { AspectVariant } from "../constants/aspect-variants";
+import { isCaptionItem } from "./caption-sidecars";
+
+// Lays a design's items out again for another frame size, so one project can
+// be rendered as vertical, square and landscape versions. Items keep their
+// box (details.width/height) and are moved with left/top and resized with the
+// scale() in their transform, which applies around the box centre.
+//
+// Media that fills the frame in one direction is fitted (letterboxed) or
+// filled (cropped) to the new frame. Everything else keeps its relative
+// position and shrinks or grows with the frame. Captions can also be kept
+// inside the target's safe area, rewrapping them when they are too wide.
+
+export type MediaFitRule = "fit" | "fill";
+
+export interface AspectRemapRules {
+	media: MediaFitRule;
+	captionsInSafeArea: boolean;
+}
+
+export const DEFAULT_REMAP_RULES: AspectRemapRules = {
+	media: "fit",
+	captionsInSafeArea: true,
+};
+
+type Size = { width: number; height: number };
+
+// Media covering this much of the frame's width or height counts as
+// full-frame footage rather than an overlay
+const FULL_FRAME_COVERAGE = 0.95;
+const SCALE_PATTERN = /scale\(\s*(-?[\d.]+)(?:\s*,\s*(-?[\d.]+))?\s*\)/;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+const readPx = (value: unknown) => {
+	const number = Number.parseFloat(String(value ?? 0));
+	return Number.isFinite(number) ? number : 0;
+};
+
+const readScale = (transform: string | undefined) => {
+	const match = SCALE_PATTERN.exec(transform ?? "");
+	if (!match) return { x: 1, y: 1 };
+	const x = Number(match[1]);
+	return { x, y: match[2] === undefined ? x : Number(match[2]) };
+};
+
+const writeScale = (transform: string | undefined, scale: number) => {
+	const value = `scale(${round(scale)})`;
+	if (transform && SCALE_PATTERN.test(transform)) {
+		return transform.replace(SCALE_PATTERN, value);
+	}
+	return transform && transform !== "none" ? `${transform} ${value}` : value;
+};
+
+// Moves a box of visual size `width` x `height` centred on `center` so it
+// lies inside `bounds`, if it fits at all
+const clampCenter = (
+	center: { x: number; y: number },
+	visual: Size,
+	bounds: { x: number; y: number; width: number; height: number },
+) => {
+	const clamp = (value: number, min: number, max: number) =>
+		min > max ? (min + max) / 2 : Math.min(Math.max(value, min), max);
+	return {
+		x: clamp(
+			center.x,
+			bounds.x + visual.width / 2,
+			bounds.x + bounds.width - visual.width / 2,
+		),
+		y: clamp(
+			center.y,
+			bounds.y + visual.height / 2,
+			bounds.y + bounds.height - visual.height / 2,
+		),
+	};
+};
+
+const remapItem = (
+	item: any,
+	from: Size,
+	variant: AspectVariant,
+	rules: AspectRemapRules,
+) => {
+	const details = item.details ?? {};
+	const width = readPx(details.crop?.width || details.width);
+	const height = readPx(details.crop?.height || details.height);
+	if (item.type === "audio" || width <= 0 || height <= 0) return item;
+
+	const to = variant.size;
+	const scale = readScale(details.transform);
+	const center = {
+		x: readPx(details.left) + width / 2,
+		y: readPx(details.top) + height / 2,
+	};
+	const place = (
+		nextCenter: { x: number; y: number },
+		nextScale: number,
+		box: Size = { width, height },
+	) => ({
+		...item,
+		details: {
+			...details,
+			...(box.width !== width && { width: round(box.width) }),
+			...(box.height !== height && { height: round(box.height) }),
+			left: `${round(nextCenter.x - box.width / 2)}px`,
+			top: `${round(nextCenter.y - box.height / 2)}px`,
+			transform: writeScale(details.transform, nextScale),
+		},
+	});
+
+	const isMedia = item.type === "video" || item.type === "image";
+	const isFullFrame =
+		width * Math.abs(scale.x) >= from.width * FULL_FRAME_COVERAGE ||
+		height * Math.abs(scale.y) >= from.height * FULL_FRAME_COVERAGE;
+	if (isMedia && isFullFrame) {
+		const pick = rules.media === "fill" ? Math.max : Math.min;
+		return place(
+			{ x: to.width / 2, y: to.height / 2 },
+			pick(to.width / width, to.height / height),
+		);
+	}
+
+	// Overlays, titles and captions: same relative spot, scaled with the
+	// frame's shorter change so they still fit
+	const ratio = Math.min(to.width / from.width, to.height / from.height);
+	const nextScale = scale.x * ratio;
+	const nextCenter = {
+		x: (center.x / from.width) * to.width,
+		y: (center.y / from.height) * to.height,
+	};
+
+	if (isCaptionItem(item) && rules.captionsInSafeArea) {
+		const { safeArea } = variant;
+		const bounds = {
+			x: to.width * safeArea.left,
+			y: to.height * safeArea.top,
+			width: to.width * (1 - safeArea.left - safeArea.right),
+			height: to.height * (1 - safeArea.top - safeArea.bottom),
+		};
+		// Narrower box so the text wraps within the safe width; it grows
+		// taller by about as much as it got narrower
+		const box = { width, height };
+		if (width * nextScale > bounds.width) {
+			box.width = bounds.width / nextScale;
+			box.height = height * (width / box.width);
+		}
+		return place(
+			clampCenter(
+				nextCenter,
+				{ width: box.width * nextScale, height: box.height * nextScale },
+				bounds,
+			),
+			nextScale,
+			box,
+		);
+	}
+
+	if (item.type === "text") {
+		return place(
+			clampCenter(
+				nextCenter,
+				{ width: width * nextScale, height: height * nextScale },
+				{ x: 0, y: 0, width: to.width, height: to.height },
+			),
+			nextScale,
+		);
+	}
+	return place(nextCenter, nextScale);
+};
+
+export const remapTrackItems = (
+	trackItems: any[],
+	from: Size,
+	variant: AspectVariant,
+	rules: AspectRemapRules = DEFAULT_REMAP_RULES,
+): any[] => trackItems.map((item) => remapItem(item, from, variant, rules));
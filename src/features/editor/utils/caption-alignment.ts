@@ -0,0 +1,160 @@
+import { generateId } from "@designcombo/timeline";
+import { AlignedCaption, isEdited } from "@/lib/transcription/alignment";
+import { getUserSessionId } from "@/utils/session";
+import { TEXT_ADD_PAYLOAD } from "../constants/payload";
+import { isCaptionItem } from "./caption-sidecars";
+
+// Client side of caption re-alignment: sends the edited captions to
+// /api/align-captions, waits for the job and works out how the caption text
+// items on the timeline have to change to match the new word list.
+
+const POLL_INTERVAL_MS = 2000;
+const POLL_TIMEOUT_MS = 15 * 60 * 1000;
+
+export interface CaptionAlignmentResult {
+	captions: AlignedCaption[];
+	audioAligned: boolean;
+}
+
+export interface CaptionTimelineUpdates {
+	// Items that keep their text and timing but whose word moved in the list
+	reindex: Record<string, number>;
+	// Items whose words changed: removed and added back as `payloads`
+	replace: { itemId: string; payloads: any[] }[];
+	// Items whose every word was deleted
+	remove: string[];
+}
+
+// Edited in the transcript since the captions were generated or last aligned
+export const hasEditedWords = (caption: any) => isEdited(caption);
+
+export const requestCaptionAlignment = async (
+	captions: any[],
+	videoUrl: string | undefined,
+	onProgress?: (progress: number) => void,
+): Promise<CaptionAlignmentResult> => {
+	const response = await fetch("/api/align-captions", {
+		method: "POST",
+		headers: {
+			"Content-Type": "application/json",
+			"x-cinetune-session": getUserSessionId(),
+		},
+		body: JSON.stringify({ captions, videoUrl }),
+	});
+	const started = await response.json().catch(() => ({}));
+	if (!response.ok) {
+		throw new Error(started.message || `Alignment failed (${response.status})`);
+	}
+
+	const deadline = Date.now() + POLL_TIMEOUT_MS;
+	while (Date.now() < deadline) {
+		await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+		const poll = await fetch(`/api/align-captions/${started.jobId}`, {
+			headers: { "x-cinetune-session": getUserSessionId() },
+		});
+		if (!poll.ok) continue;
+		const job = await poll.json();
+		if (job.status === "completed") {
+			return { captions: job.captions, audioAligned: job.audioAligned };
+		}
+		if (job.status === "failed" || job.status === "cancelled") {
+			throw new Error(job.error || "Caption alignment failed");
+		}
+		onProgress?.(job.progress ?? 0);
+	}
+	throw new Error("Caption alignment timed out");
+};
+
+const toPayload = (item: any, words: AlignedCaption[], index: number) => {
+	const from = Math.max(0, Math.round(words[0].start * 1000));
+	const to = Math.round(words[words.length - 1].end * 1000);
+	return {
+		...TEXT_ADD_PAYLOAD,
+		id: generateId(),
+		display: { from, to: Math.max(from + 100, to) },
+		details: {
+			...item.details,
+			text: words.map((word) => word.word).join(" "),
+			originalIndex: index,
+		},
+	};
+};
+
+/**
+ * Maps the caption items on the timeline onto the aligned captions. Each
+ * item points at its first source word with `details.originalIndex` and
+ * covers as many words as its text has (more than one when captions were
+ * laid out several words at a time). One-word items stay one word per item;
+ * grouped items keep their words together.
+ */
+export const getCaptionTimelineUpdates = (
+	trackItemsMap: Record<string, any>,
+	aligned: AlignedCaption[],
+): CaptionTimelineUpdates => {
+	const updates: CaptionTimelineUpdates = {
+		reindex: {},
+		replace: [],
+		remove: [],
+	};
+
+	const bySource = new Map<
+		number,
+		{ caption: AlignedCaption; index: number }[]
+	>();
+	aligned.forEach((caption, index) => {
+		const derived = bySource.get(caption.sourceIndex) ?? [];
+		derived.push({ caption, index });
+		bySource.set(caption.sourceIndex, derived);
+	});
+
+	const items = Object.values(trackItemsMap)
+		.filter(isCaptionItem)
+		.sort((a, b) => a.details.originalIndex - b.details.originalIndex);
+
+	items.forEach((item, position) => {
+		const first: number = item.details.originalIndex;
+		const next =
+			items[position + 1]?.details.originalIndex ?? Number.POSITIVE_INFINITY;
+		const wordCount =
+			String(item.details.text ?? "")
+				.split(/\s+/)
+				.filter(Boolean).length || 1;
+		const sources = Array.from(
+			{ length: Math.max(1, Math.min(next, first + wordCount) - first) },
+			(_, offset) => first + offset,
+		);
+		const derived = sources.flatMap((source) => bySource.get(source) ?? []);
+
+		if (derived.length === 0) {
+			updates.remove.push(item.id);
+			return;
+		}
+		const changed =
+			derived.some(({ caption }) => caption.alignment !== "kept") ||
+			sources.some((source) => !bySource.has(source));
+		if (!changed) {
+			if (derived[0].index !== first) {
+				updates.reindex[item.id] = derived[0].index;
+			}
+			return;
+		}
+
+		updates.replace.push({
+			itemId: item.id,
+			payloads:
+				sources.length === 1
+					? derived.map(({ caption, index }) =>
+							toPayload(item, [caption], index),
+						)
+					: [
+							toPayload(
+								item,
+								derived.map(({ caption }) => caption),
+								derived[0].index,
+							),
+						],
+		});
+	});
+
+	return updates;
+};
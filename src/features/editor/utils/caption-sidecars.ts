@@ -0,0 +1,212 @@
+import type { ExportRange } from "../constants/export-presets";
+
+export type CaptionFormat = "srt" | "vtt" | "ass";
+
+export const CAPTION_FORMATS: Record<
+	CaptionFormat,
+	{ name: string; extension: CaptionFormat; mimeType: string }
+> = {
+	srt: { name: "SRT", extension: "srt", mimeType: "application/x-subrip" },
+	vtt: { name: "WebVTT", extension: "vtt", mimeType: "text/vtt" },
+	ass: { name: "ASS", extension: "ass", mimeType: "text/x-ssa" },
+};
+
+export interface CaptionCue {
+	id: string;
+	// Milliseconds, relative to the start of the export
+	start: number;
+	end: number;
+	text: string;
+	details: Record<string, any>;
+}
+
+// Captions are text items created from a transcript; the caption loader in
+// menu-item/texts.tsx tags each of them with the index of its source word.
+export const isCaptionItem = (item: any): boolean =>
+	item?.type === "text" && typeof item.details?.originalIndex === "number";
+
+export const getCaptionCues = (
+	design: { trackItems?: any[] },
+	range?: ExportRange | null,
+): CaptionCue[] => {
+	const start = range?.start ?? 0;
+	const end = range?.end ?? Number.POSITIVE_INFINITY;
+
+	return (design.trackItems || [])
+		.filter(isCaptionItem)
+		.filter((item) => item.display.to > start && item.display.from < end)
+		.map((item) => ({
+			id: item.id,
+			start: Math.max(item.display.from, start) - start,
+			end: Math.min(item.display.to, end) - start,
+			text: String(item.details.text ?? "").trim(),
+			details: item.details,
+		}))
+		.filter((cue) => cue.text && cue.end > cue.start)
+		.sort((a, b) => a.start - b.start || a.end - b.end);
+};
+
+const splitTime = (ms: number) => {
+	const total = Math.max(0, Math.round(ms));
+	return {
+		hours: Math.floor(total / 3600000),
+		minutes: Math.floor(total / 60000) % 60,
+		seconds: Math.floor(total / 1000) % 60,
+		millis: total % 1000,
+	};
+};
+
+const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+
+// 00:01:02,345 for SRT, 00:01:02.345 for WebVTT
+const formatTimestamp = (ms: number, separator: "," | ".") => {
+	const { hours, minutes, seconds, millis } = splitTime(ms);
+	return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(millis, 3)}`;
+};
+
+// 0:01:02.34 - ASS only has centiseconds
+const formatAssTimestamp = (ms: number) => {
+	const { hours, minutes, seconds, millis } = splitTime(ms);
+	return `${hours}:${pad(minutes)}:${pad(seconds)}.${pad(Math.floor(millis / 10))}`;
+};
+
+export const toSrt = (cues: CaptionCue[]): string =>
+	cues
+		.map(
+			(cue, index) =>
+				`${index + 1}\n${formatTimestamp(cue.start, ",")} --> ${formatTimestamp(cue.end, ",")}\n${cue.text}\n`,
+		)
+		.join("\n");
+
+export const toVtt = (cues: CaptionCue[]): string => {
+	const escapeText = (text: string) =>
+		text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+	return [
+		"WEBVTT\n",
+		...cues.map(
+			(cue) =>
+				`${formatTimestamp(cue.start, ".")} --> ${formatTimestamp(cue.end, ".")}\n${escapeText(cue.text)}\n`,
+		),
+	].join("\n");
+};
+
+const toPixels = (value: unknown, fallback: number) => {
+	const parsed =
+		typeof value === "number" ? value : Number.parseFloat(String(value));
+	return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+// #rrggbb / #rgb to ASS &HAABBGGRR; anything else falls back to `fallback`
+const toAssColor = (color: unknown, fallback: string) => {
+	let hex = typeof color === "string" ? color.trim().replace(/^#/, "") : "";
+	if (/^[0-9a-f]{3}$/i.test(hex)) {
+		hex = hex
+			.split("")
+			.map((digit) => digit + digit)
+			.join("");
+	}
+	if (!/^[0-9a-f]{6}$/i.test(hex)) return fallback;
+	const [r, g, b] = [hex.slice(0, 2), hex.slice(2, 4), hex.slice(4, 6)];
+	return `&H00${b}${g}${r}`.toUpperCase();
+};
+
+// Anchor point and numpad alignment matching how the player lays the text
+// box out: vertical captions are centered on left/top, everything else
+// hangs from the top edge of its box. Unplaced text goes bottom center.
+const getAssPlacement = (
+	details: Record<string, any>,
+): { alignment: number; x?: number; y?: number } => {
+	if (details.left === undefined && details.top === undefined) {
+		return { alignment: 2 };
+	}
+	const left = toPixels(details.left, 0);
+	const top = toPixels(details.top, 0);
+	const width = toPixels(details.width, 0);
+
+	if (String(details.transform ?? "").includes("translate(-50%, -50%)")) {
+		return { alignment: 5, x: left, y: top };
+	}
+	switch (details.textAlign) {
+		case "left":
+			return { alignment: 7, x: left, y: top };
+		case "right":
+			return { alignment: 9, x: left + width, y: top };
+		default:
+			return { alignment: 8, x: left + width / 2, y: top };
+	}
+};
+
+export const toAss = (
+	cues: CaptionCue[],
+	size: { width: number; height: number },
+): string => {
+	// One style per distinct look, shared by every cue that has it
+	const styles = new Map<string, { name: string; line: string }>();
+	const getStyleName = (details: Record<string, any>) => {
+		const fontFamily = String(details.fontFamily || "Arial").replace(/,/g, " ");
+		const fontSize = Math.round(toPixels(details.fontSize, 40));
+		const primary = toAssColor(details.color, "&H00FFFFFF");
+		const outlineWidth = toPixels(details.borderWidth, 0);
+		const outline = toAssColor(details.borderColor, "&H00000000");
+		const key = [fontFamily, fontSize, primary, outlineWidth, outline].join(
+			"|",
+		);
+
+		let style = styles.get(key);
+		if (!style) {
+			const name = `Caption${styles.size + 1}`;
+			style = {
+				name,
+				line: `Style: ${name},${fontFamily},${fontSize},${primary},&H000000FF,${outline},&H00000000,0,0,0,0,100,100,0,0,1,${outlineWidth},0,8,0,0,0,1`,
+			};
+			styles.set(key, style);
+		}
+		return style.name;
+	};
+
+	const events = cues.map((cue) => {
+		const style = getStyleName(cue.details);
+		const { alignment, x, y } = getAssPlacement(cue.details);
+		const position =
+			x === undefined || y === undefined
+				? ""
+				: `\\pos(${Math.round(x)},${Math.round(y)})`;
+		// Braces would start override blocks
+		const text = cue.text.replace(/[{}]/g, "").replace(/\r?\n/g, "\\N");
+		return `Dialogue: 0,${formatAssTimestamp(cue.start)},${formatAssTimestamp(cue.end)},${style},,0,0,0,,{\\an${alignment}${position}}${text}`;
+	});
+
+	return [
+		"[Script Info]",
+		"ScriptType: v4.00+",
+		`PlayResX: ${size.width}`,
+		`PlayResY: ${size.height}`,
+		"WrapStyle: 0",
+		"ScaledBorderAndShadow: yes",
+		"",
+		"[V4+ Styles]",
+		"Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding",
+		...Array.from(styles.values(), (style) => style.line),
+		"",
+		"[Events]",
+		"Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text",
+		...events,
+		"",
+	].join("\n");
+};
+
+export const formatCaptions = (
+	format: CaptionFormat,
+	design: { trackItems?: any[]; size?: { width: number; height: number } },
+	range?: ExportRange | null,
+): string => {
+	const cues = getCaptionCues(design, range);
+	switch (format) {
+		case "srt":
+			return toSrt(cues);
+		case "vtt":
+			return toVtt(cues);
+		case "ass":
+			return toAss(cues, design.size || { width: 1080, height: 1920 });
+	}
+};
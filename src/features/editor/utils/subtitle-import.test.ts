@@ -0,0 +1,113 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseSubtitles, subtitleCuesToCaptions } from "./subtitle-import";
+
+describe("parseSubtitles", () => {
+	it("reads SRT cues and skips ones with malformed timestamps", () => {
+		const srt = [
+			"1",
+			"00:00:01,000 --> 00:00:02,500",
+			"<i>Hello</i> &amp; welcome",
+			"",
+			"2",
+			"00:00:0x,000 --> 00:00:04,000",
+			"Broken",
+			"",
+			"3",
+			"01:02:03,456 --> 01:02:04,000",
+			"Later",
+		].join("\r\n");
+		assert.deepEqual(parseSubtitles(srt, "clip.srt"), {
+			format: "srt",
+			cues: [
+				{ start: 1000, end: 2500, text: "Hello & welcome" },
+				{ start: 3723456, end: 3724000, text: "Later" },
+			],
+		});
+	});
+
+	it("reads WebVTT short timestamps and ignores cue settings and notes", () => {
+		const vtt = [
+			"WEBVTT",
+			"",
+			"NOTE written by hand",
+			"",
+			"intro",
+			"00:01.5 --> 00:03.000 align:start line:90%",
+			"<v Sam>First line",
+			"",
+			"00:03.000 --> 00:04.25",
+			"Second line",
+			"",
+			"00:04.000 --> soon",
+			"No end time",
+		].join("\n");
+		assert.deepEqual(parseSubtitles(vtt)?.cues, [
+			{ start: 1500, end: 3000, text: "First line" },
+			{ start: 3000, end: 4250, text: "Second line" },
+		]);
+	});
+
+	it("reads ASS styles, override tags and centisecond timestamps", () => {
+		const ass = [
+			"[Script Info]",
+			"PlayResX: 1920",
+			"PlayResY: 1080",
+			"",
+			"[V4+ Styles]",
+			"Format: Name, Fontname, Fontsize, PrimaryColour, Bold, Italic, Alignment",
+			"Style: Default,Arial,48,&H0000FFFF,-1,0,2",
+			"",
+			"[Events]",
+			"Format: Layer, Start, End, Style, Text",
+			"Dialogue: 0,0:00:01.50,0:00:03.00,Default,{\\pos(100,200)\\an8}Line one\\NLine, two",
+			"Dialogue: 0,0:00:xx.00,0:00:04.00,Default,Broken",
+		].join("\n");
+		assert.deepEqual(parseSubtitles(ass, "clip.ass"), {
+			format: "ass",
+			resolution: { width: 1920, height: 1080 },
+			cues: [
+				{
+					start: 1500,
+					end: 3000,
+					text: "Line one\nLine, two",
+					style: {
+						fontFamily: "Arial",
+						fontSize: 48,
+						color: "#ffff00",
+						fontWeight: "bold",
+						italic: false,
+					},
+					position: { x: 100, y: 200 },
+					alignment: 8,
+				},
+			],
+		});
+	});
+
+	it("returns null for content in no supported format", () => {
+		assert.equal(parseSubtitles("just some text", "notes.txt"), null);
+	});
+});
+
+describe("subtitleCuesToCaptions", () => {
+	it("splits cues into words timed by their length, in seconds", () => {
+		const captions = subtitleCuesToCaptions([
+			{ start: 2000, end: 3000, text: "later" },
+			{ start: 0, end: 1000, text: "a bcd" },
+		]);
+		assert.deepEqual(
+			captions.map(({ word, start, end, cueIndex }) => ({
+				word,
+				start,
+				end,
+				cueIndex,
+			})),
+			[
+				{ word: "a", start: 0, end: 1 / 3, cueIndex: 0 },
+				{ word: "bcd", start: 1 / 3, end: 1, cueIndex: 0 },
+				{ word: "later", start: 2, end: 3, cueIndex: 1 },
+			],
+		);
+	});
+});
@@ -0,0 +1,329 @@
+import type { CaptionFormat } from "./caption-sidecars";
+
+// Parses subtitle files from outside the app (SRT, WebVTT, ASS/SSA) and turns
+// their cues into the word-level caption model the caption loader in
+// menu-item/texts.tsx places on the timeline.
+
+export interface SubtitleStyle {
+	fontFamily?: string;
+	fontSize?: number;
+	color?: string;
+	fontWeight?: string;
+	italic?: boolean;
+}
+
+export interface SubtitleCue {
+	// Milliseconds
+	start: number;
+	end: number;
+	text: string;
+	style?: SubtitleStyle;
+	// ASS \pos, in script (PlayRes) pixels
+	position?: { x: number; y: number };
+	// Numpad alignment from ASS \an or the style
+	alignment?: number;
+}
+
+export interface ParsedSubtitles {
+	format: CaptionFormat;
+	cues: SubtitleCue[];
+	// ASS PlayResX/Y - what `position` is relative to
+	resolution?: { width: number; height: number };
+}
+
+// 01:02:03,456 / 01:02:03.456 / 02:03.456 (WebVTT) / 1:02:03.45 (ASS)
+const parseTimestamp = (value: string): number | null => {
+	const match = value
+		.trim()
+		.match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/);
+	if (!match) return null;
+	const [, hours = "0", minutes, seconds, fraction = "0"] = match;
+	return (
+		Number(hours) * 3600000 +
+		Number(minutes) * 60000 +
+		Number(seconds) * 1000 +
+		// ".5" is half a second whatever the number of digits
+		Math.round(Number(`0.${fraction}`) * 1000)
+	);
+};
+
+const decodeEntities = (text: string) =>
+	text
+		.replace(/&lt;/g, "<")
+		.replace(/&gt;/g, ">")
+		.replace(/&nbsp;/g, " ")
+		.replace(/&amp;/g, "&");
+
+// HTML-ish tags (<i>, <font color>, <v Speaker>, <00:01.000>) and the ASS
+// override blocks some SRT files carry, e.g. {\an8}
+const stripMarkup = (text: string) =>
+	text
+		.replace(/<[^>]*>/g, "")
+		.replace(/\{\\[^}]*\}/g, "")
+		.trim();
+
+const splitBlocks = (content: string) =>
+	content
+		.replace(/^\uFEFF/, "")
+		.replace(/\r\n?/g, "\n")
+		.split(/\n{2,}/)
+		.map((block) => block.split("\n").filter((line) => line.trim() !== ""))
+		.filter((lines) => lines.length > 0);
+
+const parseTimingLine = (line: string) => {
+	const [from, rest] = line.split("-->");
+	if (rest === undefined) return null;
+	// WebVTT cue settings follow the end time
+	const start = parseTimestamp(from);
+	const end = parseTimestamp(rest.trim().split(/\s+/)[0]);
+	if (start === null || end === null) return null;
+	return { start, end };
+};
+
+const parseSrtOrVtt = (content: string): SubtitleCue[] => {
+	const cues: SubtitleCue[] = [];
+	for (const lines of splitBlocks(content)) {
+		// The timing line follows an optional index / cue identifier; header,
+		// NOTE, STYLE and REGION blocks have none and are skipped
+		const timingIndex = lines.findIndex((line) => line.includes("-->"));
+		if (timingIndex === -1 || timingIndex > 1) continue;
+		const timing = parseTimingLine(lines[timingIndex]);
+		if (!timing) continue;
+
+		const text = decodeEntities(
+			stripMarkup(lines.slice(timingIndex + 1).join("\n")),
+		);
+		if (text) cues.push({ ...timing, text });
+	}
+	return cues;
+};
+
+// &HAABBGGRR / &HBBGGRR& to #rrggbb
+const parseAssColor = (value: string | undefined): string | undefined => {
+	const hex = value?.replace(/^&H|&$/gi, "").padStart(6, "0");
+	if (!hex || !/^[0-9a-f]{6,8}$/i.test(hex)) return undefined;
+	const bgr = hex.slice(-6);
+	return `#${bgr.slice(4, 6)}${bgr.slice(2, 4)}${bgr.slice(0, 2)}`.toLowerCase();
+};
+
+// SSA v4 numbered alignments differently: 1-3 bottom, +4 top, +8 middle
+const fromLegacyAlignment = (value: number) => {
+	const column = ((value - 1) % 4) + 1;
+	if (value >= 9) return column + 3;
+	if (value >= 5) return column + 6;
+	return column;
+};
+
+// Field names from a "Format:" line, lowercased
+const parseAssFormat = (line: string) =>
+	line
+		.slice(line.indexOf(":") + 1)
+		.split(",")
+		.map((name) => name.trim().toLowerCase());
+
+const parseAssFields = (format: string[], line: string) => {
+	const values = line.slice(line.indexOf(":") + 1).split(",");
+	// The last field (Text) may itself contain commas
+	const fields: Record<string, string> = {};
+	format.forEach((name, index) => {
+		fields[name] =
+			index === format.length - 1
+				? values.slice(index).join(",")
+				: (values[index] ?? "").trim();
+	});
+	return fields;
+};
+
+const parseAssDialogue = (
+	fields: Record<string, string>,
+	styles: Map<string, SubtitleStyle & { alignment?: number }>,
+): SubtitleCue | null => {
+	const start = parseTimestamp(fields.start ?? "");
+	const end = parseTimestamp(fields.end ?? "");
+	if (start === null || end === null) return null;
+
+	const { alignment: styleAlignment, ...baseStyle } =
+		styles.get((fields.style ?? "").replace(/^\*/, "")) ??
+		styles.get("Default") ??
+		{};
+	const style: SubtitleStyle = { ...baseStyle };
+	let alignment = styleAlignment;
+	let position: SubtitleCue["position"];
+
+	// Override tags. Like libass, the first \pos in a line counts; for
+	// everything else the last occurrence wins.
+	const raw = fields.text ?? "";
+	for (const [, block] of raw.matchAll(/\{([^}]*)\}/g)) {
+		for (const tag of block.split("\\").slice(1)) {
+			const pos = tag.match(/^pos\(\s*([-\d.]+)\s*,\s*([-\d.]+)\s*\)/);
+			if (pos && !position) {
+				position = { x: Number(pos[1]), y: Number(pos[2]) };
+				continue;
+			}
+			const an = tag.match(/^an(\d)/);
+			if (an) {
+				alignment = Number(an[1]);
+				continue;
+			}
+			const legacyAlignment = tag.match(/^a(\d+)$/);
+			if (legacyAlignment) {
+				alignment = fromLegacyAlignment(Number(legacyAlignment[1]));
+				continue;
+			}
+			const font = tag.match(/^fn(.+)/);
+			if (font) {
+				style.fontFamily = font[1].trim();
+				continue;
+			}
+			const size = tag.match(/^fs([\d.]+)/);
+			if (size) {
+				style.fontSize = Number(size[1]);
+				continue;
+			}
+			const color = tag.match(/^1?c(&H[0-9a-f]+&?)/i);
+			if (color) {
+				style.color = parseAssColor(color[1]);
+				continue;
+			}
+			const bold = tag.match(/^b(\d+)/);
+			if (bold) {
+				style.fontWeight = bold[1] === "0" ? undefined : "bold";
+				continue;
+			}
+			const italic = tag.match(/^i([01])/);
+			if (italic) style.italic = italic[1] === "1";
+		}
+	}
+
+	const text = raw
+		.replace(/\{[^}]*\}/g, "")
+		.replace(/\\N/g, "\n")
+		.replace(/\\[nh]/g, " ")
+		.trim();
+	if (!text) return null;
+
+	return { start, end, text, style, position, alignment };
+};
+
+const parseAss = (
+	content: string,
+): { cues: SubtitleCue[]; resolution?: { width: number; height: number } } => {
+	const styles = new Map<string, SubtitleStyle & { alignment?: number }>();
+	const cues: SubtitleCue[] = [];
+	let section = "";
+	let styleFormat: string[] = [];
+	let eventFormat: string[] = [];
+	let width: number | undefined;
+	let height: number | undefined;
+
+	for (const rawLine of content.replace(/^\uFEFF/, "").split(/\r?\n/)) {
+		const line = rawLine.trim();
+		if (line.startsWith("[")) {
+			section = line.toLowerCase();
+			continue;
+		}
+		const key = line.slice(0, line.indexOf(":")).trim().toLowerCase();
+
+		if (section === "[script info]") {
+			const value = Number(line.slice(line.indexOf(":") + 1));
+			if (key === "playresx") width = value;
+			if (key === "playresy") height = value;
+		} else if (section.includes("styles")) {
+			if (key === "format") {
+				styleFormat = parseAssFormat(line);
+			} else if (key === "style" && styleFormat.length > 0) {
+				const fields = parseAssFields(styleFormat, line);
+				const alignment = Number(fields.alignment);
+				styles.set(fields.name, {
+					fontFamily: fields.fontname || undefined,
+					fontSize: Number(fields.fontsize) || undefined,
+					color: parseAssColor(fields.primarycolour),
+					// -1 is true in ASS
+					fontWeight: fields.bold && fields.bold !== "0" ? "bold" : undefined,
+					italic: !!fields.italic && fields.italic !== "0",
+					alignment: Number.isFinite(alignment)
+						? section.includes("v4+")
+							? alignment
+							: fromLegacyAlignment(alignment)
+						: undefined,
+				});
+			}
+		} else if (section === "[events]") {
+			if (key === "format") {
+				eventFormat = parseAssFormat(line);
+			} else if (key === "dialogue" && eventFormat.length > 0) {
+				const cue = parseAssDialogue(parseAssFields(eventFormat, line), styles);
+				if (cue) cues.push(cue);
+			}
+		}
+	}
+
+	return {
+		cues,
+		resolution: width && height ? { width, height } : undefined,
+	};
+};
+
+const detectFormat = (
+	content: string,
+	filename?: string,
+): CaptionFormat | null => {
+	const extension = filename?.split(".").pop()?.toLowerCase();
+	if (extension === "srt" || extension === "vtt") return extension;
+	if (extension === "ass" || extension === "ssa") return "ass";
+
+	const head = content.replace(/^\uFEFF/, "").trimStart();
+	if (head.startsWith("WEBVTT")) return "vtt";
+	if (/^\[Script Info\]/i.test(head)) return "ass";
+	if (/-->/.test(head)) return "srt";
+	return null;
+};
+
+// Returns null for content that isn't any of the supported formats
+export const parseSubtitles = (
+	content: string,
+	filename?: string,
+): ParsedSubtitles | null => {
+	const format = detectFormat(content, filename);
+	if (!format) return null;
+
+	if (format === "ass") {
+		return { format, ...parseAss(content) };
+	}
+	return { format, cues: parseSrtOrVtt(content) };
+};
+
+// One caption per word, like transcripts: each word gets a share of its cue
+// proportional to its length, so wordsAtATime can regroup them. Times are in
+// seconds, as in the stored `captions_*` data.
+export const subtitleCuesToCaptions = (cues: SubtitleCue[]) =>
+	[...cues]
+		.sort((a, b) => a.start - b.start)
+		.flatMap((cue, cueIndex) => {
+			const words = cue.text.split(/\s+/).filter(Boolean);
+			const weights = words.map((word) => word.length + 1);
+			const total = weights.reduce((sum, weight) => sum + weight, 0);
+			const duration = Math.max(cue.end - cue.start, 0);
+
+			let offset = 0;
+			return words.map((word, wordIndex) => {
+				const start = cue.start + (duration * offset) / total;
+				offset += weights[wordIndex];
+				const end = cue.start + (duration * offset) / total;
+				return {
+					id: `subtitle-${cueIndex}-${wordIndex}`,
+					word,
+					text: word,
+					start: start / 1000,
+					end: end / 1000,
+					cueIndex,
+					style: {
+						...cue.style,
+						...(cue.style?.italic ? { fontStyle: "italic" } : {}),
+					},
+					fontFamily: cue.style?.fontFamily,
+					position: cue.position,
+					alignment: cue.alignment,
+				};
+			});
+		});
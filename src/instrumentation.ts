@@ -0,0 +1,12 @@
+// Next.js calls register() once per server process on startup
+export async function register() {
+	if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+	// Pick up renders orphaned by a previous process and resume the queue
+	const { renderQueue } = await import("./lib/render-queue");
+	try {
+		await renderQueue.init();
+	} catch (error) {
+		console.error("[render-queue] Failed to initialise render queue:", error);
+	}
+}
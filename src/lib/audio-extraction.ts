@@ -0,0 +1,226 @@
+import { execFile } from "node:child_process";
+import { promises as fs } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { promisify } from "node:util";
+
+// Server-side FFmpeg audio extraction, shared by /api/uploads/extract-audio
+// and the caption transcription pipeline. Inputs can be URLs or local paths;
+// FFmpeg reads URLs directly, without downloading the video first.
+
+const execFileAsync = promisify(execFile);
+
+export type AudioFormat = "mp3" | "wav" | "aac";
+
+export interface AudioExtractionOptions {
+	format?: AudioFormat;
+	bitrate?: string;
+	channels?: number;
+	sampleRate?: number;
+	// Seconds of audio to keep from the start
+	maxDuration?: number;
+}
+
+export interface ExtractedAudio {
+	audioPath: string;
+	audioSize: number;
+	audioFilename: string;
+	mimeType: string;
+}
+
+const FORMATS: Record<
+	AudioFormat,
+	{ codec: string; extension: string; mimeType: string; lossy: boolean }
+> = {
+	mp3: {
+		codec: "libmp3lame",
+		extension: "mp3",
+		mimeType: "audio/mp3",
+		lossy: true,
+	},
+	// 16-bit PCM, which speech recognisers read without decoding
+	wav: {
+		codec: "pcm_s16le",
+		extension: "wav",
+		mimeType: "audio/wav",
+		lossy: false,
+	},
+	aac: { codec: "aac", extension: "m4a", mimeType: "audio/mp4", lossy: true },
+};
+
+export async function getVideoOrientation(videoUrl: string): Promise<{
+	orientation: "vertical" | "horizontal";
+	width: number;
+	height: number;
+}> {
+	try {
+		console.log("📐 [SERVER-AUDIO] Detecting video orientation from URL");
+
+		const { stdout } = await execFileAsync(
+			"ffprobe",
+			["-v", "quiet", "-print_format", "json", "-show_streams", videoUrl],
+			{
+				timeout: 30000, // 30 second timeout for metadata
+				maxBuffer: 1024 * 1024, // 1MB buffer
+			},
+		);
+
+		const probeData = JSON.parse(stdout);
+		const videoStream = probeData.streams?.find(
+			(stream: any) => stream.codec_type === "video",
+		);
+
+		if (!videoStream) {
+			console.warn(
+				"⚠️ [SERVER-AUDIO] No video stream found, defaulting to vertical",
+			);
+			return { orientation: "vertical", width: 0, height: 0 };
+		}
+
+		const width = Number.parseInt(videoStream.width) || 0;
+		const height = Number.parseInt(videoStream.height) || 0;
+		const orientation = height > width ? "vertical" : "horizontal";
+
+		console.log(
+			`📐 [SERVER-AUDIO] Video dimensions: ${width}x${height} (${orientation})`,
+		);
+
+		return { orientation, width, height };
+	} catch (error) {
+		console.warn(
+			"⚠️ [SERVER-AUDIO] Failed to detect orientation, defaulting to vertical:",
+			error,
+		);
+		return { orientation: "vertical", width: 0, height: 0 };
+	}
+}
+
+export async function extractAudioWithFFmpeg(
+	videoUrl: string,
+	videoId: string,
+	options: AudioExtractionOptions = {},
+): Promise<ExtractedAudio> {
+	const format = FORMATS[options.format || "mp3"];
+	if (!format) {
+		throw new Error(`Unsupported audio format: ${options.format}`);
+	}
+	const audioPath = path.join(
+		tmpdir(),
+		`audio_${videoId}_${Date.now()}.${format.extension}`,
+	);
+
+	try {
+		console.log(
+			`🎵 [SERVER-AUDIO] Extracting audio directly from URL (no download): ${videoUrl}`,
+		);
+
+		const bitrate = options.bitrate || "128k";
+		const channels = options.channels || 1;
+		const sampleRate = options.sampleRate || 44100;
+		// Safety limit, 5 minutes unless the caller needs more
+		const maxDuration = options.maxDuration || 300;
+
+		const args = [
+			"-i",
+			videoUrl,
+			"-vn",
+			"-acodec",
+			format.codec,
+			// Bitrate only means something to the lossy codecs
+			...(format.lossy ? ["-b:a", bitrate] : []),
+			"-ac",
+			String(channels),
+			"-ar",
+			String(sampleRate),
+			"-avoid_negative_ts",
+			"make_zero", // Handle timestamp issues
+			"-fflags",
+			"+genpts", // Generate presentation timestamps
+			"-t",
+			String(maxDuration),
+			"-y",
+			audioPath,
+		];
+
+		console.log(
+			`⚡ [SERVER-AUDIO] Running optimized FFmpeg: ffmpeg ${args.join(" ").substring(0, 120)}...`,
+		);
+
+		// Execute FFmpeg with an extended timeout for slow network conditions:
+		// reading a slow source is allowed to take as long as the media plays,
+		// and never less than 5 minutes
+		const ffmpegStartTime = Date.now();
+		try {
+			const { stderr } = await execFileAsync("ffmpeg", args, {
+				timeout: Math.max(300, maxDuration) * 1000,
+				maxBuffer: 1024 * 1024 * 20, // 20MB buffer for large outputs
+				env: { ...process.env, FFREPORT: "file=/dev/null" }, // Reduce FFmpeg logging overhead
+			});
+
+			const ffmpegDuration = Date.now() - ffmpegStartTime;
+			console.log(`✅ [SERVER-AUDIO] FFmpeg completed in ${ffmpegDuration}ms`);
+
+			if (stderr && stderr.length > 0) {
+				// Log progress information and any errors
+				const stderrLines = stderr.split("\n");
+
+				// Find progress lines (contain "time=" and "speed=")
+				const progressLines = stderrLines.filter(
+					(line) => line.includes("time=") && line.includes("speed="),
+				);
+				if (progressLines.length > 0) {
+					const lastProgress = progressLines[progressLines.length - 1];
+					console.log(`📈 [SERVER-AUDIO] Progress: ${lastProgress.trim()}`);
+				}
+
+				// Find error lines
+				const errorLines = stderrLines.filter(
+					(line) =>
+						line.includes("error") ||
+						line.includes("Error") ||
+						line.includes("fail") ||
+						line.includes("Failed"),
+				);
+				if (errorLines.length > 0) {
+					console.log(
+						`⚠️ [SERVER-AUDIO] FFmpeg issues: ${errorLines.slice(0, 2).join(", ")}`,
+					);
+				}
+			}
+		} catch (ffmpegError) {
+			console.error("❌ [SERVER-AUDIO] FFmpeg execution failed:", ffmpegError);
+			throw new Error(
+				`FFmpeg execution failed: ${ffmpegError instanceof Error ? ffmpegError.message : String(ffmpegError)}`,
+			);
+		}
+
+		// Check if audio file was created
+		try {
+			const audioStats = await fs.stat(audioPath);
+			console.log(
+				`📊 [SERVER-AUDIO] Audio file created: ${(audioStats.size / 1024 / 1024).toFixed(2)}MB`,
+			);
+
+			if (audioStats.size === 0) {
+				throw new Error("FFmpeg created empty audio file");
+			}
+
+			return {
+				audioPath,
+				audioSize: audioStats.size,
+				audioFilename: `audio_${videoId}.${format.extension}`,
+				mimeType: format.mimeType,
+			};
+		} catch (statsError) {
+			throw new Error(
+				`Audio file was not created or is inaccessible: ${statsError instanceof Error ? statsError.message : String(statsError)}`,
+			);
+		}
+	} catch (error) {
+		console.error("❌ [SERVER-AUDIO] Audio extraction error:", error);
+
+		// Clean up temporary files on error
+		await fs.unlink(audioPath).catch(() => {});
+		throw error;
+	}
+}
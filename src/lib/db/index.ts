@@ -0,0 +1,111 @@
+import { Kysely, Migrator, PostgresDialect, SqliteDialect } from "kysely";
+import { Pool } from "pg";
+import { migrations, sqliteMigrations } from "./migrations";
+import { Database } from "./schema";
+
+export * from "./schema";
+
+// Survive Next.js dev hot reloads without leaking connection pools
+const globalForDb = globalThis as unknown as {
+	cinetuneDb?: Kysely<Database>;
+	cinetuneDbReady?: Promise<void>;
+	cinetuneJobsDb?: Promise<Kysely<Database>>;
+};
+
+// better-sqlite3 is only needed for a SQLite job store, so it is not a
+// dependency; the variable keeps bundlers from trying to resolve it
+const SQLITE_DRIVER = "better-sqlite3";
+
+export const getDb = (): Kysely<Database> => {
+	if (!globalForDb.cinetuneDb) {
+		const connectionString = process.env.DATABASE_URL;
+		if (!connectionString) {
+			throw new Error("DATABASE_URL is not set - cannot open the database");
+		}
+
+		globalForDb.cinetuneDb = new Kysely<Database>({
+			dialect: new PostgresDialect({
+				pool: new Pool({
+					connectionString,
+					max: Number(process.env.DATABASE_POOL_SIZE || 5),
+				}),
+			}),
+		});
+	}
+	return globalForDb.cinetuneDb;
+};
+
+export const getMigrator = (db: Kysely<any> = getDb()) =>
+	new Migrator({
+		db,
+		provider: {
+			getMigrations: async () => migrations,
+		},
+	});
+
+// Applies pending migrations once per process before the first query
+export const ensureDbReady = (): Promise<void> => {
+	if (!globalForDb.cinetuneDbReady) {
+		globalForDb.cinetuneDbReady = (async () => {
+			const { error, results } = await getMigrator().migrateToLatest();
+			for (const result of results ?? []) {
+				console.log(
+					`[db] migration ${result.migrationName}: ${result.status.toLowerCase()}`,
+				);
+			}
+			if (error) {
+				globalForDb.cinetuneDbReady = undefined;
+				throw error;
+			}
+		})();
+	}
+	return globalForDb.cinetuneDbReady;
+};
+
+const openSqliteDb = async (file: string): Promise<Kysely<Database>> => {
+	let Sqlite: any;
+	try {
+		Sqlite = (await import(/* webpackIgnore: true */ SQLITE_DRIVER)).default;
+	} catch {
+		throw new Error(
+			`JOBS_SQLITE_PATH is set but ${SQLITE_DRIVER} is not installed - run "npm install ${SQLITE_DRIVER}"`,
+		);
+	}
+	const database = new Sqlite(file);
+	// Lets several Next.js workers read while one writes
+	database.pragma("journal_mode = WAL");
+	return new Kysely<Database>({
+		dialect: new SqliteDialect({ database }),
+	});
+};
+
+// Database for the job manager: the main Postgres database, or a SQLite file
+// at JOBS_SQLITE_PATH for local development without Postgres. Migrated on
+// first use.
+export const getJobsDb = (): Promise<Kysely<Database>> => {
+	if (!globalForDb.cinetuneJobsDb) {
+		globalForDb.cinetuneJobsDb = (async () => {
+			const sqlitePath = process.env.JOBS_SQLITE_PATH;
+			if (!sqlitePath) {
+				await ensureDbReady();
+				return getDb();
+			}
+
+			const db = await openSqliteDb(sqlitePath);
+			const { error } = await new Migrator({
+				db,
+				provider: { getMigrations: async () => sqliteMigrations },
+			}).migrateToLatest();
+			if (error) {
+				await db.destroy();
+				throw error;
+			}
+			console.log(`[db] Jobs stored in SQLite at ${sqlitePath}`);
+			return db;
+		})().catch((error) => {
+			globalForDb.cinetuneJobsDb = undefined;
+			throw error;
+		});
+	}
+	return globalForDb.cinetuneJobsDb;
+};
@@ -0,0 +1,44 @@
+import { Kysely, sql } from "kysely";
+
+export async function up(db: Kysely<any>): Promise<void> {
+	await db.schema
+		.createTable("render_jobs")
+		.ifNotExists()
+		.addColumn("id", "text", (col) => col.primaryKey())
+		.addColumn("session_id", "text", (col) => col.notNull())
+		.addColumn("status", "text", (col) => col.notNull())
+		.addColumn("design_path", "text", (col) => col.notNull())
+		.addColumn("progress_path", "text", (col) => col.notNull())
+		.addColumn("output_path", "text")
+		.addColumn("pid", "integer")
+		.addColumn("attempts", "integer", (col) => col.notNull().defaultTo(0))
+		.addColumn("error", "text")
+		.addColumn("stderr", "text")
+		.addColumn("created_at", "timestamptz", (col) =>
+			col.notNull().defaultTo(sql`now()`),
+		)
+		.addColumn("started_at", "timestamptz")
+		.addColumn("finished_at", "timestamptz")
+		.addColumn("updated_at", "timestamptz", (col) =>
+			col.notNull().defaultTo(sql`now()`),
+		)
+		.execute();
+
+	await db.schema
+		.createIndex("render_jobs_status_created_at_idx")
+		.ifNotExists()
+		.on("render_jobs")
+		.columns(["status", "created_at"])
+		.execute();
+
+	await db.schema
+		.createIndex("render_jobs_session_id_idx")
+		.ifNotExists()
+		.on("render_jobs")
+		.column("session_id")
+		.execute();
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+	await db.schema.dropTable("render_jobs").ifExists().execute();
+}
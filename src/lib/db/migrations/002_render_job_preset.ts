@@ -0,0 +1,12 @@
+import { Kysely } from "kysely";
+
+export async function up(db: Kysely<any>): Promise<void> {
+	await db.schema
+		.alterTable("render_jobs")
+		.addColumn("preset", "text")
+		.execute();
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+	await db.schema.alterTable("render_jobs").dropColumn("preset").execute();
+}
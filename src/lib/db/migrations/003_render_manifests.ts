@@ -0,0 +1,41 @@
+import { Kysely, sql } from "kysely";
+
+export async function up(db: Kysely<any>): Promise<void> {
+	await db.schema
+		.createTable("render_manifests")
+		.ifNotExists()
+		// Same id as the render job that produced it
+		.addColumn("id", "text", (col) => col.primaryKey())
+		.addColumn("session_id", "text", (col) => col.notNull())
+		.addColumn("project_id", "text")
+		.addColumn("status", "text", (col) => col.notNull())
+		.addColumn("design", "jsonb", (col) => col.notNull())
+		.addColumn("target", "jsonb", (col) => col.notNull())
+		.addColumn("preset", "text")
+		.addColumn("output_path", "text")
+		.addColumn("duration_ms", "integer")
+		.addColumn("render_time_ms", "integer")
+		.addColumn("error", "text")
+		.addColumn("created_at", "timestamptz", (col) =>
+			col.notNull().defaultTo(sql`now()`),
+		)
+		.execute();
+
+	await db.schema
+		.createIndex("render_manifests_project_id_idx")
+		.ifNotExists()
+		.on("render_manifests")
+		.column("project_id")
+		.execute();
+
+	await db.schema
+		.createIndex("render_manifests_output_path_idx")
+		.ifNotExists()
+		.on("render_manifests")
+		.column("output_path")
+		.execute();
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+	await db.schema.dropTable("render_manifests").ifExists().execute();
+}
@@ -0,0 +1,15 @@
+import { Kysely } from "kysely";
+
+export async function up(db: Kysely<any>): Promise<void> {
+	await db.schema
+		.alterTable("render_manifests")
+		.addColumn("loudness", "jsonb")
+		.execute();
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+	await db.schema
+		.alterTable("render_manifests")
+		.dropColumn("loudness")
+		.execute();
+}
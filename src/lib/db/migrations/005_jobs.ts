@@ -0,0 +1,52 @@
+import { Kysely } from "kysely";
+
+// Also runs on SQLite (JOBS_SQLITE_PATH), so no Postgres-only defaults:
+// timestamps are always written by the job manager
+export async function up(db: Kysely<any>): Promise<void> {
+	await db.schema
+		.createTable("jobs")
+		.ifNotExists()
+		.addColumn("id", "text", (col) => col.primaryKey())
+		.addColumn("session_id", "text")
+		.addColumn("kind", "text", (col) => col.notNull())
+		.addColumn("status", "text", (col) => col.notNull())
+		.addColumn("progress", "real", (col) => col.notNull().defaultTo(0))
+		.addColumn("stage", "text")
+		.addColumn("input", "jsonb")
+		.addColumn("result", "jsonb")
+		.addColumn("error", "text")
+		.addColumn("attempts", "integer", (col) => col.notNull().defaultTo(0))
+		.addColumn("max_attempts", "integer", (col) => col.notNull().defaultTo(1))
+		.addColumn("next_attempt_at", "timestamptz")
+		.addColumn("created_at", "timestamptz", (col) => col.notNull())
+		.addColumn("updated_at", "timestamptz", (col) => col.notNull())
+		.addColumn("started_at", "timestamptz")
+		.addColumn("finished_at", "timestamptz")
+		.addColumn("expires_at", "timestamptz")
+		.execute();
+
+	await db.schema
+		.createIndex("jobs_session_id_created_at_idx")
+		.ifNotExists()
+		.on("jobs")
+		.columns(["session_id", "created_at"])
+		.execute();
+
+	await db.schema
+		.createIndex("jobs_status_updated_at_idx")
+		.ifNotExists()
+		.on("jobs")
+		.columns(["status", "updated_at"])
+		.execute();
+
+	await db.schema
+		.createIndex("jobs_expires_at_idx")
+		.ifNotExists()
+		.on("jobs")
+		.column("expires_at")
+		.execute();
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+	await db.schema.dropTable("jobs").ifExists().execute();
+}
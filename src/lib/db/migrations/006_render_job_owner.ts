@@ -0,0 +1,21 @@
+import { Kysely } from "kysely";
+
+export async function up(db: Kysely<any>): Promise<void> {
+	await db.schema
+		.alterTable("render_jobs")
+		.addColumn("owner_host", "text")
+		.addColumn("owner_boot_id", "text")
+		.addColumn("owner_pid", "integer")
+		.addColumn("heartbeat_at", "timestamptz")
+		.execute();
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+	await db.schema
+		.alterTable("render_jobs")
+		.dropColumn("owner_host")
+		.dropColumn("owner_boot_id")
+		.dropColumn("owner_pid")
+		.dropColumn("heartbeat_at")
+		.execute();
+}
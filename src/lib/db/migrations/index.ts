@@ -0,0 +1,23 @@
+import { Migration } from "kysely";
+import * as renderJobs from "./001_render_jobs";
+import * as renderJobPreset from "./002_render_job_preset";
+import * as renderManifests from "./003_render_manifests";
+import * as renderManifestLoudness from "./004_render_manifest_loudness";
+import * as jobs from "./005_jobs";
+import * as renderJobOwner from "./006_render_job_owner";
+
+// Migrations are registered in code rather than read from disk so they ship
+// inside the Next.js standalone build. Keys must sort in execution order.
+export const migrations: Record<string, Migration> = {
+	"001_render_jobs": renderJobs,
+	"002_render_job_preset": renderJobPreset,
+	"003_render_manifests": renderManifests,
+	"004_render_manifest_loudness": renderManifestLoudness,
+	"005_jobs": jobs,
+	"006_render_job_owner": renderJobOwner,
+};
+
+// The subset that also runs on SQLite, for a job store at JOBS_SQLITE_PATH
+export const sqliteMigrations: Record<string, Migration> = {
+	"005_jobs": jobs,
+};
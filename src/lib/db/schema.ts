@@ -0,0 +1,129 @@
+import {
+	ColumnType,
+	Generated,
+	Insertable,
+	Selectable,
+	Updateable,
+} from "kysely";
+
+// Kysely table definitions. Column names are snake_case to match Postgres;
+// every change here needs a matching migration in ./migrations.
+
+export type RenderJobStatus =
+	| "queued"
+	| "rendering"
+	| "completed"
+	| "error"
+	| "cancelled";
+
+export interface RenderJobsTable {
+	id: string;
+	session_id: string;
+	status: RenderJobStatus;
+	design_path: string;
+	progress_path: string;
+	output_path: string | null;
+	// ExportPresetId the render was encoded with
+	preset: string | null;
+	pid: number | null;
+	// Server process that claimed the job: its host, the host's boot id (pids
+	// mean nothing after a reboot) and its pid
+	owner_host: string | null;
+	owner_boot_id: string | null;
+	owner_pid: number | null;
+	// Refreshed by the owner while the render runs; a stale one lost its owner
+	heartbeat_at: Date | null;
+	attempts: Generated<number>;
+	error: string | null;
+	stderr: string | null;
+	created_at: Generated<Date>;
+	started_at: Date | null;
+	finished_at: Date | null;
+	updated_at: Generated<Date>;
+}
+
+// One record per finished render, kept after the job's temp files are gone
+// so a render can be traced back to the exact design and settings
+export interface RenderManifestsTable {
+	id: string;
+	session_id: string;
+	// design.id of the rendered project
+	project_id: string | null;
+	status: RenderJobStatus;
+	// JSON snapshot of the design as it was sent to the renderer
+	design: unknown;
+	// ExportTarget the render was started with
+	target: unknown;
+	preset: string | null;
+	output_path: string | null;
+	// Length of the rendered timeline span; 0 for stills
+	duration_ms: number | null;
+	render_time_ms: number | null;
+	error: string | null;
+	// Loudness measured before and after normalization, when requested
+	loudness: unknown | null;
+	created_at: Generated<Date>;
+}
+
+export type JobKind =
+	| "captions"
+	| "broll-timing"
+	| "encode"
+	| "extract-audio"
+	| "align-captions"
+	| "render";
+
+export type JobStatus =
+	| "queued"
+	| "processing"
+	| "completed"
+	| "failed"
+	| "cancelled";
+
+// Postgres returns Date, SQLite the ISO string it was given; writes are
+// always ISO strings so both stores accept them
+type Timestamp = ColumnType<Date | string, string, string>;
+
+// Background jobs other than renders (see src/lib/job-manager.ts). The same
+// table is created on SQLite when JOBS_SQLITE_PATH is set.
+export interface JobsTable {
+	id: string;
+	session_id: string | null;
+	kind: JobKind;
+	status: JobStatus;
+	// 0-100
+	progress: Generated<number>;
+	// What the job is doing right now, for display
+	stage: string | null;
+	// JSON; text on SQLite
+	input: unknown | null;
+	result: unknown | null;
+	error: string | null;
+	attempts: Generated<number>;
+	max_attempts: Generated<number>;
+	// Set while a failed attempt waits to be retried
+	next_attempt_at: Timestamp | null;
+	created_at: Timestamp;
+	// Refreshed while the job runs; a stale one lost its process
+	updated_at: Timestamp;
+	started_at: Timestamp | null;
+	finished_at: Timestamp | null;
+	// Finished jobs are deleted after this
+	expires_at: Timestamp | null;
+}
+
+export interface Database {
+	render_jobs: RenderJobsTable;
+	render_manifests: RenderManifestsTable;
+	jobs: JobsTable;
+}
+
+export type RenderJob = Selectable<RenderJobsTable>;
+export type NewRenderJob = Insertable<RenderJobsTable>;
+export type RenderJobUpdate = Updateable<RenderJobsTable>;
+
+export type RenderManifest = Selectable<RenderManifestsTable>;
+export type NewRenderManifest = Insertable<RenderManifestsTable>;
+
+export type JobRow = Selectable<JobsTable>;
+export type NewJobRow = Insertable<JobsTable>;
@@ -0,0 +1,325 @@
+import { execFile } from "node:child_process";
+import fs from "node:fs";
+import path from "node:path";
+import { promisify } from "node:util";
+import {
+	DesignIssue,
+	RenderDesign,
+	RenderTrackItem,
+	validateDesignSchema,
+} from "./design-schema";
+import { resolveMediaUrl } from "./media-urls";
+
+// Pre-flight for render routes: everything that would otherwise only fail
+// minutes into a render. Errors block the render, warnings are shown to the
+// user but don't stop it.
+
+const execFileAsync = promisify(execFile);
+
+const PROBE_TIMEOUT_MS = 20000;
+const PROBE_CONCURRENCY = 4;
+// The editor runs pre-flight right before the render route runs it again
+const PROBE_CACHE_TTL_MS = 5 * 60 * 1000;
+// Trims and durations are rounded to frames in the editor
+const DURATION_TOLERANCE_MS = 100;
+
+const MEDIA_ITEM_TYPES = ["video", "audio", "image"];
+
+export interface PreflightResult {
+	ok: boolean;
+	issues: DesignIssue[];
+}
+
+type MediaProbe =
+	| {
+			ok: true;
+			durationMs: number | null;
+			hasVideo: boolean;
+			hasAudio: boolean;
+	  }
+	// `unverified` means the file is reachable but ffprobe isn't installed
+	| { ok: true; unverified: true }
+	| { ok: false; reason: string };
+
+const probeCache = new Map<string, { at: number; probe: MediaProbe }>();
+
+const resolveProjectRoot = () =>
+	process.cwd().includes(".next/standalone")
+		? path.resolve(process.cwd(), "../../")
+		: process.cwd();
+
+// Same lookup as the @font-face rules TimelineVideo injects. Null for
+// families that aren't a plain file name.
+const getFontPath = (family: string) =>
+	/^[\w -]+$/.test(family)
+		? path.join(resolveProjectRoot(), "public", "fonts", `${family}.ttf`)
+		: null;
+
+const checkReachable = async (url: string): Promise<MediaProbe> => {
+	try {
+		const response = await fetch(url, {
+			method: "HEAD",
+			signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+		});
+		return response.ok
+			? { ok: true, unverified: true }
+			: { ok: false, reason: `Server answered ${response.status}` };
+	} catch (error) {
+		console.warn(`[preflight] ${url} is unreachable:`, error);
+		return { ok: false, reason: "The file could not be reached" };
+	}
+};
+
+const probeMedia = async (url: string): Promise<MediaProbe> => {
+	const cached = probeCache.get(url);
+	if (cached && Date.now() - cached.at < PROBE_CACHE_TTL_MS) {
+		return cached.probe;
+	}
+
+	let probe: MediaProbe;
+	try {
+		const { stdout } = await execFileAsync(
+			"ffprobe",
+			[
+				"-v",
+				"error",
+				"-print_format",
+				"json",
+				"-show_format",
+				"-show_streams",
+				// Keeps redirects and playlists from reaching other protocols
+				"-protocol_whitelist",
+				"http,https,tcp,tls",
+				url,
+			],
+			{ timeout: PROBE_TIMEOUT_MS, maxBuffer: 4 * 1024 * 1024 },
+		);
+		const info = JSON.parse(stdout);
+		const streams: any[] = info.streams || [];
+		const duration = Number(info.format?.duration);
+		probe = {
+			ok: true,
+			durationMs: Number.isFinite(duration) ? duration * 1000 : null,
+			hasVideo: streams.some((stream) => stream.codec_type === "video"),
+			hasAudio: streams.some((stream) => stream.codec_type === "audio"),
+		};
+	} catch (error: any) {
+		if (error?.code === "ENOENT") {
+			// No ffprobe on this host - at least make sure the file is there
+			probe = await checkReachable(url);
+		} else {
+			// ffprobe's output can describe the server's network; keep it here
+			console.warn(
+				`[preflight] ffprobe failed for ${url}:`,
+				String(error?.stderr || error?.message || error).trim(),
+			);
+			probe = {
+				ok: false,
+				reason: error?.killed
+					? "Timed out reading the file"
+					: "The file could not be read",
+			};
+		}
+	}
+
+	probeCache.set(url, { at: Date.now(), probe });
+	return probe;
+};
+
+const checkTrim = (
+	item: RenderTrackItem,
+	durationMs: number,
+): DesignIssue | null => {
+	const seconds = (ms: number) => `${(ms / 1000).toFixed(2)}s`;
+
+	if (item.trim && item.trim.to > durationMs + DURATION_TOLERANCE_MS) {
+		return {
+			level: "error",
+			code: "trim-out-of-range",
+			message: `Trim ends at ${seconds(item.trim.to)} but the source is only ${seconds(durationMs)} long`,
+			itemId: item.id,
+		};
+	}
+
+	// Without a trim the item plays from the start for its whole length
+	const needed =
+		(item.display.to - item.display.from) * (item.playbackRate ?? 1);
+	if (!item.trim && needed > durationMs + DURATION_TOLERANCE_MS) {
+		return {
+			level: "warning",
+			code: "source-too-short",
+			message: `Item is ${seconds(needed)} long but its source only has ${seconds(durationMs)}`,
+			itemId: item.id,
+		};
+	}
+	return null;
+};
+
+const checkMedia = async (
+	design: RenderDesign,
+	origin: string,
+): Promise<DesignIssue[]> => {
+	const issues: DesignIssue[] = [];
+	const items = design.trackItems.filter((item) =>
+		MEDIA_ITEM_TYPES.includes(item.type),
+	);
+
+	const urls = new Map<RenderTrackItem, string>();
+	for (const item of items) {
+		const src = item.details.src;
+		if (!src) {
+			issues.push({
+				level: "error",
+				code: "missing-src",
+				message: `${item.type} item has no source`,
+				itemId: item.id,
+			});
+			continue;
+		}
+		// Inline data needs no fetching
+		if (src.startsWith("data:")) continue;
+
+		const url = resolveMediaUrl(src, origin);
+		if (!url) {
+			issues.push({
+				level: "error",
+				code: "unreachable-src",
+				message: src.startsWith("blob:")
+					? "Source only exists in this browser tab; upload it before exporting"
+					: "Source is not an http(s) URL on an allowed media host",
+				itemId: item.id,
+			});
+			continue;
+		}
+		urls.set(item, url);
+	}
+
+	// Probe each distinct URL once, a few at a time
+	const pending = Array.from(new Set(urls.values()));
+	const probes = new Map<string, MediaProbe>();
+	await Promise.all(
+		Array.from(
+			{ length: Math.min(PROBE_CONCURRENCY, pending.length) },
+			async () => {
+				for (;;) {
+					const url = pending.shift();
+					if (url === undefined) break;
+					probes.set(url, await probeMedia(url));
+				}
+			},
+		),
+	);
+
+	let unverified = false;
+	for (const [item, url] of urls) {
+		const probe = probes.get(url);
+		if (!probe) continue;
+
+		if (!probe.ok) {
+			issues.push({
+				level: "error",
+				code: "unreadable-src",
+				message: `Cannot read ${item.type} source: ${probe.reason}`,
+				itemId: item.id,
+			});
+			continue;
+		}
+		if ("unverified" in probe) {
+			unverified = true;
+			continue;
+		}
+
+		if (item.type === "video" && !probe.hasVideo) {
+			issues.push({
+				level: "error",
+				code: "no-video-stream",
+				message: "Video source has no video stream",
+				itemId: item.id,
+			});
+		}
+		if (item.type === "audio" && !probe.hasAudio) {
+			issues.push({
+				level: "error",
+				code: "no-audio-stream",
+				message: "Audio source has no audio stream",
+				itemId: item.id,
+			});
+		}
+		if (item.type !== "image" && probe.durationMs !== null) {
+			const trimIssue = checkTrim(item, probe.durationMs);
+			if (trimIssue) issues.push(trimIssue);
+		}
+	}
+
+	if (unverified) {
+		issues.push({
+			level: "warning",
+			code: "media-unverified",
+			message:
+				"ffprobe is not installed on the server; sources were only checked for reachability",
+		});
+	}
+
+	return issues;
+};
+
+const checkFonts = (design: RenderDesign): DesignIssue[] => {
+	const issues: DesignIssue[] = [];
+	const checked = new Map<string, boolean>();
+
+	for (const item of design.trackItems) {
+		const family = item.details.fontFamily;
+		if (item.type !== "text" || !family) continue;
+
+		if (!checked.has(family)) {
+			const fontPath = getFontPath(family);
+			checked.set(family, fontPath !== null && fs.existsSync(fontPath));
+		}
+		if (!checked.get(family)) {
+			issues.push({
+				level: "warning",
+				code: "missing-font",
+				message: `Font "${family}" has no file in public/fonts and will fall back to a default font`,
+				itemId: item.id,
+			});
+		}
+	}
+
+	return issues;
+};
+
+const checkTimeline = (design: RenderDesign): DesignIssue[] => {
+	if (design.duration === undefined) return [];
+
+	const end = Math.max(0, ...design.trackItems.map((item) => item.display.to));
+	if (end <= design.duration + DURATION_TOLERANCE_MS) return [];
+	return [
+		{
+			level: "warning",
+			code: "items-past-end",
+			message: `Items run until ${(end / 1000).toFixed(2)}s but the video ends at ${(design.duration / 1000).toFixed(2)}s`,
+		},
+	];
+};
+
+export const preflightDesign = async (
+	rawDesign: unknown,
+	{ origin }: { origin: string },
+): Promise<PreflightResult> => {
+	const { design, issues } = validateDesignSchema(rawDesign);
+	// Media checks need a structurally valid design
+	if (!design) {
+		return { ok: false, issues };
+	}
+
+	issues.push(
+		...checkTimeline(design),
+		...checkFonts(design),
+		...(await checkMedia(design, origin)),
+	);
+
+	return {
+		ok: !issues.some((issue) => issue.level === "error"),
+		issues,
+	};
+};
@@ -0,0 +1,117 @@
+import { z } from "zod";
+
+// Shape of the design sent to the render routes (see startExport in
+// use-download-state). Only what the renderer relies on is checked; unknown
+// keys pass through untouched.
+
+export type DesignIssueLevel = "error" | "warning";
+
+export interface DesignIssue {
+	level: DesignIssueLevel;
+	code: string;
+	message: string;
+	// Track item the issue belongs to, when there is one
+	itemId?: string;
+	// Dotted path into the design, e.g. "trackItems.3.display.to"
+	path?: string;
+}
+
+const finite = z.number().finite();
+
+// CSS lengths arrive as numbers or strings like "120px"
+const cssLength = z.union([
+	finite,
+	z
+		.string()
+		.refine((value) => !Number.isNaN(Number.parseFloat(value)), "Not a number"),
+]);
+
+const timeRange = z
+	.object({ from: finite.nonnegative(), to: finite.nonnegative() })
+	.passthrough();
+
+export const trackItemSchema = z
+	.object({
+		id: z.string().min(1),
+		type: z.string().min(1),
+		name: z.string().optional(),
+		display: timeRange.refine((range) => range.to > range.from, {
+			message: "Item has zero or negative length",
+			path: ["to"],
+		}),
+		trim: timeRange
+			.refine((range) => range.to > range.from, {
+				message: "Trim has zero or negative length",
+				path: ["to"],
+			})
+			.optional(),
+		playbackRate: finite.positive().optional(),
+		details: z
+			.object({
+				src: z.string().optional(),
+				left: cssLength.optional(),
+				top: cssLength.optional(),
+				width: cssLength.optional(),
+				height: cssLength.optional(),
+				opacity: finite.optional(),
+				volume: finite.optional(),
+				fontFamily: z.string().optional(),
+			})
+			.passthrough(),
+	})
+	.passthrough();
+
+export const designSchema = z
+	.object({
+		id: z.union([z.string(), z.number()]).optional(),
+		size: z.object({
+			width: finite.int().positive(),
+			height: finite.int().positive(),
+		}),
+		fps: finite.positive().optional(),
+		duration: finite.nonnegative().optional(),
+		background: z
+			.object({ type: z.enum(["color", "image"]), value: z.string() })
+			.optional(),
+		trackItems: z.array(trackItemSchema),
+		tracks: z.array(z.any()).optional(),
+		transitionsMap: z.record(z.any()).optional(),
+	})
+	.passthrough();
+
+export type RenderDesign = z.infer<typeof designSchema>;
+export type RenderTrackItem = z.infer<typeof trackItemSchema>;
+
+// Structural check only - media and fonts are checked by the server pre-flight
+export const validateDesignSchema = (
+	design: unknown,
+): { design?: RenderDesign; issues: DesignIssue[] } => {
+	const result = designSchema.safeParse(design);
+	if (result.success) {
+		return { design: result.data, issues: [] };
+	}
+
+	const trackItems = (design as any)?.trackItems;
+	return {
+		issues: result.error.issues.map((issue) => {
+			const itemIndex =
+				issue.path[0] === "trackItems" && typeof issue.path[1] === "number"
+					? issue.path[1]
+					: null;
+			const itemId =
+				itemIndex !== null ? trackItems?.[itemIndex]?.id : undefined;
+			// NaN serialises to null in JSON, so that's what broken numbers look like
+			const message =
+				issue.code === "invalid_type" && issue.received === "null"
+					? `${issue.path[issue.path.length - 1]} is missing or not a number`
+					: issue.message;
+			return {
+				level: "error",
+				code: "invalid-design",
+				message,
+				path: issue.path.join("."),
+				...(itemId ? { itemId: String(itemId) } : {}),
+			};
+		}),
+	};
+};
@@ -1,108 +1,469 @@
-// Shared job status management
-export interface JobStatus {
-	status: "processing" | "completed" | "failed";
-	captions?: any[];
-	brollTimings?: any[]; // Add B-roll timing results
-	error?: string;
+import { randomUUID } from "node:crypto";
+import { getJobsDb, JobKind, JobRow, JobStatus } from "./db";
+import type { Caption } from "./transcription";
+import type { AlignedCaption } from "./transcription/alignment";
+
+export type { JobKind, JobStatus } from "./db";
+
+// Persistent background jobs (captions, B-roll timing, proxy encodes, audio
+// extraction, caption re-alignment) in the jobs table, so they survive restarts and every Next.js
+// worker sees the same state. Renders keep their own queue in render_jobs;
+// "render" exists as a kind so listings can show both side by side.
+//
+// The process that creates a job runs it: run() marks it processing, keeps
+// updated_at fresh while the handler works and retries failures with
+// exponential backoff up to max_attempts. A job whose updated_at stops moving
+// lost its process and is failed by the cleanup sweep, which also deletes
+// finished jobs once they expire.
+
+const DEFAULT_MAX_ATTEMPTS = Math.max(
+	1,
+	Number(process.env.JOB_MAX_ATTEMPTS || 3),
+);
+const RETRY_BASE_MS = Number(process.env.JOB_RETRY_BASE_SECONDS || 5) * 1000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+const TTL_MS = Number(process.env.JOB_TTL_HOURS || 24) * 60 * 60 * 1000;
+const STALE_MS = Number(process.env.JOB_STALE_MINUTES || 10) * 60 * 1000;
+const CLEANUP_INTERVAL_MS =
+	Number(process.env.JOB_CLEANUP_INTERVAL_MINUTES || 30) * 60 * 1000;
+const HEARTBEAT_MS = 60 * 1000;
+
+const ACTIVE_STATUSES: JobStatus[] = ["queued", "processing"];
+
+// What each kind is started with and what it produces
+export interface JobInputs {
+	captions: {
+		fileName: string;
+		fileSize: number;
+		orientation: string;
+	};
+	"broll-timing": {
+		captionJobId: string;
+		videoId: string | null;
+		clipCount: number;
+	};
+	encode: {
+		inputPath: string;
+		outputPath: string;
+	};
+	"extract-audio": {
+		videoId: string;
+		videoUrl: string;
+	};
+	"align-captions": {
+		videoUrl: string | null;
+		captionCount: number;
+		editedCount: number;
+	};
+	render: {
+		presetId: string | null;
+	};
+}
+
+export interface JobResults {
+	captions: {
+		captions: Caption[];
+		processedAt: string;
+		videoPath?: string;
+		orientation?: string;
+		engine?: string;
+		language?: string | null;
+		// Seconds of speech transcribed
+		duration?: number;
+	};
+	"broll-timing": {
+		brollTimings: any[];
+	};
+	encode: {
+		outputUrl: string;
+		originalSize: number;
+		compressedSize: number;
+	};
+	"extract-audio": {
+		audioUrl: string;
+		audioSize: number;
+		processingTime: number;
+	};
+	"align-captions": {
+		captions: AlignedCaption[];
+		// False when the words were spread by length, without the audio
+		audioAligned: boolean;
+		engine: string | null;
+	};
+	render: {
+		filePath: string;
+	};
+}
+
+export interface Job<K extends JobKind = JobKind> {
+	id: string;
+	sessionId: string | null;
+	kind: K;
+	status: JobStatus;
+	progress: number;
+	stage: string | null;
+	input: JobInputs[K] | null;
+	result: JobResults[K] | null;
+	error: string | null;
+	attempts: number;
+	maxAttempts: number;
+	nextAttemptAt: Date | null;
 	createdAt: Date;
 	updatedAt: Date;
-	processedAt?: string;
-	failedAt?: string;
-	videoPath?: string;
-	orientation?: string;
+	startedAt: Date | null;
+	finishedAt: Date | null;
+	expiresAt: Date | null;
+}
+
+export interface JobContext<K extends JobKind> {
+	job: Job<K>;
+	attempt: number;
+	// progress is 0-100; stage is a short label such as "transcribing"
+	setProgress: (progress: number, stage?: string) => Promise<void>;
+}
+
+// Thrown by a handler for failures another attempt can't fix
+export class JobError extends Error {
+	constructor(
+		message: string,
+		public retryable = true,
+	) {
+		super(message);
+		this.name = "JobError";
+	}
 }
 
+const toDate = (value: Date | string | null) =>
+	value === null ? null : new Date(value);
+
+// jsonb comes back parsed from Postgres and as text from SQLite
+const fromJson = (value: unknown) =>
+	typeof value === "string" ? JSON.parse(value) : (value ?? null);
+
+const toJob = <K extends JobKind>(row: JobRow): Job<K> => ({
+	id: row.id,
+	sessionId: row.session_id,
+	kind: row.kind as K,
+	status: row.status,
+	progress: Number(row.progress),
+	stage: row.stage,
+	input: fromJson(row.input),
+	result: fromJson(row.result),
+	error: row.error,
+	attempts: Number(row.attempts),
+	maxAttempts: Number(row.max_attempts),
+	nextAttemptAt: toDate(row.next_attempt_at),
+	createdAt: new Date(row.created_at),
+	updatedAt: new Date(row.updated_at),
+	startedAt: toDate(row.started_at),
+	finishedAt: toDate(row.finished_at),
+	expiresAt: toDate(row.expires_at),
+});
+
+const now = () => new Date().toISOString();
+const later = (ms: number) => new Date(Date.now() + ms).toISOString();
+
+const retryDelay = (attempt: number) =>
+	Math.min(RETRY_BASE_MS * 2 ** (attempt - 1), RETRY_MAX_MS);
+
+const errorMessage = (error: unknown) =>
+	error instanceof Error ? error.message : String(error);
+
 class JobManager {
-	private jobs = new Map<string, JobStatus>();
-
-	createJob(jobId: string): void {
-		console.log(`🔵 [JobManager] Creating job: ${jobId}`);
-		this.jobs.set(jobId, {
-			status: "processing",
-			createdAt: new Date(),
-			updatedAt: new Date(),
-		});
+	private cleanupTimer?: NodeJS.Timeout;
+
+	async createJob<K extends JobKind>(
+		kind: K,
+		{
+			id = randomUUID(),
+			sessionId = null,
+			input = null,
+			maxAttempts = DEFAULT_MAX_ATTEMPTS,
+		}: {
+			id?: string;
+			sessionId?: string | null;
+			input?: JobInputs[K] | null;
+			maxAttempts?: number;
+		} = {},
+	): Promise<Job<K>> {
+		const db = await this.db();
+		const timestamp = now();
+		const row = await db
+			.insertInto("jobs")
+			.values({
+				id,
+				session_id: sessionId,
+				kind,
+				status: "queued",
+				stage: null,
+				input: input === null ? null : JSON.stringify(input),
+				result: null,
+				error: null,
+				max_attempts: Math.max(1, maxAttempts),
+				next_attempt_at: null,
+				created_at: timestamp,
+				updated_at: timestamp,
+				started_at: null,
+				finished_at: null,
+				expires_at: null,
+			})
+			.returningAll()
+			.executeTakeFirstOrThrow();
+
 		console.log(
-			`✅ [JobManager] Job created: ${jobId}, total jobs: ${this.jobs.size}`,
+			`[job-manager] Created ${kind} job ${id}${sessionId ? ` for session ${sessionId}` : ""}`,
 		);
+		return toJob<K>(row);
 	}
 
-	getJob(jobId: string): JobStatus | undefined {
-		console.log(`🔵 [JobManager] Getting job: ${jobId}`);
-		const job = this.jobs.get(jobId);
-		console.log(
-			`🔵 [JobManager] Job ${jobId} found:`,
-			!!job,
-			job ? `status: ${job.status}` : "not found",
-		);
-		return job;
+	// With `kind`, a job of another kind counts as not found
+	async getJob<K extends JobKind>(
+		id: string,
+		kind?: K,
+	): Promise<Job<K> | null> {
+		const db = await this.db();
+		let query = db.selectFrom("jobs").selectAll().where("id", "=", id);
+		if (kind) query = query.where("kind", "=", kind);
+		const row = await query.executeTakeFirst();
+		return row ? toJob<K>(row) : null;
 	}
 
-	updateJob(jobId: string, updates: Partial<JobStatus>): void {
-		console.log(`🔵 [JobManager] Updating job: ${jobId}`, updates);
-		const job = this.jobs.get(jobId);
-		if (job) {
-			const updatedJob = {
-				...job,
-				...updates,
-				updatedAt: new Date(),
-			};
-			this.jobs.set(jobId, updatedJob);
-			console.log(
-				`✅ [JobManager] Job updated: ${jobId}, new status: ${updatedJob.status}`,
-			);
-		} else {
-			console.error(`❌ [JobManager] Cannot update job: ${jobId} - not found`);
-		}
+	// Newest first
+	async listJobs(
+		sessionId: string,
+		{ kinds, limit = 50 }: { kinds?: JobKind[]; limit?: number } = {},
+	): Promise<Job[]> {
+		const db = await this.db();
+		let query = db
+			.selectFrom("jobs")
+			.selectAll()
+			.where("session_id", "=", sessionId);
+		if (kinds?.length) query = query.where("kind", "in", kinds);
+		const rows = await query
+			.orderBy("created_at", "desc")
+			.limit(limit)
+			.execute();
+		return rows.map((row) => toJob(row));
 	}
 
-	deleteJob(jobId: string): boolean {
-		console.log(`🔵 [JobManager] Deleting job: ${jobId}`);
-		const deleted = this.jobs.delete(jobId);
-		console.log(
-			`🔵 [JobManager] Job ${jobId} deleted: ${deleted}, total jobs: ${this.jobs.size}`,
-		);
-		return deleted;
+	async setProgress(id: string, progress: number, stage?: string) {
+		const db = await this.db();
+		await db
+			.updateTable("jobs")
+			.set({
+				progress: Math.max(0, Math.min(100, progress)),
+				...(stage !== undefined && { stage }),
+				updated_at: now(),
+			})
+			.where("id", "=", id)
+			.where("status", "=", "processing")
+			.execute();
 	}
 
-	getAllJobs(): string[] {
-		const jobIds = Array.from(this.jobs.keys());
-		console.log(`🔵 [JobManager] Getting all jobs: ${jobIds.length} jobs`);
-		return jobIds;
+	async completeJob<K extends JobKind>(id: string, result: JobResults[K]) {
+		const db = await this.db();
+		const timestamp = now();
+		await db
+			.updateTable("jobs")
+			.set({
+				status: "completed",
+				progress: 100,
+				result: JSON.stringify(result),
+				error: null,
+				next_attempt_at: null,
+				finished_at: timestamp,
+				updated_at: timestamp,
+				expires_at: later(TTL_MS),
+			})
+			.where("id", "=", id)
+			.where("status", "in", ACTIVE_STATUSES)
+			.execute();
+		console.log(`[job-manager] Job ${id} completed`);
 	}
 
-	cleanupOldJobs(maxAge: number = 24 * 60 * 60 * 1000): void {
-		console.log(`🔵 [JobManager] Cleaning up old jobs (max age: ${maxAge}ms)`);
-		const now = new Date();
-		let cleanedCount = 0;
+	async failJob(id: string, error: string) {
+		const db = await this.db();
+		const timestamp = now();
+		await db
+			.updateTable("jobs")
+			.set({
+				status: "failed",
+				error,
+				next_attempt_at: null,
+				finished_at: timestamp,
+				updated_at: timestamp,
+				expires_at: later(TTL_MS),
+			})
+			.where("id", "=", id)
+			.where("status", "in", ACTIVE_STATUSES)
+			.execute();
+		console.log(`[job-manager] Job ${id} failed: ${error}`);
+	}
 
-		for (const [jobId, job] of this.jobs.entries()) {
-			if (now.getTime() - job.updatedAt.getTime() > maxAge) {
-				this.jobs.delete(jobId);
-				cleanedCount++;
-				console.log(`🧹 [JobManager] Cleaned up old job: ${jobId}`);
-			}
+	async deleteJob(id: string): Promise<boolean> {
+		const db = await this.db();
+		const { numDeletedRows } = await db
+			.deleteFrom("jobs")
+			.where("id", "=", id)
+			.executeTakeFirst();
+		return Number(numDeletedRows) > 0;
+	}
+
+	/**
+	 * Runs `handler` for a queued job until it succeeds or runs out of
+	 * attempts, and stores the outcome. Never rejects, so routes can start it
+	 * without awaiting; the finished job is returned for callers that wait.
+	 */
+	async run<K extends JobKind>(
+		job: Job<K>,
+		handler: (context: JobContext<K>) => Promise<JobResults[K]>,
+	): Promise<Job<K> | null> {
+		try {
+			return await this.runAttempts(job, handler);
+		} catch (error) {
+			console.error(`[job-manager] Lost track of job ${job.id}:`, error);
+			return null;
 		}
+	}
 
-		console.log(
-			`✅ [JobManager] Cleanup completed: ${cleanedCount} jobs removed, ${this.jobs.size} remaining`,
-		);
+	private async runAttempts<K extends JobKind>(
+		job: Job<K>,
+		handler: (context: JobContext<K>) => Promise<JobResults[K]>,
+	): Promise<Job<K> | null> {
+		const db = await this.db();
+
+		for (let attempt = job.attempts + 1; ; attempt++) {
+			const started = await db
+				.updateTable("jobs")
+				.set({
+					status: "processing",
+					attempts: attempt,
+					next_attempt_at: null,
+					updated_at: now(),
+					...(attempt === 1 && { started_at: now() }),
+				})
+				.where("id", "=", job.id)
+				.where("status", "=", "queued")
+				.returningAll()
+				.executeTakeFirst();
+			// Deleted or cancelled while waiting
+			if (!started) return this.getJob(job.id, job.kind);
+
+			const heartbeat = setInterval(() => {
+				db.updateTable("jobs")
+					.set({ updated_at: now() })
+					.where("id", "=", job.id)
+					.where("status", "=", "processing")
+					.execute()
+					.catch((error) =>
+						console.error(
+							`[job-manager] Heartbeat for ${job.id} failed:`,
+							error,
+						),
+					);
+			}, HEARTBEAT_MS);
+
+			try {
+				const result = await handler({
+					job: toJob<K>(started),
+					attempt,
+					setProgress: (progress, stage) =>
+						this.setProgress(job.id, progress, stage),
+				});
+				await this.completeJob<K>(job.id, result);
+				return this.getJob(job.id, job.kind);
+			} catch (error) {
+				const message = errorMessage(error);
+				const retryable = !(error instanceof JobError) || error.retryable;
+				if (!retryable || attempt >= started.max_attempts) {
+					await this.failJob(job.id, message);
+					return this.getJob(job.id, job.kind);
+				}
+
+				const delay = retryDelay(attempt);
+				console.log(
+					`[job-manager] ${job.kind} job ${job.id} failed on attempt ${attempt}/${started.max_attempts}, retrying in ${delay}ms: ${message}`,
+				);
+				await db
+					.updateTable("jobs")
+					.set({
+						status: "queued",
+						error: message,
+						next_attempt_at: later(delay),
+						updated_at: now(),
+					})
+					.where("id", "=", job.id)
+					.where("status", "=", "processing")
+					.execute();
+				await new Promise((resolve) => setTimeout(resolve, delay));
+			} finally {
+				clearInterval(heartbeat);
+			}
+		}
 	}
 
-	// Debug method to log all jobs
-	debugJobs(): void {
-		console.log(`🔍 [JobManager] Debug - Total jobs: ${this.jobs.size}`);
-		for (const [jobId, job] of this.jobs.entries()) {
-			console.log(`🔍 [JobManager] Job ${jobId}:`, {
-				status: job.status,
-				createdAt: job.createdAt.toISOString(),
-				updatedAt: job.updatedAt.toISOString(),
-				captionsCount: job.captions ? job.captions.length : 0,
-				hasError: !!job.error,
-			});
+	/**
+	 * Deletes finished jobs past their expiry and fails jobs whose process
+	 * stopped updating them. Replaces the old in-memory cleanupOldJobs.
+	 */
+	async cleanupExpiredJobs(): Promise<{ deleted: number; stale: number }> {
+		const db = await this.db();
+		const timestamp = now();
+
+		const { numDeletedRows } = await db
+			.deleteFrom("jobs")
+			.where("expires_at", "<", timestamp)
+			.executeTakeFirst();
+
+		const { numUpdatedRows } = await db
+			.updateTable("jobs")
+			.set({
+				status: "failed",
+				error: "Job stopped responding - the server handling it restarted",
+				next_attempt_at: null,
+				finished_at: timestamp,
+				updated_at: timestamp,
+				expires_at: later(TTL_MS),
+			})
+			.where("status", "in", ACTIVE_STATUSES)
+			.where("updated_at", "<", new Date(Date.now() - STALE_MS).toISOString())
+			.executeTakeFirst();
+
+		const result = {
+			deleted: Number(numDeletedRows),
+			stale: Number(numUpdatedRows),
+		};
+		if (result.deleted > 0 || result.stale > 0) {
+			console.log(
+				`[job-manager] Cleanup removed ${result.deleted} expired jobs, failed ${result.stale} stale jobs`,
+			);
 		}
+		return result;
+	}
+
+	private async db() {
+		const db = await getJobsDb();
+		this.startCleanup();
+		return db;
 	}
+
+	private startCleanup() {
+		if (this.cleanupTimer || CLEANUP_INTERVAL_MS <= 0) return;
+		const sweep = () =>
+			this.cleanupExpiredJobs().catch((error) =>
+				console.error("[job-manager] Cleanup failed:", error),
+			);
+		this.cleanupTimer = setInterval(sweep, CLEANUP_INTERVAL_MS);
+		this.cleanupTimer.unref();
+		void sweep();
+	}
+}
+
+// One manager (and cleanup timer) per process, across dev hot reloads
+const globalForJobs = globalThis as unknown as { jobManager?: JobManager };
+
+if (!globalForJobs.jobManager) {
+	globalForJobs.jobManager = new JobManager();
 }
 
-// Export singleton instance
-export const jobManager = new JobManager();
+export const jobManager = globalForJobs.jobManager;
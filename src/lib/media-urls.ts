@@ -0,0 +1,60 @@
+// Which media URLs the server may open on a user's behalf. Design sources and
+// caption videos end up in ffprobe/FFmpeg, which read far more than http(s)
+// (file:, concat:, pipes) and would happily fetch internal hosts, so only
+// http(s) URLs on this app or on an allowed media origin get through.
+//
+// MEDIA_ALLOWED_ORIGINS is a comma-separated list of origins media is served
+// from. The app's own origin is NEXT_PUBLIC_APP_URL; without it the request's
+// origin is trusted, which is only meant for local development.
+
+const DEFAULT_MEDIA_ORIGINS = [
+	"https://ik.imagekit.io",
+	"https://cdn.designcombo.dev",
+	"https://storage.googleapis.com",
+];
+
+const toOrigin = (value: string) => {
+	try {
+		return new URL(value.trim()).origin;
+	} catch {
+		return null;
+	}
+};
+
+export const getAllowedMediaOrigins = (): string[] => {
+	const configured = process.env.MEDIA_ALLOWED_ORIGINS;
+	const origins = configured ? configured.split(",") : DEFAULT_MEDIA_ORIGINS;
+	return origins
+		.map(toOrigin)
+		.filter((origin): origin is string => origin !== null);
+};
+
+// Origin relative sources are resolved against, as the browser did
+export const getAppOrigin = (request: Request): string =>
+	(process.env.NEXT_PUBLIC_APP_URL &&
+		toOrigin(process.env.NEXT_PUBLIC_APP_URL)) ||
+	new URL(request.url).origin;
+
+/**
+ * Resolves `src` against the app origin and returns it when the server may
+ * read it, or null for other schemes, embedded credentials and origins that
+ * aren't allowed.
+ */
+export const resolveMediaUrl = (
+	src: string,
+	appOrigin: string,
+	allowedOrigins: string[] = getAllowedMediaOrigins(),
+): string | null => {
+	let url: URL;
+	try {
+		url = new URL(src, appOrigin);
+	} catch {
+		return null;
+	}
+	if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+	if (url.username || url.password) return null;
+	if (url.origin !== appOrigin && !allowedOrigins.includes(url.origin)) {
+		return null;
+	}
+	return url.toString();
+};
@@ -0,0 +1,131 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+	JanitorConfig,
+	RenderFile,
+	selectExpiredRenders,
+	selectOrphanedTemp,
+	TempArtifact,
+} from "./render-janitor";
+
+const MB = 1024 * 1024;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const NOW = Date.UTC(2026, 0, 31);
+
+const config = (overrides: Partial<JanitorConfig> = {}): JanitorConfig => ({
+	retentionDays: 0,
+	maxTotalMb: 0,
+	sessionQuotaMb: 0,
+	tempMaxAgeHours: 6,
+	intervalMinutes: 60,
+	dryRun: false,
+	...overrides,
+});
+
+const render = (
+	name: string,
+	sessionId: string,
+	ageDays: number,
+	sizeMb: number,
+): RenderFile => ({
+	path: `/renders/${sessionId}/${name}.mp4`,
+	bytes: sizeMb * MB,
+	files: 1,
+	mtimeMs: NOW - ageDays * DAY_MS,
+	sessionId,
+	previewPaths: [],
+});
+
+const selected = (removals: Map<RenderFile, string>) =>
+	[...removals].map(([file, reason]) => `${file.path} ${reason}`);
+
+describe("selectExpiredRenders", () => {
+	it("keeps everything with every rule off", () => {
+		const renders = [render("a", "s1", 400, 500), render("b", "s2", 1, 500)];
+		assert.equal(selectExpiredRenders(renders, config(), NOW).size, 0);
+	});
+
+	it("removes renders past the retention age", () => {
+		const renders = [render("old", "s1", 10, 1), render("new", "s1", 2, 1)];
+		assert.deepEqual(
+			selected(
+				selectExpiredRenders(renders, config({ retentionDays: 7 }), NOW),
+			),
+			["/renders/s1/old.mp4 expired"],
+		);
+	});
+
+	it("removes a session's oldest renders until it is under its quota", () => {
+		const renders = [
+			render("newest", "s1", 1, 40),
+			render("oldest", "s1", 3, 40),
+			render("middle", "s1", 2, 40),
+			render("other", "s2", 5, 200),
+		];
+		assert.deepEqual(
+			selected(
+				selectExpiredRenders(renders, config({ sessionQuotaMb: 50 }), NOW),
+			),
+			[
+				"/renders/s1/oldest.mp4 session-quota",
+				"/renders/s1/middle.mp4 session-quota",
+				"/renders/s2/other.mp4 session-quota",
+			],
+		);
+	});
+
+	it("removes the oldest renders overall until under the total size", () => {
+		const renders = [
+			render("a", "s1", 1, 60),
+			render("b", "s2", 3, 60),
+			render("c", "s3", 2, 60),
+		];
+		assert.deepEqual(
+			selected(selectExpiredRenders(renders, config({ maxTotalMb: 100 }), NOW)),
+			["/renders/s2/b.mp4 total-size", "/renders/s3/c.mp4 total-size"],
+		);
+	});
+
+	it("never removes renders that may still be written", () => {
+		const fresh = { ...render("fresh", "s1", 0, 500), mtimeMs: NOW - 60_000 };
+		assert.equal(
+			selectExpiredRenders([fresh], config({ maxTotalMb: 1 }), NOW).size,
+			0,
+		);
+	});
+});
+
+describe("selectOrphanedTemp", () => {
+	const artifact = (
+		path: string,
+		ageHours: number,
+		jobId?: string,
+	): TempArtifact => ({
+		path,
+		bytes: 1,
+		files: 1,
+		mtimeMs: NOW - ageHours * HOUR_MS,
+		category: "renderProgress",
+		jobId,
+	});
+
+	it("removes old artifacts no active job uses", () => {
+		const artifacts = [
+			artifact("/tmp/render-progress-done.json", 12, "done"),
+			artifact("/tmp/render-progress-young.json", 1, "young"),
+			artifact("/tmp/render-progress-active.json", 12, "active"),
+			artifact("/tmp/remotion-design-active", 12),
+		];
+		const active = {
+			ids: new Set(["active"]),
+			designDirs: new Set(["/tmp/remotion-design-active"]),
+		};
+		assert.deepEqual(
+			selectOrphanedTemp(artifacts, active, config(), NOW).map(
+				(entry) => entry.path,
+			),
+			["/tmp/render-progress-done.json"],
+		);
+	});
+});
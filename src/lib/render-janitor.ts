@@ -0,0 +1,538 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { RENDER_FILE_TYPES } from "@/features/editor/constants/export-presets";
+import { getDb } from "./db";
+import { getPreviewPath, PREVIEW_DIR } from "./render-previews";
+
+// Disk housekeeping for renders and the temp files the render queue, caption
+// uploads and audio extraction leave behind.
+//
+// Renders are removed once older than the retention age, then oldest first
+// while a session is over its quota, then oldest first across all sessions
+// while renders/ is over its total size. A render's previews go with it.
+// Temp files are removed once no queued or running job uses them and they are
+// older than the temp age; when the database can't say which jobs are active,
+// temp files are left alone. Everything runs on an interval started by the
+// render queue, and dry runs report what would go without deleting anything.
+// Retention is off unless RENDER_RETENTION_DAYS is set.
+
+const MB = 1024 * 1024;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+// Files this fresh may still be written to (renders being encoded, design
+// files enqueued but not yet in the database)
+const IN_USE_GRACE_MS = 15 * 60 * 1000;
+
+export interface JanitorConfig {
+	// 0 disables each rule
+	retentionDays: number;
+	maxTotalMb: number;
+	sessionQuotaMb: number;
+	tempMaxAgeHours: number;
+	intervalMinutes: number;
+	dryRun: boolean;
+}
+
+const readNumber = (value: string | undefined, fallback: number) => {
+	if (value === undefined || value === "") return fallback;
+	const number = Number(value);
+	return Number.isFinite(number) && number >= 0 ? number : fallback;
+};
+
+export const getJanitorConfig = (): JanitorConfig => ({
+	retentionDays: readNumber(process.env.RENDER_RETENTION_DAYS, 0),
+	maxTotalMb: readNumber(process.env.RENDER_MAX_TOTAL_MB, 0),
+	sessionQuotaMb: readNumber(process.env.RENDER_SESSION_QUOTA_MB, 0),
+	tempMaxAgeHours: readNumber(process.env.TEMP_FILE_MAX_AGE_HOURS, 6),
+	intervalMinutes: readNumber(process.env.RENDER_JANITOR_INTERVAL_MINUTES, 60),
+	dryRun: process.env.RENDER_JANITOR_DRY_RUN === "true",
+});
+
+export type DiskUsageCategory =
+	| "renders"
+	| "previews"
+	| "renderProgress"
+	| "renderDesigns"
+	| "renderChunks"
+	| "bundleCache"
+	| "captionUploads"
+	| "extractedAudio";
+
+export type JanitorReason =
+	| "expired"
+	| "session-quota"
+	| "total-size"
+	| "orphaned-preview"
+	| "orphaned-temp";
+
+export interface JanitorRemoval {
+	path: string;
+	category: DiskUsageCategory;
+	reason: JanitorReason;
+	bytes: number;
+	sessionId?: string;
+}
+
+export interface JanitorReport {
+	dryRun: boolean;
+	startedAt: string;
+	durationMs: number;
+	removed: JanitorRemoval[];
+	freedBytes: number;
+	errors: { path: string; error: string }[];
+}
+
+export interface DiskUsage {
+	categories: Record<
+		DiskUsageCategory,
+		{ bytes: number; files: number; location: string }
+	>;
+	sessions: { sessionId: string; bytes: number; renders: number }[];
+	totalBytes: number;
+	// Space left on the volume holding renders/
+	freeBytes: number | null;
+	config: JanitorConfig;
+}
+
+const resolveProjectRoot = () =>
+	process.cwd().includes(".next/standalone")
+		? path.resolve(process.cwd(), "../../")
+		: process.cwd();
+
+const getRendersDir = () => path.join(resolveProjectRoot(), "renders");
+
+const getBundleCacheDir = () =>
+	process.env.RENDER_BUNDLE_CACHE_DIR ||
+	path.join(os.tmpdir(), "remotion-bundle-cache");
+
+export interface Entry {
+	path: string;
+	bytes: number;
+	files: number;
+	mtimeMs: number;
+}
+
+// Size and file count of a file or a whole directory. Missing paths count as
+// empty; they are often removed while we look.
+const measure = async (target: string): Promise<Entry | null> => {
+	let stats: Awaited<ReturnType<typeof fs.stat>>;
+	try {
+		stats = await fs.stat(target);
+	} catch {
+		return null;
+	}
+	const entry = {
+		path: target,
+		bytes: 0,
+		files: 0,
+		mtimeMs: stats.mtimeMs,
+	};
+	if (!stats.isDirectory()) {
+		return { ...entry, bytes: stats.size, files: 1 };
+	}
+
+	let children: string[] = [];
+	try {
+		children = await fs.readdir(target);
+	} catch {
+		return entry;
+	}
+	for (const child of children) {
+		const measured = await measure(path.join(target, child));
+		if (!measured) continue;
+		entry.bytes += measured.bytes;
+		entry.files += measured.files;
+		entry.mtimeMs = Math.max(entry.mtimeMs, measured.mtimeMs);
+	}
+	return entry;
+};
+
+const listDir = async (dir: string) => {
+	try {
+		return await fs.readdir(dir);
+	} catch {
+		return [];
+	}
+};
+
+const isRenderFile = (file: string) =>
+	Object.hasOwn(RENDER_FILE_TYPES, path.extname(file).slice(1));
+
+export interface RenderFile extends Entry {
+	sessionId: string;
+	// The render plus its poster, sprite and sprite layout
+	previewPaths: string[];
+}
+
+const listRenders = async (rendersDir: string): Promise<RenderFile[]> => {
+	const renders: RenderFile[] = [];
+	for (const sessionId of await listDir(rendersDir)) {
+		const sessionDir = path.join(rendersDir, sessionId);
+		for (const file of await listDir(sessionDir)) {
+			if (!isRenderFile(file)) continue;
+			const render = await measure(path.join(sessionDir, file));
+			if (!render || render.files !== 1) continue;
+
+			const previewPaths: string[] = [];
+			for (const kind of ["poster", "sprite", "meta"] as const) {
+				const previewPath = getPreviewPath(render.path, kind);
+				const preview = await measure(previewPath);
+				if (!preview) continue;
+				previewPaths.push(previewPath);
+				render.bytes += preview.bytes;
+			}
+			renders.push({ ...render, sessionId, previewPaths });
+		}
+	}
+	return renders;
+};
+
+export interface TempArtifact extends Entry {
+	category: DiskUsageCategory;
+	// Render job the artifact belongs to, when its name says so
+	jobId?: string;
+}
+
+const RENDER_PROGRESS_FILE = /^render-progress-(.+)\.json$/;
+const RENDER_CHUNK_DIR = /^render-chunks-(.+)$/;
+const EXTRACTED_AUDIO_FILE = /^audio_.+\.mp3$/;
+
+const listTempArtifacts = async (): Promise<TempArtifact[]> => {
+	const tempDir = os.tmpdir();
+	const artifacts: TempArtifact[] = [];
+	const add = async (
+		target: string,
+		category: DiskUsageCategory,
+		jobId?: string,
+	) => {
+		const entry = await measure(target);
+		if (entry) artifacts.push({ ...entry, category, jobId });
+	};
+
+	for (const name of await listDir(tempDir)) {
+		const fullPath = path.join(tempDir, name);
+		const progress = RENDER_PROGRESS_FILE.exec(name);
+		const chunks = RENDER_CHUNK_DIR.exec(name);
+		if (progress) {
+			await add(fullPath, "renderProgress", progress[1]);
+		} else if (chunks) {
+			await add(fullPath, "renderChunks", chunks[1]);
+		} else if (name.startsWith("remotion-design-")) {
+			await add(fullPath, "renderDesigns");
+		} else if (EXTRACTED_AUDIO_FILE.test(name)) {
+			await add(fullPath, "extractedAudio");
+		}
+	}
+
+	const captionsDir = path.join(tempDir, "video-captions");
+	for (const name of await listDir(captionsDir)) {
+		await add(path.join(captionsDir, name), "captionUploads");
+	}
+	return artifacts;
+};
+
+export interface ActiveJobs {
+	ids: Set<string>;
+	designDirs: Set<string>;
+}
+
+// Ids and design directories of jobs that may still read their temp files,
+// or null when the database can't be read and any of them might be in use
+const getActiveJobs = async (): Promise<ActiveJobs | null> => {
+	const active: ActiveJobs = { ids: new Set(), designDirs: new Set() };
+	try {
+		const jobs = await getDb()
+			.selectFrom("render_jobs")
+			.select(["id", "design_path"])
+			.where("status", "in", ["queued", "rendering"])
+			.execute();
+		for (const job of jobs) {
+			active.ids.add(job.id);
+			active.designDirs.add(path.dirname(job.design_path));
+		}
+	} catch (error) {
+		console.warn("[render-janitor] Could not read active render jobs:", error);
+		return null;
+	}
+	return active;
+};
+
+export const getDiskUsage = async (): Promise<DiskUsage> => {
+	const rendersDir = getRendersDir();
+	const bundleCacheDir = getBundleCacheDir();
+	const tempDir = os.tmpdir();
+
+	const categories: DiskUsage["categories"] = {
+		renders: { bytes: 0, files: 0, location: rendersDir },
+		previews: {
+			bytes: 0,
+			files: 0,
+			location: path.join(rendersDir, "*", PREVIEW_DIR),
+		},
+		renderProgress: {
+			bytes: 0,
+			files: 0,
+			location: path.join(tempDir, "render-progress-*.json"),
+		},
+		renderDesigns: {
+			bytes: 0,
+			files: 0,
+			location: path.join(tempDir, "remotion-design-*"),
+		},
+		renderChunks: {
+			bytes: 0,
+			files: 0,
+			location: path.join(tempDir, "render-chunks-*"),
+		},
+		bundleCache: { bytes: 0, files: 0, location: bundleCacheDir },
+		captionUploads: {
+			bytes: 0,
+			files: 0,
+			location: path.join(tempDir, "video-captions"),
+		},
+		extractedAudio: {
+			bytes: 0,
+			files: 0,
+			location: path.join(tempDir, "audio_*.mp3"),
+		},
+	};
+	const sessions = new Map<string, { bytes: number; renders: number }>();
+
+	for (const sessionId of await listDir(rendersDir)) {
+		const sessionDir = path.join(rendersDir, sessionId);
+		const session = { bytes: 0, renders: 0 };
+		for (const file of await listDir(sessionDir)) {
+			const entry = await measure(path.join(sessionDir, file));
+			if (!entry) continue;
+			const category = file === PREVIEW_DIR ? "previews" : "renders";
+			categories[category].bytes += entry.bytes;
+			categories[category].files += entry.files;
+			session.bytes += entry.bytes;
+			if (isRenderFile(file)) session.renders += 1;
+		}
+		sessions.set(sessionId, session);
+	}
+
+	for (const artifact of await listTempArtifacts()) {
+		categories[artifact.category].bytes += artifact.bytes;
+		categories[artifact.category].files += artifact.files;
+	}
+
+	const bundleCache = await measure(bundleCacheDir);
+	if (bundleCache) {
+		categories.bundleCache.bytes = bundleCache.bytes;
+		categories.bundleCache.files = bundleCache.files;
+	}
+
+	let freeBytes: number | null = null;
+	try {
+		const volume = await fs.statfs(
+			(await measure(rendersDir)) ? rendersDir : resolveProjectRoot(),
+		);
+		freeBytes = volume.bavail * volume.bsize;
+	} catch {
+		// statfs is not available everywhere
+	}
+
+	return {
+		categories,
+		sessions: [...sessions.entries()]
+			.map(([sessionId, session]) => ({ sessionId, ...session }))
+			.sort((a, b) => b.bytes - a.bytes),
+		totalBytes: Object.values(categories).reduce(
+			(total, category) => total + category.bytes,
+			0,
+		),
+		freeBytes,
+		config: getJanitorConfig(),
+	};
+};
+
+// Picks the renders to remove, in the order the rules apply
+export const selectExpiredRenders = (
+	renders: RenderFile[],
+	config: JanitorConfig,
+	now: number,
+) => {
+	const removals = new Map<RenderFile, JanitorReason>();
+	const removable = renders
+		.filter((render) => now - render.mtimeMs > IN_USE_GRACE_MS)
+		.sort((a, b) => a.mtimeMs - b.mtimeMs);
+
+	if (config.retentionDays > 0) {
+		for (const render of removable) {
+			if (now - render.mtimeMs > config.retentionDays * DAY_MS) {
+				removals.set(render, "expired");
+			}
+		}
+	}
+
+	const kept = (list: RenderFile[]) =>
+		list.filter((render) => !removals.has(render));
+	const totalOf = (list: RenderFile[]) =>
+		kept(list).reduce((total, render) => total + render.bytes, 0);
+
+	if (config.sessionQuotaMb > 0) {
+		const quota = config.sessionQuotaMb * MB;
+		const sessionIds = new Set(renders.map((render) => render.sessionId));
+		for (const sessionId of sessionIds) {
+			const inSession = renders.filter(
+				(render) => render.sessionId === sessionId,
+			);
+			let used = totalOf(inSession);
+			for (const render of kept(removable)) {
+				if (used <= quota) break;
+				if (render.sessionId !== sessionId) continue;
+				removals.set(render, "session-quota");
+				used -= render.bytes;
+			}
+		}
+	}
+
+	if (config.maxTotalMb > 0) {
+		const limit = config.maxTotalMb * MB;
+		let used = totalOf(renders);
+		for (const render of kept(removable)) {
+			if (used <= limit) break;
+			removals.set(render, "total-size");
+			used -= render.bytes;
+		}
+	}
+
+	return removals;
+};
+
+// Temp files past the temp age that no active job uses
+export const selectOrphanedTemp = (
+	artifacts: TempArtifact[],
+	active: ActiveJobs,
+	config: JanitorConfig,
+	now: number,
+) => {
+	const maxAge = Math.max(config.tempMaxAgeHours * HOUR_MS, IN_USE_GRACE_MS);
+	return artifacts.filter(
+		(artifact) =>
+			now - artifact.mtimeMs > maxAge &&
+			!(artifact.jobId && active.ids.has(artifact.jobId)) &&
+			!active.designDirs.has(artifact.path),
+	);
+};
+
+// Previews whose render is gone, e.g. deleted by hand
+const listOrphanedPreviews = async (rendersDir: string) => {
+	const orphaned: Entry[] = [];
+	for (const sessionId of await listDir(rendersDir)) {
+		const sessionDir = path.join(rendersDir, sessionId);
+		const previewDir = path.join(sessionDir, PREVIEW_DIR);
+		for (const name of await listDir(previewDir)) {
+			const renderFile = name.replace(/\.(poster\.jpg|sprite\.jpg|json)$/, "");
+			if (await measure(path.join(sessionDir, renderFile))) continue;
+			const entry = await measure(path.join(previewDir, name));
+			if (entry) orphaned.push(entry);
+		}
+	}
+	return orphaned;
+};
+
+export const runJanitor = async (
+	options: { dryRun?: boolean } = {},
+): Promise<JanitorReport> => {
+	const config = getJanitorConfig();
+	const dryRun = options.dryRun ?? config.dryRun;
+	const startedAt = Date.now();
+	const report: JanitorReport = {
+		dryRun,
+		startedAt: new Date(startedAt).toISOString(),
+		durationMs: 0,
+		removed: [],
+		freedBytes: 0,
+		errors: [],
+	};
+
+	const remove = async (
+		targets: string[],
+		removal: JanitorRemoval,
+	): Promise<void> => {
+		if (!dryRun) {
+			try {
+				for (const target of targets) {
+					await fs.rm(target, { recursive: true, force: true });
+				}
+			} catch (error) {
+				report.errors.push({ path: removal.path, error: String(error) });
+				return;
+			}
+		}
+		report.removed.push(removal);
+		report.freedBytes += removal.bytes;
+	};
+
+	const rendersDir = getRendersDir();
+	const renders = await listRenders(rendersDir);
+	for (const [render, reason] of selectExpiredRenders(
+		renders,
+		config,
+		startedAt,
+	)) {
+		await remove([render.path, ...render.previewPaths], {
+			path: render.path,
+			category: "renders",
+			reason,
+			bytes: render.bytes,
+			sessionId: render.sessionId,
+		});
+	}
+
+	for (const preview of await listOrphanedPreviews(rendersDir)) {
+		if (startedAt - preview.mtimeMs <= IN_USE_GRACE_MS) continue;
+		await remove([preview.path], {
+			path: preview.path,
+			category: "previews",
+			reason: "orphaned-preview",
+			bytes: preview.bytes,
+		});
+	}
+
+	if (config.tempMaxAgeHours > 0) {
+		const active = await getActiveJobs();
+		const artifacts = active
+			? selectOrphanedTemp(await listTempArtifacts(), active, config, startedAt)
+			: [];
+		if (!active) {
+			console.warn("[render-janitor] Skipping temp files this run");
+		}
+		for (const artifact of artifacts) {
+			await remove([artifact.path], {
+				path: artifact.path,
+				category: artifact.category,
+				reason: "orphaned-temp",
+				bytes: artifact.bytes,
+			});
+		}
+	}
+
+	report.durationMs = Date.now() - startedAt;
+	console.log(
+		`[render-janitor] ${dryRun ? "Dry run: would remove" : "Removed"} ${report.removed.length} items (${(report.freedBytes / MB).toFixed(1)}MB)${report.errors.length ? `, ${report.errors.length} failed` : ""}`,
+	);
+	return report;
+};
+
+// Survive Next.js dev hot reloads without stacking intervals
+const globalForJanitor = globalThis as unknown as {
+	renderJanitor?: NodeJS.Timeout;
+};
+
+export const startRenderJanitor = () => {
+	const { intervalMinutes } = getJanitorConfig();
+	if (globalForJanitor.renderJanitor || intervalMinutes <= 0) return;
+
+	const run = () =>
+		runJanitor().catch((error) =>
+			console.error("[render-janitor] Cleanup failed:", error),
+		);
+	globalForJanitor.renderJanitor = setInterval(run, intervalMinutes * 60_000);
+	globalForJanitor.renderJanitor.unref();
+	void run();
+};
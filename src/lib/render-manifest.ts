@@ -0,0 +1,123 @@
+import fs from "node:fs/promises";
+import type { ExportTarget } from "@/features/editor/constants/export-presets";
+import {
+	ensureDbReady,
+	getDb,
+	RenderJob,
+	RenderJobStatus,
+	RenderManifest,
+} from "./db";
+
+// Render history. The render queue writes one manifest per finished job with
+// a snapshot of the design file, so the gallery can reopen or re-render
+// exactly what produced a file long after the job's temp files are gone.
+
+export type RenderManifestSummary = Omit<RenderManifest, "design">;
+
+// Written by scripts/render-loudness.cjs. Levels are in LUFS, true peaks in
+// dBTP and loudness ranges in LU; `output` is null when the mix was silent.
+export interface LoudnessReport {
+	target: { integrated: number; truePeak: number; lra: number };
+	input: {
+		integrated: number | null;
+		truePeak: number | null;
+		lra: number | null;
+		threshold: number | null;
+	};
+	output: {
+		integrated: number | null;
+		truePeak: number | null;
+		lra: number | null;
+	} | null;
+	normalization: "linear" | "dynamic" | "skipped";
+}
+
+// Timeline span a render covers, in milliseconds
+const getRenderDuration = (design: any, target: ExportTarget): number => {
+	if (target.kind === "still") return 0;
+	if (target.range) return target.range.end - target.range.start;
+	return Number(design?.duration) || 0;
+};
+
+export const recordRenderManifest = async (
+	job: RenderJob,
+	result: {
+		status: RenderJobStatus;
+		output_path?: string;
+		error?: string;
+		loudness?: LoudnessReport;
+	},
+) => {
+	await ensureDbReady();
+
+	// Same file the renderer read: { design, preset, target, audio }
+	const { design, target = { kind: "video" } } = JSON.parse(
+		await fs.readFile(job.design_path, "utf-8"),
+	);
+	const startedAt = job.started_at ? new Date(job.started_at).getTime() : null;
+	const manifest = {
+		id: job.id,
+		session_id: job.session_id,
+		project_id: design?.id ? String(design.id) : null,
+		status: result.status,
+		design: JSON.stringify(design),
+		target: JSON.stringify(target),
+		preset: job.preset,
+		output_path: result.output_path ?? null,
+		duration_ms: Math.round(getRenderDuration(design, target)),
+		render_time_ms: startedAt === null ? null : Date.now() - startedAt,
+		error: result.error ?? null,
+		loudness: result.loudness ? JSON.stringify(result.loudness) : null,
+	};
+
+	await getDb()
+		.insertInto("render_manifests")
+		.values(manifest)
+		.onConflict((oc) => oc.column("id").doUpdateSet(manifest))
+		.execute();
+};
+
+// Only the session that made the render can read its design snapshot
+export const getRenderManifest = async (
+	id: string,
+	sessionId: string,
+): Promise<RenderManifest | undefined> => {
+	await ensureDbReady();
+
+	return getDb()
+		.selectFrom("render_manifests")
+		.selectAll()
+		.where("id", "=", id)
+		.where("session_id", "=", sessionId)
+		.executeTakeFirst();
+};
+
+// Manifests for files found on disk, keyed by output path. Files rendered
+// before manifests existed simply have no entry.
+export const getRenderManifestsByOutputPath = async (
+	outputPaths: string[],
+): Promise<Map<string, RenderManifestSummary>> => {
+	await ensureDbReady();
+	if (outputPaths.length === 0) return new Map();
+
+	const rows = await getDb()
+		.selectFrom("render_manifests")
+		.select([
+			"id",
+			"session_id",
+			"project_id",
+			"status",
+			"target",
+			"preset",
+			"output_path",
+			"duration_ms",
+			"render_time_ms",
+			"error",
+			"loudness",
+			"created_at",
+		])
+		.where("output_path", "in", outputPaths)
+		.execute();
+
+	return new Map(rows.map((row) => [row.output_path as string, row]));
+};
@@ -0,0 +1,64 @@
+import fs from "node:fs/promises";
+import { basename, dirname, join } from "node:path";
+
+// Poster frames and scrub sprites that scripts/render-previews.cjs writes next
+// to each video render: <renders dir>/.previews/<file>.{poster.jpg,sprite.jpg,json}
+
+export const PREVIEW_DIR = ".previews";
+
+export type RenderPreviewKind = "poster" | "sprite";
+
+export interface RenderPreviews {
+	posterUrl: string;
+	sprite: {
+		url: string;
+		columns: number;
+		rows: number;
+		// Cells actually filled; short renders leave the last ones black
+		count: number;
+		frameWidth: number;
+		frameHeight: number;
+		intervalMs: number;
+	};
+}
+
+export const getPreviewPath = (
+	renderPath: string,
+	kind: RenderPreviewKind | "meta",
+) => {
+	const suffix =
+		kind === "meta" ? "json" : kind === "poster" ? "poster.jpg" : "sprite.jpg";
+	return join(
+		dirname(renderPath),
+		PREVIEW_DIR,
+		`${basename(renderPath)}.${suffix}`,
+	);
+};
+
+export const getPreviewUrl = (renderPath: string, kind: RenderPreviewKind) =>
+	`/api/render/local/preview?path=${encodeURIComponent(renderPath)}&kind=${kind}`;
+
+// Null for renders without previews (audio, stills, older renders)
+export const readRenderPreviews = async (
+	renderPath: string,
+): Promise<RenderPreviews | null> => {
+	try {
+		const meta = JSON.parse(
+			await fs.readFile(getPreviewPath(renderPath, "meta"), "utf-8"),
+		);
+		return {
+			posterUrl: getPreviewUrl(renderPath, "poster"),
+			sprite: {
+				url: getPreviewUrl(renderPath, "sprite"),
+				columns: meta.sprite.columns,
+				rows: meta.sprite.rows,
+				count: meta.sprite.count,
+				frameWidth: meta.sprite.frameWidth,
+				frameHeight: meta.sprite.frameHeight,
+				intervalMs: meta.sprite.intervalMs,
+			},
+		};
+	} catch {
+		return null;
+	}
+};
@@ -0,0 +1,820 @@
+import { ChildProcess, spawn } from "node:child_process";
+import { randomUUID } from "node:crypto";
+import fs from "node:fs/promises";
+import fsSync from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { sql } from "kysely";
+import {
+	AUDIO_EXPORT_FORMATS,
+	type ExportPreset,
+	type ExportTarget,
+	LOUDNESS_TARGETS,
+} from "@/features/editor/constants/export-presets";
+import {
+	getCaptionCues,
+	isCaptionItem,
+	toSrt,
+} from "@/features/editor/utils/caption-sidecars";
+import { ensureDbReady, getDb, RenderJob, RenderJobStatus } from "./db";
+import { startRenderJanitor } from "./render-janitor";
+import { LoudnessReport, recordRenderManifest } from "./render-manifest";
+
+// Persistent render queue backed by the render_jobs table.
+//
+// Jobs are inserted as "queued" and claimed oldest-first while fewer than
+// RENDER_CONCURRENCY renders are running. Each render is a detached
+// scripts/render-local.cjs process so cancelling can kill its whole process
+// group, Chrome included. Several server processes can share the table: a
+// claimed job records its owner and the owner refreshes a heartbeat while it
+// renders. A "rendering" job whose owner has exited or whose heartbeat went
+// stale is reaped (its renderer killed when it runs on this machine) and
+// requeued, or failed once out of attempts; a failed render is retried the
+// same way. Long renders checkpoint finished chunks to a per-job directory, so
+// a retry resumes instead of starting over.
+
+const MAX_CONCURRENT_RENDERS = Math.max(
+	1,
+	Number(process.env.RENDER_CONCURRENCY || 1),
+);
+const MAX_RENDER_ATTEMPTS = Math.max(
+	1,
+	Number(process.env.RENDER_MAX_ATTEMPTS || 2),
+);
+// Arbitrary key serialising job claims across server processes
+const CLAIM_LOCK_KEY = 727_001;
+const HEARTBEAT_INTERVAL_MS = 15_000;
+// Without a heartbeat for this long a job's owner is presumed gone
+const HEARTBEAT_STALE_MS =
+	Math.max(1, Number(process.env.RENDER_HEARTBEAT_STALE_SECONDS || 60)) * 1000;
+const STDERR_TAIL_LENGTH = 8000;
+
+const TERMINAL_STATUSES: RenderJobStatus[] = [
+	"completed",
+	"error",
+	"cancelled",
+];
+
+// Finer-grained than the job status; the render script reports the stages in
+// between through its progress file
+export type RenderStage =
+	| "queued"
+	| "bundling"
+	| "selecting-composition"
+	| "rendering"
+	| "encoding"
+	| "done"
+	| "error"
+	| "cancelled";
+
+// Whether the render reused a cached Remotion bundle (scripts/bundle-cache.cjs)
+export type BundleCacheStatus = "hit" | "miss";
+
+interface RenderProgress {
+	stage?: RenderStage;
+	progress?: number;
+	renderedFrames?: number;
+	totalFrames?: number;
+	bundleCache?: BundleCacheStatus;
+}
+
+export interface RenderJobView {
+	renderId: string;
+	status: RenderJobStatus;
+	stage: RenderStage;
+	progress: number;
+	renderedFrames: number | null;
+	totalFrames: number | null;
+	bundleCache: BundleCacheStatus | null;
+	// Milliseconds left, extrapolated from progress so far
+	eta: number | null;
+	queuePosition: number | null;
+	startTime: number;
+	elapsed: number;
+	preset: string | null;
+	filePath?: string;
+	error?: string;
+	stderr?: string;
+}
+
+export class RenderQueueError extends Error {
+	constructor(
+		message: string,
+		public status: number,
+	) {
+		super(message);
+		this.name = "RenderQueueError";
+	}
+}
+
+const resolveProjectRoot = () =>
+	// Running from the standalone directory - go up to the project root
+	process.cwd().includes(".next/standalone")
+		? path.resolve(process.cwd(), "../../")
+		: process.cwd();
+
+const getChunkDir = (id: string) =>
+	path.join(os.tmpdir(), `render-chunks-${id}`);
+
+// Soft captions for the render script to mux in after encoding. GIFs can't
+// carry a subtitle stream, so their captions always stay in the picture.
+const getSubtitleTrack = (
+	design: any,
+	preset: ExportPreset | undefined,
+	target: ExportTarget,
+) => {
+	if (target.kind !== "video" || !target.captions) return undefined;
+	if (target.captions === "burned" || preset?.codec === "gif") {
+		return undefined;
+	}
+
+	const cues = getCaptionCues(design, target.range);
+	if (cues.length === 0) return undefined;
+	return {
+		srt: toSrt(cues),
+		codec: preset?.codec === "vp9" ? "webvtt" : "mov_text",
+		hideItemIds:
+			target.captions === "soft"
+				? (design.trackItems || [])
+						.filter(isCaptionItem)
+						.map((item: any) => item.id)
+				: [],
+	};
+};
+
+// Loudness target for the render script. Video presets without audio (GIF)
+// have nothing to normalize.
+const getLoudnessTarget = (
+	preset: ExportPreset | undefined,
+	target: ExportTarget,
+) => {
+	if (target.kind !== "video" && target.kind !== "audio") return undefined;
+	if (!target.loudness) return undefined;
+	if (target.kind === "video" && preset && !preset.audio) return undefined;
+	return LOUDNESS_TARGETS[target.loudness];
+};
+
+const isProcessAlive = (pid: number) => {
+	try {
+		process.kill(pid, 0);
+		return true;
+	} catch (error) {
+		// Exists, but belongs to another user
+		return (error as NodeJS.ErrnoException).code === "EPERM";
+	}
+};
+
+// Signal the whole process group first (renderer + Chrome), then the pid
+const killProcessTree = (pid: number, signal: NodeJS.Signals) => {
+	try {
+		process.kill(-pid, signal);
+	} catch {
+		try {
+			process.kill(pid, signal);
+		} catch {
+			// Already gone
+		}
+	}
+};
+
+// Changes on every reboot, so a pid recorded before one is never trusted
+const readBootId = () => {
+	try {
+		return fsSync
+			.readFileSync("/proc/sys/kernel/random/boot_id", "utf-8")
+			.trim();
+	} catch {
+		// Boot time to the minute where /proc isn't available
+		return String(Math.round((Date.now() - os.uptime() * 1000) / 60_000));
+	}
+};
+
+const OWNER = {
+	host: os.hostname(),
+	bootId: readBootId(),
+	pid: process.pid,
+};
+
+class RenderQueue {
+	private children = new Map<string, ChildProcess>();
+	private cancelling = new Set<string>();
+	private ready?: Promise<void>;
+	private pumping = false;
+	private pumpAgain = false;
+	private heartbeatTimer?: NodeJS.Timeout;
+
+	// Runs migrations, recovers orphaned jobs and starts the heartbeat and the
+	// disk janitor once per process
+	init(): Promise<void> {
+		if (!this.ready) {
+			this.ready = (async () => {
+				if (!process.env.DATABASE_URL) {
+					throw new RenderQueueError(
+						"Local rendering needs a Postgres database - set DATABASE_URL",
+						503,
+					);
+				}
+				await ensureDbReady();
+				await this.recoverOrphanedJobs();
+				this.startHeartbeat();
+				startRenderJanitor();
+				void this.pump();
+			})().catch((error) => {
+				this.ready = undefined;
+				throw error;
+			});
+		}
+		return this.ready;
+	}
+
+	async enqueue({
+		sessionId,
+		design,
+		preset,
+		target = { kind: "video" },
+	}: {
+		sessionId: string;
+		design: unknown;
+		preset?: ExportPreset;
+		target?: ExportTarget;
+	}): Promise<RenderJobView> {
+		await this.init();
+
+		const id = randomUUID();
+		const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "remotion-design-"));
+		const designPath = path.join(tmpDir, "design.json");
+		await fs.writeFile(
+			designPath,
+			JSON.stringify(
+				{
+					design,
+					preset,
+					target,
+					// Codec settings for audio-only renders, resolved like presets
+					audio:
+						target.kind === "audio"
+							? {
+									codec: target.audioFormat,
+									...AUDIO_EXPORT_FORMATS[target.audioFormat],
+								}
+							: undefined,
+					subtitles: getSubtitleTrack(design, preset, target),
+					loudness: getLoudnessTarget(preset, target),
+				},
+				null,
+				2,
+			),
+		);
+
+		await getDb()
+			.insertInto("render_jobs")
+			.values({
+				id,
+				session_id: sessionId,
+				status: "queued",
+				design_path: designPath,
+				progress_path: path.join(os.tmpdir(), `render-progress-${id}.json`),
+				output_path: null,
+				// Presets only describe video encodes
+				preset: target.kind === "video" ? (preset?.id ?? null) : null,
+				pid: null,
+				error: null,
+				stderr: null,
+				started_at: null,
+				finished_at: null,
+			})
+			.execute();
+
+		console.log(`[render-queue] Enqueued ${id} for session ${sessionId}`);
+		void this.pump();
+
+		return (await this.getJob(id)) as RenderJobView;
+	}
+
+	async getJob(id: string): Promise<RenderJobView | null> {
+		await this.init();
+
+		const job = await getDb()
+			.selectFrom("render_jobs")
+			.selectAll()
+			.where("id", "=", id)
+			.executeTakeFirst();
+		if (!job) return null;
+
+		return this.toView(job);
+	}
+
+	// A session's renders, newest first
+	async listJobs(sessionId: string, limit = 50): Promise<RenderJobView[]> {
+		await this.init();
+
+		const jobs = await getDb()
+			.selectFrom("render_jobs")
+			.selectAll()
+			.where("session_id", "=", sessionId)
+			.orderBy("created_at", "desc")
+			.limit(limit)
+			.execute();
+		return Promise.all(jobs.map((job) => this.toView(job)));
+	}
+
+	// Cancels one of the session's renders; others' are reported as missing
+	async cancel(id: string, sessionId: string): Promise<RenderJobView> {
+		await this.init();
+		const db = getDb();
+
+		const job = await db
+			.selectFrom("render_jobs")
+			.selectAll()
+			.where("id", "=", id)
+			.where("session_id", "=", sessionId)
+			.executeTakeFirst();
+		if (!job) {
+			throw new RenderQueueError("Render not found", 404);
+		}
+		if (TERMINAL_STATUSES.includes(job.status)) {
+			throw new RenderQueueError(`Render already ${job.status}`, 409);
+		}
+
+		// Only a queued job can be cancelled in place; a running one is marked
+		// when its process exits so the exit handler doesn't overwrite it
+		await db
+			.updateTable("render_jobs")
+			.set({
+				status: "cancelled",
+				error: "Cancelled by user",
+				finished_at: new Date(),
+				updated_at: new Date(),
+			})
+			.where("id", "=", id)
+			.where("status", "in", ["queued", "rendering"])
+			.execute();
+
+		if (job.status === "rendering") {
+			this.cancelling.add(id);
+			const child = this.children.get(id);
+			const pid = child?.pid ?? job.pid;
+			if (pid) {
+				console.log(`[render-queue] Killing render ${id} (pid ${pid})`);
+				killProcessTree(pid, "SIGTERM");
+				setTimeout(() => {
+					if (isProcessAlive(pid)) killProcessTree(pid, "SIGKILL");
+				}, 5000).unref();
+			}
+		}
+
+		await this.cleanupJobFiles(job);
+		void this.pump();
+
+		return (await this.getJob(id)) as RenderJobView;
+	}
+
+	// Resolves once the job reaches a terminal status
+	async waitForCompletion(
+		id: string,
+		pollIntervalMs = 1000,
+	): Promise<RenderJobView> {
+		for (;;) {
+			const job = await this.getJob(id);
+			if (!job) {
+				throw new RenderQueueError("Render not found", 404);
+			}
+			if (TERMINAL_STATUSES.includes(job.status)) {
+				return job;
+			}
+			await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+		}
+	}
+
+	private async toView(job: RenderJob): Promise<RenderJobView> {
+		const startTime = new Date(job.started_at ?? job.created_at).getTime();
+		const view: RenderJobView = {
+			renderId: job.id,
+			status: job.status,
+			stage:
+				job.status === "completed"
+					? "done"
+					: job.status === "rendering"
+						? "bundling"
+						: job.status,
+			progress: job.status === "completed" ? 100 : 0,
+			renderedFrames: null,
+			totalFrames: null,
+			bundleCache: null,
+			eta: null,
+			queuePosition: null,
+			startTime,
+			elapsed: Date.now() - startTime,
+			preset: job.preset,
+		};
+
+		if (job.status === "queued") {
+			const { ahead } = await getDb()
+				.selectFrom("render_jobs")
+				.select((eb) => eb.fn.countAll<string>().as("ahead"))
+				.where("status", "=", "queued")
+				.where((eb) =>
+					eb.or([
+						eb("created_at", "<", job.created_at),
+						eb.and([
+							eb("created_at", "=", job.created_at),
+							eb("id", "<", job.id),
+						]),
+					]),
+				)
+				.executeTakeFirstOrThrow();
+			view.queuePosition = Number(ahead) + 1;
+		}
+
+		if (job.status === "rendering") {
+			const progress = await this.readProgress(job.progress_path);
+			view.stage = progress.stage ?? view.stage;
+			view.progress = progress.progress ?? 0;
+			view.renderedFrames = progress.renderedFrames ?? null;
+			view.totalFrames = progress.totalFrames ?? null;
+			view.bundleCache = progress.bundleCache ?? null;
+			if (view.progress > 0 && view.progress < 100) {
+				view.eta = Math.round(
+					(view.elapsed * (100 - view.progress)) / view.progress,
+				);
+			}
+		}
+		if (job.output_path) view.filePath = job.output_path;
+		if (job.error) view.error = job.error;
+		if (job.stderr) view.stderr = job.stderr;
+
+		return view;
+	}
+
+	private async readProgress(progressPath: string): Promise<RenderProgress> {
+		try {
+			if (!fsSync.existsSync(progressPath)) return {};
+			return JSON.parse(await fs.readFile(progressPath, "utf-8"));
+		} catch (progressError) {
+			console.log("[render-queue] Failed to read progress:", progressError);
+			return {};
+		}
+	}
+
+	// Starts queued jobs until the concurrency limit is reached. Re-entrant
+	// calls while a pump is in flight schedule one more pass instead.
+	private async pump(): Promise<void> {
+		if (this.pumping) {
+			this.pumpAgain = true;
+			return;
+		}
+		this.pumping = true;
+		try {
+			do {
+				this.pumpAgain = false;
+				for (;;) {
+					const job = await this.claimNextJob();
+					if (!job) break;
+					this.startJob(job);
+				}
+			} while (this.pumpAgain);
+		} catch (error) {
+			console.error("[render-queue] Failed to start queued renders:", error);
+		} finally {
+			this.pumping = false;
+		}
+	}
+
+	private async claimNextJob(): Promise<RenderJob | undefined> {
+		return getDb()
+			.transaction()
+			.execute(async (trx) => {
+				await sql`select pg_advisory_xact_lock(${CLAIM_LOCK_KEY})`.execute(trx);
+
+				const { running } = await trx
+					.selectFrom("render_jobs")
+					.select((eb) => eb.fn.countAll<string>().as("running"))
+					.where("status", "=", "rendering")
+					.executeTakeFirstOrThrow();
+				if (Number(running) >= MAX_CONCURRENT_RENDERS) return undefined;
+
+				const next = await trx
+					.selectFrom("render_jobs")
+					.select("id")
+					.where("status", "=", "queued")
+					.orderBy("created_at")
+					.orderBy("id")
+					.limit(1)
+					.executeTakeFirst();
+				if (!next) return undefined;
+
+				return trx
+					.updateTable("render_jobs")
+					.set((eb) => ({
+						status: "rendering",
+						attempts: eb("attempts", "+", 1),
+						owner_host: OWNER.host,
+						owner_boot_id: OWNER.bootId,
+						owner_pid: OWNER.pid,
+						heartbeat_at: new Date(),
+						started_at: new Date(),
+						updated_at: new Date(),
+					}))
+					.where("id", "=", next.id)
+					.returningAll()
+					.executeTakeFirst();
+			});
+	}
+
+	private startJob(job: RenderJob) {
+		const projectRoot = resolveProjectRoot();
+		const scriptPath = path.join(projectRoot, "scripts", "render-local.cjs");
+
+		console.log(
+			`[render-queue] Starting render ${job.id} (attempt ${job.attempts})`,
+		);
+
+		let child: ChildProcess;
+		try {
+			child = spawn(
+				process.execPath,
+				[
+					"--max-old-space-size=2048",
+					scriptPath,
+					`--design=${job.design_path}`,
+					`--session=${job.session_id}`,
+					`--progress=${job.progress_path}`,
+					`--chunks=${getChunkDir(job.id)}`,
+				],
+				{
+					stdio: ["ignore", "pipe", "pipe"],
+					cwd: projectRoot,
+					env: {
+						...process.env,
+						CHROMIUM_DISABLE_LOGGING: "1",
+						CHROME_LOG_LEVEL: "3",
+						PUPPETEER_DISABLE_HEADLESS_WARNING: "true",
+						REMOTION_DISABLE_LOGGING: "1",
+						NODE_ENV: "production",
+						NODE_OPTIONS: "--max-old-space-size=2048",
+						DISPLAY: ":99",
+					},
+					// Own process group so cancel can take Chrome down with it
+					detached: true,
+				},
+			);
+		} catch (spawnError) {
+			void this.finishJob(job, {
+				status: "error",
+				error: `Failed to start renderer: ${String(spawnError)}`,
+			});
+			return;
+		}
+
+		this.children.set(job.id, child);
+		void getDb()
+			.updateTable("render_jobs")
+			.set({ pid: child.pid ?? null, updated_at: new Date() })
+			.where("id", "=", job.id)
+			.execute()
+			.catch((error) =>
+				console.error(
+					`[render-queue] Failed to record pid for ${job.id}`,
+					error,
+				),
+			);
+
+		let stdout = "";
+		let stderr = "";
+		child.stdout?.on("data", (d) => {
+			stdout += d.toString();
+		});
+		child.stderr?.on("data", (d) => {
+			stderr = (stderr + d.toString()).slice(-STDERR_TAIL_LENGTH);
+		});
+
+		child.on("error", (error) => {
+			console.error(`[render-queue] Render ${job.id} process error:`, error);
+		});
+
+		child.on("close", (exitCode, signal) => {
+			this.children.delete(job.id);
+			console.log(
+				`[render-queue] Render ${job.id} exited with code ${exitCode}${signal ? ` (${signal})` : ""}`,
+			);
+
+			if (this.cancelling.delete(job.id)) {
+				void this.pump();
+				return;
+			}
+
+			if (exitCode === 0) {
+				try {
+					const parsed = JSON.parse(stdout.trim());
+					void this.finishJob(job, {
+						status: "completed",
+						output_path: parsed.url,
+						loudness: parsed.loudness ?? undefined,
+					});
+				} catch (parseError) {
+					console.error(
+						`[render-queue] Failed to parse output of ${job.id}:`,
+						parseError,
+					);
+					void this.finishJob(job, {
+						status: "error",
+						error: "Failed to parse render output",
+						stderr,
+					});
+				}
+				return;
+			}
+
+			if (job.attempts < MAX_RENDER_ATTEMPTS) {
+				void this.retryJob(job, stderr);
+				return;
+			}
+
+			void this.finishJob(job, {
+				status: "error",
+				error: `Render failed with exit code ${exitCode}`,
+				stderr,
+			});
+		});
+	}
+
+	private async finishJob(
+		job: RenderJob,
+		result: {
+			status: RenderJobStatus;
+			output_path?: string;
+			error?: string;
+			stderr?: string;
+			// Only kept in the manifest
+			loudness?: LoudnessReport;
+		},
+	) {
+		const { loudness, ...update } = result;
+		try {
+			const { numUpdatedRows } = await getDb()
+				.updateTable("render_jobs")
+				.set({
+					...update,
+					pid: null,
+					finished_at: new Date(),
+					updated_at: new Date(),
+				})
+				.where("id", "=", job.id)
+				// Never resurrect a job that was cancelled meanwhile
+				.where("status", "=", "rendering")
+				.executeTakeFirst();
+			// Must happen before cleanup removes the design file
+			if (Number(numUpdatedRows) > 0) {
+				await recordRenderManifest(job, { ...update, loudness }).catch(
+					(error) =>
+						console.error(
+							`[render-queue] Failed to write manifest for ${job.id}:`,
+							error,
+						),
+				);
+			}
+			await this.cleanupJobFiles(job);
+		} catch (error) {
+			console.error(`[render-queue] Failed to finish ${job.id}:`, error);
+		} finally {
+			void this.pump();
+		}
+	}
+
+	// Puts a failed job back in the queue. Its design file and chunk
+	// checkpoints are kept for the next attempt.
+	private async retryJob(job: RenderJob, stderr: string) {
+		console.log(
+			`[render-queue] Render ${job.id} failed on attempt ${job.attempts}, retrying`,
+		);
+		try {
+			await getDb()
+				.updateTable("render_jobs")
+				.set({ status: "queued", pid: null, stderr, updated_at: new Date() })
+				.where("id", "=", job.id)
+				.where("status", "=", "rendering")
+				.execute();
+		} catch (error) {
+			console.error(`[render-queue] Failed to requeue ${job.id}:`, error);
+		} finally {
+			void this.pump();
+		}
+	}
+
+	private async cleanupJobFiles(job: RenderJob) {
+		for (const file of [job.progress_path, job.design_path]) {
+			await fs.rm(file, { force: true }).catch(() => {});
+		}
+		await fs.rmdir(path.dirname(job.design_path)).catch(() => {});
+		await fs
+			.rm(getChunkDir(job.id), { recursive: true, force: true })
+			.catch(() => {});
+	}
+
+	// Keeps this process's renders from being reaped by other server
+	// processes, and reaps theirs once they stop doing the same
+	private startHeartbeat() {
+		if (this.heartbeatTimer) return;
+		this.heartbeatTimer = setInterval(async () => {
+			try {
+				const ids = [...this.children.keys()];
+				if (ids.length > 0) {
+					await getDb()
+						.updateTable("render_jobs")
+						.set({ heartbeat_at: new Date() })
+						.where("id", "in", ids)
+						.where("status", "=", "rendering")
+						.execute();
+				}
+				await this.recoverOrphanedJobs();
+			} catch (error) {
+				console.error("[render-queue] Heartbeat failed:", error);
+			}
+		}, HEARTBEAT_INTERVAL_MS);
+		this.heartbeatTimer.unref();
+	}
+
+	// Whether a "rendering" job claimed by another process (or by an earlier
+	// run of this one) lost its owner. Owners on this machine are checked
+	// directly; others only by their heartbeat.
+	private isOrphaned(job: RenderJob) {
+		if (this.children.has(job.id)) return false;
+
+		const sameBoot =
+			job.owner_host === OWNER.host && job.owner_boot_id === OWNER.bootId;
+		if (sameBoot && job.owner_pid && !isProcessAlive(job.owner_pid)) {
+			return true;
+		}
+
+		const lastSeen = job.heartbeat_at ?? job.updated_at;
+		return Date.now() - new Date(lastSeen).getTime() > HEARTBEAT_STALE_MS;
+	}
+
+	// A server process died with renders in flight. Their stdout is gone, so
+	// kill any survivors and retry from the last finished chunk.
+	private async recoverOrphanedJobs() {
+		const db = getDb();
+		const rendering = await db
+			.selectFrom("render_jobs")
+			.selectAll()
+			.where("status", "=", "rendering")
+			.execute();
+
+		let reaped = 0;
+		for (const job of rendering.filter((candidate) =>
+			this.isOrphaned(candidate),
+		)) {
+			const canRetry =
+				job.attempts < MAX_RENDER_ATTEMPTS &&
+				fsSync.existsSync(job.design_path);
+
+			// Only the process that wins the update reaps the job
+			const { numUpdatedRows } = await db
+				.updateTable("render_jobs")
+				.set(
+					canRetry
+						? { status: "queued", pid: null, updated_at: new Date() }
+						: {
+								status: "error",
+								pid: null,
+								error: "Render interrupted by a server restart",
+								finished_at: new Date(),
+								updated_at: new Date(),
+							},
+				)
+				.where("id", "=", job.id)
+				.where("status", "=", "rendering")
+				.where("attempts", "=", job.attempts)
+				.executeTakeFirst();
+			if (Number(numUpdatedRows) === 0) continue;
+			reaped++;
+
+			// A pid from another machine or an earlier boot isn't the renderer
+			if (
+				job.pid &&
+				job.owner_host === OWNER.host &&
+				job.owner_boot_id === OWNER.bootId &&
+				isProcessAlive(job.pid)
+			) {
+				console.log(
+					`[render-queue] Killing orphaned render ${job.id} (pid ${job.pid})`,
+				);
+				killProcessTree(job.pid, "SIGKILL");
+			}
+
+			console.log(
+				`[render-queue] Orphaned render ${job.id} ${canRetry ? "requeued" : "failed"}`,
+			);
+		}
+		if (reaped > 0) void this.pump();
+	}
+}
+
+// Survive Next.js dev hot reloads, which would otherwise lose child handles
+const globalForQueue = globalThis as unknown as { renderQueue?: RenderQueue };
+
+if (!globalForQueue.renderQueue) {
+	globalForQueue.renderQueue = new RenderQueue();
+}
+
+export const renderQueue = globalForQueue.renderQueue;
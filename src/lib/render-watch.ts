@@ -0,0 +1,73 @@
+import { RenderJobView, renderQueue } from "./render-queue";
+
+// One poll of the render queue per watched render, shared by every open
+// progress stream for it (several tabs, EventSource reconnects). Polling
+// stops when the last listener leaves or the render reaches a final status.
+
+const POLL_INTERVAL_MS = 500;
+
+const FINAL_STATUSES = ["completed", "error", "cancelled"];
+
+// null once the render no longer exists
+type RenderListener = (job: RenderJobView | null) => void;
+
+interface RenderWatch {
+	listeners: Set<RenderListener>;
+	latest?: RenderJobView | null;
+	timer?: ReturnType<typeof setTimeout>;
+}
+
+// Survive Next.js dev hot reloads without leaving orphaned pollers behind
+const globalForWatch = globalThis as unknown as {
+	renderWatches?: Map<string, RenderWatch>;
+};
+if (!globalForWatch.renderWatches) {
+	globalForWatch.renderWatches = new Map();
+}
+const watches = globalForWatch.renderWatches;
+
+const isFinal = (job: RenderJobView | null) =>
+	job === null || FINAL_STATUSES.includes(job.status);
+
+const poll = async (id: string, watch: RenderWatch) => {
+	try {
+		watch.latest = await renderQueue.getJob(id);
+		for (const listener of watch.listeners) listener(watch.latest);
+	} catch (error) {
+		// Keep polling; a later tick may succeed
+		console.error(`[render-watch] Failed to poll render ${id}:`, error);
+	}
+
+	if (watch.listeners.size === 0 || isFinal(watch.latest ?? null)) {
+		if (watches.get(id) === watch) watches.delete(id);
+		return;
+	}
+	watch.timer = setTimeout(() => void poll(id, watch), POLL_INTERVAL_MS);
+};
+
+/**
+ * Calls `listener` with the render's state on every poll until it reaches a
+ * final status. Returns the function that stops listening.
+ */
+export const watchRender = (id: string, listener: RenderListener) => {
+	let watch = watches.get(id);
+	if (!watch) {
+		watch = { listeners: new Set() };
+		watches.set(id, watch);
+		watch.listeners.add(listener);
+		void poll(id, watch);
+	} else {
+		watch.listeners.add(listener);
+		// Catch up with the last poll instead of waiting for the next
+		if (watch.latest !== undefined) listener(watch.latest);
+	}
+
+	const current = watch;
+	return () => {
+		current.listeners.delete(listener);
+		if (current.listeners.size === 0) {
+			clearTimeout(current.timer);
+			if (watches.get(id) === current) watches.delete(id);
+		}
+	};
+};
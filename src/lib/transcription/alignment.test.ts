@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { alignCaptions, EditableCaption, isEdited } from "./alignment";
+
+const caption = (
+	id: string,
+	word: string,
+	start: number,
+	end: number,
+	originalWord?: string,
+): EditableCaption => ({
+	id,
+	word,
+	start,
+	end,
+	...(originalWord !== undefined && { originalWord }),
+});
+
+const timings = (captions: ReturnType<typeof alignCaptions>) =>
+	captions.map(({ id, word, start, end, alignment }) => ({
+		id,
+		word,
+		start,
+		end,
+		alignment,
+	}));
+
+describe("isEdited", () => {
+	it("is false for captions that were never edited", () => {
+		assert.equal(isEdited(caption("a", "hello", 0, 1)), false);
+	});
+
+	it("ignores changes to case and punctuation", () => {
+		assert.equal(isEdited(caption("a", "Hello,", 0, 1, "hello")), false);
+	});
+
+	it("is true once the word itself changed", () => {
+		assert.equal(isEdited(caption("a", "word", 0, 1, "world")), true);
+		assert.equal(isEdited(caption("a", "", 0, 1, "world")), true);
+	});
+});
+
+describe("alignCaptions", () => {
+	const before = caption("a", "hello", 0, 0.5);
+	const after = caption("c", "again", 1, 1.5);
+
+	it("keeps unedited captions exactly", () => {
+		assert.deepEqual(timings(alignCaptions([before, after], null)), [
+			{ id: "a", word: "hello", start: 0, end: 0.5, alignment: "kept" },
+			{ id: "c", word: "again", start: 1, end: 1.5, alignment: "kept" },
+		]);
+	});
+
+	it("takes the timing of the word heard in the gap", () => {
+		const edited = caption("b", "word", 0.5, 1, "world");
+		const heard = [
+			{ word: "hello", start: 0, end: 0.5, confidence: 1 },
+			{ word: "word", start: 0.55, end: 0.95, confidence: 0.9 },
+			{ word: "again", start: 1, end: 1.5, confidence: 1 },
+		];
+		const [, aligned] = alignCaptions([before, edited, after], heard);
+		assert.deepEqual(timings([aligned]), [
+			{ id: "b", word: "word", start: 0.55, end: 0.95, alignment: "audio" },
+		]);
+		assert.equal(aligned.confidence, 0.9);
+	});
+
+	it("splits a caption edited into several words, by length without audio", () => {
+		const edited = caption("b", "new world", 0.5, 1, "world");
+		assert.deepEqual(timings(alignCaptions([before, edited, after], null)), [
+			{ id: "a", word: "hello", start: 0, end: 0.5, alignment: "kept" },
+			{ id: "b", word: "new", start: 0.5, end: 0.7, alignment: "interpolated" },
+			{
+				id: "b-2",
+				word: "world",
+				start: 0.7,
+				end: 1,
+				alignment: "interpolated",
+			},
+			{ id: "c", word: "again", start: 1, end: 1.5, alignment: "kept" },
+		]);
+	});
+
+	it("drops captions whose text was cleared", () => {
+		const cleared = caption("b", "", 0.5, 1, "world");
+		assert.deepEqual(
+			alignCaptions([before, cleared, after], null).map(({ id }) => id),
+			["a", "c"],
+		);
+	});
+
+	it("points each aligned word at the caption it came from", () => {
+		const edited = caption("b", "new world", 0.5, 1, "world");
+		assert.deepEqual(
+			alignCaptions([after, edited, before], null).map(
+				({ sourceIndex }) => sourceIndex,
+			),
+			[2, 1, 1, 0],
+		);
+	});
+});
@@ -0,0 +1,275 @@
+import type { TranscriptWord } from "./types";
+
+// Re-times captions after their words were edited in the Texts panel.
+//
+// A caption whose text still matches the word it was transcribed as keeps
+// its start and end exactly. Each run of edited captions is re-timed inside
+// the gap its unchanged neighbours leave: the run's words are aligned
+// (edit distance) to the words the engine hears in that gap, so matched and
+// substituted words take the engine's timings, and words it didn't hear are
+// spread over the time left between them by length.
+
+// Timestamps snap to 10ms; a word shorter than this can't be read
+const MIN_WORD_SECONDS = 0.1;
+
+// A caption as the Texts panel stores it. `originalWord` is set on the first
+// edit and holds what was transcribed; other fields (style, fonts, flags)
+// are carried through to the aligned captions.
+export interface EditableCaption {
+	id: string;
+	word?: string;
+	text?: string;
+	originalWord?: string;
+	start: number;
+	end: number;
+	[key: string]: unknown;
+}
+
+export type AlignmentSource = "kept" | "audio" | "interpolated";
+
+export interface AlignedCaption extends EditableCaption {
+	word: string;
+	text: string;
+	startTime: number;
+	endTime: number;
+	// Index of the caption this word came from in the edited list
+	sourceIndex: number;
+	alignment: AlignmentSource;
+}
+
+interface RunWord {
+	word: string;
+	sourceIndex: number;
+	start?: number;
+	end?: number;
+	confidence?: number;
+	alignment?: AlignmentSource;
+}
+
+export const normalizeWord = (word: string) =>
+	word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, "");
+
+const wordsOf = (caption: EditableCaption) =>
+	String(caption.word ?? caption.text ?? "")
+		.split(/\s+/)
+		.filter(Boolean);
+
+export const isEdited = (caption: EditableCaption) =>
+	caption.originalWord !== undefined &&
+	normalizeWord(String(caption.word ?? caption.text ?? "")) !==
+		normalizeWord(caption.originalWord);
+
+/**
+ * Pairs up `words` with `heard` by edit distance. Returns, for each word, the
+ * index of the heard word it matches or replaces, or -1 when it was inserted.
+ */
+const alignSequences = (words: string[], heard: string[]) => {
+	const rows = words.length + 1;
+	const cols = heard.length + 1;
+	const cost: number[][] = Array.from({ length: rows }, (_, i) =>
+		Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)),
+	);
+	for (let i = 1; i < rows; i++) {
+		for (let j = 1; j < cols; j++) {
+			const substitution =
+				normalizeWord(words[i - 1]) === normalizeWord(heard[j - 1]) ? 0 : 1;
+			cost[i][j] = Math.min(
+				cost[i - 1][j - 1] + substitution,
+				cost[i - 1][j] + 1,
+				cost[i][j - 1] + 1,
+			);
+		}
+	}
+
+	const pairs = new Array<number>(words.length).fill(-1);
+	let i = words.length;
+	let j = heard.length;
+	while (i > 0 && j > 0) {
+		const substitution =
+			normalizeWord(words[i - 1]) === normalizeWord(heard[j - 1]) ? 0 : 1;
+		if (cost[i][j] === cost[i - 1][j - 1] + substitution) {
+			pairs[i - 1] = j - 1;
+			i--;
+			j--;
+		} else if (cost[i][j] === cost[i - 1][j] + 1) {
+			i--;
+		} else {
+			j--;
+		}
+	}
+	return pairs;
+};
+
+// Spreads words over [from, to], longer words getting more time
+const interpolate = (words: RunWord[], from: number, to: number) => {
+	const weights = words.map((word) => word.word.length + 1);
+	const total = weights.reduce((sum, weight) => sum + weight, 0);
+	let cursor = from;
+	words.forEach((word, index) => {
+		word.start = cursor;
+		cursor += ((to - from) * weights[index]) / total;
+		word.end = cursor;
+		word.alignment = "interpolated";
+	});
+};
+
+const alignRun = (
+	run: RunWord[],
+	window: { from: number; to: number },
+	// The edited captions' own span, used when nothing was heard
+	fallback: { from: number; to: number },
+	heard: TranscriptWord[] | null,
+) => {
+	const inWindow = (heard ?? []).filter((word) => {
+		const middle = (word.start + word.end) / 2;
+		return middle >= window.from && middle <= window.to;
+	});
+
+	if (inWindow.length > 0) {
+		const pairs = alignSequences(
+			run.map((word) => word.word),
+			inWindow.map((word) => word.word),
+		);
+		pairs.forEach((heardIndex, index) => {
+			if (heardIndex < 0) return;
+			const match = inWindow[heardIndex];
+			run[index].start = Math.max(match.start, window.from);
+			run[index].end = Math.min(match.end, window.to);
+			run[index].confidence = match.confidence;
+			run[index].alignment = "audio";
+		});
+	}
+
+	// Whatever is left goes between its timed neighbours
+	const anyTimed = run.some((word) => word.alignment === "audio");
+	const bounds = anyTimed ? window : fallback;
+	for (let index = 0; index < run.length; ) {
+		if (run[index].alignment === "audio") {
+			index++;
+			continue;
+		}
+		let end = index;
+		while (end < run.length && run[end].alignment !== "audio") end++;
+		const from = index > 0 ? (run[index - 1].end as number) : bounds.from;
+		const to = end < run.length ? (run[end].start as number) : bounds.to;
+		interpolate(run.slice(index, end), from, Math.max(to, from));
+		index = end;
+	}
+
+	// No overlaps, and at least MIN_WORD_SECONDS each where the window allows
+	const minimum = Math.min(
+		MIN_WORD_SECONDS,
+		(window.to - window.from) / run.length,
+	);
+	let cursor = window.from;
+	for (const word of run) {
+		const start = Math.max(word.start as number, cursor);
+		word.start = start;
+		word.end = Math.max(word.end as number, start + minimum);
+		cursor = word.end;
+	}
+	const overflow = cursor - window.to;
+	if (overflow > 0) {
+		// Pushed past the next kept word: squeeze the run back into the window
+		const scale = (window.to - window.from) / (cursor - window.from);
+		for (const word of run) {
+			word.start = window.from + ((word.start as number) - window.from) * scale;
+			word.end = window.from + ((word.end as number) - window.from) * scale;
+		}
+	}
+};
+
+const round = (seconds: number) => Math.round(seconds * 1000) / 1000;
+
+/**
+ * Re-times edited captions. `heard` is a fresh transcription of the source
+ * audio, or null to interpolate without one. Captions whose text was cleared
+ * are dropped; a caption edited into several words becomes several captions.
+ */
+export const alignCaptions = (
+	captions: EditableCaption[],
+	heard: TranscriptWord[] | null,
+	mediaDuration?: number,
+): AlignedCaption[] => {
+	const aligned: AlignedCaption[] = [];
+	const sorted = [...captions].sort((a, b) => a.start - b.start);
+	const end =
+		mediaDuration ??
+		Math.max(
+			0,
+			...sorted.map((caption) => caption.end),
+			...(heard ?? []).map((word) => word.end),
+		);
+
+	const emit = (caption: EditableCaption, word: RunWord, index: number) => {
+		const { originalWord, ...rest } = caption;
+		const start = round(word.start as number);
+		const finish = round(word.end as number);
+		aligned.push({
+			...rest,
+			id: index === 0 ? caption.id : `${caption.id}-${index + 1}`,
+			word: word.word,
+			text: word.word,
+			start,
+			end: finish,
+			startTime: Math.round(start * 1000),
+			endTime: Math.round(finish * 1000),
+			...(word.alignment !== "kept" && { confidence: word.confidence }),
+			sourceIndex: word.sourceIndex,
+			alignment: word.alignment as AlignmentSource,
+		});
+	};
+
+	for (let index = 0; index < sorted.length; ) {
+		const caption = sorted[index];
+		if (!isEdited(caption)) {
+			emit(
+				caption,
+				{
+					word: String(caption.word ?? caption.text ?? ""),
+					sourceIndex: captions.indexOf(caption),
+					start: caption.start,
+					end: caption.end,
+					alignment: "kept",
+				},
+				0,
+			);
+			index++;
+			continue;
+		}
+
+		// The run of edited captions up to the next kept one
+		let runEnd = index;
+		while (runEnd < sorted.length && isEdited(sorted[runEnd])) runEnd++;
+		const edited = sorted.slice(index, runEnd);
+		const run: RunWord[] = edited.flatMap((source) =>
+			wordsOf(source).map((word) => ({
+				word,
+				sourceIndex: captions.indexOf(source),
+			})),
+		);
+
+		if (run.length > 0) {
+			const previous = index > 0 ? sorted[index - 1].end : 0;
+			const next = runEnd < sorted.length ? sorted[runEnd].start : end;
+			alignRun(
+				run,
+				{ from: previous, to: Math.max(next, previous) },
+				{
+					from: edited[0].start,
+					to: Math.max(edited[edited.length - 1].end, edited[0].start),
+				},
+				heard,
+			);
+			for (const source of edited) {
+				const words = run.filter(
+					(word) => word.sourceIndex === captions.indexOf(source),
+				);
+				words.forEach((word, wordIndex) => emit(source, word, wordIndex));
+			}
+		}
+		index = runEnd;
+	}
+
+	return aligned;
+};
@@ -0,0 +1,109 @@
+import { promises as fs } from "node:fs";
+import { extractAudioWithFFmpeg } from "../audio-extraction";
+import { Transcript, TranscriptionError, TranscriptionProvider } from "./types";
+import { createWhisperCppProvider } from "./whisper-cpp";
+
+export * from "./types";
+
+// Speech-to-text for caption jobs. The engine is picked with
+// TRANSCRIPTION_ENGINE; new engines implement TranscriptionProvider and are
+// added to PROVIDERS.
+
+const PROVIDERS: Record<string, () => TranscriptionProvider> = {
+	"whisper-cpp": createWhisperCppProvider,
+};
+
+// Longest stretch of audio that gets transcribed
+const MAX_SECONDS = Number(process.env.TRANSCRIPTION_MAX_MINUTES || 30) * 60;
+
+// The caption shape the Texts panel reads from /api/captions/:jobId
+export interface Caption {
+	id: string;
+	word: string;
+	text: string;
+	// Seconds
+	start: number;
+	end: number;
+	// Milliseconds
+	startTime: number;
+	endTime: number;
+	confidence: number;
+	vertical: boolean;
+	isVertical: boolean;
+	ominous: boolean;
+}
+
+export const getTranscriptionProvider = (
+	name = process.env.TRANSCRIPTION_ENGINE || "whisper-cpp",
+): TranscriptionProvider => {
+	const create = PROVIDERS[name];
+	if (!create) {
+		throw new TranscriptionError(
+			`Unknown transcription engine "${name}" (available: ${Object.keys(PROVIDERS).join(", ")})`,
+			false,
+		);
+	}
+	return create();
+};
+
+/**
+ * Transcribes the speech in a video or audio file: extracts the audio in the
+ * provider's format with FFmpeg, then runs the provider on it. Progress is
+ * reported 0-100, the first 10% being the extraction.
+ */
+export async function transcribeMedia(
+	inputPath: string,
+	id: string,
+	{
+		provider = getTranscriptionProvider(),
+		language = process.env.TRANSCRIPTION_LANGUAGE,
+		onProgress,
+	}: {
+		provider?: TranscriptionProvider;
+		language?: string;
+		onProgress?: (percent: number, stage: string) => void;
+	} = {},
+): Promise<Transcript> {
+	onProgress?.(0, "extracting-audio");
+	const audio = await extractAudioWithFFmpeg(inputPath, id, {
+		...provider.audio,
+		maxDuration: MAX_SECONDS,
+	});
+
+	try {
+		onProgress?.(10, "transcribing");
+		const transcript = await provider.transcribe(audio.audioPath, {
+			language,
+			onProgress: (percent) =>
+				onProgress?.(10 + Math.round(percent * 0.9), "transcribing"),
+		});
+		console.log(
+			`[transcription] ${provider.name}: ${transcript.words.length} words, ${transcript.duration.toFixed(1)}s, language ${transcript.language ?? "unknown"}`,
+		);
+		return transcript;
+	} finally {
+		await fs.unlink(audio.audioPath).catch(() => {});
+	}
+}
+
+// One caption per word. `ominous` starts off for every word; it is a style
+// the user turns on per caption in the editor.
+export const toCaptions = (
+	transcript: Transcript,
+	orientation: string,
+): Caption[] => {
+	const isVertical = orientation === "vertical";
+	return transcript.words.map((word, index) => ({
+		id: `caption-${index + 1}`,
+		word: word.word,
+		text: word.word,
+		start: word.start,
+		end: word.end,
+		startTime: Math.round(word.start * 1000),
+		endTime: Math.round(word.end * 1000),
+		confidence: word.confidence,
+		vertical: isVertical,
+		isVertical,
+		ominous: false,
+	}));
+};
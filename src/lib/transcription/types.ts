@@ -0,0 +1,55 @@
+import type { AudioExtractionOptions } from "../audio-extraction";
+
+// Times are in seconds from the start of the media
+export interface TranscriptWord {
+	word: string;
+	start: number;
+	end: number;
+	// 0-1, as reported by the engine
+	confidence: number;
+}
+
+export interface Transcript {
+	engine: string;
+	words: TranscriptWord[];
+	// Detected or requested language code, when the engine reports one
+	language: string | null;
+	duration: number;
+}
+
+export interface TranscribeOptions {
+	// ISO 639-1 code, or "auto" to let the engine detect it
+	language?: string;
+	// 0-100 through the engine's own work
+	onProgress?: (percent: number) => void;
+}
+
+export type ProviderStatus =
+	| { available: true }
+	| { available: false; reason: string };
+
+/**
+ * A speech-to-text engine. Engines get an audio file in the format they ask
+ * for in `audio` and return one entry per spoken word.
+ */
+export interface TranscriptionProvider {
+	name: string;
+	audio: AudioExtractionOptions;
+	check(): Promise<ProviderStatus>;
+	transcribe(
+		audioPath: string,
+		options?: TranscribeOptions,
+	): Promise<Transcript>;
+}
+
+// `retryable` is false for setup problems (missing binary or model) that
+// another attempt won't fix
+export class TranscriptionError extends Error {
+	constructor(
+		message: string,
+		public retryable = true,
+	) {
+		super(message);
+		this.name = "TranscriptionError";
+	}
+}
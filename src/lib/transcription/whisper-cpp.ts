@@ -0,0 +1,191 @@
+import { spawn } from "node:child_process";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+	Transcript,
+	TranscriptionError,
+	TranscriptionProvider,
+	TranscriptWord,
+} from "./types";
+
+// whisper.cpp (https://github.com/ggerganov/whisper.cpp) run as a local CLI:
+// CPU only, no network. Word timings come from splitting segments at every
+// word (--max-len 1 --split-on-word), and confidence from the token
+// probabilities in the full JSON output.
+//
+// WHISPER_CPP_BIN     the whisper-cli binary (default: whisper-cli on PATH)
+// WHISPER_CPP_MODEL   a ggml model file (default: models/ggml-base.bin)
+// WHISPER_CPP_THREADS CPU threads (default: all cores, at most 8)
+
+const BIN = process.env.WHISPER_CPP_BIN || "whisper-cli";
+const MODEL =
+	process.env.WHISPER_CPP_MODEL ||
+	path.join(process.cwd(), "models", "ggml-base.bin");
+const THREADS =
+	Number(process.env.WHISPER_CPP_THREADS) ||
+	Math.min(os.availableParallelism(), 8);
+const TIMEOUT_MS =
+	Number(process.env.TRANSCRIPTION_TIMEOUT_MINUTES || 30) * 60 * 1000;
+
+// Timestamps snap to 10ms; keep every word on screen for at least this long
+const MIN_WORD_SECONDS = 0.1;
+
+interface WhisperToken {
+	text: string;
+	p: number;
+}
+
+interface WhisperSegment {
+	offsets: { from: number; to: number };
+	text: string;
+	tokens?: WhisperToken[];
+}
+
+// Non-speech markers such as [BLANK_AUDIO] or (music)
+const isNonSpeech = (text: string) => /^(\[.*\]|\(.*\)|\*.*\*)$/.test(text);
+
+// Special tokens ([_BEG_], [_TT_123]) carry no probability worth averaging
+const confidenceOf = (tokens: WhisperToken[] = []) => {
+	const spoken = tokens.filter((token) => !token.text.startsWith("[_"));
+	if (spoken.length === 0) return 0;
+	return spoken.reduce((sum, token) => sum + token.p, 0) / spoken.length;
+};
+
+const toWords = (segments: WhisperSegment[]): TranscriptWord[] => {
+	const words: TranscriptWord[] = [];
+	for (const segment of segments) {
+		const word = segment.text.trim();
+		if (!word || isNonSpeech(word)) continue;
+		const start = segment.offsets.from / 1000;
+		words.push({
+			word,
+			start,
+			end: Math.max(segment.offsets.to / 1000, start + MIN_WORD_SECONDS),
+			confidence: Math.round(confidenceOf(segment.tokens) * 1000) / 1000,
+		});
+	}
+	return words;
+};
+
+const run = (args: string[], onProgress?: (percent: number) => void) =>
+	new Promise<void>((resolve, reject) => {
+		const child = spawn(BIN, args, { stdio: ["ignore", "ignore", "pipe"] });
+		let stderrTail = "";
+		const timeout = setTimeout(() => {
+			child.kill("SIGKILL");
+			reject(
+				new TranscriptionError(
+					`whisper.cpp timed out after ${TIMEOUT_MS / 60000} minutes`,
+				),
+			);
+		}, TIMEOUT_MS);
+
+		child.stderr.on("data", (chunk: Buffer) => {
+			const text = chunk.toString();
+			stderrTail = (stderrTail + text).slice(-2000);
+			// --print-progress writes "progress =  45%" lines
+			for (const match of text.matchAll(/progress\s*=\s*(\d+)%/g)) {
+				onProgress?.(Number(match[1]));
+			}
+		});
+		child.on("error", (error: NodeJS.ErrnoException) => {
+			clearTimeout(timeout);
+			reject(
+				error.code === "ENOENT"
+					? new TranscriptionError(
+							`whisper.cpp binary "${BIN}" not found; install whisper.cpp or set WHISPER_CPP_BIN`,
+							false,
+						)
+					: error,
+			);
+		});
+		child.on("close", (code, signal) => {
+			clearTimeout(timeout);
+			if (code === 0) {
+				resolve();
+			} else {
+				// A no-op when the timeout already rejected
+				reject(
+					new TranscriptionError(
+						`whisper.cpp exited with ${code ?? signal}: ${stderrTail.trim().split("\n").slice(-3).join(" | ")}`,
+					),
+				);
+			}
+		});
+	});
+
+export const createWhisperCppProvider = (): TranscriptionProvider => ({
+	name: "whisper-cpp",
+	// What whisper.cpp reads natively
+	audio: { format: "wav", channels: 1, sampleRate: 16000 },
+
+	async check() {
+		try {
+			await fs.access(MODEL);
+		} catch {
+			return {
+				available: false,
+				reason: `Model not found at ${MODEL}; download one with whisper.cpp's models/download-ggml-model.sh or set WHISPER_CPP_MODEL`,
+			};
+		}
+		try {
+			await run(["--help"]);
+		} catch (error) {
+			return { available: false, reason: (error as Error).message };
+		}
+		return { available: true };
+	},
+
+	async transcribe(audioPath, { language = "auto", onProgress } = {}) {
+		try {
+			await fs.access(MODEL);
+		} catch {
+			throw new TranscriptionError(
+				`whisper.cpp model not found at ${MODEL}; set WHISPER_CPP_MODEL`,
+				false,
+			);
+		}
+
+		const outputBase = path.join(
+			path.dirname(audioPath),
+			`${path.basename(audioPath, path.extname(audioPath))}.whisper`,
+		);
+		try {
+			await run(
+				[
+					"--model",
+					MODEL,
+					"--file",
+					audioPath,
+					"--threads",
+					String(THREADS),
+					"--language",
+					language,
+					"--max-len",
+					"1",
+					"--split-on-word",
+					"--output-json-full",
+					"--output-file",
+					outputBase,
+					"--print-progress",
+				],
+				onProgress,
+			);
+
+			const output = JSON.parse(
+				await fs.readFile(`${outputBase}.json`, "utf-8"),
+			);
+			const words = toWords(output.transcription ?? []);
+			const transcript: Transcript = {
+				engine: "whisper-cpp",
+				words,
+				language: output.result?.language ?? null,
+				duration: words.length > 0 ? words[words.length - 1].end : 0,
+			};
+			return transcript;
+		} finally {
+			await fs.unlink(`${outputBase}.json`).catch(() => {});
+		}
+	},
+});
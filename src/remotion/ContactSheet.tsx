@@ -0,0 +1,122 @@
+import React from "react";
+import { AbsoluteFill, Freeze } from "remotion";
+import { TimelineVideo, TimelineVideoProps } from "./TimelineVideo";
+
+export const CONTACT_SHEET_WIDTH = 1920;
+const CONTACT_SHEET_GAP = 16;
+const CONTACT_SHEET_LABEL_HEIGHT = 32;
+
+export interface ContactSheetProps extends TimelineVideoProps {
+	contactSheet?: {
+		// Absolute timeline frames, one cell each
+		frames: number[];
+		columns: number;
+	};
+}
+
+export const getContactSheetLayout = (
+	props: ContactSheetProps,
+): {
+	columns: number;
+	cellWidth: number;
+	cellHeight: number;
+	width: number;
+	height: number;
+} => {
+	const frames = props.contactSheet?.frames || [];
+	const columns = Math.max(1, props.contactSheet?.columns || 1);
+	const rows = Math.max(1, Math.ceil(frames.length / columns));
+	const designWidth = props.design?.size?.width || 1080;
+	const designHeight = props.design?.size?.height || 1920;
+
+	const cellWidth = Math.floor(
+		(CONTACT_SHEET_WIDTH - CONTACT_SHEET_GAP * (columns + 1)) / columns,
+	);
+	const cellHeight = Math.round((cellWidth * designHeight) / designWidth);
+	const height =
+		CONTACT_SHEET_GAP +
+		rows * (cellHeight + CONTACT_SHEET_LABEL_HEIGHT + CONTACT_SHEET_GAP);
+
+	return {
+		columns,
+		cellWidth,
+		cellHeight,
+		width: CONTACT_SHEET_WIDTH,
+		// Encoders and image viewers prefer even dimensions
+		height: height + (height % 2),
+	};
+};
+
+const formatTimecode = (frame: number, fps: number) => {
+	const totalSeconds = Math.floor(frame / fps);
+	const minutes = Math.floor(totalSeconds / 60);
+	const seconds = totalSeconds % 60;
+	const frames = frame % fps;
+	return `${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")}:${String(frames).padStart(2, "0")}`;
+};
+
+// N frames of the timeline laid out in a grid, rendered as one still. Each
+// cell is the regular export composition frozen at its frame and scaled down.
+export const ContactSheet: React.FC<ContactSheetProps> = (props) => {
+	const { design, contactSheet } = props;
+	if (!design || !contactSheet) {
+		return <AbsoluteFill style={{ backgroundColor: "#000000" }} />;
+	}
+
+	const fps = design.fps || 30;
+	const { columns, cellWidth, cellHeight } = getContactSheetLayout(props);
+	const cellScale = cellWidth / (design.size?.width || 1080);
+
+	return (
+		<AbsoluteFill
+			style={{
+				backgroundColor: "#111111",
+				display: "grid",
+				gridTemplateColumns: `repeat(${columns}, ${cellWidth}px)`,
+				gap: CONTACT_SHEET_GAP,
+				padding: CONTACT_SHEET_GAP,
+				alignContent: "start",
+			}}
+		>
+			{contactSheet.frames.map((frame, index) => (
+				<div key={`${frame}-${index}`}>
+					<div
+						style={{
+							position: "relative",
+							width: cellWidth,
+							height: cellHeight,
+							overflow: "hidden",
+						}}
+					>
+						<div
+							style={{
+								position: "absolute",
+								top: 0,
+								left: 0,
+								width: design.size?.width || 1080,
+								height: design.size?.height || 1920,
+								transform: `scale(${cellScale})`,
+								transformOrigin: "top left",
+							}}
+						>
+							<Freeze frame={frame}>
+								<TimelineVideo design={design} />
+							</Freeze>
+						</div>
+					</div>
+					<div
+						style={{
+							height: CONTACT_SHEET_LABEL_HEIGHT,
+							lineHeight: `${CONTACT_SHEET_LABEL_HEIGHT}px`,
+							color: "#d4d4d8",
+							fontFamily: "monospace",
+							fontSize: 18,
+						}}
+					>
+						#{index + 1} · {formatTimecode(frame, fps)}
+					</div>
+				</div>
+			))}
+		</AbsoluteFill>
+	);
+};
@@ -0,0 +1,80 @@
+import React from "react";
+import {
+	AbsoluteFill,
+	continueRender,
+	delayRender,
+	staticFile,
+} from "remotion";
+import { ITrackItem } from "@designcombo/types";
+import Composition from "../features/editor/player/composition";
+import useStore from "../features/editor/store/use-store";
+import { loadFonts } from "../features/editor/utils/fonts";
+import { TimelineVideoProps } from "./TimelineVideo";
+
+// The editor player's composition, rendered headless so its frames can be
+// compared with TimelineComposition's (scripts/visual-regression). The design
+// goes into the editor store the way the editor loads a project, and fonts
+// come from each item's fontUrl as the editor loads them. The player runs at
+// 30 fps whatever the design says, so this composition does too.
+export const PLAYER_FPS = 30;
+
+const FONT_LOAD_TIMEOUT_MS = 15000;
+
+export const PlayerParity: React.FC<TimelineVideoProps> = ({ design }) => {
+	// Seed the store before the first render of the editor composition
+	React.useState(() => {
+		const trackItems = design?.trackItems || [];
+		useStore.setState({
+			size: design?.size || { width: 1080, height: 1920 },
+			fps: design?.fps || PLAYER_FPS,
+			duration: design?.duration || 10000,
+			trackItemIds: trackItems.map((item) => item.id),
+			trackItemsMap: Object.fromEntries(
+				trackItems.map((item) => [item.id, item]),
+			) as unknown as Record<string, ITrackItem>,
+			transitionsMap: design?.transitionsMap || {},
+			activeIds: [],
+			...(design?.background && { background: design.background }),
+		});
+		return null;
+	});
+
+	const fonts = React.useMemo(() => {
+		const byName = new Map<string, string>();
+		for (const item of design?.trackItems || []) {
+			const { fontFamily, fontUrl } = item.details || {};
+			if (item.type === "text" && fontFamily && fontUrl) {
+				// The editor serves public/ at the site root; the bundle doesn't
+				byName.set(
+					fontFamily,
+					fontUrl.startsWith("/") ? staticFile(fontUrl.slice(1)) : fontUrl,
+				);
+			}
+		}
+		return Array.from(byName, ([name, url]) => ({ name, url }));
+	}, [design?.trackItems]);
+
+	const [fontHandle] = React.useState(() =>
+		delayRender("Loading editor fonts"),
+	);
+	React.useEffect(() => {
+		if (fonts.length === 0) {
+			continueRender(fontHandle);
+			return;
+		}
+		// Failed fonts fall back like they do in the editor. loadFonts never
+		// settles when none of them load, hence the timeout.
+		Promise.race([
+			loadFonts(fonts),
+			new Promise((resolve) => setTimeout(resolve, FONT_LOAD_TIMEOUT_MS)),
+		]).finally(() => continueRender(fontHandle));
+	}, [fonts, fontHandle]);
+
+	return (
+		<AbsoluteFill
+			style={{ backgroundColor: design?.background?.value || "#000000" }}
+		>
+			<Composition />
+		</AbsoluteFill>
+	);
+};
@@ -1,6 +1,12 @@
 import React from "react";
 import { Composition, registerRoot } from "remotion";
-import { TimelineVideo } from "./TimelineVideo";
+import { TimelineVideo, TimelineVideoProps } from "./TimelineVideo";
+import {
+	ContactSheet,
+	ContactSheetProps,
+	getContactSheetLayout,
+} from "./ContactSheet";
+import { PLAYER_FPS, PlayerParity } from "./PlayerParity";
 
 const RemotionRoot: React.FC = () => {
 	console.log(
@@ -69,6 +75,46 @@ const RemotionRoot: React.FC = () => {
 					}
 				}}
 			/>
+			{/* Single-frame grid of timeline frames for contact-sheet exports */}
+			<Composition
+				id="ContactSheetComposition"
+				component={ContactSheet}
+				durationInFrames={1}
+				fps={30}
+				width={1920}
+				height={1080}
+				defaultProps={{}}
+				calculateMetadata={({ props }) => {
+					const sheetProps = props as ContactSheetProps;
+					const { width, height } = getContactSheetLayout(sheetProps);
+					return {
+						durationInFrames: 1,
+						fps: sheetProps.design?.fps || 30,
+						width,
+						height,
+					};
+				}}
+			/>
+			{/* Editor player path, for the player/export visual regression harness */}
+			<Composition
+				id="PlayerParityComposition"
+				component={PlayerParity}
+				durationInFrames={300}
+				fps={PLAYER_FPS}
+				width={1080}
+				height={1920}
+				defaultProps={{}}
+				calculateMetadata={({ props }) => {
+					const design = (props as TimelineVideoProps).design;
+					const duration = design?.duration || 10000;
+					return {
+						durationInFrames: Math.round((duration / 1000) * PLAYER_FPS) || 1,
+						fps: PLAYER_FPS,
+						width: design?.size?.width || 1080,
+						height: design?.size?.height || 1920,
+					};
+				}}
+			/>
 		</>
 	);
 };
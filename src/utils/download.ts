@@ -23,7 +23,12 @@ export const download = (url: string, filename: string) => {
 			const url = window.URL.createObjectURL(blob);
 			const link = document.createElement("a");
 			link.href = url;
-			link.setAttribute("download", `${filename}.mp4`); // Specify the filename for the downloaded video
+			// Keep an explicit extension (.mov, .webm, .gif); default to .mp4
+			const hasExtension = /\.[a-z0-9]{2,4}$/i.test(filename);
+			link.setAttribute(
+				"download",
+				hasExtension ? filename : `${filename}.mp4`,
+			); // Specify the filename for the downloaded video
 			document.body.appendChild(link);
 			link.click();
 			link.parentNode?.removeChild(link);
@@ -33,3 +38,21 @@ export const download = (url: string, filename: string) => {
 			console.error("❌ [CineTune Download] Download error:", error);
 		});
 };
+
+// For files generated in the browser, e.g. caption sidecars
+export const downloadText = (
+	content: string,
+	filename: string,
+	mimeType: string,
+) => {
+	const url = window.URL.createObjectURL(
+		new Blob([content], { type: `${mimeType};charset=utf-8` }),
+	);
+	const link = document.createElement("a");
+	link.href = url;
+	link.setAttribute("download", filename);
+	document.body.appendChild(link);
+	link.click();
+	link.parentNode?.removeChild(link);
+	window.URL.revokeObjectURL(url);
+};
@@ -1,4 +1,5 @@
 import axios from "axios";
+import { getUserSessionId } from "./session";
 
 export interface EncodingJob {
 	jobId: string;
@@ -33,10 +34,11 @@ export async function startVideoEncoding(
 	fileName?: string,
 ): Promise<{ jobId: string; outputUrl: string }> {
 	try {
-		const response = await axios.post("/api/uploads/encode-video", {
-			filePath,
-			fileName,
-		});
+		const response = await axios.post(
+			"/api/uploads/encode-video",
+			{ filePath, fileName },
+			{ headers: { "x-cinetune-session": getUserSessionId() } },
+		);
 
 		if (!response.data.success) {
 			throw new Error(response.data.error || "Failed to start encoding");